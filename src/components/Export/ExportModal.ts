@@ -5,22 +5,34 @@
  * the component package as a ZIP file.
  */
 
-import type { ReactFiberNode, ComponentInfo } from '@/types';
-import { getComponentName } from '@lib/fiber-utils';
+import type { ComponentInfo } from '@/types';
 import { exportManager, type ExportOptions } from '@lib/export';
+import { getOriginalFileName } from '@lib/source-maps';
 
 export class ExportModal {
   private modalElement: HTMLDivElement | null = null;
-  private currentFiber: ReactFiberNode | null = null;
   private currentComponentInfo: ComponentInfo | null = null;
+  /** tailwind.config theme as typed, kept across re-renders */
+  private tailwindThemeText = '';
   private options: ExportOptions = {
+    mode: 'snapshot',
     typescript: true,
+    includePropTypes: true,
+    includeZodSchema: false,
+    inferTypesFromInstances: true,
+    detectLists: true,
     styleStrategy: 'css-module',
+    styleSource: 'computed',
     includeComments: true,
     includePackageJson: true,
     includeStorybook: false,
     includeTests: false,
+    includeOriginalSource: true,
     extractDepth: 'deep',
+    captureBreakpoints: false,
+    tailwindTheme: null,
+    preserveTailwindClasses: true,
+    preserveCSSModules: true,
   };
 
   constructor() {
@@ -50,13 +62,12 @@ export class ExportModal {
   /**
    * Show the export modal
    */
-  public show(fiber: ReactFiberNode, componentInfo: ComponentInfo): void {
-    if (!this.modalElement || !fiber) return;
+  public show(componentInfo: ComponentInfo): void {
+    if (!this.modalElement || !componentInfo) return;
 
-    this.currentFiber = fiber;
     this.currentComponentInfo = componentInfo;
 
-    const componentName = getComponentName(fiber);
+    const componentName = componentInfo.name;
 
     // Build modal content
     this.modalElement.innerHTML = this.buildModalHTML(componentName);
@@ -170,8 +181,51 @@ export class ExportModal {
                 JavaScript (.jsx)
               </label>
             </div>
+            <label style="
+              margin-top: 10px;
+              padding: 10px 12px;
+              border: 1px solid #dee2e6;
+              border-radius: 6px;
+              cursor: pointer;
+              font-size: 14px;
+              display: flex;
+              align-items: center;
+            ">
+              ${this.options.typescript ? `
+              <input type="checkbox" id="include-zod-schema" ${this.options.includeZodSchema ? 'checked' : ''} style="margin-right: 10px;">
+              Declare props as a Zod schema (runtime validation)
+              ` : `
+              <input type="checkbox" id="include-prop-types" ${this.options.includePropTypes ? 'checked' : ''} style="margin-right: 10px;">
+              Add propTypes (runtime validation)
+              `}
+            </label>
           </div>
 
+          ${this.currentComponentInfo?.snapshot.renderSource ? `
+          <!-- Code Mode -->
+          <div style="margin-bottom: 20px;">
+            <label style="
+              display: block;
+              font-size: 14px;
+              font-weight: 600;
+              color: #495057;
+              margin-bottom: 8px;
+            ">Code</label>
+            <select id="code-mode" style="
+              width: 100%;
+              padding: 10px 12px;
+              border: 1px solid #dee2e6;
+              border-radius: 6px;
+              font-size: 14px;
+              cursor: pointer;
+              background: white;
+            ">
+              <option value="snapshot" ${this.options.mode !== 'source' ? 'selected' : ''}>Rendered output (snapshot)</option>
+              <option value="source" ${this.options.mode === 'source' ? 'selected' : ''}>Render logic (decompiled from the bundle)</option>
+            </select>
+          </div>
+          ` : ''}
+
           <!-- Style Strategy -->
           <div style="margin-bottom: 20px;">
             <label style="
@@ -194,8 +248,88 @@ export class ExportModal {
               <option value="styled-components" ${this.options.styleStrategy === 'styled-components' ? 'selected' : ''}>Styled Components</option>
               <option value="plain-css" ${this.options.styleStrategy === 'plain-css' ? 'selected' : ''}>Plain CSS (.css)</option>
               <option value="inline" ${this.options.styleStrategy === 'inline' ? 'selected' : ''}>Inline Styles</option>
+              <option value="tailwind" ${this.options.styleStrategy === 'tailwind' ? 'selected' : ''}>Tailwind (utility classes)</option>
               <option value="none" ${this.options.styleStrategy === 'none' ? 'selected' : ''}>No Styles</option>
             </select>
+            <textarea id="tailwind-theme" placeholder='tailwind.config theme (JSON), e.g. { "extend": { "colors": { "brand": "#ff5a1f" } } }' style="
+              display: ${this.options.styleStrategy === 'tailwind' ? 'block' : 'none'};
+              width: 100%;
+              box-sizing: border-box;
+              margin-top: 10px;
+              padding: 10px 12px;
+              border: 1px solid #dee2e6;
+              border-radius: 6px;
+              font-family: 'Monaco', 'Menlo', monospace;
+              font-size: 12px;
+              min-height: 80px;
+              resize: vertical;
+            ">${this.escapeHtml(this.tailwindThemeText)}</textarea>
+          </div>
+
+          <!-- Style Source -->
+          <div style="margin-bottom: 20px;">
+            <label style="
+              display: block;
+              font-size: 14px;
+              font-weight: 600;
+              color: #495057;
+              margin-bottom: 8px;
+            ">Style Source</label>
+            <select id="style-source" style="
+              width: 100%;
+              padding: 10px 12px;
+              border: 1px solid #dee2e6;
+              border-radius: 6px;
+              font-size: 14px;
+              cursor: pointer;
+              background: white;
+            ">
+              <option value="computed" ${this.options.styleSource === 'computed' ? 'selected' : ''}>Computed values</option>
+              <option value="rules" ${this.options.styleSource === 'rules' ? 'selected' : ''}>Stylesheet rules (:hover, @media, variables)</option>
+            </select>
+            <label style="
+              margin-top: 10px;
+              padding: 10px 12px;
+              border: 1px solid #dee2e6;
+              border-radius: 6px;
+              cursor: pointer;
+              font-size: 14px;
+              display: flex;
+              align-items: center;
+            ">
+              <input type="checkbox" id="capture-breakpoints" ${this.options.captureBreakpoints ? 'checked' : ''} style="margin-right: 10px;">
+              Capture responsive breakpoints (computed values)
+            </label>
+            ${this.currentComponentInfo?.tailwind ? `
+            <label style="
+              margin-top: 10px;
+              padding: 10px 12px;
+              border: 1px solid #dee2e6;
+              border-radius: 6px;
+              cursor: pointer;
+              font-size: 14px;
+              display: flex;
+              align-items: center;
+            ">
+              <input type="checkbox" id="preserve-tailwind" ${this.options.preserveTailwindClasses ? 'checked' : ''} style="margin-right: 10px;">
+              Keep the page's Tailwind classes (${this.currentComponentInfo.tailwind.resolved.length} found${this.currentComponentInfo.tailwind.unresolved.length > 0 ? `, ${this.currentComponentInfo.tailwind.unresolved.length} without a rule` : ''})
+            </label>
+            ` : ''}
+            ${this.currentComponentInfo?.cssModules ? `
+            <label id="preserve-css-modules-option" style="
+              margin-top: 10px;
+              padding: 10px 12px;
+              border: 1px solid #dee2e6;
+              border-radius: 6px;
+              cursor: pointer;
+              font-size: 14px;
+              display: ${this.options.styleStrategy === 'css-module' ? 'flex' : 'none'};
+              align-items: center;
+            ">
+              <input type="checkbox" id="preserve-css-modules" ${this.options.preserveCSSModules ? 'checked' : ''} style="margin-right: 10px;">
+              Regenerate the page's CSS Modules (${Object.keys(this.currentComponentInfo.cssModules.classes).length} classes, ${this.currentComponentInfo.cssModules.rules.length} rules)
+            </label>
+            ` : ''}
           </div>
 
           <!-- Extract Depth -->
@@ -259,6 +393,32 @@ export class ExportModal {
                 <input type="checkbox" id="include-comments" ${this.options.includeComments ? 'checked' : ''} style="margin-right: 10px;">
                 Include code comments
               </label>
+              <label style="
+                padding: 10px 12px;
+                border: 1px solid #dee2e6;
+                border-radius: 6px;
+                cursor: pointer;
+                font-size: 14px;
+                display: flex;
+                align-items: center;
+              ">
+                <input type="checkbox" id="detect-lists" ${this.options.detectLists ? 'checked' : ''} style="margin-right: 10px;">
+                Write repeated elements as .map() loops
+              </label>
+              ${this.currentComponentInfo?.instances && this.currentComponentInfo.instances.length > 1 ? `
+              <label style="
+                padding: 10px 12px;
+                border: 1px solid #dee2e6;
+                border-radius: 6px;
+                cursor: pointer;
+                font-size: 14px;
+                display: flex;
+                align-items: center;
+              ">
+                <input type="checkbox" id="infer-types-from-instances" ${this.options.inferTypesFromInstances ? 'checked' : ''} style="margin-right: 10px;">
+                Infer prop types from all ${this.currentComponentInfo.instances.length} instances on the page
+              </label>
+              ` : ''}
               <label style="
                 padding: 10px 12px;
                 border: 1px solid #dee2e6;
@@ -295,6 +455,20 @@ export class ExportModal {
                 <input type="checkbox" id="include-tests" ${this.options.includeTests ? 'checked' : ''} style="margin-right: 10px;">
                 Include test template
               </label>
+              ${this.currentComponentInfo?.originalSource?.code ? `
+              <label style="
+                padding: 10px 12px;
+                border: 1px solid #dee2e6;
+                border-radius: 6px;
+                cursor: pointer;
+                font-size: 14px;
+                display: flex;
+                align-items: center;
+              ">
+                <input type="checkbox" id="include-original-source" ${this.options.includeOriginalSource ? 'checked' : ''} style="margin-right: 10px;">
+                Include original source (${this.escapeHtml(getOriginalFileName(this.currentComponentInfo.originalSource.fileName))})
+              </label>
+              ` : ''}
             </div>
           </div>
 
@@ -374,14 +548,80 @@ export class ExportModal {
         const target = e.target as HTMLInputElement;
         this.options.typescript = target.value === 'typescript';
         this.updatePreview();
-        this.show(this.currentFiber!, this.currentComponentInfo!);
+        this.show(this.currentComponentInfo!);
       });
     });
 
+    // Runtime props validation (the checkbox shown depends on the language)
+    const zodCheck = this.modalElement.querySelector('#include-zod-schema') as HTMLInputElement;
+    zodCheck?.addEventListener('change', (e) => {
+      this.options.includeZodSchema = (e.target as HTMLInputElement).checked;
+      this.updatePreview();
+    });
+
+    const propTypesCheck = this.modalElement.querySelector('#include-prop-types') as HTMLInputElement;
+    propTypesCheck?.addEventListener('change', (e) => {
+      this.options.includePropTypes = (e.target as HTMLInputElement).checked;
+      this.updatePreview();
+    });
+
+    // Tailwind theme; invalid JSON keeps the last valid theme
+    const themeInput = this.modalElement.querySelector('#tailwind-theme') as HTMLTextAreaElement;
+    themeInput?.addEventListener('input', () => {
+      this.tailwindThemeText = themeInput.value;
+      const text = themeInput.value.trim();
+      try {
+        this.options.tailwindTheme = text ? JSON.parse(text) : null;
+        themeInput.style.borderColor = '#dee2e6';
+      } catch {
+        themeInput.style.borderColor = '#dc3545';
+        return;
+      }
+      this.updatePreview();
+    });
+
     // Style strategy
     const styleSelect = this.modalElement.querySelector('#style-strategy') as HTMLSelectElement;
     styleSelect?.addEventListener('change', (e) => {
       this.options.styleStrategy = (e.target as HTMLSelectElement).value as any;
+      if (themeInput) {
+        themeInput.style.display = this.options.styleStrategy === 'tailwind' ? 'block' : 'none';
+      }
+      const cssModulesOption = this.modalElement?.querySelector('#preserve-css-modules-option') as HTMLElement | null;
+      if (cssModulesOption) {
+        cssModulesOption.style.display = this.options.styleStrategy === 'css-module' ? 'flex' : 'none';
+      }
+      this.updatePreview();
+    });
+
+    // Code mode
+    const modeSelect = this.modalElement.querySelector('#code-mode') as HTMLSelectElement;
+    modeSelect?.addEventListener('change', (e) => {
+      this.options.mode = (e.target as HTMLSelectElement).value as 'snapshot' | 'source';
+      this.updatePreview();
+    });
+
+    // Style source
+    const sourceSelect = this.modalElement.querySelector('#style-source') as HTMLSelectElement;
+    sourceSelect?.addEventListener('change', (e) => {
+      this.options.styleSource = (e.target as HTMLSelectElement).value as 'computed' | 'rules';
+      this.updatePreview();
+    });
+
+    const breakpointsCheck = this.modalElement.querySelector('#capture-breakpoints') as HTMLInputElement;
+    breakpointsCheck?.addEventListener('change', (e) => {
+      this.options.captureBreakpoints = (e.target as HTMLInputElement).checked;
+    });
+
+    const tailwindCheck = this.modalElement.querySelector('#preserve-tailwind') as HTMLInputElement;
+    tailwindCheck?.addEventListener('change', (e) => {
+      this.options.preserveTailwindClasses = (e.target as HTMLInputElement).checked;
+      this.updatePreview();
+    });
+
+    const cssModulesCheck = this.modalElement.querySelector('#preserve-css-modules') as HTMLInputElement;
+    cssModulesCheck?.addEventListener('change', (e) => {
+      this.options.preserveCSSModules = (e.target as HTMLInputElement).checked;
       this.updatePreview();
     });
 
@@ -402,6 +642,18 @@ export class ExportModal {
       this.updatePreview();
     });
 
+    const listsCheck = this.modalElement.querySelector('#detect-lists') as HTMLInputElement;
+    listsCheck?.addEventListener('change', (e) => {
+      this.options.detectLists = (e.target as HTMLInputElement).checked;
+      this.updatePreview();
+    });
+
+    const instancesCheck = this.modalElement.querySelector('#infer-types-from-instances') as HTMLInputElement;
+    instancesCheck?.addEventListener('change', (e) => {
+      this.options.inferTypesFromInstances = (e.target as HTMLInputElement).checked;
+      this.updatePreview();
+    });
+
     const packageCheck = this.modalElement.querySelector('#include-package-json') as HTMLInputElement;
     packageCheck?.addEventListener('change', (e) => {
       this.options.includePackageJson = (e.target as HTMLInputElement).checked;
@@ -420,6 +672,12 @@ export class ExportModal {
       this.updatePreview();
     });
 
+    const originalSourceCheck = this.modalElement.querySelector('#include-original-source') as HTMLInputElement;
+    originalSourceCheck?.addEventListener('change', (e) => {
+      this.options.includeOriginalSource = (e.target as HTMLInputElement).checked;
+      this.updatePreview();
+    });
+
     // Click backdrop to close
     this.modalElement.addEventListener('click', (e) => {
       if (e.target === this.modalElement) {
@@ -432,12 +690,12 @@ export class ExportModal {
    * Update preview
    */
   private updatePreview(): void {
-    if (!this.modalElement || !this.currentFiber || !this.currentComponentInfo) return;
+    if (!this.modalElement || !this.currentComponentInfo) return;
 
-    const componentName = getComponentName(this.currentFiber);
+    const componentName = this.currentComponentInfo.name;
 
     // Update file list
-    const fileList = exportManager.getExportFileList(componentName, this.options);
+    const fileList = exportManager.getExportFileList(componentName, this.options, this.currentComponentInfo);
     const fileListEl = this.modalElement.querySelector('#file-list');
     if (fileListEl) {
       fileListEl.innerHTML = fileList.map((file) => `📄 ${file}`).join('<br>');
@@ -455,7 +713,7 @@ export class ExportModal {
    * Handle export
    */
   private async handleExport(): Promise<void> {
-    if (!this.currentFiber || !this.currentComponentInfo) return;
+    if (!this.currentComponentInfo) return;
 
     const downloadBtn = this.modalElement?.querySelector('#export-download') as HTMLButtonElement;
     if (downloadBtn) {
@@ -464,11 +722,13 @@ export class ExportModal {
     }
 
     try {
-      await exportManager.exportAsZip(
-        this.currentFiber,
+      const { warnings } = await exportManager.exportAsZip(
         this.currentComponentInfo,
         this.options
       );
+      if (warnings.length > 0) {
+        alert(`Exported with warnings:\n\n${warnings.join('\n')}`);
+      }
 
       // Success
       if (downloadBtn) {
@@ -488,6 +748,15 @@ export class ExportModal {
     }
   }
 
+  /**
+   * Escape HTML for safe display
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
   /**
    * Destroy the modal
    */
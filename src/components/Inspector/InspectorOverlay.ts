@@ -1,26 +1,43 @@
 /**
  * Inspector Overlay - Visual component inspector with hover highlighting and selection
+ *
+ * Runs in the top frame only and also listens in same-origin frames, whose
+ * elements are inspected through their own page agents (see frames.ts).
+ * While the selected component is recorded, clicks and keys reach the page,
+ * so the user can open, load or fail it and every distinct look is kept.
  */
 
 import {
-  getFiberFromElement,
-  getComponentName,
-  getNearestComponentFiber,
-  getParentFiber,
-  getChildrenFibers,
   buildComponentInfo,
+  getFiberTagName,
+  toStoredComponentInfo,
 } from '@lib/fiber-utils';
 import { quickGenerate } from '@lib/code-generator';
+import {
+  pageBridge,
+  getBridgeForElement,
+  getFrameDocument,
+  getSameOriginFrames,
+  getTopFrameRect,
+  type FiberSummary,
+  type PageBridge,
+} from '@lib/bridge';
+import { findOriginalSource, isMinifiedName } from '@lib/source-maps';
 import { PreviewPanel } from '@/components/Preview/PreviewPanel';
 import { ExportModal } from '@/components/Export/ExportModal';
-import type { ReactFiberNode } from '@/types';
+import type { ComponentInfo, FiberSnapshot, OriginalSource } from '@/types';
+
+/**
+ * Maximum subtree depth of captured snapshots and recorded variants
+ */
+const CAPTURE_DEPTH = 25;
 
 interface InspectorState {
   active: boolean;
   hoveredElement: HTMLElement | null;
-  hoveredFiber: ReactFiberNode | null;
+  hoveredFiber: FiberSummary | null;
   selectedElement: HTMLElement | null;
-  selectedFiber: ReactFiberNode | null;
+  selectedFiber: FiberSummary | null;
 }
 
 export class InspectorOverlay {
@@ -33,15 +50,27 @@ export class InspectorOverlay {
   };
 
   private overlayElement: HTMLDivElement | null = null;
+  /** Highlights of elements rendered through portals, reused between updates */
+  private portalOverlayElements: HTMLDivElement[] = [];
+  /** Documents listened to: this one and those of same-origin frames */
+  private listenedDocuments = new Set<Document>();
   private tooltipElement: HTMLDivElement | null = null;
   private infoPanelElement: HTMLDivElement | null = null;
   private previewPanel: PreviewPanel;
   private exportModal: ExportModal;
+  private hoverRequestId = 0;
+  /** Recording of the selected component's variants, while it runs */
+  private recording: { fiberId: string; bridge: PageBridge; stopListening: () => void } | null = null;
+  /** Whether a recording is waiting for the page agent to start it */
+  private startingRecording = false;
+  /** Variants of the last recording, until another component is selected */
+  private recordedVariants: { fiberId: string; variants: FiberSnapshot[] } | null = null;
 
   private boundHandlers = {
     handleMouseMove: this.handleMouseMove.bind(this),
     handleClick: this.handleClick.bind(this),
     handleKeyDown: this.handleKeyDown.bind(this),
+    handleFrameLoad: this.handleFrameLoad.bind(this),
   };
 
   constructor() {
@@ -119,10 +148,9 @@ export class InspectorOverlay {
     if (this.tooltipElement) document.body.appendChild(this.tooltipElement);
     if (this.infoPanelElement) document.body.appendChild(this.infoPanelElement);
 
-    // Add event listeners
-    document.addEventListener('mousemove', this.boundHandlers.handleMouseMove, true);
-    document.addEventListener('click', this.boundHandlers.handleClick, true);
-    document.addEventListener('keydown', this.boundHandlers.handleKeyDown, true);
+    // Add event listeners, in same-origin frames too
+    this.listenTo(document);
+    getSameOriginFrames().forEach((frame) => this.listenTo(frame.document));
 
     console.log('React Component Cloner: Inspector activated');
   }
@@ -137,13 +165,20 @@ export class InspectorOverlay {
 
     // Remove elements from DOM
     if (this.overlayElement) this.overlayElement.remove();
+    this.portalOverlayElements.forEach((element) => element.remove());
+    this.portalOverlayElements = [];
     if (this.tooltipElement) this.tooltipElement.remove();
     if (this.infoPanelElement) this.infoPanelElement.remove();
 
     // Remove event listeners
-    document.removeEventListener('mousemove', this.boundHandlers.handleMouseMove, true);
-    document.removeEventListener('click', this.boundHandlers.handleClick, true);
-    document.removeEventListener('keydown', this.boundHandlers.handleKeyDown, true);
+    this.listenedDocuments.forEach((listened) => {
+      listened.removeEventListener('mousemove', this.boundHandlers.handleMouseMove, true);
+      listened.removeEventListener('click', this.boundHandlers.handleClick, true);
+      listened.removeEventListener('keydown', this.boundHandlers.handleKeyDown, true);
+      listened.removeEventListener('load', this.boundHandlers.handleFrameLoad, true);
+    });
+    this.listenedDocuments.clear();
+    this.discardRecording();
 
     // Clear state
     this.state.hoveredElement = null;
@@ -154,71 +189,179 @@ export class InspectorOverlay {
     console.log('React Component Cloner: Inspector deactivated');
   }
 
+  /**
+   * Listen for inspector events in a document
+   */
+  private listenTo(target: Document): void {
+    if (this.listenedDocuments.has(target)) return;
+    this.listenedDocuments.add(target);
+
+    target.addEventListener('mousemove', this.boundHandlers.handleMouseMove, true);
+    target.addEventListener('click', this.boundHandlers.handleClick, true);
+    target.addEventListener('keydown', this.boundHandlers.handleKeyDown, true);
+    // `load` does not bubble, but frames (re)loading are seen while capturing
+    target.addEventListener('load', this.boundHandlers.handleFrameLoad, true);
+  }
+
+  /**
+   * Start listening in frames that were added or navigated while active
+   */
+  private handleFrameLoad(e: Event): void {
+    if (!this.state.active) return;
+
+    const frameDocument = getFrameDocument(e.target as Element);
+    if (!frameDocument?.defaultView) return;
+
+    this.listenTo(frameDocument);
+    getSameOriginFrames(frameDocument).forEach((frame) => this.listenTo(frame.document));
+  }
+
+  /**
+   * Get the element an event happened on, inside open shadow roots
+   * (`e.target` is retargeted to the shadow host)
+   */
+  private getEventTarget(e: Event): HTMLElement {
+    const [first] = e.composedPath();
+    const isElement = !!first && (first as Node).nodeType === Node.ELEMENT_NODE;
+    return (isElement ? first : e.target) as HTMLElement;
+  }
+
   /**
    * Handle mouse move to highlight elements
    */
   private handleMouseMove(e: MouseEvent): void {
-    if (!this.state.active) return;
+    // The selection stays highlighted while it is recorded
+    if (!this.state.active || this.recording) return;
 
     // Don't highlight our own elements
-    const target = e.target as HTMLElement;
+    const target = this.getEventTarget(e);
     if (this.isInspectorElement(target)) return;
 
-    // Get fiber from element
-    const fiber = getFiberFromElement(target);
-    if (!fiber) {
-      this.hideOverlay();
-      return;
-    }
+    // Same element as before, nothing to look up
+    if (target === this.state.hoveredElement) return;
+    this.state.hoveredElement = target;
 
-    // Get nearest component fiber
-    const componentFiber = getNearestComponentFiber(fiber) || fiber;
+    // Ask the page agent for the nearest component fiber
+    const requestId = ++this.hoverRequestId;
+    this.inspectElement(target)
+      .then((componentFiber) => {
+        // Ignore answers for elements the mouse has already left
+        if (requestId !== this.hoverRequestId || !this.state.active) return;
 
-    // Update state
-    this.state.hoveredElement = target;
-    this.state.hoveredFiber = componentFiber;
+        if (!componentFiber) {
+          this.hideOverlay();
+          return;
+        }
+
+        // Update state
+        this.state.hoveredFiber = componentFiber;
 
-    // Update overlay
-    this.updateOverlay(target, componentFiber);
+        // Update overlay
+        this.updateOverlay(target, componentFiber);
+      })
+      .catch((error) => {
+        console.warn('React Component Cloner: Failed to inspect element', error);
+        this.hideOverlay();
+      });
   }
 
   /**
    * Handle click to select element
    */
   private handleClick(e: MouseEvent): void {
-    if (!this.state.active) return;
+    // While recording, clicks belong to the page
+    if (!this.state.active || this.recording) return;
 
-    const target = e.target as HTMLElement;
+    const target = this.getEventTarget(e);
     if (this.isInspectorElement(target)) return;
 
     e.preventDefault();
     e.stopPropagation();
 
-    // Get fiber from element
-    const fiber = getFiberFromElement(target);
-    if (!fiber) return;
+    this.inspectElement(target)
+      .then((componentFiber) => {
+        if (!componentFiber || !this.state.active) return;
+
+        // Update selected state
+        this.discardRecording();
+        this.state.selectedElement = target;
+        this.state.selectedFiber = componentFiber;
+
+        // Show info panel
+        this.showInfoPanel(componentFiber);
+
+        console.log('React Component Cloner: Component selected', componentFiber);
+      })
+      .catch((error) => {
+        console.error('React Component Cloner: Failed to select component', error);
+      });
+  }
+
+  /**
+   * Resolve the nearest component fiber for a DOM element via the page agent
+   * of the element's frame
+   */
+  private async inspectElement(element: HTMLElement): Promise<FiberSummary | null> {
+    const bridge = getBridgeForElement(element);
+    const { fiber } = await bridge.request('INSPECT_ELEMENT', {
+      nodeId: bridge.markElement(element),
+    });
+    return fiber;
+  }
+
+  /**
+   * Get the bridge to the page agent of the selected component's frame
+   */
+  private getSelectedBridge(): PageBridge {
+    return this.state.selectedElement ? getBridgeForElement(this.state.selectedElement) : pageBridge;
+  }
+
+  /**
+   * Capture the selected component as a snapshot and build its info
+   */
+  private async captureSelectedComponent(): Promise<ComponentInfo | null> {
+    if (!this.state.selectedFiber) return null;
+
+    const bridge = this.getSelectedBridge();
+    const snapshot = await bridge.captureSnapshot(this.state.selectedFiber.id, CAPTURE_DEPTH);
+    if (!snapshot) return null;
 
-    // Get nearest component fiber
-    const componentFiber = getNearestComponentFiber(fiber) || fiber;
+    const info = buildComponentInfo(snapshot, (nodeId) => bridge.findElement(nodeId), true, 3);
 
-    // Update selected state
-    this.state.selectedElement = target;
-    this.state.selectedFiber = componentFiber;
+    const variants = await this.getRecordedVariants(this.state.selectedFiber.id);
+    if (variants.length > 0) info.variants = variants;
 
-    // Show info panel
-    this.showInfoPanel(componentFiber);
+    // Other mounted instances tell required props and literal values apart
+    const { instances } = await bridge
+      .request('COLLECT_INSTANCES', { fiberId: this.state.selectedFiber.id })
+      .catch((error) => {
+        console.warn('React Component Cloner: Failed to collect instances', error);
+        return { instances: [] };
+      });
+    if (instances.length > 1) info.instances = instances;
 
-    console.log('React Component Cloner: Component selected', {
-      name: getComponentName(componentFiber),
-      fiber: componentFiber,
+    // Production bundles: the original file and names come from source maps
+    const frameWindow = this.state.selectedElement?.ownerDocument.defaultView || window;
+    const originalSource = await findOriginalSource(snapshot, frameWindow).catch((error) => {
+      console.warn('React Component Cloner: Failed to resolve original source', error);
+      return null;
     });
+    if (originalSource) {
+      info.originalSource = originalSource;
+      if (originalSource.name && isMinifiedName(info.name)) {
+        info.name = snapshot.name = originalSource.name;
+      }
+    }
+
+    return info;
   }
 
   /**
    * Handle keyboard shortcuts
    */
   private handleKeyDown(e: KeyboardEvent): void {
-    if (!this.state.active) return;
+    // While recording, only Escape (which ends it) is the inspector's
+    if (!this.state.active || (this.recording && e.key !== 'Escape')) return;
 
     switch (e.key) {
       case 'Escape':
@@ -252,11 +395,11 @@ export class InspectorOverlay {
   /**
    * Update the overlay highlight
    */
-  private updateOverlay(element: HTMLElement, fiber: ReactFiberNode): void {
+  private updateOverlay(element: HTMLElement, fiber: FiberSummary): void {
     if (!this.overlayElement || !this.tooltipElement) return;
 
-    // Get element bounding box
-    const rect = element.getBoundingClientRect();
+    // Get element bounding box (in this frame's viewport, for elements of frames)
+    const rect = getTopFrameRect(element);
 
     // Update overlay position and size
     this.overlayElement.style.display = 'block';
@@ -266,8 +409,7 @@ export class InspectorOverlay {
     this.overlayElement.style.height = `${rect.height}px`;
 
     // Update tooltip
-    const componentName = getComponentName(fiber);
-    this.tooltipElement.textContent = `<${componentName} />`;
+    this.tooltipElement.textContent = `<${fiber.name} />`;
     this.tooltipElement.style.display = 'block';
 
     // Position tooltip above element
@@ -276,6 +418,63 @@ export class InspectorOverlay {
 
     this.tooltipElement.style.left = `${tooltipX}px`;
     this.tooltipElement.style.top = `${tooltipY}px`;
+
+    this.updatePortalOverlays(element, fiber);
+  }
+
+  /**
+   * Highlight the elements a component renders through portals
+   * Modals, tooltips and dropdowns sit under their portal's container, away
+   * from the component's own element.
+   */
+  private updatePortalOverlays(element: HTMLElement, fiber: FiberSummary): void {
+    const bridge = getBridgeForElement(element);
+    const elements = fiber.portalNodeIds
+      .map((nodeId) => bridge.findElement(nodeId))
+      .filter((element): element is HTMLElement => element !== null);
+
+    elements.forEach((portalElement, index) => {
+      let overlay = this.portalOverlayElements[index];
+      if (!overlay) {
+        overlay = document.createElement('div');
+        overlay.className = 'react-component-cloner-portal-overlay';
+        overlay.style.cssText = `
+          position: absolute;
+          pointer-events: none;
+          z-index: 2147483646;
+          border: 2px dashed #9945ff;
+          background: rgba(153, 69, 255, 0.08);
+          display: none;
+        `;
+        overlay.innerHTML = `<span style="
+          position: absolute;
+          top: -20px;
+          left: -2px;
+          padding: 2px 6px;
+          background: #9945ff;
+          color: white;
+          border-radius: 3px;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+          font-size: 11px;
+          font-weight: 600;
+          white-space: nowrap;
+        ">Portal</span>`;
+        this.portalOverlayElements.push(overlay);
+      }
+      if (!overlay.isConnected) document.body.appendChild(overlay);
+
+      const rect = getTopFrameRect(portalElement);
+      overlay.style.display = 'block';
+      overlay.style.left = `${rect.left + window.scrollX}px`;
+      overlay.style.top = `${rect.top + window.scrollY}px`;
+      overlay.style.width = `${rect.width}px`;
+      overlay.style.height = `${rect.height}px`;
+    });
+
+    // Hide highlights left over from a component with more portals
+    this.portalOverlayElements.slice(elements.length).forEach((overlay) => {
+      overlay.style.display = 'none';
+    });
   }
 
   /**
@@ -288,15 +487,18 @@ export class InspectorOverlay {
     if (this.tooltipElement) {
       this.tooltipElement.style.display = 'none';
     }
+    this.portalOverlayElements.forEach((overlay) => {
+      overlay.style.display = 'none';
+    });
   }
 
   /**
    * Show the info panel for selected component
    */
-  private showInfoPanel(fiber: ReactFiberNode): void {
+  private showInfoPanel(fiber: FiberSummary): void {
     if (!this.infoPanelElement) return;
 
-    const componentName = getComponentName(fiber);
+    const componentName = fiber.name;
 
     // Build info panel HTML
     const html = `
@@ -320,8 +522,13 @@ export class InspectorOverlay {
           ">&times;</button>
         </div>
         <div style="margin-top: 8px; font-size: 12px; color: #6c757d;">
-          Type: ${fiber.type?.name || typeof fiber.type || 'Unknown'}
+          Type: ${getFiberTagName(fiber.tag)}
         </div>
+        <div id="variant-status" style="margin-top: 4px; font-size: 12px; color: #dc3545; display: none;"></div>
+        ${fiber.portalNodeIds.length > 0 ? `
+        <div style="margin-top: 4px; font-size: 12px; color: #9945ff;">
+          Renders ${fiber.portalNodeIds.length} element${fiber.portalNodeIds.length === 1 ? '' : 's'} through a portal
+        </div>` : ''}
       </div>
 
       <div style="padding: 16px;">
@@ -394,6 +601,17 @@ export class InspectorOverlay {
               color: white;
               box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
             ">📦 Export Package</button>
+            <button id="record-variants" style="
+              width: 100%;
+              padding: 12px;
+              background: #fff;
+              border: 1px solid #dc3545;
+              border-radius: 6px;
+              font-size: 14px;
+              font-weight: 600;
+              cursor: pointer;
+              color: #dc3545;
+            ">⏺ Record Variants</button>
           </div>
         </div>
 
@@ -436,27 +654,146 @@ export class InspectorOverlay {
     if (exportBtn) {
       exportBtn.addEventListener('click', () => this.exportComponent());
     }
+
+    const recordBtn = this.infoPanelElement.querySelector('#record-variants');
+    if (recordBtn) {
+      recordBtn.addEventListener('click', () => this.toggleRecording());
+    }
+
+    this.updateRecordingStatus();
   }
 
   /**
-   * Preview component in preview panel
+   * Start or stop recording the selected component's variants
    */
-  private previewComponent(): void {
-    if (!this.state.selectedFiber) return;
+  private async toggleRecording(): Promise<void> {
+    if (this.recording) {
+      await this.stopRecording();
+    } else {
+      await this.startRecording();
+    }
+  }
+
+  /**
+   * Record every distinct look of the selected component while the user
+   * interacts with the page (captured by its page agent after each commit)
+   */
+  private async startRecording(): Promise<void> {
+    if (!this.state.selectedFiber || this.recording || this.startingRecording) return;
+
+    const fiberId = this.state.selectedFiber.id;
+    const bridge = this.getSelectedBridge();
+    const stopListening = bridge.onEvent('VARIANT_RECORDED', (event) => {
+      if (event.fiberId === fiberId) this.updateRecordingStatus(event.count);
+    });
+
+    this.startingRecording = true;
+    try {
+      const { count } = await bridge.request('START_RECORDING', { fiberId, maxDepth: CAPTURE_DEPTH });
+
+      // The selection changed while the agent started: nobody wants this recording
+      if (this.state.selectedFiber?.id !== fiberId) {
+        stopListening();
+        bridge.request('STOP_RECORDING', { fiberId }).catch((error) => {
+          console.warn('React Component Cloner: Failed to stop recording', error);
+        });
+        return;
+      }
+
+      this.recording = { fiberId, bridge, stopListening };
+      this.recordedVariants = null;
+      this.updateRecordingStatus(count);
+      console.log('React Component Cloner: Recording variants of', this.state.selectedFiber.name);
+    } catch (error) {
+      stopListening();
+      console.error('React Component Cloner: Failed to start recording', error);
+      alert(`Could not record this component: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      this.startingRecording = false;
+    }
+  }
+
+  /**
+   * Stop recording and keep the variants for preview and export
+   */
+  private async stopRecording(): Promise<void> {
+    const recording = this.recording;
+    if (!recording) return;
 
-    const componentName = getComponentName(this.state.selectedFiber);
+    this.recording = null;
+    recording.stopListening();
 
-    console.log('React Component Cloner: Previewing component', {
-      name: componentName,
-      fiber: this.state.selectedFiber,
+    try {
+      const { variants } = await recording.bridge.request('STOP_RECORDING', { fiberId: recording.fiberId });
+      this.recordedVariants = { fiberId: recording.fiberId, variants };
+      console.log(`React Component Cloner: Recorded ${variants.length} variant(s)`);
+    } catch (error) {
+      console.error('React Component Cloner: Failed to stop recording', error);
+    }
+    this.updateRecordingStatus();
+  }
+
+  /**
+   * Drop the recording and its variants (the selection changed)
+   */
+  private discardRecording(): void {
+    const recording = this.recording;
+    this.recording = null;
+    this.recordedVariants = null;
+    if (!recording) return;
+
+    recording.stopListening();
+    recording.bridge.request('STOP_RECORDING', { fiberId: recording.fiberId }).catch((error) => {
+      console.warn('React Component Cloner: Failed to stop recording', error);
     });
+  }
+
+  /**
+   * Get the variants recorded for a component so far
+   */
+  private async getRecordedVariants(fiberId: string): Promise<FiberSnapshot[]> {
+    if (this.recording?.fiberId === fiberId) {
+      const { variants } = await this.recording.bridge.request('GET_VARIANTS', { fiberId });
+      return variants;
+    }
+    return this.recordedVariants?.fiberId === fiberId ? this.recordedVariants.variants : [];
+  }
+
+  /**
+   * Show the recording state in the info panel
+   * @param count - Variants recorded so far (while recording)
+   */
+  private updateRecordingStatus(count: number = 0): void {
+    const button = this.infoPanelElement?.querySelector<HTMLButtonElement>('#record-variants');
+    const status = this.infoPanelElement?.querySelector<HTMLDivElement>('#variant-status');
+    if (!button || !status) return;
+
+    const recorded = this.recordedVariants?.variants.length || 0;
+    if (this.recording) {
+      button.textContent = '⏹ Stop Recording';
+      status.textContent = `● Recording: ${count} variant${count === 1 ? '' : 's'} (interact with the page)`;
+      status.style.display = 'block';
+    } else {
+      button.textContent = recorded > 0 ? '⏺ Record Again' : '⏺ Record Variants';
+      status.textContent = `${recorded} variant${recorded === 1 ? '' : 's'} recorded`;
+      status.style.display = recorded > 0 ? 'block' : 'none';
+    }
+  }
+
+  /**
+   * Preview component in preview panel
+   */
+  private async previewComponent(): Promise<void> {
+    if (!this.state.selectedFiber) return;
+
+    console.log('React Component Cloner: Previewing component', this.state.selectedFiber);
 
     try {
-      // Build component info
-      const componentInfo = buildComponentInfo(this.state.selectedFiber, true, 3);
+      const componentInfo = await this.captureSelectedComponent();
+      if (!componentInfo) return;
 
       // Show preview panel
-      this.previewPanel.show(this.state.selectedFiber, componentInfo, {
+      this.previewPanel.show(componentInfo, {
         showComparison: true,
         viewportSize: 'desktop',
       });
@@ -471,22 +808,17 @@ export class InspectorOverlay {
   /**
    * Export component as ZIP package
    */
-  private exportComponent(): void {
+  private async exportComponent(): Promise<void> {
     if (!this.state.selectedFiber) return;
 
-    const componentName = getComponentName(this.state.selectedFiber);
-
-    console.log('React Component Cloner: Exporting component', {
-      name: componentName,
-      fiber: this.state.selectedFiber,
-    });
+    console.log('React Component Cloner: Exporting component', this.state.selectedFiber);
 
     try {
-      // Build component info
-      const componentInfo = buildComponentInfo(this.state.selectedFiber, true, 3);
+      const componentInfo = await this.captureSelectedComponent();
+      if (!componentInfo) return;
 
       // Show export modal
-      this.exportModal.show(this.state.selectedFiber, componentInfo);
+      this.exportModal.show(componentInfo);
 
       console.log('React Component Cloner: Export modal opened successfully');
     } catch (error) {
@@ -499,6 +831,7 @@ export class InspectorOverlay {
    * Clear selection
    */
   private clearSelection(): void {
+    this.discardRecording();
     this.state.selectedElement = null;
     this.state.selectedFiber = null;
 
@@ -510,18 +843,29 @@ export class InspectorOverlay {
   /**
    * Select parent component
    */
-  private selectParentComponent(): void {
+  private async selectParentComponent(): Promise<void> {
     if (!this.state.selectedFiber) return;
 
-    const parentFiber = getParentFiber(this.state.selectedFiber, true);
+    const bridge = this.getSelectedBridge();
+    let parentFiber: FiberSummary | null = null;
+    try {
+      ({ fiber: parentFiber } = await bridge.request('GET_PARENT', {
+        fiberId: this.state.selectedFiber.id,
+      }));
+    } catch (error) {
+      console.error('React Component Cloner: Failed to find parent component', error);
+      return;
+    }
+
     if (!parentFiber) {
       console.log('React Component Cloner: No parent component found');
       return;
     }
 
     // Find DOM element for parent
-    const parentElement = this.findDOMElementForFiber(parentFiber);
+    const parentElement = bridge.findElement(parentFiber.nodeId);
     if (parentElement) {
+      this.discardRecording();
       this.state.selectedElement = parentElement;
       this.state.selectedFiber = parentFiber;
       this.showInfoPanel(parentFiber);
@@ -534,20 +878,29 @@ export class InspectorOverlay {
   /**
    * Select first child component
    */
-  private selectChildComponent(): void {
+  private async selectChildComponent(): Promise<void> {
     if (!this.state.selectedFiber) return;
 
-    const children = getChildrenFibers(this.state.selectedFiber, true);
-    if (children.length === 0) {
-      console.log('React Component Cloner: No child components found');
+    const bridge = this.getSelectedBridge();
+    let childFiber: FiberSummary | null = null;
+    try {
+      ({ fiber: childFiber } = await bridge.request('GET_CHILD', {
+        fiberId: this.state.selectedFiber.id,
+      }));
+    } catch (error) {
+      console.error('React Component Cloner: Failed to find child component', error);
       return;
     }
 
-    const childFiber = children[0];
+    if (!childFiber) {
+      console.log('React Component Cloner: No child components found');
+      return;
+    }
 
     // Find DOM element for child
-    const childElement = this.findDOMElementForFiber(childFiber);
+    const childElement = bridge.findElement(childFiber.nodeId);
     if (childElement) {
+      this.discardRecording();
       this.state.selectedElement = childElement;
       this.state.selectedFiber = childFiber;
       this.showInfoPanel(childFiber);
@@ -560,22 +913,28 @@ export class InspectorOverlay {
   /**
    * Extract component and generate code
    */
-  private extractComponent(): void {
+  private async extractComponent(): Promise<void> {
     if (!this.state.selectedFiber) return;
 
-    const componentName = getComponentName(this.state.selectedFiber);
-
-    console.log('React Component Cloner: Extracting component', {
-      name: componentName,
-      fiber: this.state.selectedFiber,
-    });
+    console.log('React Component Cloner: Extracting component', this.state.selectedFiber);
 
     try {
+      const componentInfo = await this.captureSelectedComponent();
+      if (!componentInfo) return;
+
       // Generate component code
-      const code = quickGenerate(this.state.selectedFiber);
+      const code = quickGenerate(componentInfo.snapshot, componentInfo);
 
       // Show code in a modal
-      this.showCodeModal(componentName, code);
+      this.showCodeModal(componentInfo.name, code, componentInfo.originalSource);
+
+      // Store in history (snapshots stay usable after the page navigates away)
+      chrome.runtime.sendMessage({
+        type: 'STORE_COMPONENT',
+        component: toStoredComponentInfo(componentInfo),
+      }).catch((error) => {
+        console.error('React Component Cloner: Failed to store component', error);
+      });
 
       console.log('React Component Cloner: Code generated successfully');
       console.log(code);
@@ -586,9 +945,10 @@ export class InspectorOverlay {
   }
 
   /**
-   * Show generated code in a modal
+   * Show generated code in a modal, next to the original source when the
+   * page's source maps include it
    */
-  private showCodeModal(componentName: string, code: string): void {
+  private showCodeModal(componentName: string, code: string, originalSource?: OriginalSource): void {
     // Create modal backdrop
     const backdrop = document.createElement('div');
     backdrop.id = 'react-component-cloner-modal-backdrop';
@@ -685,6 +1045,55 @@ export class InspectorOverlay {
 
     codeContainer.appendChild(pre);
 
+    // Generated / original source tabs
+    let shownCode = code;
+    const tabs = originalSource?.code ? document.createElement('div') : null;
+    if (tabs && originalSource?.code) {
+      tabs.style.cssText = `
+        padding: 12px 24px 0;
+        display: flex;
+        gap: 8px;
+        border-bottom: 1px solid #e9ecef;
+      `;
+
+      const views = [
+        { label: 'Generated', code, title: 'Code generated from the captured component' },
+        {
+          label: `Original (${originalSource.fileName.split('/').pop()}:${originalSource.lineNumber})`,
+          code: originalSource.code,
+          title: `${originalSource.fileName}, from ${originalSource.mapUrl}`,
+        },
+      ];
+      const buttons = views.map((view) => {
+        const button = document.createElement('button');
+        button.textContent = view.label;
+        button.title = view.title;
+        button.onclick = () => {
+          shownCode = view.code;
+          pre.textContent = view.code;
+          buttons.forEach((other) => {
+            const active = other === button;
+            other.style.borderBottomColor = active ? '#61dafb' : 'transparent';
+            other.style.color = active ? '#212529' : '#6c757d';
+          });
+        };
+        button.style.cssText = `
+          padding: 8px 12px;
+          background: none;
+          border: none;
+          border-bottom: 2px solid transparent;
+          font-size: 13px;
+          font-weight: 600;
+          cursor: pointer;
+          color: #6c757d;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+        `;
+        tabs.appendChild(button);
+        return button;
+      });
+      buttons[0].click();
+    }
+
     // Footer with actions
     const footer = document.createElement('div');
     footer.style.cssText = `
@@ -709,7 +1118,7 @@ export class InspectorOverlay {
       font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
     `;
     copyBtn.onclick = () => {
-      navigator.clipboard.writeText(code).then(() => {
+      navigator.clipboard.writeText(shownCode).then(() => {
         copyBtn.textContent = '✓ Copied!';
         setTimeout(() => {
           copyBtn.textContent = 'Copy to Clipboard';
@@ -721,6 +1130,7 @@ export class InspectorOverlay {
 
     // Assemble modal
     modal.appendChild(header);
+    if (tabs) modal.appendChild(tabs);
     modal.appendChild(codeContainer);
     modal.appendChild(footer);
     backdrop.appendChild(modal);
@@ -745,27 +1155,6 @@ export class InspectorOverlay {
     document.addEventListener('keydown', escHandler);
   }
 
-  /**
-   * Find DOM element for a fiber node
-   */
-  private findDOMElementForFiber(fiber: ReactFiberNode): HTMLElement | null {
-    // For host components (HTML elements), stateNode is the DOM element
-    if (fiber.tag === 5 && fiber.stateNode instanceof HTMLElement) {
-      return fiber.stateNode;
-    }
-
-    // For composite components, find the first host component child
-    let current: ReactFiberNode | null = fiber.child;
-    while (current) {
-      if (current.tag === 5 && current.stateNode instanceof HTMLElement) {
-        return current.stateNode;
-      }
-      current = current.child;
-    }
-
-    return null;
-  }
-
   /**
    * Check if element is part of inspector UI
    */
@@ -798,7 +1187,7 @@ export class InspectorOverlay {
   /**
    * Get current selected fiber
    */
-  public getSelectedFiber(): ReactFiberNode | null {
+  public getSelectedFiber(): FiberSummary | null {
     return this.state.selectedFiber;
   }
 }
@@ -2,12 +2,36 @@
  * Preview Panel - Live preview of extracted components
  *
  * This component renders the extracted component in isolation,
- * providing side-by-side comparison and responsive controls.
+ * providing side-by-side comparison, a visual fidelity score and responsive
+ * controls.
  */
 
-import type { ReactFiberNode, ComponentInfo } from '@/types';
-import { getComponentName } from '@lib/fiber-utils';
-import { quickGenerate } from '@lib/code-generator';
+import type { ComponentInfo } from '@/types';
+import { generateComponent } from '@lib/code-generator';
+import {
+  generateNodeStylesCSS,
+  getUniqueNodeStyles,
+  captureResponsiveStyles,
+  getResponsiveCaptureWarning,
+} from '@lib/style-extractor';
+import { getBridgeForElement } from '@lib/bridge';
+import { PreviewFrame, type PreviewRenderInput } from '@lib/preview';
+import {
+  measureElement,
+  getElementByPath,
+  compareMeasurements,
+  type VisualDiffResult,
+} from '@lib/visual-diff';
+
+/**
+ * Attribute marking nodes highlighted by the visual diff
+ */
+const DIFF_HIGHLIGHT_ATTRIBUTE = 'data-rcc-diff';
+
+/**
+ * Maximum number of mismatched nodes listed in the report
+ */
+const MAX_LISTED_MISMATCHES = 25;
 
 export interface PreviewOptions {
   /** Show side-by-side comparison */
@@ -23,9 +47,13 @@ export class PreviewPanel {
   private previewContainer: HTMLDivElement | null = null;
   private originalContainer: HTMLDivElement | null = null;
   private controlsContainer: HTMLDivElement | null = null;
-  private currentFiber: ReactFiberNode | null = null;
+  private currentComponentInfo: ComponentInfo | null = null;
   private currentViewport: 'mobile' | 'tablet' | 'desktop' = 'desktop';
   private showComparison: boolean = true;
+  private breakpointsState: 'idle' | 'capturing' | 'captured' = 'idle';
+  /** Nodes the last breakpoint capture could not measure, for the user */
+  private breakpointsWarning: string | null = null;
+  private previewFrame = new PreviewFrame();
 
   constructor() {
     this.createPanelElements();
@@ -92,18 +120,20 @@ export class PreviewPanel {
   /**
    * Show the preview panel
    */
-  public show(fiber: ReactFiberNode, componentInfo?: ComponentInfo, options: PreviewOptions = {}): void {
-    if (!this.panelElement || !fiber) return;
+  public show(componentInfo: ComponentInfo, options: PreviewOptions = {}): void {
+    if (!this.panelElement || !componentInfo) return;
 
-    this.currentFiber = fiber;
+    this.currentComponentInfo = componentInfo;
     this.showComparison = options.showComparison !== false;
     this.currentViewport = options.viewportSize || 'desktop';
+    this.breakpointsState = 'idle';
+    this.breakpointsWarning = null;
 
     // Build controls
-    this.buildControls(fiber);
+    this.buildControls(componentInfo);
 
     // Build preview
-    this.buildPreview(fiber, componentInfo);
+    this.buildPreview(componentInfo);
 
     // Add to document and show
     if (!document.body.contains(this.panelElement)) {
@@ -135,10 +165,10 @@ export class PreviewPanel {
   /**
    * Build the controls bar
    */
-  private buildControls(fiber: ReactFiberNode): void {
+  private buildControls(componentInfo: ComponentInfo): void {
     if (!this.controlsContainer) return;
 
-    const componentName = getComponentName(fiber);
+    const componentName = componentInfo.name;
 
     this.controlsContainer.innerHTML = `
       <div style="display: flex; align-items: center; gap: 16px;">
@@ -177,6 +207,28 @@ export class PreviewPanel {
             color: #495057;
             font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
           ">🖥️ Desktop</button>
+          <button id="capture-breakpoints" title="Re-measure the original at every breakpoint and generate media queries" style="
+            padding: 6px 12px;
+            border: 1px solid ${this.breakpointsState === 'captured' ? '#28a745' : '#dee2e6'};
+            background: ${this.breakpointsState === 'captured' ? '#d4edda' : 'white'};
+            border-radius: 4px;
+            font-size: 11px;
+            cursor: pointer;
+            color: #495057;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+          " ${this.breakpointsState === 'idle' ? '' : 'disabled'}>${
+            this.breakpointsState === 'capturing'
+              ? '⏳ Capturing...'
+              : this.breakpointsState === 'captured'
+                ? '✓ Breakpoints'
+                : '📐 Capture Breakpoints'
+          }</button>
+          ${this.breakpointsWarning ? `<span id="breakpoints-warning" style="
+            align-self: center;
+            font-size: 11px;
+            color: #856404;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+          ">⚠️ ${this.breakpointsWarning}</span>` : ''}
         </div>
         <button id="toggle-comparison" style="
           padding: 6px 12px;
@@ -227,12 +279,54 @@ export class PreviewPanel {
     if (toggleBtn) {
       toggleBtn.addEventListener('click', () => this.toggleComparison());
     }
+
+    const breakpointsBtn = this.controlsContainer.querySelector('#capture-breakpoints');
+    if (breakpointsBtn) {
+      breakpointsBtn.addEventListener('click', () => this.captureBreakpoints());
+    }
+  }
+
+  /**
+   * Re-measure the original at every breakpoint and re-render the preview
+   * with the resulting media queries
+   */
+  private async captureBreakpoints(): Promise<void> {
+    const componentInfo = this.currentComponentInfo;
+    if (!componentInfo?.nodeStyles || !componentInfo.domNode?.isConnected) return;
+
+    this.breakpointsState = 'capturing';
+    this.breakpointsWarning = null;
+    this.buildControls(componentInfo);
+
+    try {
+      const bridge = getBridgeForElement(componentInfo.domNode);
+      const capture = await captureResponsiveStyles(componentInfo.nodeStyles, (nodeId) => bridge.findElement(nodeId));
+      if (this.currentComponentInfo !== componentInfo) return;
+
+      this.breakpointsWarning = getResponsiveCaptureWarning(capture);
+      if (capture.unmeasured.length === Object.keys(capture.nodeStyles).length) {
+        // Nothing measured: let the user try again
+        this.breakpointsState = 'idle';
+      } else {
+        this.currentComponentInfo = { ...componentInfo, nodeStyles: capture.nodeStyles };
+        this.breakpointsState = 'captured';
+        this.showGeneratedPreview(this.currentComponentInfo);
+      }
+    } catch (error) {
+      console.error('Preview Panel: Error capturing breakpoints', error);
+      this.breakpointsState = 'idle';
+      this.breakpointsWarning = 'Breakpoints could not be captured. Check the console for details.';
+    }
+
+    if (this.currentComponentInfo) {
+      this.buildControls(this.currentComponentInfo);
+    }
   }
 
   /**
    * Build the preview content
    */
-  private buildPreview(fiber: ReactFiberNode, componentInfo?: ComponentInfo): void {
+  private buildPreview(componentInfo: ComponentInfo): void {
     if (!this.previewContainer || !this.originalContainer) return;
 
     // Clear previous preview
@@ -240,20 +334,20 @@ export class PreviewPanel {
 
     // Show original element
     if (this.showComparison) {
-      this.showOriginalElement(fiber);
+      this.showOriginalElement(componentInfo);
     }
 
     // Show generated preview
-    this.showGeneratedPreview(fiber, componentInfo);
+    this.showGeneratedPreview(componentInfo);
   }
 
   /**
    * Show the original element (highlighted in page)
    */
-  private showOriginalElement(fiber: ReactFiberNode): void {
+  private showOriginalElement(componentInfo: ComponentInfo): void {
     if (!this.originalContainer) return;
 
-    const element = this.findDOMElementForFiber(fiber);
+    const element = componentInfo.domNode;
     if (!element) {
       this.originalContainer.innerHTML = `
         <div style="
@@ -271,7 +365,7 @@ export class PreviewPanel {
     // Clone the element for preview
     const clone = element.cloneNode(true) as HTMLElement;
 
-    const componentName = getComponentName(fiber);
+    const componentName = componentInfo.name;
 
     this.originalContainer.innerHTML = `
       <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;">
@@ -318,12 +412,33 @@ export class PreviewPanel {
     if (cloneContainer) {
       cloneContainer.appendChild(clone);
     }
+
+    // Content rendered through portals lives elsewhere in the page
+    const portalNodes = componentInfo.portalNodes || [];
+    if (portalNodes.length > 0 && cloneContainer) {
+      const portalContainer = document.createElement('div');
+      portalContainer.id = 'original-portal-container';
+      portalContainer.style.cssText = `
+        margin-top: 12px;
+        border: 2px dashed #9945ff;
+        border-radius: 8px;
+        padding: 16px;
+        background: white;
+      `;
+      portalContainer.innerHTML = `
+        <div style="margin-bottom: 8px; font-size: 11px; font-weight: 600; color: #9945ff;">
+          RENDERED THROUGH PORTALS
+        </div>
+      `;
+      portalNodes.forEach((node) => portalContainer.appendChild(node.cloneNode(true)));
+      cloneContainer.after(portalContainer);
+    }
   }
 
   /**
    * Show the generated component preview
    */
-  private showGeneratedPreview(fiber: ReactFiberNode, _componentInfo?: ComponentInfo): void {
+  private showGeneratedPreview(componentInfo: ComponentInfo): void {
     if (!this.previewContainer) return;
 
     // Remove existing preview container
@@ -343,12 +458,10 @@ export class PreviewPanel {
       font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
     `;
 
-    try {
-      // Generate code
-      const code = quickGenerate(fiber);
+    let source: PreviewRenderInput | null = null;
 
-      // Get viewport width
-      const width = this.getViewportWidth();
+    try {
+      source = this.generatePreviewSource(componentInfo);
 
       previewDiv.innerHTML = `
         <div>
@@ -363,58 +476,33 @@ export class PreviewPanel {
             <h4 style="margin: 0; font-size: 14px; font-weight: 600; color: #212529;">
               Generated Preview
             </h4>
-            <span style="
+            <span id="generated-preview-status" style="
               padding: 4px 8px;
-              background: #d4edda;
-              color: #155724;
+              background: #e9ecef;
+              color: #495057;
               border-radius: 4px;
               font-size: 11px;
               font-weight: 600;
-            ">Generated Code</span>
+            ">Rendering...</span>
           </div>
-          <div style="
+          <div id="generated-preview-frame" style="
             border: 2px solid #28a745;
             border-radius: 8px;
             padding: 16px;
             background: #f8f9fa;
-            max-width: ${width}px;
-            margin: 0 auto;
-            transition: max-width 0.3s ease;
-          ">
-            <div style="
-              padding: 24px;
-              background: white;
-              border-radius: 6px;
-              min-height: 100px;
-              display: flex;
-              align-items: center;
-              justify-content: center;
-              text-align: center;
-              color: #6c757d;
-            ">
-              <div>
-                <div style="font-size: 48px; margin-bottom: 12px;">📝</div>
-                <h5 style="margin: 0 0 8px 0; font-size: 16px; color: #212529;">
-                  Code Generated Successfully
-                </h5>
-                <p style="margin: 0; font-size: 14px; line-height: 1.6;">
-                  The component code has been generated.<br/>
-                  Live rendering requires React runtime.
-                </p>
-              </div>
-            </div>
-          </div>
-          <div style="
+            overflow-x: auto;
+          "></div>
+          <div id="generated-preview-error" style="
+            display: none;
             margin-top: 16px;
             padding: 12px;
-            background: #d1ecf1;
+            background: #f8d7da;
             border-radius: 6px;
             font-size: 12px;
-            color: #0c5460;
-          ">
-            💡 <strong>Note:</strong> Full live preview requires React runtime.<br/>
-            For now, the generated code is available in the modal.
-          </div>
+            color: #721c24;
+            white-space: pre-wrap;
+          "></div>
+          <div id="visual-diff-report" style="margin-top: 16px;"></div>
           <details style="margin-top: 16px;">
             <summary style="
               cursor: pointer;
@@ -439,7 +527,7 @@ export class PreviewPanel {
               overflow-x: auto;
               white-space: pre-wrap;
               word-wrap: break-word;
-            ">${this.escapeHtml(code)}</pre>
+            ">${this.escapeHtml(source.code)}</pre>
           </details>
         </div>
       `;
@@ -461,9 +549,229 @@ export class PreviewPanel {
           </p>
         </div>
       `;
+      source = null;
     }
 
     this.previewContainer.appendChild(previewDiv);
+
+    const frameContainer = previewDiv.querySelector('#generated-preview-frame') as HTMLElement | null;
+    if (source && frameContainer) {
+      this.renderInFrame(frameContainer, source);
+    }
+  }
+
+  /**
+   * Generate the component module and CSS rendered by the sandbox
+   */
+  private generatePreviewSource(componentInfo: ComponentInfo): PreviewRenderInput {
+    const componentName = componentInfo.name || 'Component';
+
+    const code = generateComponent(componentInfo.snapshot, componentInfo, {
+      componentName,
+      typescript: true,
+      includeTypes: true,
+      styleStrategy: 'css-module',
+      // The sandbox has no Tailwind build; render the captured styles instead
+      preserveTailwindClasses: false,
+      // Plain CSS has no `composes` or `:global()`; render the captured styles
+      preserveCSSModules: false,
+      includeComments: false,
+      extractDepth: 'deep',
+    });
+
+    const css = componentInfo.nodeStyles
+      ? generateNodeStylesCSS(getUniqueNodeStyles(componentInfo.nodeStyles), {
+          strategy: 'css-module',
+          componentName,
+          includeComments: false,
+        })
+      : '';
+
+    return { code, css };
+  }
+
+  /**
+   * Render generated code in the sandboxed preview frame
+   */
+  private async renderInFrame(container: HTMLElement, input: PreviewRenderInput): Promise<void> {
+    const status = this.previewContainer?.querySelector('#generated-preview-status') as HTMLElement | null;
+    const errorBox = this.previewContainer?.querySelector('#generated-preview-error') as HTMLElement | null;
+
+    try {
+      await this.previewFrame.mount(container);
+      this.previewFrame.setWidth(this.getViewportWidth());
+      await this.previewFrame.render(input);
+
+      if (status) {
+        status.textContent = 'Live';
+        status.style.background = '#d4edda';
+        status.style.color = '#155724';
+      }
+
+      this.runVisualDiff().catch((error) => {
+        console.error('Preview Panel: Error comparing preview', error);
+      });
+    } catch (error) {
+      console.error('Preview Panel: Error rendering preview', error);
+      if (status) {
+        status.textContent = 'Render Failed';
+        status.style.background = '#f8d7da';
+        status.style.color = '#721c24';
+      }
+      if (errorBox) {
+        errorBox.textContent = error instanceof Error ? error.message : String(error);
+        errorBox.style.display = 'block';
+      }
+    }
+  }
+
+  /**
+   * Compare the rendered clone with the original element and show the report
+   */
+  private async runVisualDiff(): Promise<void> {
+    const report = this.previewContainer?.querySelector('#visual-diff-report') as HTMLElement | null;
+    const original = this.currentComponentInfo?.domNode;
+    if (!report) return;
+
+    if (!original || !original.isConnected) {
+      report.innerHTML = this.buildDiffMessage('Original element not found, visual diff unavailable.');
+      return;
+    }
+
+    const cloneMeasurement = await this.previewFrame.measure();
+    if (!cloneMeasurement) {
+      report.innerHTML = this.buildDiffMessage('The generated component rendered nothing to compare.');
+      return;
+    }
+
+    const result = compareMeasurements(measureElement(original), cloneMeasurement);
+    report.innerHTML = this.buildDiffReport(result);
+
+    // Highlight mismatched nodes in both panes
+    const paths = result.mismatches
+      .filter((mismatch) => mismatch.kind !== 'extra')
+      .map((mismatch) => mismatch.path);
+    this.highlightOriginalNodes(paths);
+    await this.previewFrame.highlight(
+      result.mismatches
+        .filter((mismatch) => mismatch.kind !== 'missing')
+        .map((mismatch) => mismatch.path)
+    );
+  }
+
+  /**
+   * Outline nodes of the original snapshot pane
+   */
+  private highlightOriginalNodes(paths: string[]): void {
+    const cloneContainer = this.originalContainer?.querySelector('#original-clone-container');
+    if (!cloneContainer) return;
+
+    cloneContainer.querySelectorAll<HTMLElement>(`[${DIFF_HIGHLIGHT_ATTRIBUTE}]`).forEach((element) => {
+      element.removeAttribute(DIFF_HIGHLIGHT_ATTRIBUTE);
+      element.style.removeProperty('outline');
+      element.style.removeProperty('outline-offset');
+    });
+
+    const root = cloneContainer.firstElementChild;
+    if (!root) return;
+
+    for (const path of paths) {
+      const element = getElementByPath(root, path) as HTMLElement | null;
+      if (!element) continue;
+      element.setAttribute(DIFF_HIGHLIGHT_ATTRIBUTE, '');
+      element.style.setProperty('outline', '2px solid #dc3545', 'important');
+      element.style.setProperty('outline-offset', '-1px', 'important');
+    }
+  }
+
+  /**
+   * Build the visual diff report
+   */
+  private buildDiffReport(result: VisualDiffResult): string {
+    const color = result.score >= 90 ? '#155724' : result.score >= 70 ? '#856404' : '#721c24';
+    const background = result.score >= 90 ? '#d4edda' : result.score >= 70 ? '#fff3cd' : '#f8d7da';
+
+    const items = result.mismatches.slice(0, MAX_LISTED_MISMATCHES).map((mismatch) => {
+      const location = `&lt;${this.escapeHtml(mismatch.tag)}&gt; ${mismatch.path ? `@ ${mismatch.path}` : '(root)'}`;
+
+      if (mismatch.kind !== 'different') {
+        return `
+          <li style="margin-bottom: 8px;">
+            <strong>${location}</strong>
+            <span style="color: #721c24;"> ${mismatch.kind === 'missing' ? 'missing in clone' : 'only in clone'}</span>
+          </li>
+        `;
+      }
+
+      const differences = mismatch.differences
+        .map((difference) => `
+          <div style="font-family: 'Consolas', 'Monaco', 'Courier New', monospace; font-size: 11px; color: #495057;">
+            ${this.escapeHtml(difference.property)}:
+            <span style="color: #0066cc;">${this.escapeHtml(difference.original) || '(empty)'}</span>
+            &rarr;
+            <span style="color: #c82333;">${this.escapeHtml(difference.clone) || '(empty)'}</span>
+          </div>
+        `)
+        .join('');
+
+      return `
+        <li style="margin-bottom: 8px;">
+          <strong>${location}</strong>
+          ${differences}
+        </li>
+      `;
+    });
+
+    const hidden = result.mismatches.length - items.length;
+
+    return `
+      <div style="
+        padding: 12px;
+        background: ${background};
+        border-radius: 6px;
+        font-size: 12px;
+        color: ${color};
+      ">
+        <strong style="font-size: 14px;">Visual Fidelity: ${result.score}%</strong>
+        <span style="margin-left: 8px;">
+          ${result.matchingNodes} of ${result.totalNodes} nodes match
+        </span>
+      </div>
+      ${items.length > 0 ? `
+        <details style="margin-top: 8px;" open>
+          <summary style="
+            cursor: pointer;
+            padding: 8px;
+            background: #f8f9fa;
+            border-radius: 4px;
+            font-size: 13px;
+            font-weight: 600;
+            color: #495057;
+          ">
+            🔍 Mismatched Nodes (${result.mismatches.length})
+          </summary>
+          <ul style="margin: 8px 0 0 0; padding-left: 20px; font-size: 12px; color: #212529;">
+            ${items.join('')}
+          </ul>
+          ${hidden > 0 ? `<p style="margin: 0; font-size: 11px; color: #6c757d;">…and ${hidden} more</p>` : ''}
+        </details>
+      ` : ''}
+    `;
+  }
+
+  /**
+   * Build a plain message in place of the visual diff report
+   */
+  private buildDiffMessage(message: string): string {
+    return `
+      <div style="
+        padding: 12px;
+        background: #e9ecef;
+        border-radius: 6px;
+        font-size: 12px;
+        color: #495057;
+      ">${this.escapeHtml(message)}</div>
+    `;
   }
 
   /**
@@ -472,9 +780,17 @@ export class PreviewPanel {
   private setViewport(viewport: 'mobile' | 'tablet' | 'desktop'): void {
     this.currentViewport = viewport;
 
-    if (this.currentFiber) {
-      this.buildControls(this.currentFiber);
-      this.buildPreview(this.currentFiber);
+    if (this.currentComponentInfo) {
+      this.buildControls(this.currentComponentInfo);
+      // The frame re-lays out the rendered component at the new width
+      this.previewFrame.setWidth(this.getViewportWidth());
+
+      // Re-score once the width transition has finished
+      setTimeout(() => {
+        this.runVisualDiff().catch((error) => {
+          console.error('Preview Panel: Error comparing preview', error);
+        });
+      }, 350);
     }
   }
 
@@ -506,10 +822,10 @@ export class PreviewPanel {
       this.originalContainer.style.display = 'block';
     }
 
-    if (this.currentFiber) {
-      this.buildControls(this.currentFiber);
+    if (this.currentComponentInfo) {
+      this.buildControls(this.currentComponentInfo);
       if (this.showComparison) {
-        this.buildPreview(this.currentFiber);
+        this.buildPreview(this.currentComponentInfo);
       }
     }
   }
@@ -524,27 +840,6 @@ export class PreviewPanel {
     }
   };
 
-  /**
-   * Find DOM element for a fiber node
-   */
-  private findDOMElementForFiber(fiber: ReactFiberNode): HTMLElement | null {
-    // For host components (HTML elements), stateNode is the DOM element
-    if (fiber.tag === 5 && fiber.stateNode instanceof HTMLElement) {
-      return fiber.stateNode;
-    }
-
-    // For composite components, find the first host component child
-    let current: ReactFiberNode | null = fiber.child;
-    while (current) {
-      if (current.tag === 5 && current.stateNode instanceof HTMLElement) {
-        return current.stateNode;
-      }
-      current = current.child;
-    }
-
-    return null;
-  }
-
   /**
    * Escape HTML for safe display
    */
@@ -561,6 +856,7 @@ export class PreviewPanel {
     if (this.panelElement && document.body.contains(this.panelElement)) {
       document.body.removeChild(this.panelElement);
     }
+    this.previewFrame.destroy();
     document.removeEventListener('keydown', this.handleKeyDown);
   }
 }
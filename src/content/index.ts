@@ -1,103 +1,107 @@
-// Content script - injected into web pages
-import {
-  getFiberFromElement,
-  hasReactDevTools,
-  getReactVersion,
-} from '@lib/fiber-utils';
+// Content script - injected into web pages (every frame)
+import { pageBridge, getBridgeForWindow, getSameOriginFrames } from '@lib/bridge';
 import { InspectorOverlay } from '@components/Inspector/InspectorOverlay';
 
 console.log('React Component Cloner: Content script loaded');
 
-// Create inspector instance
-const inspector = new InspectorOverlay();
-
-// Listen for messages from popup
-chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
-  if (request.type === 'CHECK_REACT') {
-    // Try to detect React immediately
-    let reactDetected = checkReactOnPage();
-
-    // If not detected, wait a bit and try again (React might still be loading)
-    if (!reactDetected) {
-      console.log('React Component Cloner: First check failed, retrying in 500ms...');
-      setTimeout(() => {
-        reactDetected = checkReactOnPage();
-        sendResponse({ reactDetected });
-      }, 500);
-      return true; // Keep message channel open for async response
-    }
-
-    sendResponse({ reactDetected });
-    return true;
-  }
-
-  if (request.type === 'TOGGLE_INSPECTOR') {
-    if (request.enabled) {
-      inspector.activate();
-      showTemporaryNotification('Inspector activated! Hover over elements to inspect.');
-    } else {
-      inspector.deactivate();
-      showTemporaryNotification('Inspector deactivated');
-    }
-    sendResponse({ success: true });
-    return true;
-  }
-
-  return false;
+// Inject the page agent that has access to React Fiber internals
+pageBridge.connect().catch((error) => {
+  console.error('React Component Cloner: Failed to inject page agent', error);
 });
 
-// Check if React is present on the page
-function checkReactOnPage(): boolean {
-  console.log('React Component Cloner: Checking for React...');
-
-  // Method 1: Check for React DevTools hook (using fiber-utils)
-  if (hasReactDevTools()) {
-    const version = getReactVersion();
-    console.log('React Component Cloner: ✅ React detected via DevTools hook!', version ? `Version: ${version}` : '');
-    return true;
-  }
-
-  // Method 2: Check for React on window object
-  if ((window as any).React || (window as any).ReactDOM) {
-    console.log('React Component Cloner: ✅ React detected on window object!');
-    return true;
-  }
+// Pass React showing up after the page loaded on to the popup, if it is open
+pageBridge.onEvent('REACT_STATUS', (status) => {
+  chrome.runtime.sendMessage({ type: 'REACT_STATUS', ...status }).catch(() => {
+    // No popup listening
+  });
+});
 
-  // Method 3: Check DOM nodes for React Fiber properties
-  const allElements = document.querySelectorAll('*');
-  console.log(`React Component Cloner: Checking ${Math.min(allElements.length, 200)} elements for Fiber...`);
+// Only the top frame shows the inspector; frames just host a page agent,
+// which the top frame drives through its own bridges
+if (window === window.top) {
+  initInspector();
+}
 
-  for (let i = 0; i < Math.min(allElements.length, 200); i++) {
-    const element = allElements[i];
-    const fiber = getFiberFromElement(element as HTMLElement);
+// Create the inspector and wire it to the popup and keyboard shortcuts
+function initInspector() {
+  // Create inspector instance
+  const inspector = new InspectorOverlay();
+
+  // Listen for messages from popup
+  chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
+    if (request.type === 'CHECK_REACT') {
+      // Try to detect React immediately
+      checkReactOnPage().then((reactDetected) => {
+        if (reactDetected) {
+          sendResponse({ reactDetected });
+          return;
+        }
+
+        // If not detected, wait a bit and try again (React might still be loading)
+        console.log('React Component Cloner: First check failed, retrying in 500ms...');
+        setTimeout(() => {
+          checkReactOnPage().then((retryDetected) => {
+            sendResponse({ reactDetected: retryDetected });
+          });
+        }, 500);
+      });
+      return true; // Keep message channel open for async response
+    }
 
-    if (fiber) {
-      console.log('React Component Cloner: ✅ React detected via Fiber on element:', element);
+    if (request.type === 'TOGGLE_INSPECTOR') {
+      if (request.enabled) {
+        inspector.activate();
+        showTemporaryNotification('Inspector activated! Hover over elements to inspect.');
+      } else {
+        inspector.deactivate();
+        showTemporaryNotification('Inspector deactivated');
+      }
+      sendResponse({ success: true });
       return true;
     }
-  }
 
-  // Method 4: Check for React root containers (legacy)
-  const reactRootElements = document.querySelectorAll('[data-reactroot]');
-  if (reactRootElements.length > 0) {
-    console.log('React Component Cloner: ✅ React detected via data-reactroot!');
-    return true;
-  }
+    return false;
+  });
 
-  // Method 5: Check for React 18+ root containers
-  const rootElements = document.querySelectorAll('[id*="root"], [class*="root"]');
-  for (const rootEl of Array.from(rootElements)) {
-    const fiber = getFiberFromElement(rootEl as HTMLElement);
-    if (fiber) {
-      console.log('React Component Cloner: ✅ React detected via root element!', rootEl);
-      return true;
+  // Listen for keyboard shortcuts
+  document.addEventListener('keydown', (e) => {
+    // Ctrl+Shift+C or Cmd+Shift+C to toggle inspector
+    if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'C') {
+      e.preventDefault();
+
+      if (inspector.isActive()) {
+        inspector.deactivate();
+        showTemporaryNotification('Inspector deactivated');
+      } else {
+        inspector.activate();
+        showTemporaryNotification('Inspector activated! Hover over elements to inspect.');
+      }
     }
-  }
-
-  console.log('React Component Cloner: ❌ No React detected');
-  return false;
+  });
 }
 
+// Check if React is present on the page or a same-origin frame (answered by their page agents)
+async function checkReactOnPage(): Promise<boolean> {
+  console.log('React Component Cloner: Checking for React...');
+
+  const bridges = [pageBridge, ...getSameOriginFrames().map(getBridgeForWindow)];
+  const results = await Promise.all(
+    bridges.map((bridge) =>
+      bridge.request('CHECK_REACT', {}).catch((error) => {
+        console.warn('React Component Cloner: Page agent unavailable', error);
+        return { reactDetected: false, version: null };
+      })
+    )
+  );
+
+  const detected = results.find((result) => result.reactDetected);
+  if (detected) {
+    console.log('React Component Cloner: ✅ React detected!', detected.version ? `Version: ${detected.version}` : '');
+  } else {
+    console.log('React Component Cloner: ❌ No React detected');
+  }
+  return !!detected;
+}
 
 // Show a temporary notification (placeholder)
 function showTemporaryNotification(message: string) {
@@ -145,22 +149,6 @@ function showTemporaryNotification(message: string) {
   }, 3000);
 }
 
-// Listen for keyboard shortcuts
-document.addEventListener('keydown', (e) => {
-  // Ctrl+Shift+C or Cmd+Shift+C to toggle inspector
-  if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'C') {
-    e.preventDefault();
-
-    if (inspector.isActive()) {
-      inspector.deactivate();
-      showTemporaryNotification('Inspector deactivated');
-    } else {
-      inspector.activate();
-      showTemporaryNotification('Inspector activated! Hover over elements to inspect.');
-    }
-  }
-});
-
 // Initialize on load
 if (document.readyState === 'loading') {
   document.addEventListener('DOMContentLoaded', () => {
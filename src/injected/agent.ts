@@ -0,0 +1,394 @@
+/**
+ * Page Agent - Answers bridge requests from inside the page's main world
+ *
+ * This is the only place that touches live Fiber objects. Fibers are handed to
+ * the content script as ids (for navigation) or FiberSnapshot trees.
+ */
+
+import type { ReactFiberNode, FiberSnapshot } from '@/types';
+import {
+  getFiberFromElement,
+  getElementFromFiber,
+  getPortalElements,
+  getNearestComponentFiber,
+  getComponentName,
+  getParentFiber,
+  getChildrenFibers,
+  hasReactDevTools,
+  getReactVersion,
+  captureSnapshot,
+  captureInstanceProps,
+  getWorkTag,
+  WorkTag,
+  querySelectorAllDeep,
+  querySelectorDeep,
+  hasHookRenderer,
+  subscribeToHook,
+  subscribeToCommits,
+  findRootFiber,
+  addVariant,
+  isPreactFiber,
+} from '@lib/fiber-utils';
+import {
+  BRIDGE_SOURCE,
+  NODE_ID_ATTRIBUTE,
+  type BridgeEventMap,
+  type BridgeEventMessage,
+  type BridgeEventType,
+  type BridgeRequestPayload,
+  type BridgeRequestType,
+  type BridgeResponsePayload,
+  type FiberSummary,
+} from '@lib/bridge/protocol';
+
+type RequestHandlers = {
+  [T in BridgeRequestType]: (
+    payload: BridgeRequestPayload<T>
+  ) => BridgeResponsePayload<T>;
+};
+
+/**
+ * A component being recorded: its distinct captures so far
+ */
+interface Recording {
+  variants: FiberSnapshot[];
+  keys: Set<string>;
+  stop: () => void;
+}
+
+/**
+ * Fibers handed out by id; weakly held, so unmounted trees can be collected
+ */
+const fibersById = new Map<string, WeakRef<ReactFiberNode>>();
+const recordings = new Map<string, Recording>();
+const fiberIds = new WeakMap<ReactFiberNode, string>();
+let nextFiberId = 1;
+let nextNodeId = 1;
+
+/**
+ * Number of ids after which stale ones are pruned (doubles with the live ones)
+ */
+const PRUNE_THRESHOLD = 1000;
+let pruneAt = PRUNE_THRESHOLD;
+
+/**
+ * Get (or assign) the id of a fiber
+ * A fiber and its alternate share one id, since they describe the same
+ * component instance.
+ */
+function getFiberId(fiber: ReactFiberNode): string {
+  let id = fiberIds.get(fiber);
+  if (!id && fiber.alternate) {
+    id = fiberIds.get(fiber.alternate);
+  }
+  if (!id) {
+    id = `f${nextFiberId++}`;
+  }
+
+  fiberIds.set(fiber, id);
+  fibersById.set(id, new WeakRef(fiber));
+
+  if (fibersById.size >= pruneAt) {
+    pruneFiberIds();
+    pruneAt = Math.max(PRUNE_THRESHOLD, fibersById.size * 2);
+  }
+  return id;
+}
+
+/**
+ * Forget the ids of fibers that were collected or unmounted
+ */
+function pruneFiberIds(): void {
+  for (const [id, ref] of fibersById) {
+    const fiber = ref.deref();
+    if (!fiber || !isMounted(getCurrentFiber(fiber))) {
+      fibersById.delete(id);
+    }
+  }
+}
+
+/**
+ * Check if a fiber is still part of a mounted tree
+ * React detaches deleted subtrees (their top fiber loses its `return`), so
+ * only mounted fibers lead up to a root that is still committed.
+ */
+function isMounted(fiber: ReactFiberNode): boolean {
+  const root = findRootFiber(fiber);
+  if (getWorkTag(root) !== WorkTag.HostRoot) return false;
+  // Unmounted Preact vnodes lose their parent and with it their container
+  if (isPreactFiber(root)) return !!root.stateNode;
+
+  const current = root.stateNode?.current;
+  return current === root || (!!root.alternate && current === root.alternate);
+}
+
+/**
+ * Get (or assign) the node id of a DOM element
+ */
+function getNodeId(element: Element): string {
+  const existing = element.getAttribute(NODE_ID_ATTRIBUTE);
+  if (existing) return existing;
+
+  const nodeId = `p${nextNodeId++}`;
+  element.setAttribute(NODE_ID_ATTRIBUTE, nodeId);
+  return nodeId;
+}
+
+/**
+ * Return the committed (current) copy of a double-buffered fiber
+ */
+function getCurrentFiber(fiber: ReactFiberNode): ReactFiberNode {
+  if (!fiber.alternate) return fiber;
+
+  let root: ReactFiberNode = fiber;
+  while (root.return) {
+    root = root.return;
+  }
+
+  // HostRoot's stateNode is the FiberRoot, whose `current` is the committed tree
+  if (getWorkTag(root) === WorkTag.HostRoot && root.stateNode?.current === root) {
+    return fiber;
+  }
+  return fiber.alternate;
+}
+
+/**
+ * Look up a fiber by id
+ * @returns The committed fiber, or null once it was unmounted
+ */
+function resolveFiber(fiberId: string): ReactFiberNode | null {
+  const fiber = fibersById.get(fiberId)?.deref();
+  const current = fiber ? getCurrentFiber(fiber) : null;
+  if (!current || !isMounted(current)) {
+    fibersById.delete(fiberId);
+    return null;
+  }
+  return current;
+}
+
+/**
+ * Build a summary for a fiber
+ */
+function summarizeFiber(fiber: ReactFiberNode | null): FiberSummary | null {
+  if (!fiber) return null;
+
+  const element = getElementFromFiber(fiber);
+  return {
+    id: getFiberId(fiber),
+    name: getComponentName(fiber),
+    tag: getWorkTag(fiber),
+    nodeId: element ? getNodeId(element) : null,
+    portalNodeIds: getPortalElements(fiber).map(getNodeId),
+  };
+}
+
+/**
+ * Check if React is present on the page
+ */
+function checkReactOnPage(): boolean {
+  // Method 0: A renderer registered through our DevTools hook (see devtools-hook)
+  if (hasHookRenderer()) {
+    console.log('React Component Cloner: ✅ React detected via renderer registration!');
+    return true;
+  }
+
+  // The methods below cover Preact and pages loaded before the hook script ran
+
+  // Method 1: Check for React DevTools hook
+  if (hasReactDevTools()) {
+    console.log('React Component Cloner: ✅ React detected via DevTools hook!');
+    return true;
+  }
+
+  // Method 2: Check for React on window object
+  const globals = window as unknown as Record<string, unknown>;
+  if (globals.React || globals.ReactDOM) {
+    console.log('React Component Cloner: ✅ React detected on window object!');
+    return true;
+  }
+
+  // Method 3: Check DOM nodes for React Fiber properties
+  const allElements = document.querySelectorAll('*');
+  for (let i = 0; i < Math.min(allElements.length, 200); i++) {
+    if (getFiberFromElement(allElements[i])) {
+      console.log('React Component Cloner: ✅ React detected via Fiber on element:', allElements[i]);
+      return true;
+    }
+  }
+
+  // Method 4: Check for React root containers (legacy)
+  if (document.querySelector('[data-reactroot]')) {
+    console.log('React Component Cloner: ✅ React detected via data-reactroot!');
+    return true;
+  }
+
+  // Method 5: Check for React 18+ root containers
+  const rootElements = document.querySelectorAll('[id*="root"], [class*="root"]');
+  for (const rootEl of Array.from(rootElements)) {
+    if (getFiberFromElement(rootEl)) {
+      console.log('React Component Cloner: ✅ React detected via root element!', rootEl);
+      return true;
+    }
+  }
+
+  // Method 6: Check apps mounted inside web components' shadow roots
+  for (const host of querySelectorAllDeep(document, '*')) {
+    const firstElement = host.shadowRoot?.querySelector('*');
+    if (firstElement && getFiberFromElement(firstElement)) {
+      console.log('React Component Cloner: ✅ React detected inside shadow root of', host);
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Post an event to the content script
+ * @param type - Event type
+ * @param payload - Event payload
+ */
+export function postEvent<T extends BridgeEventType>(type: T, payload: BridgeEventMap[T]): void {
+  const message: BridgeEventMessage<T> = {
+    source: BRIDGE_SOURCE,
+    direction: 'event',
+    type,
+    payload,
+  };
+  window.postMessage(message, '*');
+}
+
+/**
+ * Record a component's variants: capture it after every commit of its root
+ * and keep the captures that differ (see variants.ts)
+ */
+function startRecording(fiberId: string, maxDepth: number): Recording {
+  const existing = recordings.get(fiberId);
+  if (existing) return existing;
+
+  const initial = resolveFiber(fiberId);
+  if (!initial) throw new Error('Component is no longer mounted');
+  // Preact reports no commits through React's hook
+  if (isPreactFiber(initial)) throw new Error('Recording is only supported for React components');
+
+  const recording: Recording = { variants: [], keys: new Set(), stop: () => {} };
+  const capture = () => {
+    const fiber = resolveFiber(fiberId);
+    if (!fiber) return;
+    const snapshot = captureSnapshot(fiber, { maxDepth, getFiberId, getNodeId });
+    if (addVariant(recording.variants, recording.keys, snapshot)) {
+      postEvent('VARIANT_RECORDED', { fiberId, count: recording.variants.length });
+    }
+  };
+
+  // Commits of other roots cannot change the component
+  const rootNode = findRootFiber(initial).stateNode;
+  const unsubscribe = subscribeToCommits((root) => {
+    if (root === rootNode) capture();
+  });
+  if (!unsubscribe) {
+    throw new Error('Recording needs the DevTools hook, which did not load on this page');
+  }
+
+  recording.stop = unsubscribe;
+  recordings.set(fiberId, recording);
+  capture();
+  return recording;
+}
+
+/**
+ * Report when React loads after the page did (lazily loaded apps, widgets)
+ * @param onChange - Called with the new status whenever it changes
+ */
+export function watchReactStatus(
+  onChange: (status: BridgeResponsePayload<'CHECK_REACT'>) => void
+): void {
+  let reactDetected = hasHookRenderer();
+
+  subscribeToHook(() => {
+    if (hasHookRenderer() === reactDetected) return;
+    reactDetected = !reactDetected;
+    onChange({ reactDetected, version: reactDetected ? getReactVersion() : null });
+  });
+}
+
+const handlers: RequestHandlers = {
+  CHECK_REACT: () => {
+    const reactDetected = checkReactOnPage();
+    return {
+      reactDetected,
+      version: reactDetected ? getReactVersion() : null,
+    };
+  },
+
+  INSPECT_ELEMENT: ({ nodeId }) => {
+    // The element may sit inside a web component's shadow root
+    const element = querySelectorDeep(
+      document,
+      `[${NODE_ID_ATTRIBUTE}="${CSS.escape(nodeId)}"]`
+    );
+    const fiber = getFiberFromElement(element);
+    if (!fiber) return { fiber: null };
+
+    const componentFiber = getNearestComponentFiber(fiber) || fiber;
+    return { fiber: summarizeFiber(componentFiber) };
+  },
+
+  GET_PARENT: ({ fiberId }) => {
+    const parent = getParentFiber(resolveFiber(fiberId), true);
+    return { fiber: summarizeFiber(parent) };
+  },
+
+  GET_CHILD: ({ fiberId }) => {
+    const children = getChildrenFibers(resolveFiber(fiberId), true);
+    return { fiber: summarizeFiber(children[0] || null) };
+  },
+
+  CAPTURE_SNAPSHOT: ({ fiberId, maxDepth }) => {
+    const fiber = resolveFiber(fiberId);
+    return {
+      snapshot: fiber
+        ? captureSnapshot(fiber, { maxDepth, getFiberId, getNodeId })
+        : null,
+    };
+  },
+
+  START_RECORDING: ({ fiberId, maxDepth }) => {
+    return { count: startRecording(fiberId, maxDepth).variants.length };
+  },
+
+  GET_VARIANTS: ({ fiberId }) => {
+    return { variants: recordings.get(fiberId)?.variants || [] };
+  },
+
+  STOP_RECORDING: ({ fiberId }) => {
+    const recording = recordings.get(fiberId);
+    if (!recording) return { variants: [] };
+
+    recording.stop();
+    recordings.delete(fiberId);
+    return { variants: recording.variants };
+  },
+
+  COLLECT_INSTANCES: ({ fiberId }) => {
+    const fiber = resolveFiber(fiberId);
+    return { instances: fiber ? captureInstanceProps(fiber) : [] };
+  },
+};
+
+/**
+ * Dispatch a bridge request to its handler
+ * @param type - Request type
+ * @param payload - Request payload
+ * @returns Response payload
+ */
+export function handleRequest<T extends BridgeRequestType>(
+  type: T,
+  payload: BridgeRequestPayload<T>
+): BridgeResponsePayload<T> {
+  const handler = handlers[type];
+  if (!handler) {
+    throw new Error(`Unknown bridge request: ${type}`);
+  }
+  return handler(payload);
+}
@@ -0,0 +1,4 @@
+// DevTools hook - runs in the page's main world at document_start, before React loads
+import { installDevToolsHook } from '@lib/fiber-utils/devtools-hook';
+
+installDevToolsHook();
@@ -0,0 +1,57 @@
+// Page agent - injected into the page's main world by the content script
+import {
+  BRIDGE_SOURCE,
+  isBridgeMessage,
+  type BridgeReadyMessage,
+  type BridgeResponseMessage,
+} from '@lib/bridge/protocol';
+import { handleRequest, watchReactStatus, postEvent } from './agent';
+
+const AGENT_FLAG = '__REACT_COMPONENT_CLONER_AGENT__';
+
+function postReady() {
+  const message: BridgeReadyMessage = {
+    source: BRIDGE_SOURCE,
+    direction: 'ready',
+  };
+  window.postMessage(message, '*');
+}
+
+const globals = window as unknown as Record<string, unknown>;
+
+// The content script may inject us again (e.g. after an extension reload)
+if (globals[AGENT_FLAG]) {
+  postReady();
+} else {
+  globals[AGENT_FLAG] = true;
+
+  window.addEventListener('message', (event) => {
+    // Requests come from this frame's content script, or the top frame's inspector
+    // driving same-origin frames; responses stay on this window either way
+    if ((event.source !== window && event.source !== window.top) || !isBridgeMessage(event.data)) return;
+
+    const message = event.data;
+    if (message.direction !== 'request') return;
+
+    const response: BridgeResponseMessage = {
+      source: BRIDGE_SOURCE,
+      direction: 'response',
+      id: message.id,
+    };
+
+    try {
+      response.payload = handleRequest(message.type, message.payload);
+    } catch (error) {
+      console.error('React Component Cloner: Page agent error', error);
+      response.error = error instanceof Error ? error.message : String(error);
+    }
+
+    window.postMessage(response, '*');
+  });
+
+  // Tell the content script when React shows up later
+  watchReactStatus((status) => postEvent('REACT_STATUS', status));
+
+  console.log('React Component Cloner: Page agent loaded');
+  postReady();
+}
@@ -0,0 +1,217 @@
+/**
+ * Page Bridge - Content script side of the page agent bridge
+ *
+ * Injects `injected.js` into the page's main world and sends typed requests
+ * to it over `window.postMessage`. A bridge can target a same-origin frame's
+ * window instead of its own (see frames.ts).
+ */
+
+import type { FiberSnapshot } from '@/types';
+import { querySelectorDeep } from '@lib/fiber-utils';
+import {
+  BRIDGE_SOURCE,
+  NODE_ID_ATTRIBUTE,
+  isBridgeMessage,
+  type BridgeEventMap,
+  type BridgeEventType,
+  type BridgeRequestMessage,
+  type BridgeRequestPayload,
+  type BridgeRequestType,
+  type BridgeResponsePayload,
+} from './protocol';
+
+interface PendingRequest {
+  resolve(payload: unknown): void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface PageBridgeOptions {
+  /** Path of the page agent script inside the extension (default: injected.js) */
+  scriptPath?: string;
+  /** Request timeout in milliseconds (default: 3000) */
+  timeout?: number;
+  /** Window the page agent runs in (default: this frame's window) */
+  target?: Window;
+}
+
+const DEFAULT_OPTIONS: Required<PageBridgeOptions> = {
+  scriptPath: 'injected.js',
+  timeout: 3000,
+  target: window,
+};
+
+export class PageBridge {
+  private options: Required<PageBridgeOptions>;
+  private pending = new Map<number, PendingRequest>();
+  private eventListeners = new Map<BridgeEventType, Set<(payload: unknown) => void>>();
+  private nextRequestId = 1;
+  private nextNodeId = 1;
+  private readyPromise: Promise<void> | null = null;
+  private resolveReady: (() => void) | null = null;
+
+  constructor(options: PageBridgeOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Inject the page agent (once) and wait until it reports ready
+   */
+  public connect(): Promise<void> {
+    if (this.readyPromise) return this.readyPromise;
+
+    this.readyPromise = new Promise<void>((resolve, reject) => {
+      this.resolveReady = resolve;
+
+      const target = this.options.target;
+      target.addEventListener('message', this.handleMessage);
+
+      const script = target.document.createElement('script');
+      script.src = chrome.runtime.getURL(this.options.scriptPath);
+      script.type = 'module';
+      script.onload = () => script.remove();
+      script.onerror = () => {
+        script.remove();
+        this.readyPromise = null;
+        reject(new Error('Failed to inject page agent'));
+      };
+      (target.document.head || target.document.documentElement).appendChild(script);
+    });
+
+    return this.readyPromise;
+  }
+
+  /**
+   * Send a request to the page agent
+   * @param type - Request type
+   * @param payload - Request payload
+   * @returns Promise resolving with the agent's response
+   */
+  public async request<T extends BridgeRequestType>(
+    type: T,
+    payload: BridgeRequestPayload<T>
+  ): Promise<BridgeResponsePayload<T>> {
+    await this.connect();
+
+    const id = this.nextRequestId++;
+    const message: BridgeRequestMessage<T> = {
+      source: BRIDGE_SOURCE,
+      direction: 'request',
+      id,
+      type,
+      payload,
+    };
+
+    return new Promise<BridgeResponsePayload<T>>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Page agent did not answer ${type} in time`));
+      }, this.options.timeout);
+
+      this.pending.set(id, { resolve, reject, timer });
+      this.options.target.postMessage(message, '*');
+    });
+  }
+
+  /**
+   * Listen for events the page agent posts unasked
+   * @param type - Event type
+   * @param listener - Called with each event's payload
+   * @returns Function removing the listener
+   */
+  public onEvent<T extends BridgeEventType>(
+    type: T,
+    listener: (payload: BridgeEventMap[T]) => void
+  ): () => void {
+    let listeners = this.eventListeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(type, listeners);
+    }
+    // Events are dispatched by type, so each listener only gets its own payloads
+    const handler = listener as (payload: unknown) => void;
+    listeners.add(handler);
+    return () => listeners.delete(handler);
+  }
+
+  /**
+   * Get (or assign) the node id the page agent can use to find an element
+   * @param element - DOM element
+   * @returns Node id
+   */
+  public markElement(element: Element): string {
+    const existing = element.getAttribute(NODE_ID_ATTRIBUTE);
+    if (existing) return existing;
+
+    const nodeId = `c${this.nextNodeId++}`;
+    element.setAttribute(NODE_ID_ATTRIBUTE, nodeId);
+    return nodeId;
+  }
+
+  /**
+   * Find the DOM element with the given node id (shadow trees included)
+   * @param nodeId - Node id assigned by either world
+   * @returns The element or null
+   */
+  public findElement(nodeId: string | null): HTMLElement | null {
+    if (!nodeId) return null;
+    return querySelectorDeep(
+      this.options.target.document,
+      `[${NODE_ID_ATTRIBUTE}="${CSS.escape(nodeId)}"]`
+    ) as HTMLElement | null;
+  }
+
+  /**
+   * Capture a snapshot of a fiber subtree
+   * @param fiberId - Page-side fiber id
+   * @param maxDepth - Maximum subtree depth
+   * @returns FiberSnapshot or null
+   */
+  public async captureSnapshot(
+    fiberId: string,
+    maxDepth: number = 25
+  ): Promise<FiberSnapshot | null> {
+    const { snapshot } = await this.request('CAPTURE_SNAPSHOT', {
+      fiberId,
+      maxDepth,
+    });
+    return snapshot;
+  }
+
+  /**
+   * Handle messages posted by the page agent
+   */
+  private handleMessage = (event: MessageEvent): void => {
+    if (event.source !== this.options.target || !isBridgeMessage(event.data)) return;
+
+    const message = event.data;
+
+    if (message.direction === 'ready') {
+      this.resolveReady?.();
+      this.resolveReady = null;
+      return;
+    }
+
+    if (message.direction === 'event') {
+      this.eventListeners.get(message.type)?.forEach((listener) => listener(message.payload));
+      return;
+    }
+
+    if (message.direction !== 'response') return;
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id);
+
+    if (message.error) {
+      pending.reject(new Error(message.error));
+    } else {
+      pending.resolve(message.payload);
+    }
+  };
+}
+
+// Singleton instance
+export const pageBridge = new PageBridge();
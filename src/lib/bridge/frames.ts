@@ -0,0 +1,107 @@
+/**
+ * Frames - Reach the page agents of same-origin frames from the top frame
+ *
+ * Every frame runs the content script and a page agent (`all_frames`), but
+ * only the top frame shows the inspector. It drives the agents of same-origin
+ * frames through bridges targeting their windows and maps their elements into
+ * its own viewport. Only the top frame sends requests, so the bridges of one
+ * window never hand out the same request ids. Cross-origin frames are out of
+ * reach: their documents cannot be read.
+ */
+
+import { PageBridge, pageBridge } from './PageBridge';
+import { querySelectorAllDeep } from '@lib/fiber-utils';
+
+/**
+ * Viewport rectangle of an element, relative to the top frame
+ */
+export interface TopFrameRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const frameBridges = new WeakMap<Window, PageBridge>();
+
+/**
+ * Get the bridge to the page agent of a window
+ * @param target - This frame's window or a same-origin frame's
+ * @returns The shared bridge for this frame, or one bridge per frame window
+ */
+export function getBridgeForWindow(target: Window): PageBridge {
+  if (target === window) return pageBridge;
+
+  let bridge = frameBridges.get(target);
+  if (!bridge) {
+    bridge = new PageBridge({ target });
+    frameBridges.set(target, bridge);
+  }
+  return bridge;
+}
+
+/**
+ * Get the bridge to the page agent of the frame an element lives in
+ * @param element - Element of this frame or a same-origin frame
+ * @returns Bridge for the element's frame
+ */
+export function getBridgeForElement(element: Element): PageBridge {
+  return getBridgeForWindow(element.ownerDocument.defaultView || window);
+}
+
+/**
+ * Get the document of a frame element, if it is same-origin
+ * @param frame - An `<iframe>` or `<frame>`
+ * @returns The frame's document, or null for cross-origin frames
+ */
+export function getFrameDocument(frame: Element): Document | null {
+  try {
+    return (frame as HTMLIFrameElement).contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the windows of all same-origin frames, nested ones included
+ * @param root - Document to search (default: this frame's)
+ * @returns Frame windows in document order
+ */
+export function getSameOriginFrames(root: Document = document): Window[] {
+  const frames: Window[] = [];
+
+  for (const frame of querySelectorAllDeep(root, 'iframe, frame')) {
+    const frameDocument = getFrameDocument(frame);
+    if (!frameDocument?.defaultView) continue;
+
+    frames.push(frameDocument.defaultView, ...getSameOriginFrames(frameDocument));
+  }
+
+  return frames;
+}
+
+/**
+ * Get an element's viewport rectangle relative to the top frame
+ * Offsets of every frame between the element and this frame are added up.
+ * @param element - Element of this frame or a same-origin frame
+ * @returns Rectangle in this frame's viewport coordinates
+ */
+export function getTopFrameRect(element: Element): TopFrameRect {
+  const rect = element.getBoundingClientRect();
+  let left = rect.left;
+  let top = rect.top;
+
+  let view = element.ownerDocument.defaultView;
+  while (view && view !== window) {
+    const frame = view.frameElement;
+    if (!frame) break;
+
+    // The frame's content starts inside its border
+    const frameRect = frame.getBoundingClientRect();
+    left += frameRect.left + frame.clientLeft;
+    top += frameRect.top + frame.clientTop;
+    view = frame.ownerDocument.defaultView;
+  }
+
+  return { left, top, width: rect.width, height: rect.height };
+}
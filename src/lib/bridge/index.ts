@@ -0,0 +1,36 @@
+/**
+ * Bridge - Communication between the content script and the page agent
+ */
+
+export {
+  PageBridge,
+  pageBridge,
+  type PageBridgeOptions,
+} from './PageBridge';
+
+export {
+  getBridgeForWindow,
+  getBridgeForElement,
+  getFrameDocument,
+  getSameOriginFrames,
+  getTopFrameRect,
+  type TopFrameRect,
+} from './frames';
+
+export {
+  BRIDGE_SOURCE,
+  NODE_ID_ATTRIBUTE,
+  isBridgeMessage,
+  type BridgeMessage,
+  type BridgeRequestMap,
+  type BridgeRequestType,
+  type BridgeRequestPayload,
+  type BridgeResponsePayload,
+  type BridgeRequestMessage,
+  type BridgeResponseMessage,
+  type BridgeReadyMessage,
+  type BridgeEventMap,
+  type BridgeEventType,
+  type BridgeEventMessage,
+  type FiberSummary,
+} from './protocol';
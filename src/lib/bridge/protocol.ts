@@ -0,0 +1,150 @@
+/**
+ * Bridge Protocol - Typed messages exchanged between the content script
+ * (isolated world) and the injected page agent (main world)
+ *
+ * React stores its Fiber references as expando properties on DOM nodes
+ * (`__reactFiber$...`), which are only visible from the page's own JavaScript
+ * world. The page agent does all fiber walking and answers requests from the
+ * content script over `window.postMessage`.
+ */
+
+import type { FiberSnapshot } from '@/types';
+
+/**
+ * Marker used to tell bridge messages apart from the page's own messages
+ */
+export const BRIDGE_SOURCE = 'react-component-cloner-bridge';
+
+/**
+ * Attribute used to reference DOM elements across the two worlds.
+ * Both worlds share the DOM, so an attribute is the only handle they can both
+ * resolve.
+ */
+export const NODE_ID_ATTRIBUTE = 'data-rcc-id';
+
+/**
+ * Lightweight fiber description used while hovering and navigating
+ */
+export interface FiberSummary {
+  id: string;
+  name: string;
+  /** Canonical work tag (see WorkTag) */
+  tag: number;
+  /** Nearest host DOM element of the fiber */
+  nodeId: string | null;
+  /** Host DOM elements the fiber renders through portals, elsewhere in the page */
+  portalNodeIds: string[];
+}
+
+/**
+ * Request/response payloads for every bridge request type
+ */
+export interface BridgeRequestMap {
+  CHECK_REACT: {
+    request: Record<string, never>;
+    response: { reactDetected: boolean; version: string | null };
+  };
+  INSPECT_ELEMENT: {
+    request: { nodeId: string };
+    response: { fiber: FiberSummary | null };
+  };
+  GET_PARENT: {
+    request: { fiberId: string };
+    response: { fiber: FiberSummary | null };
+  };
+  GET_CHILD: {
+    request: { fiberId: string };
+    response: { fiber: FiberSummary | null };
+  };
+  CAPTURE_SNAPSHOT: {
+    request: { fiberId: string; maxDepth: number };
+    response: { snapshot: FiberSnapshot | null };
+  };
+  START_RECORDING: {
+    request: { fiberId: string; maxDepth: number };
+    response: { count: number };
+  };
+  GET_VARIANTS: {
+    request: { fiberId: string };
+    response: { variants: FiberSnapshot[] };
+  };
+  STOP_RECORDING: {
+    request: { fiberId: string };
+    response: { variants: FiberSnapshot[] };
+  };
+  COLLECT_INSTANCES: {
+    request: { fiberId: string };
+    response: { instances: Array<Record<string, unknown>> };
+  };
+}
+
+export type BridgeRequestType = keyof BridgeRequestMap;
+
+/**
+ * Payloads of the events the page agent posts unasked
+ */
+export interface BridgeEventMap {
+  /** React loaded, or a root mounted or unmounted (see devtools-hook) */
+  REACT_STATUS: { reactDetected: boolean; version: string | null };
+  /** A recording captured a new variant of its component */
+  VARIANT_RECORDED: { fiberId: string; count: number };
+}
+
+export type BridgeEventType = keyof BridgeEventMap;
+
+export type BridgeRequestPayload<T extends BridgeRequestType> =
+  BridgeRequestMap[T]['request'];
+
+export type BridgeResponsePayload<T extends BridgeRequestType> =
+  BridgeRequestMap[T]['response'];
+
+export interface BridgeRequestMessage<
+  T extends BridgeRequestType = BridgeRequestType,
+> {
+  source: typeof BRIDGE_SOURCE;
+  direction: 'request';
+  id: number;
+  type: T;
+  payload: BridgeRequestPayload<T>;
+}
+
+export interface BridgeResponseMessage<
+  T extends BridgeRequestType = BridgeRequestType,
+> {
+  source: typeof BRIDGE_SOURCE;
+  direction: 'response';
+  id: number;
+  payload?: BridgeResponsePayload<T>;
+  error?: string;
+}
+
+export interface BridgeReadyMessage {
+  source: typeof BRIDGE_SOURCE;
+  direction: 'ready';
+}
+
+export interface BridgeEventMessage<T extends BridgeEventType = BridgeEventType> {
+  source: typeof BRIDGE_SOURCE;
+  direction: 'event';
+  type: T;
+  payload: BridgeEventMap[T];
+}
+
+export type BridgeMessage =
+  | BridgeRequestMessage
+  | BridgeResponseMessage
+  | BridgeReadyMessage
+  | BridgeEventMessage;
+
+/**
+ * Check if a posted message belongs to the bridge
+ * @param data - `MessageEvent.data`
+ * @returns True if the message is a bridge message
+ */
+export function isBridgeMessage(data: unknown): data is BridgeMessage {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    (data as { source?: unknown }).source === BRIDGE_SOURCE
+  );
+}
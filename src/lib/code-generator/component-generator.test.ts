@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentInfo, FiberSnapshot } from '@/types';
+import { generateComponentFile, quickGenerate } from './component-generator';
+import productList from './__fixtures__/product-list.snapshot.json';
+
+const snapshot = productList as FiberSnapshot;
+
+describe('generateComponentFile', () => {
+  it('generates a typed component from a saved snapshot', () => {
+    const { code } = generateComponentFile(snapshot, undefined, { typescript: true }, null);
+
+    expect(code).toContain('export interface ProductListProps {');
+    expect(code).toContain('  onSelect?: (product: any) => void;');
+    expect(code).toContain('function ProductList(props: ProductListProps) {');
+    expect(code).toContain('<section className="product-list" aria-label="Featured">');
+    expect(code).toContain('<button type="button" onClick={handleEvent}>Show more</button>');
+    expect(code).toContain('export default ProductList;');
+  });
+
+  it('folds the repeated rows into a list prop', () => {
+    const { code, lists } = generateComponentFile(snapshot, undefined, { typescript: true }, null);
+
+    expect(lists).toHaveLength(1);
+    expect(lists[0]).toMatchObject({ propName: 'items', fields: ['text', 'text2'], keyField: 'id' });
+    expect(code).toContain('{items.map((item) => (');
+    expect(code).toContain('<li key={item.id} className="product">');
+    expect(code).toContain("  { id: '2', text: 'Oak shelf', text2: '$120' },");
+    expect(code).toContain('const { items = defaultItems } = props;');
+  });
+
+  it('imports hoisted values from the data module', () => {
+    const { code, hoisted } = generateComponentFile(snapshot, undefined, { typescript: true }, './ProductList.data');
+
+    expect(hoisted.values.map((value) => value.name)).toEqual(['defaultItems']);
+    expect(code).toContain("import { defaultItems } from './ProductList.data';");
+    expect(code).not.toContain('const defaultItems =');
+  });
+
+  it('writes the rows out when list detection is off', () => {
+    const { code, lists } = generateComponentFile(snapshot, undefined, { detectLists: false }, null);
+
+    expect(lists).toEqual([]);
+    expect(code).not.toContain('.map(');
+    expect(code).toContain('Oak shelf');
+  });
+});
+
+describe('quickGenerate', () => {
+  it('types props from the instances the capture collected', () => {
+    const componentInfo = {
+      name: 'ProductList',
+      snapshot,
+      instances: [snapshot.props, { title: 'Sale', layout: 'list' }],
+    } as unknown as ComponentInfo;
+
+    expect(quickGenerate(snapshot)).not.toContain("title: 'Featured' | 'Sale';");
+    expect(quickGenerate(snapshot, componentInfo)).toContain("title: 'Featured' | 'Sale';");
+  });
+});
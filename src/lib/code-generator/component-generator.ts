@@ -5,27 +5,57 @@
  * to create production-ready component files.
  */
 
-import type { ReactFiberNode, ComponentInfo } from '@/types';
+import type { FiberSnapshot, ComponentInfo, CSSModuleReport, NodeStyle, StyleSource } from '@/types';
+import { identifyComponentType, isHostFiber, findAllSnapshots, WorkTag } from '@lib/fiber-utils';
 import {
-  getComponentName,
-  extractHooks,
-  identifyComponentType,
-  extractProps,
-} from '@lib/fiber-utils';
-import { generateCSS, generateInlineStyles, generateStyledComponents } from '@lib/style-extractor';
-import { generateJSX } from './jsx-generator';
-import { generatePropsInterface, generateCompleteTypes } from './type-generator';
+  generateCSS,
+  generateCSSModuleSource,
+  generateInlineStyles,
+  generateStyledComponents,
+  generateNodeStylesCSS,
+  generateNodeTailwindClasses,
+  generateStyledSource,
+  getStyledComponentName,
+  generateTailwindClasses,
+  generateTailwindConfig,
+  getUniqueNodeStyles,
+  resolveTailwindTheme,
+  type TailwindThemeConfig,
+} from '@lib/style-extractor';
+import { generateJSX, isValueProp, type JSXGeneratorOptions } from './jsx-generator';
+import { recoverStyledComponents, type RecoveredStyledComponents } from './styled-recovery';
+import { decompileRenderSource, type DecompiledComponent } from './source-decompiler';
+import { generatePropsInterface, generateCompleteTypes, type TypeGeneratorOptions } from './type-generator';
+import { generatePropTypesBlock, generateZodSchema } from './schema-generator';
 import { generateCompleteImports } from './import-generator';
+import { createHoistedValues, generateValueDeclarations, hoistValue, printValue, type HoistedValues } from './value-printer';
+import { detectRepeatedLists, type RepeatedList } from './list-detection';
 
 export interface ComponentGeneratorOptions {
-  /** Component name (default: extracted from fiber) */
+  /** Component name (default: taken from the snapshot) */
   componentName?: string;
+  /** Generate the rendered output (snapshot) or the decompiled render logic (source) */
+  mode?: 'snapshot' | 'source';
   /** Use TypeScript (.tsx) or JavaScript (.jsx) */
   typescript?: boolean;
   /** Include prop types/interfaces */
   includeTypes?: boolean;
+  /** Infer prop types from every mounted instance of the component (default: true) */
+  inferTypesFromInstances?: boolean;
+  /** Add a `propTypes` block to JavaScript output (default: true) */
+  includePropTypes?: boolean;
+  /** Declare the props of TypeScript output as a Zod schema and its `z.infer` type (default: false) */
+  includeZodSchema?: boolean;
   /** Styling strategy */
-  styleStrategy?: 'inline' | 'css-module' | 'styled-components' | 'plain-css' | 'none';
+  styleStrategy?: 'inline' | 'css-module' | 'styled-components' | 'plain-css' | 'tailwind' | 'none';
+  /** Emit computed values or the authored stylesheet rules */
+  styleSource?: StyleSource;
+  /** tailwind.config theme to snap utility classes to (default: Tailwind's) */
+  tailwindTheme?: TailwindThemeConfig | null;
+  /** Keep the original classes of Tailwind sites instead of generating styles (default: true) */
+  preserveTailwindClasses?: boolean;
+  /** Regenerate the page's own CSS Modules for the css-module strategy (default: true) */
+  preserveCSSModules?: boolean;
   /** Include comments explaining the code */
   includeComments?: boolean;
   /** Format code with Prettier (placeholder) */
@@ -38,70 +68,143 @@ export interface ComponentGeneratorOptions {
   extractDepth?: 'shallow' | 'deep';
   /** Include export statement */
   includeExport?: boolean;
+  /** Nesting depth of prop values written as literals; deeper values are left empty (default: 4) */
+  valueDepth?: number;
+  /** Items written per array prop value (default: 50) */
+  maxArrayItems?: number;
+  /** Longest prop value written inline; longer arrays and objects become named constants (default: 60) */
+  maxInlineValueLength?: number;
+  /** Write runs of repeated siblings as `.map()` loops over an items prop (default: true) */
+  detectLists?: boolean;
 }
 
 const DEFAULT_OPTIONS: Required<ComponentGeneratorOptions> = {
   componentName: '',
+  mode: 'snapshot',
   typescript: true,
   includeTypes: true,
+  inferTypesFromInstances: true,
+  includePropTypes: true,
+  includeZodSchema: false,
   styleStrategy: 'css-module',
+  styleSource: 'computed',
+  tailwindTheme: null,
+  preserveTailwindClasses: true,
+  preserveCSSModules: true,
   includeComments: true,
   formatCode: true,
   componentType: 'auto',
   includeState: false,
   extractDepth: 'deep',
   includeExport: true,
+  valueDepth: 4,
+  maxArrayItems: 50,
+  maxInlineValueLength: 60,
+  detectLists: true,
 };
 
+/**
+ * A generated component file, the prop values hoisted out of its JSX and the
+ * lists its JSX maps over
+ */
+export interface GeneratedComponentFile {
+  code: string;
+  hoisted: HoistedValues;
+  lists: RepeatedList[];
+}
+
 /**
  * Generate complete component file
+ * Large prop values are declared as constants in the file.
  */
 export function generateComponent(
-  fiber: ReactFiberNode | null,
+  snapshot: FiberSnapshot | null,
   componentInfo?: ComponentInfo,
   options: ComponentGeneratorOptions = {}
 ): string {
-  if (!fiber) {
-    return '';
-  }
+  return snapshot ? generateComponentFile(snapshot, componentInfo, options, null).code : '';
+}
 
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  const componentName = opts.componentName || getComponentName(fiber) || 'Component';
+/**
+ * Generate a component file
+ * @param dataModule - Module to import hoisted prop values from, or null to declare them in the file
+ */
+export function generateComponentFile(
+  snapshot: FiberSnapshot,
+  componentInfo: ComponentInfo | undefined,
+  options: ComponentGeneratorOptions,
+  dataModule: string | null
+): GeneratedComponentFile {
+  const requested = { ...DEFAULT_OPTIONS, ...options };
+  const componentName = requested.componentName || snapshot.name || 'Component';
+
+  // Source mode keeps the page's own classes, so there are no styles to generate
+  const decompiled = getDecompiledComponent(snapshot, componentName, requested);
+  const opts = decompiled ? { ...requested, styleStrategy: 'none' as const } : requested;
 
   // Extract component information
-  const componentType = identifyComponentType(fiber);
+  const componentType = identifyComponentType(snapshot);
 
   // Determine component type
   const useClassComponent =
     opts.componentType === 'class' ||
     (opts.componentType === 'auto' && componentType === 'class');
 
+  // Styled components keep their original definitions
+  const styled = opts.styleStrategy === 'styled-components'
+    ? recoverStyledComponents(snapshot, [
+        componentName,
+        ...Object.values(componentInfo?.nodeStyles || {}).map((nodeStyle) => getStyledComponentName(nodeStyle.className)),
+      ])
+    : null;
+  const renderedSnapshot = styled ? styled.snapshot : snapshot;
+  const lists = decompiled ? [] : getRepeatedLists(renderedSnapshot, componentName, componentInfo, opts);
+  const hoisted = createHoistedValues([
+    ...getReservedNames(renderedSnapshot, componentName),
+    ...lists.map((list) => list.propName),
+  ]);
+
   // Generate sections
-  const imports = generateImportSection(fiber, componentInfo, opts);
   const types = opts.includeTypes && opts.typescript
-    ? generateTypeSection(fiber, componentName, opts)
+    ? generateTypeSection(snapshot, componentName, componentInfo, opts, lists)
+    : '';
+  const component = decompiled
+    ? generateDecompiledComponent(decompiled, componentName, componentInfo, opts)
+    : useClassComponent
+      ? generateClassComponent(renderedSnapshot, componentName, componentInfo, opts, hoisted, lists)
+      : generateFunctionComponent(renderedSnapshot, componentName, componentInfo, opts, hoisted, lists);
+  // The component decides which values are hoisted, and so what is imported
+  const imports = [
+    generateImportSection(snapshot, componentName, componentInfo, opts),
+    dataModule && hoisted.values.length > 0
+      ? `import { ${hoisted.values.map((value) => value.name).join(', ')} } from '${dataModule}';`
+      : '',
+  ].filter(Boolean).join('\n');
+  const values = !dataModule ? generateValueSection(hoisted, opts) : '';
+  const propTypes = usesPropTypes(opts)
+    ? generatePropTypesBlock(snapshot, componentName, getTypeOptions(componentInfo, opts, lists))
     : '';
-  const component = useClassComponent
-    ? generateClassComponent(fiber, componentName, componentInfo, opts)
-    : generateFunctionComponent(fiber, componentName, componentInfo, opts);
-  const styles = generateStyleSection(componentInfo, componentName, opts);
+  const styles = generateStyleSection(componentInfo, componentName, opts, styled);
   const exportStatement = opts.includeExport ? generateExportStatement(componentName) : '';
 
+  const lazyComponents = generateLazySection(renderedSnapshot);
+
   // Combine sections
-  const sections = [imports, types, component, styles, exportStatement].filter(Boolean);
+  const sections = [imports, lazyComponents, types, values, component, propTypes, styles, exportStatement].filter(Boolean);
 
-  return sections.join('\n\n');
+  return { code: sections.join('\n\n'), hoisted, lists };
 }
 
 /**
  * Generate import section
  */
 function generateImportSection(
-  fiber: ReactFiberNode,
-  _componentInfo: ComponentInfo | undefined,
+  snapshot: FiberSnapshot,
+  componentName: string,
+  componentInfo: ComponentInfo | undefined,
   opts: Required<ComponentGeneratorOptions>
 ): string {
-  const hooks = extractHooks(fiber);
+  const hooks = snapshot.hooks;
   const usedHooks: string[] = [];
 
   // Extract unique hook types
@@ -113,11 +216,13 @@ function generateImportSection(
   });
 
   // Generate JSX to detect libraries
-  const jsxCode = generateJSX(fiber, { maxDepth: 2 });
+  const jsxCode = generateJSX(getRenderedSnapshot(snapshot), { maxDepth: 2 });
 
   // Map style strategy to import style type
   let styleType: 'css' | 'scss' | 'module' | 'styled-components' | undefined;
-  if (opts.styleStrategy === 'css-module') {
+  if (usesTailwindPassthrough(componentInfo, opts)) {
+    styleType = undefined;
+  } else if (opts.styleStrategy === 'css-module') {
     styleType = 'module';
   } else if (opts.styleStrategy === 'plain-css') {
     styleType = 'css';
@@ -129,12 +234,18 @@ function generateImportSection(
     hooks: usedHooks,
     styleType,
     stylePath:
-      opts.styleStrategy === 'css-module'
-        ? './Component.module.css'
+      !styleType
+        ? undefined
+        : opts.styleStrategy === 'css-module'
+        ? `./${componentName}.module.css`
         : opts.styleStrategy === 'plain-css'
-          ? './Component.css'
+          ? `./${componentName}.css`
           : undefined,
     jsxCode,
+    reactDomImports: findAllSnapshots(snapshot, (node) => node.tag === WorkTag.HostPortal).length > 0
+      ? ['createPortal']
+      : [],
+    schemaLibrary: usesPropTypes(opts) ? 'prop-types' : usesZodSchema(opts) ? 'zod' : undefined,
     typescript: opts.typescript,
     reactImportStyle: 'namespace',
   });
@@ -142,28 +253,167 @@ function generateImportSection(
   return imports;
 }
 
+/**
+ * Check if JavaScript output validates its props with PropTypes
+ */
+function usesPropTypes(opts: Required<ComponentGeneratorOptions>): boolean {
+  return !opts.typescript && opts.includePropTypes;
+}
+
+/**
+ * Check if TypeScript output declares its props as a Zod schema
+ */
+function usesZodSchema(opts: Required<ComponentGeneratorOptions>): boolean {
+  return opts.typescript && opts.includeTypes && opts.includeZodSchema;
+}
+
+/**
+ * Generate `React.lazy` stubs for the lazy components the output renders
+ */
+function generateLazySection(snapshot: FiberSnapshot): string {
+  const names = new Set(
+    findAllSnapshots(snapshot, (node) => node !== snapshot && !!node.lazy).map((node) => node.name)
+  );
+
+  return Array.from(names)
+    .map((name) => `const ${name} = React.lazy(() => import('./${name}'));`)
+    .join('\n');
+}
+
 /**
  * Generate type definitions section
  */
 function generateTypeSection(
-  fiber: ReactFiberNode,
+  snapshot: FiberSnapshot,
+  componentName: string,
+  componentInfo: ComponentInfo | undefined,
+  opts: Required<ComponentGeneratorOptions>,
+  lists: RepeatedList[]
+): string {
+  const typeOptions = { ...getTypeOptions(componentInfo, opts, lists), includeJSDoc: opts.includeComments, exportInterface: true };
+  return usesZodSchema(opts)
+    ? generateZodSchema(snapshot, componentName, typeOptions)
+    : generatePropsInterface(snapshot, componentName, typeOptions);
+}
+
+/**
+ * Get the samples props types are inferred from, and the list props the
+ * generated component adds
+ */
+function getTypeOptions(
+  componentInfo: ComponentInfo | undefined,
+  opts: Required<ComponentGeneratorOptions>,
+  lists: RepeatedList[] = []
+): TypeGeneratorOptions {
+  return {
+    variants: componentInfo?.variants,
+    instances: opts.inferTypesFromInstances ? componentInfo?.instances : undefined,
+    listProps: Object.fromEntries(lists.map((list) => [list.propName, list.items])),
+  };
+}
+
+/**
+ * Find the runs of repeated siblings the component's JSX maps over
+ */
+function getRepeatedLists(
+  snapshot: FiberSnapshot,
   componentName: string,
+  componentInfo: ComponentInfo | undefined,
   opts: Required<ComponentGeneratorOptions>
+): RepeatedList[] {
+  if (!opts.detectLists) {
+    return [];
+  }
+
+  const jsxOptions = getJSXStyleOptions(componentInfo, opts);
+  return detectRepeatedLists(getRenderedSnapshot(snapshot), {
+    nodeStyles: jsxOptions.nodeStyles || {},
+    isValueProp: (node, key) => isValueProp(node, key, jsxOptions),
+    reserved: getReservedNames(snapshot, componentName),
+  });
+}
+
+/**
+ * Get the names hoisted values must not take in the component file
+ */
+function getReservedNames(snapshot: FiberSnapshot, componentName: string): string[] {
+  const components = findAllSnapshots(snapshot, (node) => !isHostFiber(node)).map((node) => node.name);
+  return [
+    componentName,
+    'React',
+    'props',
+    'styles',
+    'handleEvent',
+    'createPortal',
+    'PropTypes',
+    'z',
+    ...Object.keys(snapshot.props),
+    ...components.filter((name): name is string => !!name),
+  ];
+}
+
+/**
+ * Get the JSX options for writing prop values and lists
+ */
+function getJSXValueOptions(
+  opts: Required<ComponentGeneratorOptions>,
+  hoisted: HoistedValues,
+  lists: RepeatedList[]
+): Pick<
+  JSXGeneratorOptions,
+  'valueDepth' | 'maxArrayItems' | 'maxInlineValueLength' | 'hoistedValues' | 'repeatedLists'
+> {
+  return {
+    valueDepth: opts.valueDepth,
+    maxArrayItems: opts.maxArrayItems,
+    maxInlineValueLength: opts.maxInlineValueLength,
+    hoistedValues: hoisted,
+    repeatedLists: lists,
+  };
+}
+
+/**
+ * Read the list props, defaulting to the items the page showed
+ * @param source - Where the props are read from (`props`, `this.props`)
+ * @returns Destructuring line, or '' without lists
+ */
+function generateListDefaults(
+  lists: RepeatedList[],
+  source: string,
+  hoisted: HoistedValues
 ): string {
-  return generatePropsInterface(fiber, componentName, {
-    includeJSDoc: opts.includeComments,
-    exportInterface: true,
+  if (lists.length === 0) {
+    return '';
+  }
+
+  const defaults = lists.map((list) => {
+    const printed = printValue(list.items, list.propName) || { code: '[]', hasJSX: false };
+    return `${list.propName} = ${hoistValue(hoisted, printed, [`default${capitalize(list.propName)}`])}`;
   });
+  return `const { ${defaults.join(', ')} } = ${source};`;
+}
+
+/**
+ * Generate the constants holding hoisted prop values
+ */
+function generateValueSection(hoisted: HoistedValues, opts: Required<ComponentGeneratorOptions>): string {
+  const declarations = generateValueDeclarations(hoisted, false);
+  if (!declarations) {
+    return '';
+  }
+  return opts.includeComments ? `// Prop values captured from the page\n${declarations}` : declarations;
 }
 
 /**
  * Generate function component
  */
 function generateFunctionComponent(
-  fiber: ReactFiberNode,
+  snapshot: FiberSnapshot,
   componentName: string,
   componentInfo: ComponentInfo | undefined,
-  opts: Required<ComponentGeneratorOptions>
+  opts: Required<ComponentGeneratorOptions>,
+  hoisted: HoistedValues,
+  lists: RepeatedList[]
 ): string {
   const lines: string[] = [];
 
@@ -182,7 +432,7 @@ function generateFunctionComponent(
   lines.push(`function ${componentName}(props${propsParam}) {`);
 
   // Destructure props (if any)
-  const props = extractProps(fiber);
+  const props = snapshot.props;
   if (props && Object.keys(props).length > 0) {
     const propNames = Object.keys(props)
       .filter((key) => key !== 'children' && !key.startsWith('__'))
@@ -193,10 +443,16 @@ function generateFunctionComponent(
     }
   }
 
+  // List props (repeated siblings), the captured items by default
+  const listDefaults = generateListDefaults(lists, 'props', hoisted);
+  if (listDefaults) {
+    lines.push(`  ${listDefaults}`);
+    lines.push('');
+  }
+
   // State hooks (placeholder)
   if (opts.includeState) {
-    const hooks = extractHooks(fiber);
-    const stateHooks = hooks.filter((hook) => hook.type === 'useState');
+    const stateHooks = snapshot.hooks.filter((hook) => hook.type === 'useState');
     if (stateHooks.length > 0) {
       if (opts.includeComments) {
         lines.push('  // State');
@@ -220,11 +476,13 @@ function generateFunctionComponent(
   }
 
   // JSX return
-  const jsx = generateJSX(fiber, {
+  const jsx = generateJSX(getRenderedSnapshot(snapshot), {
     prettify: true,
     maxDepth: opts.extractDepth === 'shallow' ? 3 : 10,
     extractDepth: opts.extractDepth,
     indentLevel: 2,
+    ...getJSXStyleOptions(componentInfo, opts),
+    ...getJSXValueOptions(opts, hoisted, lists),
   });
 
   lines.push('  return (');
@@ -251,10 +509,12 @@ function generateFunctionComponent(
  * Generate class component
  */
 function generateClassComponent(
-  fiber: ReactFiberNode,
+  snapshot: FiberSnapshot,
   componentName: string,
-  _componentInfo: ComponentInfo | undefined,
-  opts: Required<ComponentGeneratorOptions>
+  componentInfo: ComponentInfo | undefined,
+  opts: Required<ComponentGeneratorOptions>,
+  hoisted: HoistedValues,
+  lists: RepeatedList[]
 ): string {
   const lines: string[] = [];
 
@@ -289,11 +549,19 @@ function generateClassComponent(
   // Render method
   lines.push('  render() {');
 
-  const jsx = generateJSX(fiber, {
+  const listDefaults = generateListDefaults(lists, 'this.props', hoisted);
+  if (listDefaults) {
+    lines.push(`    ${listDefaults}`);
+    lines.push('');
+  }
+
+  const jsx = generateJSX(getRenderedSnapshot(snapshot), {
     prettify: true,
     maxDepth: opts.extractDepth === 'shallow' ? 3 : 10,
     extractDepth: opts.extractDepth,
     indentLevel: 3,
+    ...getJSXStyleOptions(componentInfo, opts),
+    ...getJSXValueOptions(opts, hoisted, lists),
   });
 
   lines.push('    return (');
@@ -316,19 +584,175 @@ function generateClassComponent(
   return lines.join('\n');
 }
 
+/**
+ * Decompile the component's render logic when source mode is requested
+ * Falls back to snapshot mode when the render source is missing or unparsable.
+ */
+function getDecompiledComponent(
+  snapshot: FiberSnapshot,
+  componentName: string,
+  opts: Required<ComponentGeneratorOptions>
+): DecompiledComponent | null {
+  if (opts.mode !== 'source') {
+    return null;
+  }
+
+  const decompiled = snapshot.renderSource
+    ? decompileRenderSource(snapshot.renderSource, {
+        componentName,
+        propsType: opts.includeTypes && opts.typescript ? `${componentName}Props` : null,
+      })
+    : null;
+
+  if (!decompiled) {
+    console.warn(`React Component Cloner: No render source for ${componentName}, generating from the snapshot`);
+  }
+  return decompiled;
+}
+
+/**
+ * Generate a component from its decompiled render logic
+ */
+function generateDecompiledComponent(
+  decompiled: DecompiledComponent,
+  componentName: string,
+  componentInfo: ComponentInfo | undefined,
+  opts: Required<ComponentGeneratorOptions>
+): string {
+  if (!opts.includeComments) {
+    return decompiled.code;
+  }
+
+  const lines: string[] = [];
+  lines.push(`/**`);
+  lines.push(` * ${componentName} component`);
+  if (componentInfo?.type) {
+    lines.push(` * Type: ${componentInfo.type}`);
+  }
+  lines.push(` * Decompiled from the page's bundle; names may still be minified.`);
+  if (decompiled.externals.length > 0) {
+    lines.push(` * TODO: Import or replace bundle references: ${decompiled.externals.join(', ')}`);
+  }
+  lines.push(` */`);
+  lines.push(decompiled.code);
+
+  return lines.join('\n');
+}
+
+/**
+ * Get the snapshot whose JSX is the component's render output
+ * A component snapshot's JSX is the component itself (`<Card>...</Card>`), so
+ * its children are what the component renders.
+ */
+function getRenderedSnapshot(snapshot: FiberSnapshot): FiberSnapshot | null {
+  if (isHostFiber(snapshot)) {
+    return snapshot;
+  }
+
+  if (snapshot.children.length <= 1) {
+    return snapshot.children[0] || null;
+  }
+
+  // Several roots render as a Fragment
+  return { ...snapshot, tag: WorkTag.Fragment, name: 'Fragment' };
+}
+
+/**
+ * Check if the page's own Tailwind classes are kept instead of generated styles
+ */
+function usesTailwindPassthrough(
+  componentInfo: ComponentInfo | undefined,
+  opts: Required<ComponentGeneratorOptions>
+): boolean {
+  return opts.preserveTailwindClasses && opts.styleStrategy !== 'none' && !!componentInfo?.tailwind;
+}
+
+/**
+ * Check if the page's own CSS Modules are regenerated instead of generated styles
+ */
+function usesCSSModulePassthrough(
+  componentInfo: ComponentInfo | undefined,
+  opts: Required<ComponentGeneratorOptions>
+): boolean {
+  return opts.preserveCSSModules && opts.styleStrategy === 'css-module' && !!componentInfo?.cssModules;
+}
+
+/**
+ * Get the JSX options that make elements reference their generated styles
+ * Without node styles, elements keep their original className and style.
+ */
+function getJSXStyleOptions(
+  componentInfo: ComponentInfo | undefined,
+  opts: Required<ComponentGeneratorOptions>
+): Pick<JSXGeneratorOptions, 'nodeStyles' | 'styleReference' | 'tailwindClasses' | 'cssModules'> {
+  if (usesCSSModulePassthrough(componentInfo, opts)) {
+    return { cssModules: componentInfo!.cssModules };
+  }
+
+  if (
+    opts.styleStrategy === 'none' ||
+    !componentInfo?.nodeStyles ||
+    usesTailwindPassthrough(componentInfo, opts)
+  ) {
+    return {};
+  }
+
+  if (opts.styleStrategy === 'tailwind') {
+    // Utility classes go straight into className, keyed like the other strategies
+    const theme = resolveTailwindTheme(opts.tailwindTheme);
+    const tailwindClasses: Record<string, string> = {};
+    for (const nodeStyle of getUniqueNodeStyles(componentInfo.nodeStyles)) {
+      tailwindClasses[nodeStyle.className] = generateNodeTailwindClasses(nodeStyle, {
+        styleSource: opts.styleSource,
+        theme,
+      });
+    }
+    return {
+      nodeStyles: componentInfo.nodeStyles,
+      styleReference: 'tailwind',
+      tailwindClasses,
+    };
+  }
+
+  return {
+    nodeStyles: componentInfo.nodeStyles,
+    styleReference: opts.styleStrategy,
+  };
+}
+
 /**
  * Generate style section
  */
 function generateStyleSection(
   componentInfo: ComponentInfo | undefined,
   componentName: string,
-  opts: Required<ComponentGeneratorOptions>
+  opts: Required<ComponentGeneratorOptions>,
+  styled: RecoveredStyledComponents | null = null
 ): string {
-  if (opts.styleStrategy === 'none' || !componentInfo?.styles) {
+  if (opts.styleStrategy === 'none' || usesTailwindPassthrough(componentInfo, opts)) {
+    return '';
+  }
+
+  if (usesCSSModulePassthrough(componentInfo, opts)) {
+    return generateCSSModuleSection(componentInfo!.cssModules!, componentName, opts);
+  }
+
+  if (componentInfo?.nodeStyles) {
+    // Tailwind classes are part of the JSX
+    if (opts.styleStrategy === 'tailwind') {
+      return '';
+    }
+    if (styled && styled.definitions.length > 0) {
+      return generateRecoveredStyleSection(componentInfo.nodeStyles, componentName, opts, styled);
+    }
+    return generateNodeStyleSection(componentInfo.nodeStyles, componentName, opts);
+  }
+
+  if (!componentInfo?.styles) {
     return '';
   }
 
-  const { computed, strategy } = componentInfo.styles;
+  const { computed, strategy, pseudo } = componentInfo.styles;
 
   if (!computed || Object.keys(computed).length === 0) {
     return '';
@@ -344,22 +768,39 @@ function generateStyleSection(
   }
 
   switch (opts.styleStrategy) {
-    case 'inline':
+    case 'inline': {
       const inlineStyles = generateInlineStyles(computed, componentName, opts.includeComments);
       lines.push(inlineStyles);
       break;
+    }
 
-    case 'styled-components':
-      const styledComponent = generateStyledComponents(computed, componentName, opts.includeComments);
+    case 'styled-components': {
+      const styledComponent = generateStyledComponents(
+        computed,
+        componentName,
+        opts.includeComments,
+        pseudo,
+        componentInfo.snapshot.styled
+      );
       lines.push(styledComponent);
       break;
+    }
+
+    case 'tailwind': {
+      const classes = generateTailwindClasses(computed, pseudo, [], resolveTailwindTheme(opts.tailwindTheme));
+      lines.push('/*');
+      lines.push(` * Apply to the root element: className="${classes.join(' ')}"`);
+      lines.push('*/');
+      break;
+    }
 
     case 'css-module':
-    case 'plain-css':
+    case 'plain-css': {
       const plainCSS = generateCSS(computed, {
         strategy: 'plain-css',
         componentName,
         includeComments: opts.includeComments,
+        pseudo,
       });
       const css = plainCSS;
       if (opts.includeComments) {
@@ -374,11 +815,103 @@ function generateStyleSection(
       lines.push(css);
       lines.push('*/');
       break;
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate style section from per-node styles
+ * Inline and styled-components styles are code the JSX references; CSS is
+ * shown as a comment since it belongs in its own file.
+ */
+function generateNodeStyleSection(
+  nodeStyles: Record<string, NodeStyle>,
+  componentName: string,
+  opts: Required<ComponentGeneratorOptions>
+): string {
+  const uniqueStyles = getUniqueNodeStyles(nodeStyles);
+  if (uniqueStyles.length === 0) {
+    return '';
+  }
+
+  const code = generateNodeStylesCSS(uniqueStyles, {
+    strategy: opts.styleStrategy === 'none' || opts.styleStrategy === 'tailwind' ? 'plain-css' : opts.styleStrategy,
+    componentName,
+    includeComments: opts.includeComments,
+    typescript: opts.typescript,
+    styleSource: opts.styleSource,
+  });
+
+  if (opts.styleStrategy === 'inline' || opts.styleStrategy === 'styled-components') {
+    return code;
+  }
+
+  const lines: string[] = [];
+  if (opts.includeComments) {
+    lines.push('/*');
+    lines.push(' * Save this CSS in a separate file:');
+    lines.push(
+      ` * ${opts.styleStrategy === 'css-module' ? `${componentName}.module.css` : `${componentName}.css`}`
+    );
+    lines.push(' */');
+  }
+  lines.push('/*');
+  lines.push(code);
+  lines.push('*/');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate style section from the page's regenerated CSS module
+ */
+function generateCSSModuleSection(
+  cssModules: CSSModuleReport,
+  componentName: string,
+  opts: Required<ComponentGeneratorOptions>
+): string {
+  const lines: string[] = [];
+  if (opts.includeComments) {
+    lines.push('/*');
+    lines.push(' * Save this CSS in a separate file:');
+    lines.push(` * ${componentName}.module.css (regenerated from the page's CSS Modules)`);
+    lines.push(' */');
   }
+  lines.push('/*');
+  // The module's own comments must not end the surrounding one
+  lines.push(generateCSSModuleSource(cssModules).trimEnd().replace(/\*\//g, '*\\/'));
+  lines.push('*/');
 
   return lines.join('\n');
 }
 
+/**
+ * Generate styled-components from recovered definitions, plus styled
+ * elements for the remaining nodes
+ */
+function generateRecoveredStyleSection(
+  nodeStyles: Record<string, NodeStyle>,
+  componentName: string,
+  opts: Required<ComponentGeneratorOptions>,
+  styled: RecoveredStyledComponents
+): string {
+  const recovered = styled.definitions.map(({ name, source }) => {
+    const definition = generateStyledSource(name, source, opts.typescript);
+    return opts.includeComments
+      ? `// Original ${source.library} definition${source.componentId ? ` (${source.componentId})` : ''}\n${definition}`
+      : definition;
+  });
+
+  const remaining = Object.fromEntries(
+    Object.entries(nodeStyles).filter(([nodeId]) => !styled.coveredNodeIds.has(nodeId))
+  );
+  const generated = generateNodeStyleSection(remaining, componentName, opts);
+
+  return [...recovered, generated].filter(Boolean).join('\n\n');
+}
+
 /**
  * Generate export statement
  */
@@ -400,7 +933,7 @@ export function generateCompleteFile(
   componentInfo: ComponentInfo,
   options: ComponentGeneratorOptions = {}
 ): string {
-  return generateComponent(componentInfo.fiberNode, componentInfo, options);
+  return generateComponent(componentInfo.snapshot, componentInfo, options);
 }
 
 /**
@@ -412,20 +945,54 @@ export function generateComponentPackage(
 ): Map<string, string> {
   const files = new Map<string, string>();
 
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  const componentName = opts.componentName || componentInfo.name || 'Component';
+  const requested = { ...DEFAULT_OPTIONS, ...options };
+  const componentName = requested.componentName || componentInfo.name || 'Component';
+
+  // Source mode falls back to the snapshot when the render logic cannot be decompiled
+  const decompiled = getDecompiledComponent(componentInfo.snapshot, componentName, requested);
+  const opts = decompiled
+    ? { ...requested, styleStrategy: 'none' as const }
+    : { ...requested, mode: 'snapshot' as const };
 
-  // Main component file
+  // Main component file, with its large prop values in a data module
   const ext = opts.typescript ? 'tsx' : 'jsx';
-  const componentFile = generateComponent(componentInfo.fiberNode, componentInfo, options);
-  files.set(`${componentName}.${ext}`, componentFile);
+  const componentFile = generateComponentFile(
+    componentInfo.snapshot,
+    componentInfo,
+    { ...options, mode: opts.mode },
+    `./${componentName}.data`
+  );
+  files.set(`${componentName}.${ext}`, componentFile.code);
+
+  if (componentFile.hoisted.values.length > 0) {
+    const hasJSX = componentFile.hoisted.values.some((value) => value.hasJSX);
+    const dataExt = hasJSX ? ext : opts.typescript ? 'ts' : 'js';
+    files.set(`${componentName}.data.${dataExt}`, generateDataModule(componentFile.hoisted, componentName, opts));
+  }
 
   // Style file (if needed)
-  if (opts.styleStrategy === 'css-module' && componentInfo.styles?.computed) {
+  if (usesTailwindPassthrough(componentInfo, opts)) {
+    files.set('tailwind.config.js', generateTailwindConfig(componentInfo.tailwind!));
+  } else if (usesCSSModulePassthrough(componentInfo, opts)) {
+    files.set(`${componentName}.module.css`, generateCSSModuleSource(componentInfo.cssModules!));
+  } else if (
+    componentInfo.nodeStyles &&
+    (opts.styleStrategy === 'css-module' || opts.styleStrategy === 'plain-css')
+  ) {
+    const css = generateNodeStylesCSS(getUniqueNodeStyles(componentInfo.nodeStyles), {
+      strategy: opts.styleStrategy,
+      componentName,
+      includeComments: opts.includeComments,
+      styleSource: opts.styleSource,
+    });
+    const cssExt = opts.styleStrategy === 'css-module' ? 'module.css' : 'css';
+    files.set(`${componentName}.${cssExt}`, css);
+  } else if (opts.styleStrategy === 'css-module' && componentInfo.styles?.computed) {
     const cssModule = generateCSS(componentInfo.styles.computed, {
       strategy: 'css-module',
       componentName,
       includeComments: opts.includeComments,
+      pseudo: componentInfo.styles.pseudo,
     });
     files.set(`${componentName}.module.css`, cssModule);
   } else if (opts.styleStrategy === 'plain-css' && componentInfo.styles?.computed) {
@@ -433,13 +1000,17 @@ export function generateComponentPackage(
       strategy: 'plain-css',
       componentName,
       includeComments: opts.includeComments,
+      pseudo: componentInfo.styles.pseudo,
     });
     files.set(`${componentName}.css`, plainCSS);
   }
 
   // Type definition file (if TypeScript and separate types requested)
   if (opts.typescript && opts.includeTypes) {
-    const types = generateCompleteTypes(componentInfo.fiberNode, componentName);
+    const typeOptions = getTypeOptions(componentInfo, opts, componentFile.lists);
+    const types = usesZodSchema(opts)
+      ? `import * as React from 'react';\nimport { z } from 'zod';\n\n${generateZodSchema(componentInfo.snapshot, componentName, typeOptions)}`
+      : generateCompleteTypes(componentInfo.snapshot, componentName, {}, typeOptions);
     files.set(`${componentName}.types.ts`, types);
   }
 
@@ -456,15 +1027,47 @@ export function generateComponentPackage(
   return files;
 }
 
+/**
+ * Generate the data module holding a component's hoisted prop values
+ */
+function generateDataModule(
+  hoisted: HoistedValues,
+  componentName: string,
+  opts: Required<ComponentGeneratorOptions>
+): string {
+  const lines: string[] = [];
+
+  if (opts.includeComments) {
+    lines.push('/**');
+    lines.push(` * Prop values captured from what ${componentName} rendered`);
+    lines.push(' */');
+    lines.push('');
+  }
+  if (hoisted.values.some((value) => value.hasJSX)) {
+    lines.push("import * as React from 'react';");
+    lines.push('');
+  }
+  lines.push(generateValueDeclarations(hoisted, true));
+
+  return lines.join('\n') + '\n';
+}
+
 /**
  * Generate README for component
  */
 function generateComponentReadme(
   componentName: string,
-  _componentInfo: ComponentInfo,
+  componentInfo: ComponentInfo,
   opts: Required<ComponentGeneratorOptions>
 ): string {
   const ext = opts.typescript ? 'tsx' : 'jsx';
+  const styling = opts.mode === 'source'
+    ? "the page's original class names (decompiled source)"
+    : usesTailwindPassthrough(componentInfo, opts)
+      ? 'the original Tailwind classes of the page (see `tailwind.config.js`)'
+      : usesCSSModulePassthrough(componentInfo, opts)
+        ? `the page's original CSS Modules, regenerated with their local class names (see \`${componentName}.module.css\`)`
+        : opts.styleStrategy;
 
   return `# ${componentName}
 
@@ -490,7 +1093,7 @@ See \`${componentName}.types.ts\` for full prop definitions.
 
 ## Styling
 
-This component uses ${opts.styleStrategy} for styling.
+This component uses ${styling} for styling.
 
 ## Notes
 
@@ -506,9 +1109,11 @@ React Component Cloner Chrome Extension
 
 /**
  * Quick generate with sensible defaults
+ * @param componentInfo - What the capture collected besides the snapshot
+ *   (instances, variants, node styles, CSS Modules and Tailwind classes)
  */
-export function quickGenerate(fiber: ReactFiberNode): string {
-  return generateComponent(fiber, undefined, {
+export function quickGenerate(snapshot: FiberSnapshot, componentInfo?: ComponentInfo): string {
+  return generateComponent(snapshot, componentInfo, {
     typescript: true,
     includeTypes: true,
     styleStrategy: 'css-module',
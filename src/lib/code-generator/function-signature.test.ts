@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { inferFunctionSignature, printFunctionSignature } from './function-signature';
+
+/**
+ * Infer a signature and print it as a function type
+ */
+function printSignature(length: number, source: string | null, isEventHandler?: boolean): string {
+  return printFunctionSignature(inferFunctionSignature(length, source, isEventHandler));
+}
+
+describe('inferFunctionSignature', () => {
+  it('falls back to `length` untyped parameters without a source', () => {
+    expect(printSignature(2, null)).toBe('(arg0: any, arg1: any) => void');
+    expect(printSignature(0, null)).toBe('() => void');
+  });
+
+  it('reads parameter names from arrows and function expressions', () => {
+    expect(printSignature(1, '(product) => track(product.id)')).toBe('(product: any) => void');
+    expect(printSignature(2, 'function select(id, index) { return id + index; }')).toBe(
+      '(id: any, index: any) => void'
+    );
+  });
+
+  it('types defaults by their value and makes them and the parameters after them optional', () => {
+    expect(printSignature(1, '(page, size = 20, label) => load(page, size, label)')).toBe(
+      '(page: any, size?: number, label?: any) => void'
+    );
+    expect(printSignature(0, '(open = !0, title = `Menu`) => toggle(open, title)')).toBe(
+      '(open?: boolean, title?: string) => void'
+    );
+  });
+
+  it('types events by name, and `e` only in on* handlers', () => {
+    expect(printSignature(1, '(event) => event.preventDefault()')).toBe('(event: React.SyntheticEvent) => void');
+    expect(printSignature(1, '(e) => e.preventDefault()', true)).toBe('(e: React.SyntheticEvent) => void');
+    expect(printSignature(1, '(e) => e.preventDefault()')).toBe('(e: any) => void');
+  });
+
+  it('types destructured and rest parameters', () => {
+    expect(printSignature(1, '({ id, mode = "edit", ...rest }, ...args) => open(id, mode, rest, args)')).toBe(
+      '(arg0: { id: any; mode?: string; [key: string]: any }, ...args: any[]) => void'
+    );
+    expect(printSignature(1, '([first]) => first')).toBe('(arg0: any[]) => void');
+  });
+
+  it('returns a promise for async functions', () => {
+    const signature = inferFunctionSignature(1, 'async (id) => { await save(id); }');
+
+    expect(signature.async).toBe(true);
+    expect(printFunctionSignature(signature)).toBe('(id: any) => Promise<void>');
+  });
+});
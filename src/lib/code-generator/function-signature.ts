@@ -0,0 +1,160 @@
+/**
+ * Function Signature - Recover a callback prop's parameters from its source
+ *
+ * Captured props only say that a value was a function (`[Function: onChange]`).
+ * For the root of a capture the function's `length` and source are kept as
+ * well (see PropValueDetail); the source is parsed like a render function and
+ * its parameter list read: names, defaults, destructuring and rest parameters.
+ * Bundles carry no type annotations, so parameter types come from default
+ * values and event-like names only.
+ */
+
+import * as t from '@babel/types';
+import { parseFunctionSource } from './source-decompiler';
+
+/**
+ * A parameter of a function prop
+ */
+export interface FunctionParam {
+  name: string;
+  /** TypeScript type, `any` unless a default value or the name tells */
+  type: string;
+  /** Has a default value, or follows one (beyond `fn.length`) */
+  optional: boolean;
+  /** Rest parameter (`...args`) */
+  rest: boolean;
+}
+
+/**
+ * Parameters and kind of a function prop
+ */
+export interface FunctionSignature {
+  params: FunctionParam[];
+  /** Async functions return a promise */
+  async: boolean;
+}
+
+/**
+ * Parameter names that hold an event wherever they appear
+ */
+const EVENT_PARAM_NAMES = new Set(['event', 'evt', 'ev']);
+
+/**
+ * Infer the signature of a captured function
+ * @param length - `fn.length`
+ * @param source - `fn.toString()`, or null when it was not captured
+ * @param isEventHandler - Whether the prop is an `on*` handler (its first parameter `e` is the event)
+ * @returns The signature; without a parsable source, `length` parameters typed `any`
+ */
+export function inferFunctionSignature(
+  length: number,
+  source: string | null,
+  isEventHandler: boolean = false
+): FunctionSignature {
+  const fn = source ? parseFunctionSource(source) : null;
+  if (!fn) {
+    return {
+      params: Array.from({ length }, (_, index) => ({ name: `arg${index}`, type: 'any', optional: false, rest: false })),
+      async: false,
+    };
+  }
+
+  const params = fn.params.map((param, index): FunctionParam => {
+    const inferred = inferParam(param, index, isEventHandler);
+    // Parameters after the first default one are optional too (fn.length stops there)
+    return { ...inferred, optional: !inferred.rest && (inferred.optional || index >= length) };
+  });
+
+  return { params, async: fn.async };
+}
+
+/**
+ * Print a signature as a TypeScript function type
+ * @param signature - Inferred signature
+ * @returns Function type, e.g. `(event: React.SyntheticEvent, value?: number) => void`
+ */
+export function printFunctionSignature(signature: FunctionSignature): string {
+  const params = signature.params.map((param) =>
+    param.rest ? `...${param.name}: ${param.type}` : `${param.name}${param.optional ? '?' : ''}: ${param.type}`
+  );
+  return `(${params.join(', ')}) => ${signature.async ? 'Promise<void>' : 'void'}`;
+}
+
+/**
+ * Infer a single parameter
+ */
+function inferParam(param: t.Node, index: number, isEventHandler: boolean): FunctionParam {
+  const base = { name: `arg${index}`, type: 'any', optional: false, rest: false };
+
+  if (t.isIdentifier(param)) {
+    const isEvent = EVENT_PARAM_NAMES.has(param.name) || (isEventHandler && index === 0 && param.name === 'e');
+    return { ...base, name: param.name, type: isEvent ? 'React.SyntheticEvent' : 'any' };
+  }
+
+  if (t.isAssignmentPattern(param)) {
+    const inner = inferParam(param.left, index, isEventHandler);
+    const type = getDefaultValueType(param.right);
+    return { ...inner, type: type === 'any' ? inner.type : type, optional: true };
+  }
+
+  if (t.isRestElement(param)) {
+    const name = t.isIdentifier(param.argument) ? param.argument.name : 'args';
+    return { ...base, name, type: 'any[]', rest: true };
+  }
+
+  if (t.isObjectPattern(param)) {
+    return { ...base, type: getObjectPatternType(param) };
+  }
+
+  if (t.isArrayPattern(param)) {
+    return { ...base, type: 'any[]' };
+  }
+
+  return base;
+}
+
+/**
+ * Type of a destructured object parameter, from the fields it reads
+ */
+function getObjectPatternType(pattern: t.ObjectPattern): string {
+  const fields: string[] = [];
+
+  for (const property of pattern.properties) {
+    if (t.isRestElement(property)) {
+      fields.push('[key: string]: any');
+      continue;
+    }
+
+    const key = t.isIdentifier(property.key)
+      ? property.key.name
+      : t.isStringLiteral(property.key)
+        ? `'${property.key.value}'`
+        : null;
+    if (!key || property.computed) continue;
+
+    if (t.isAssignmentPattern(property.value)) {
+      fields.push(`${key}?: ${getDefaultValueType(property.value.right)}`);
+    } else {
+      fields.push(`${key}: any`);
+    }
+  }
+
+  return fields.length > 0 ? `{ ${fields.join('; ')} }` : 'Record<string, any>';
+}
+
+/**
+ * Type of a parameter's default value
+ */
+function getDefaultValueType(value: t.Node): string {
+  if (t.isNumericLiteral(value)) return 'number';
+  if (t.isUnaryExpression(value) && value.operator === '-' && t.isNumericLiteral(value.argument)) return 'number';
+  if (t.isStringLiteral(value) || t.isTemplateLiteral(value)) return 'string';
+  if (t.isBooleanLiteral(value)) return 'boolean';
+  if (t.isArrayExpression(value)) return 'any[]';
+  if (t.isObjectExpression(value)) return 'Record<string, any>';
+  if (t.isArrowFunctionExpression(value) || t.isFunctionExpression(value)) return '(...args: any[]) => any';
+  // Minified `!0` / `!1`
+  if (t.isUnaryExpression(value) && value.operator === '!' && t.isNumericLiteral(value.argument)) return 'boolean';
+  // Minified `void 0` is no default at all
+  return 'any';
+}
@@ -150,7 +150,7 @@ function generateImportStatement(
   }
 
   // Style imports (no names)
-  if (imp.type === 'style') {
+  if (imp.type === 'style' && parts.length === 0) {
     return `import '${imp.source}';`;
   }
 
@@ -223,6 +223,28 @@ export function generateStyleImport(
   };
 }
 
+/**
+ * Generate prop-types import (propTypes blocks of JavaScript output)
+ */
+export function generatePropTypesImport(): ImportStatement {
+  return {
+    source: 'prop-types',
+    type: 'library',
+    defaultImport: 'PropTypes',
+  };
+}
+
+/**
+ * Generate Zod import (props schemas of TypeScript output)
+ */
+export function generateZodImport(): ImportStatement {
+  return {
+    source: 'zod',
+    type: 'library',
+    namedImports: ['z'],
+  };
+}
+
 /**
  * Generate styled-components import
  */
@@ -312,6 +334,10 @@ export function generateCompleteImports(options: {
   styleType?: 'css' | 'scss' | 'module' | 'styled-components';
   stylePath?: string;
   jsxCode?: string;
+  /** Named imports from react-dom (`createPortal`) */
+  reactDomImports?: string[];
+  /** Library of the runtime props validation, if any (see schema-generator) */
+  schemaLibrary?: 'prop-types' | 'zod';
   typescript?: boolean;
   reactImportStyle?: 'namespace' | 'named';
 }): string {
@@ -335,12 +361,28 @@ export function generateCompleteImports(options: {
     }
   }
 
+  // react-dom imports
+  if (options.reactDomImports && options.reactDomImports.length > 0) {
+    imports.push({
+      source: 'react-dom',
+      type: 'library',
+      namedImports: options.reactDomImports,
+    });
+  }
+
   // Library imports (from JSX code)
   if (options.jsxCode) {
     const libraryImports = detectLibraryImports(options.jsxCode);
     imports.push(...libraryImports);
   }
 
+  // Props validation imports
+  if (options.schemaLibrary === 'prop-types') {
+    imports.push(generatePropTypesImport());
+  } else if (options.schemaLibrary === 'zod') {
+    imports.push(generateZodImport());
+  }
+
   // Component imports
   if (options.componentNames && options.componentNames.length > 0) {
     const componentImports = generateComponentImports(options.componentNames);
@@ -11,6 +11,7 @@ export {
   generateJSX,
   generateCleanJSX,
   generateShallowJSX,
+  isValueProp,
   type JSXGeneratorOptions,
 } from './jsx-generator';
 
@@ -22,9 +23,58 @@ export {
   generateCompleteTypes,
   generateUnionType,
   generateEventHandlerType,
+  inferPropsModel,
   type TypeGeneratorOptions,
+  type PropsModel,
 } from './type-generator';
 
+// Schema Generation
+export {
+  generatePropTypesBlock,
+  generateZodSchema,
+} from './schema-generator';
+
+// Prop Inference
+export {
+  inferProps,
+  inferValueType,
+  extractNamedShapes,
+  printType,
+  toPropertyKey,
+  type InferredType,
+  type InferredProp,
+  type NamedShape,
+  type PropInferenceOptions,
+} from './prop-inference';
+
+// Function Signatures
+export {
+  inferFunctionSignature,
+  printFunctionSignature,
+  type FunctionParam,
+  type FunctionSignature,
+} from './function-signature';
+
+// Prop Values
+export {
+  printValue,
+  createHoistedValues,
+  hoistValue,
+  generateValueDeclarations,
+  type ValuePrinterOptions,
+  type PrintedValue,
+  type HoistedValue,
+  type HoistedValues,
+} from './value-printer';
+
+// List Detection
+export {
+  detectRepeatedLists,
+  fillListSlots,
+  type RepeatedList,
+  type ListDetectionOptions,
+} from './list-detection';
+
 // Import Generation
 export {
   generateImports,
@@ -32,6 +82,8 @@ export {
   generateComponentImports,
   generateStyleImport,
   generateStyledComponentsImport,
+  generatePropTypesImport,
+  generateZodImport,
   generateCompleteImports,
   detectLibraryImports,
   optimizeImports,
@@ -42,8 +94,17 @@ export {
 // Component Generation
 export {
   generateComponent,
+  generateComponentFile,
   generateCompleteFile,
   generateComponentPackage,
   quickGenerate,
   type ComponentGeneratorOptions,
+  type GeneratedComponentFile,
 } from './component-generator';
+
+// Source Decompilation
+export {
+  decompileRenderSource,
+  type DecompileOptions,
+  type DecompiledComponent,
+} from './source-decompiler';
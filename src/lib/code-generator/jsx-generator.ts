@@ -1,17 +1,23 @@
 /**
- * JSX Generator - Converts React Fiber nodes to JSX code
+ * JSX Generator - Converts Fiber snapshots to JSX code
  *
- * This module handles the core conversion from Fiber tree to JSX strings.
- * It recursively traverses the Fiber tree and generates clean, formatted JSX.
+ * This module handles the core conversion from a FiberSnapshot tree to JSX
+ * strings. It recursively traverses the snapshot and generates clean,
+ * formatted JSX.
  */
 
-import type { ReactFiberNode } from '@/types';
+import type { CSSModuleReport, FiberSnapshot, NodeStyle } from '@/types';
 import {
-  getComponentName,
   isHostFiber,
   isTextNode,
   isFragment,
+  identifyComponentType,
+  isPlaceholderValue,
+  WorkTag,
 } from '@lib/fiber-utils';
+import { getStyledComponentName } from '@lib/style-extractor';
+import { printValue, hoistValue, isStructuredValue, type HoistedValues } from './value-printer';
+import { fillListSlots, type RepeatedList } from './list-detection';
 
 export interface JSXGeneratorOptions {
   /** Maximum depth to traverse (default: 5) */
@@ -34,6 +40,24 @@ export interface JSXGeneratorOptions {
   includeEventHandlers?: boolean;
   /** Replace children with placeholder comments (default: false) */
   useChildPlaceholders?: boolean;
+  /** Generated styles keyed by node id (styled elements drop className/style) */
+  nodeStyles?: Record<string, NodeStyle>;
+  /** How elements reference their generated styles (default: 'css-module') */
+  styleReference?: 'css-module' | 'plain-css' | 'styled-components' | 'inline' | 'tailwind';
+  /** Utility classes per generated class name (tailwind reference) */
+  tailwindClasses?: Record<string, string>;
+  /** The page's CSS Modules; hashed classes become `styles.local` references */
+  cssModules?: CSSModuleReport | null;
+  /** Nesting depth of prop values written as literals (default: 4) */
+  valueDepth?: number;
+  /** Items written per array prop value (default: 50) */
+  maxArrayItems?: number;
+  /** Longest prop value written inline; longer data is hoisted into `hoistedValues` (default: 60) */
+  maxInlineValueLength?: number;
+  /** Collects hoisted prop values (default: none, every value is written inline) */
+  hoistedValues?: HoistedValues | null;
+  /** Runs of repeated siblings to write as `.map()` loops (see detectRepeatedLists) */
+  repeatedLists?: RepeatedList[];
 }
 
 const DEFAULT_OPTIONS: Required<JSXGeneratorOptions> = {
@@ -47,16 +71,25 @@ const DEFAULT_OPTIONS: Required<JSXGeneratorOptions> = {
   includeAriaAttributes: true,
   includeEventHandlers: true,
   useChildPlaceholders: false,
+  nodeStyles: {},
+  styleReference: 'css-module',
+  tailwindClasses: {},
+  cssModules: null,
+  valueDepth: 4,
+  maxArrayItems: 50,
+  maxInlineValueLength: 60,
+  hoistedValues: null,
+  repeatedLists: [],
 };
 
 /**
- * Generate JSX code from a React Fiber node
+ * Generate JSX code from a Fiber snapshot
  */
 export function generateJSX(
-  fiber: ReactFiberNode | null,
+  snapshot: FiberSnapshot | null,
   options: JSXGeneratorOptions = {}
 ): string {
-  if (!fiber) {
+  if (!snapshot) {
     return '';
   }
 
@@ -68,28 +101,48 @@ export function generateJSX(
   }
 
   // Handle different fiber types
-  if (isTextNode(fiber)) {
-    return generateTextNode(fiber, opts);
+  if (isTextNode(snapshot)) {
+    return generateTextNode(snapshot, opts);
   }
 
-  if (isFragment(fiber)) {
-    return generateFragment(fiber, opts);
+  if (isFragment(snapshot)) {
+    return generateFragment(snapshot, opts);
   }
 
-  if (isHostFiber(fiber)) {
-    return generateHostElement(fiber, opts);
+  // Hoisted <title>/<meta>/<link> are written in place; React 19 moves them
+  // into the document head
+  if (isHostFiber(snapshot)) {
+    return generateHostElement(snapshot, opts);
+  }
+
+  switch (identifyComponentType(snapshot)) {
+    case 'suspense':
+      return generateSuspense(snapshot, opts);
+    case 'portal':
+      return generatePortal(snapshot, opts);
+    case 'activity':
+      return generateActivity(snapshot, opts);
+    case 'throw':
+      return generateThrow(opts);
+    case 'root':
+    case 'mode':
+    case 'profiler':
+    case 'suspense.list':
+    case 'other':
+      // Wrappers without output of their own
+      return generateTransparent(snapshot, opts);
   }
 
   // Custom component
-  return generateComponent(fiber, opts);
+  return generateComponent(snapshot, opts);
 }
 
 /**
  * Generate JSX for a text node
  */
-function generateTextNode(fiber: ReactFiberNode, opts: Required<JSXGeneratorOptions>): string {
-  const text = fiber.memoizedProps;
-  if (!text || typeof text !== 'string') {
+function generateTextNode(snapshot: FiberSnapshot, opts: Required<JSXGeneratorOptions>): string {
+  const text = snapshot.text;
+  if (!text) {
     return '';
   }
 
@@ -104,8 +157,8 @@ function generateTextNode(fiber: ReactFiberNode, opts: Required<JSXGeneratorOpti
 /**
  * Generate JSX for a Fragment
  */
-function generateFragment(fiber: ReactFiberNode, opts: Required<JSXGeneratorOptions>): string {
-  const children = generateChildren(fiber, opts);
+function generateFragment(snapshot: FiberSnapshot, opts: Required<JSXGeneratorOptions>): string {
+  const children = generateChildren(snapshot, opts);
   if (!children) {
     return '';
   }
@@ -119,21 +172,40 @@ function generateFragment(fiber: ReactFiberNode, opts: Required<JSXGeneratorOpti
 /**
  * Generate JSX for a host element (HTML tag)
  */
-function generateHostElement(fiber: ReactFiberNode, opts: Required<JSXGeneratorOptions>): string {
-  const tag = fiber.type as string;
-  if (!tag || typeof tag !== 'string') {
+function generateHostElement(snapshot: FiberSnapshot, opts: Required<JSXGeneratorOptions>): string {
+  if (!snapshot.name) {
     return '';
   }
 
-  const props = fiber.memoizedProps || {};
-  const attributes = propsToJSXAttributes(props, opts);
-  const children = generateChildren(fiber, opts);
+  const nodeStyle = snapshot.nodeId ? opts.nodeStyles[snapshot.nodeId] : undefined;
+  let tag = snapshot.name;
+  let attributes: string;
+
+  if (nodeStyle) {
+    // The generated class replaces the page's own classes and inline styles
+    const { className: _className, style: _style, ...props } = snapshot.props;
+    if (opts.styleReference === 'styled-components') {
+      tag = getStyledComponentName(nodeStyle.className);
+      attributes = propsToJSXAttributes(props, opts);
+    } else {
+      const styleAttribute = styleReferenceAttribute(nodeStyle.className, opts);
+      attributes = (styleAttribute ? ' ' + styleAttribute : '') + propsToJSXAttributes(props, opts);
+    }
+  } else if (opts.cssModules && typeof snapshot.props.className === 'string') {
+    const { className, ...props } = snapshot.props;
+    const classAttribute = cssModuleClassAttribute(className, opts.cssModules);
+    attributes = (classAttribute ? ' ' + classAttribute : '') + propsToJSXAttributes(props, opts);
+  } else {
+    attributes = propsToJSXAttributes(snapshot.props, opts);
+  }
+
+  const children = generateChildren(snapshot, opts);
 
   const ind = opts.prettify ? indent(opts.indentLevel) : '';
   const newline = opts.prettify ? '\n' : '';
 
   // Self-closing tags
-  if (!children && isSelfClosingTag(tag)) {
+  if (!children && isSelfClosingTag(snapshot.name)) {
     return `${ind}<${tag}${attributes} />`;
   }
 
@@ -148,14 +220,14 @@ function generateHostElement(fiber: ReactFiberNode, opts: Required<JSXGeneratorO
     return `${ind}<${tag}${attributes}>${newline}${children}${newline}${ind}</${tag}>`;
   }
 
-  return `${ind}<${tag}${attributes}>${children}</${tag}>`;
+  return `${ind}<${tag}${attributes}>${children.trim()}</${tag}>`;
 }
 
 /**
  * Generate JSX for a custom component
  */
-function generateComponent(fiber: ReactFiberNode, opts: Required<JSXGeneratorOptions>): string {
-  const componentName = getComponentName(fiber);
+function generateComponent(snapshot: FiberSnapshot, opts: Required<JSXGeneratorOptions>): string {
+  const componentName = snapshot.name;
   if (!componentName) {
     return '';
   }
@@ -166,9 +238,8 @@ function generateComponent(fiber: ReactFiberNode, opts: Required<JSXGeneratorOpt
     return `${ind}<${componentName} {/* TODO: Extract this component separately */} />`;
   }
 
-  const props = fiber.memoizedProps || {};
-  const attributes = propsToJSXAttributes(props, opts);
-  const children = generateChildren(fiber, opts);
+  const attributes = propsToJSXAttributes(snapshot.props, opts, snapshot);
+  const children = generateChildren(snapshot, opts);
 
   const ind = opts.prettify ? indent(opts.indentLevel) : '';
   const newline = opts.prettify ? '\n' : '';
@@ -184,13 +255,128 @@ function generateComponent(fiber: ReactFiberNode, opts: Required<JSXGeneratorOpt
     return `${ind}<${componentName}${attributes}>${newline}${children}${newline}${ind}</${componentName}>`;
   }
 
-  return `${ind}<${componentName}${attributes}>${children}</${componentName}>`;
+  return `${ind}<${componentName}${attributes}>${children.trim()}</${componentName}>`;
+}
+
+/**
+ * Generate JSX for a Suspense boundary
+ * The primary children sit in an Offscreen fiber (React 17+); while
+ * suspended, a Fragment with the rendered fallback follows it.
+ */
+function generateSuspense(snapshot: FiberSnapshot, opts: Required<JSXGeneratorOptions>): string {
+  const [first, ...rest] = snapshot.children;
+  const wrapped = first?.tag === WorkTag.OffscreenComponent;
+  const primary = wrapped ? first.children : snapshot.children;
+  const fallback = snapshot.fallback || (wrapped ? rest[0] : undefined);
+
+  const fallbackJSX = fallback
+    ? generateJSX(fallback, { ...opts, prettify: false, currentDepth: opts.currentDepth + 1 })
+    : '';
+
+  return generateWrapperElement(
+    'React.Suspense',
+    ` fallback={${fallbackJSX || 'null'}}`,
+    { ...snapshot, children: primary },
+    opts
+  );
+}
+
+/**
+ * Generate JSX for an Activity boundary (`<Activity mode="hidden">`)
+ * Activity (React 19.2) renders through an Offscreen fiber; earlier
+ * experimental releases used Offscreen fibers directly.
+ */
+function generateActivity(snapshot: FiberSnapshot, opts: Required<JSXGeneratorOptions>): string {
+  const [first] = snapshot.children;
+  const inner = snapshot.tag === WorkTag.ActivityComponent && first?.tag === WorkTag.OffscreenComponent
+    ? first
+    : snapshot;
+  const mode = snapshot.props.mode ?? inner.props.mode;
+
+  return generateWrapperElement(
+    'React.Activity',
+    typeof mode === 'string' ? ` mode="${mode}"` : '',
+    { ...snapshot, children: inner.children },
+    opts
+  );
+}
+
+/**
+ * Generate JSX for a portal: its children rendered into another container
+ */
+function generatePortal(snapshot: FiberSnapshot, opts: Required<JSXGeneratorOptions>): string {
+  const content = generateTransparent(snapshot, {
+    ...opts,
+    indentLevel: opts.indentLevel + 1,
+  });
+  if (!content) {
+    return '';
+  }
+
+  const ind = opts.prettify ? indent(opts.indentLevel) : '';
+  const newline = opts.prettify ? '\n' : '';
+  // The page's own container (`#modal-root`) may not exist where the clone renders
+  const note =
+    opts.prettify && snapshot.portalContainer && snapshot.portalContainer !== 'body'
+      ? ` /* originally ${snapshot.portalContainer.replace(/\*\//g, '* /')} */`
+      : '';
+  const container = `${opts.prettify ? indent(opts.indentLevel + 1) : ' '}document.body${note}`;
+  const call = `createPortal(${newline}${content},${newline}${container}${newline}${ind})`;
+
+  // A portal as the component's output is returned as is
+  return opts.currentDepth === 0 ? `${ind}${call}` : `${ind}{${call}}`;
+}
+
+/**
+ * Generate JSX for a child that threw while rendering (React 19 Throw fibers)
+ */
+function generateThrow(opts: Required<JSXGeneratorOptions>): string {
+  if (!opts.prettify) {
+    return '';
+  }
+  const comment = '/* TODO: This child threw while rendering */';
+  return indent(opts.indentLevel) + (opts.currentDepth === 0 ? `null ${comment}` : `{${comment}}`);
+}
+
+/**
+ * Generate JSX for a wrapper without output: its children in its place
+ */
+function generateTransparent(snapshot: FiberSnapshot, opts: Required<JSXGeneratorOptions>): string {
+  const children = snapshot.children.filter((child) => child.tag !== WorkTag.HostText || child.text?.trim());
+
+  // A single child takes the wrapper's place, at its depth
+  if (children.length === 1) {
+    return generateJSX(children[0], opts);
+  }
+
+  return generateFragment({ ...snapshot, children }, opts);
+}
+
+/**
+ * Generate a built-in wrapper element (`<React.Suspense>`) around a snapshot's children
+ */
+function generateWrapperElement(
+  name: string,
+  attributes: string,
+  snapshot: FiberSnapshot,
+  opts: Required<JSXGeneratorOptions>
+): string {
+  const children = generateChildren(snapshot, opts);
+
+  const ind = opts.prettify ? indent(opts.indentLevel) : '';
+  const newline = opts.prettify ? '\n' : '';
+
+  if (!children) {
+    return `${ind}<${name}${attributes} />`;
+  }
+
+  return `${ind}<${name}${attributes}>${newline}${children}${newline}${ind}</${name}>`;
 }
 
 /**
  * Generate JSX for children
  */
-function generateChildren(fiber: ReactFiberNode, opts: Required<JSXGeneratorOptions>): string {
+function generateChildren(snapshot: FiberSnapshot, opts: Required<JSXGeneratorOptions>): string {
   if (!opts.includeChildren) {
     return '';
   }
@@ -200,52 +386,90 @@ function generateChildren(fiber: ReactFiberNode, opts: Required<JSXGeneratorOpti
   }
 
   const children: string[] = [];
-  let child = fiber.child;
 
-  while (child) {
-    const childJSX = generateJSX(child, {
+  for (const child of snapshot.children) {
+    const childOpts = {
       ...opts,
       currentDepth: opts.currentDepth + 1,
       indentLevel: opts.indentLevel + 1,
-    });
+    };
+
+    // A list is written in place of its first sibling
+    const list = opts.repeatedLists.find((candidate) => candidate.siblings.includes(child));
+    const childJSX = list
+      ? child === list.siblings[0] ? generateList(list, childOpts) : ''
+      : generateJSX(child, childOpts);
 
     if (childJSX) {
       children.push(childJSX);
     }
-
-    child = child.sibling;
   }
 
   return children.join(opts.prettify ? '\n' : '');
 }
 
+/**
+ * Generate a `.map()` loop over a list's items
+ */
+function generateList(list: RepeatedList, opts: Required<JSXGeneratorOptions>): string {
+  const item = generateJSX(list.template, { ...opts, indentLevel: opts.indentLevel + 1 });
+  if (!item) {
+    return '';
+  }
+
+  const ind = opts.prettify ? indent(opts.indentLevel) : '';
+  const newline = opts.prettify ? '\n' : '';
+  const params = list.keyField ? '(item)' : '(item, index)';
+
+  return `${ind}{${list.propName}.map(${params} => (${newline}${fillListSlots(item, list)}${newline}${ind}))}`;
+}
+
+/**
+ * Check if a prop is written with its own value
+ * Skipped props, event handlers (`{handleEvent}`) and the className and
+ * style a generated class replaces are not.
+ * @param snapshot - Element the prop belongs to
+ * @param key - Prop name
+ * @param options - Generator options
+ */
+export function isValueProp(snapshot: FiberSnapshot, key: string, options: JSXGeneratorOptions = {}): boolean {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  if (isSkippedProp(key, opts) || isEventHandler(key)) {
+    return false;
+  }
+  const styled = isHostFiber(snapshot) && !!snapshot.nodeId && !!opts.nodeStyles[snapshot.nodeId];
+  return !(styled && (key === 'className' || key === 'style'));
+}
+
+/**
+ * Check if a prop is left out of the attributes
+ */
+function isSkippedProp(key: string, opts: Required<JSXGeneratorOptions>): boolean {
+  return (
+    // Special React props
+    key === 'children' ||
+    key === 'key' ||
+    key === 'ref' ||
+    // __reactProps and other internal props
+    key.startsWith('__') ||
+    (key.startsWith('data-') && !opts.includeDataAttributes) ||
+    (key.startsWith('aria-') && !opts.includeAriaAttributes)
+  );
+}
+
 /**
  * Convert props object to JSX attributes string
+ * @param owner - Element the props belong to (its prop details and name)
  */
 function propsToJSXAttributes(
   props: Record<string, any>,
-  opts: Required<JSXGeneratorOptions>
+  opts: Required<JSXGeneratorOptions>,
+  owner?: FiberSnapshot
 ): string {
   const attributes: string[] = [];
 
   for (const [key, value] of Object.entries(props)) {
-    // Skip special React props
-    if (key === 'children' || key === 'key' || key === 'ref') {
-      continue;
-    }
-
-    // Skip __reactProps and other internal props
-    if (key.startsWith('__')) {
-      continue;
-    }
-
-    // Handle data- attributes
-    if (key.startsWith('data-') && !opts.includeDataAttributes) {
-      continue;
-    }
-
-    // Handle aria- attributes
-    if (key.startsWith('aria-') && !opts.includeAriaAttributes) {
+    if (isSkippedProp(key, opts)) {
       continue;
     }
 
@@ -258,7 +482,7 @@ function propsToJSXAttributes(
     }
 
     // Convert prop value to JSX attribute
-    const attr = propToJSXAttribute(key, value);
+    const attr = propToJSXAttribute(key, value, opts, owner);
     if (attr) {
       attributes.push(attr);
     }
@@ -271,10 +495,72 @@ function propsToJSXAttributes(
   return ' ' + attributes.join(' ');
 }
 
+/**
+ * Build the attribute that applies a generated class
+ */
+function styleReferenceAttribute(className: string, opts: Required<JSXGeneratorOptions>): string {
+  switch (opts.styleReference) {
+    case 'tailwind': {
+      const classes = opts.tailwindClasses[className];
+      return classes ? `className="${classes.replace(/"/g, '&quot;')}"` : '';
+    }
+    case 'plain-css':
+      return `className="${className}"`;
+    case 'inline':
+      return `style={styles.${className}}`;
+    case 'css-module':
+    default:
+      return `className={styles.${className}}`;
+  }
+}
+
+/**
+ * Build the className attribute of an element styled with CSS Modules
+ * Hashed classes reference the regenerated module; classes composed by
+ * another class on the element are left out, other classes stay as written.
+ */
+function cssModuleClassAttribute(className: string, cssModules: CSSModuleReport): string {
+  const classes = Array.from(new Set(className.split(/\s+/).filter(Boolean)));
+  const composed = new Set(
+    classes.flatMap((cls) => cssModules.composes[cssModules.classes[cls]] || [])
+  );
+
+  const parts = classes
+    .filter((cls) => !composed.has(cssModules.classes[cls]))
+    .map((cls) => {
+      const local = cssModules.classes[cls];
+      if (!local) return { cls, reference: null };
+      return {
+        cls,
+        reference: /^[A-Za-z_$][\w$]*$/.test(local) ? `styles.${local}` : `styles['${local}']`,
+      };
+    });
+
+  if (parts.length === 0) {
+    return '';
+  }
+  if (parts.every((part) => !part.reference)) {
+    return `className="${parts.map((part) => part.cls).join(' ')}"`;
+  }
+  if (parts.length === 1) {
+    return `className={${parts[0].reference}}`;
+  }
+
+  const template = parts
+    .map((part) => (part.reference ? `\${${part.reference}}` : part.cls.replace(/[`\\$]/g, '\\$&')))
+    .join(' ');
+  return `className={\`${template}\`}`;
+}
+
 /**
  * Convert a single prop to JSX attribute string
  */
-function propToJSXAttribute(key: string, value: any): string | null {
+function propToJSXAttribute(
+  key: string,
+  value: unknown,
+  opts: Required<JSXGeneratorOptions>,
+  owner?: FiberSnapshot
+): string | null {
   // Null/undefined
   if (value === null || value === undefined) {
     return null;
@@ -285,8 +571,8 @@ function propToJSXAttribute(key: string, value: any): string | null {
     return value ? key : null;
   }
 
-  // String props
-  if (typeof value === 'string') {
+  // String props (placeholders are values of their own)
+  if (typeof value === 'string' && !isPlaceholderValue(value)) {
     // Empty string
     if (value === '') {
       return `${key}=""`;
@@ -301,28 +587,47 @@ function propToJSXAttribute(key: string, value: any): string | null {
     return `${key}={${value}}`;
   }
 
-  // Object/Array props (use placeholder)
-  if (typeof value === 'object') {
-    if (Array.isArray(value)) {
-      return `${key}={[/* array */]}`;
-    }
-    // Style object
-    if (key === 'style') {
-      return `${key}={{${objectToStyleString(value)}}}`;
-    }
-    // className object (for libraries like classnames)
-    if (key === 'className' && typeof value === 'object') {
-      return null; // Skip object classNames
-    }
-    return `${key}={{/* object */}}`;
+  // Style object
+  if (key === 'style' && typeof value === 'object' && !Array.isArray(value)) {
+    return `${key}={{${objectToStyleString(value)}}}`;
+  }
+
+  // className object (for libraries like classnames)
+  if (key === 'className' && typeof value === 'object') {
+    return null; // Skip object classNames
+  }
+
+  // Arrays, objects and placeholders as literals
+  const printed = printValue(value, key, {
+    maxDepth: opts.valueDepth,
+    maxItems: opts.maxArrayItems,
+    lineWidth: opts.prettify ? 80 : Infinity,
+    details: owner?.propDetails,
+    // Elements in values may be hoisted out of the component, where its
+    // handlers and styles are not in scope
+    renderElement: (element) =>
+      generateJSX(element, {
+        ...opts,
+        prettify: false,
+        currentDepth: opts.currentDepth + 1,
+        includeEventHandlers: false,
+        cssModules: null,
+      }),
+  });
+  if (!printed) {
+    return null;
   }
 
-  // Function props (event handlers, callbacks)
-  if (typeof value === 'function') {
-    return `${key}={handleEvent}`;
+  const isLong = printed.code.includes('\n') || printed.code.length > opts.maxInlineValueLength;
+  if (isLong && opts.hoistedValues && isStructuredValue(value)) {
+    const ownerName = owner && !isHostFiber(owner) ? owner.name : null;
+    const hints = ownerName ? [key, `${ownerName}${key.charAt(0).toUpperCase()}${key.slice(1)}`] : [key];
+    return `${key}={${hoistValue(opts.hoistedValues, printed, hints)}}`;
   }
 
-  return null;
+  // Continuation lines follow the element's indentation
+  const code = opts.prettify ? printed.code.replace(/\n/g, `\n${indent(opts.indentLevel)}`) : printed.code;
+  return `${key}={${code}}`;
 }
 
 /**
@@ -418,8 +723,8 @@ function indent(level: number): string {
 /**
  * Generate JSX with default options (utility)
  */
-export function generateCleanJSX(fiber: ReactFiberNode | null): string {
-  return generateJSX(fiber, {
+export function generateCleanJSX(snapshot: FiberSnapshot | null): string {
+  return generateJSX(snapshot, {
     prettify: true,
     maxDepth: 10,
     includeChildren: true,
@@ -430,8 +735,8 @@ export function generateCleanJSX(fiber: ReactFiberNode | null): string {
 /**
  * Generate shallow JSX (stop at components)
  */
-export function generateShallowJSX(fiber: ReactFiberNode | null): string {
-  return generateJSX(fiber, {
+export function generateShallowJSX(snapshot: FiberSnapshot | null): string {
+  return generateJSX(snapshot, {
     prettify: true,
     maxDepth: 3,
     includeChildren: true,
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import type { FiberSnapshot } from '@/types';
+import { WorkTag } from '@lib/fiber-utils';
+import { detectRepeatedLists, fillListSlots } from './list-detection';
+
+let nextId = 1;
+
+/**
+ * Build a snapshot node
+ */
+function node(
+  tag: number,
+  name: string,
+  props: Record<string, unknown> = {},
+  children: FiberSnapshot[] = [],
+  key: string | null = null
+): FiberSnapshot {
+  const id = String(nextId++);
+  return {
+    id,
+    tag,
+    name,
+    key,
+    props,
+    text: null,
+    hooks: [],
+    state: null,
+    nodeId: tag === WorkTag.HostComponent ? `rcc-${id}` : null,
+    source: null,
+    children,
+  };
+}
+
+/**
+ * Build a host element node
+ */
+function element(name: string, props: Record<string, unknown>, children: FiberSnapshot[], key: string | null = null) {
+  return node(WorkTag.HostComponent, name, props, children, key);
+}
+
+/**
+ * Build a text node
+ */
+function text(value: string): FiberSnapshot {
+  return { ...node(WorkTag.HostText, ''), text: value };
+}
+
+describe('detectRepeatedLists', () => {
+  it('folds two keyed siblings into items keyed by the field holding the keys', () => {
+    const list = element('ul', {}, [
+      element('li', { 'data-id': '1' }, [text('Desk lamp')], '1'),
+      element('li', { 'data-id': '2' }, [text('Oak shelf')], '2'),
+    ]);
+
+    const [detected, ...rest] = detectRepeatedLists(list);
+
+    expect(rest).toHaveLength(0);
+    expect(detected.propName).toBe('items');
+    expect(detected.fields).toEqual(['dataId', 'text']);
+    expect(detected.keyField).toBe('dataId');
+    expect(detected.items).toEqual([
+      { dataId: '1', text: 'Desk lamp' },
+      { dataId: '2', text: 'Oak shelf' },
+    ]);
+  });
+
+  it('adds an id field when no field holds the keys', () => {
+    const list = element('ul', {}, [
+      element('li', {}, [text('Desk lamp')], 'a'),
+      element('li', {}, [text('Oak shelf')], 'b'),
+    ]);
+
+    const [detected] = detectRepeatedLists(list);
+
+    expect(detected.keyField).toBe('id');
+    expect(detected.items).toEqual([
+      { id: 'a', text: 'Desk lamp' },
+      { id: 'b', text: 'Oak shelf' },
+    ]);
+  });
+
+  it('needs three unkeyed siblings, ignoring whitespace between them', () => {
+    const two = element('div', {}, [element('a', { href: '/a' }, []), text('\n  '), element('a', { href: '/b' }, [])]);
+    const three = element('div', {}, [
+      element('a', { href: '/a' }, []),
+      element('a', { href: '/b' }, []),
+      element('a', { href: '/c' }, []),
+    ]);
+
+    expect(detectRepeatedLists(two)).toEqual([]);
+
+    const [detected] = detectRepeatedLists(three);
+    expect(detected.propName).toBe('links');
+    expect(detected.keyField).toBeNull();
+    expect(detected.items).toEqual([{ href: '/a' }, { href: '/b' }, { href: '/c' }]);
+  });
+
+  it('does not fold siblings built or styled differently, or identical and unkeyed', () => {
+    const mixed = element('div', {}, [
+      element('span', {}, [text('a')], '1'),
+      element('span', {}, [element('b', {}, [])], '2'),
+    ]);
+    const identical = element('div', {}, [element('hr', {}, []), element('hr', {}, []), element('hr', {}, [])]);
+    const styled = element('tr', {}, [
+      element('td', {}, [text('a')], '1'),
+      element('td', {}, [text('b')], '2'),
+    ]);
+    const [first, second] = styled.children;
+
+    expect(detectRepeatedLists(mixed)).toEqual([]);
+    expect(detectRepeatedLists(identical)).toEqual([]);
+    expect(
+      detectRepeatedLists(styled, {
+        nodeStyles: {
+          [first.nodeId!]: { className: 'cell', tag: 'td', styles: {} },
+          [second.nodeId!]: { className: 'cell-active', tag: 'td', styles: {} },
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it('names component lists after the component, unique among the reserved names', () => {
+    const nav = element('nav', {}, [
+      element('div', {}, [
+        node(WorkTag.FunctionComponent, 'NavLink', { to: '/a' }, [], 'a'),
+        node(WorkTag.FunctionComponent, 'NavLink', { to: '/b' }, [], 'b'),
+      ]),
+      element('table', {}, [
+        element('tr', {}, [text('a')], '1'),
+        element('tr', {}, [text('b')], '2'),
+      ]),
+    ]);
+
+    const lists = detectRepeatedLists(nav, { reserved: ['rows'] });
+
+    expect(lists.map((list) => list.propName)).toEqual(['navLinkItems', 'rows2']);
+  });
+
+  it('leaves out props that are not written as values', () => {
+    const list = element('ul', {}, [
+      element('li', { onClick: '[Function: a]', title: 'A' }, [], '1'),
+      element('li', { onClick: '[Function: b]', title: 'B' }, [], '2'),
+    ]);
+
+    const [detected] = detectRepeatedLists(list, { isValueProp: (_, key) => !key.startsWith('on') });
+
+    expect(detected.fields).toEqual(['title']);
+  });
+});
+
+describe('fillListSlots', () => {
+  it('reads slots from the item and keys the template', () => {
+    const list = element('ul', {}, [
+      element('li', { title: 'A' }, [text('Desk lamp')], '1'),
+      element('li', { title: 'B' }, [text('Oak shelf')], '2'),
+    ]);
+    const [detected] = detectRepeatedLists(list);
+    const [titleSlot, textSlot] = [detected.template.props.title, detected.template.children[0].text];
+
+    expect(fillListSlots(`<li title="${titleSlot}">${textSlot}</li>`, detected)).toBe(
+      '<li key={item.id} title={item.title}>{item.text}</li>'
+    );
+  });
+
+  it('keys unkeyed items by index', () => {
+    const list = element('div', {}, ['/a', '/b', '/c'].map((href) => element('a', { href }, [])));
+    const [detected] = detectRepeatedLists(list);
+
+    expect(fillListSlots(`<a href="${detected.template.props.href}" />`, detected)).toBe(
+      '<a key={index} href={item.href} />'
+    );
+  });
+});
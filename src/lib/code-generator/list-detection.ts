@@ -0,0 +1,279 @@
+/**
+ * List Detection - Turn runs of repeated siblings into `.map()` loops
+ *
+ * A list renders as siblings built the same way: the same elements and
+ * components at every level, differing only in text and prop values (and
+ * usually keyed). Such a run is folded into a template, the first sibling
+ * with its varying parts read from an item, and the items become an array
+ * prop of the generated component, typed like any other prop and defaulting
+ * to what the page showed.
+ */
+
+import type { FiberSnapshot, NodeStyle } from '@/types';
+import { isHostFiber, isTextNode, identifyComponentType } from '@lib/fiber-utils';
+
+/**
+ * A run of repeated siblings and the items they are rendered from
+ */
+export interface RepeatedList {
+  /** Prop holding the items (`items`, `navLinkItems`) */
+  propName: string;
+  /** The siblings the list replaces, in order */
+  siblings: FiberSnapshot[];
+  /** The first sibling, its varying text and props standing in for item fields (see fillListSlots) */
+  template: FiberSnapshot;
+  /** Item field read by each slot of the template */
+  fields: string[];
+  /** One object per sibling (fields a sibling lacks are left out) */
+  items: Array<Record<string, unknown>>;
+  /** Item field holding each sibling's key, or null to key items by index */
+  keyField: string | null;
+}
+
+export interface ListDetectionOptions {
+  /** Generated styles by node id; siblings styled differently are not repeated */
+  nodeStyles?: Record<string, NodeStyle>;
+  /** Whether a prop is written with its own value (others cannot vary per item) */
+  isValueProp?: (node: FiberSnapshot, key: string) => boolean;
+  /** Names the list props must not take (the component's own props) */
+  reserved?: string[];
+}
+
+const DEFAULT_OPTIONS: Required<ListDetectionOptions> = {
+  nodeStyles: {},
+  isValueProp: () => true,
+  reserved: [],
+};
+
+/**
+ * Fewest siblings that make a list: keyed siblings were rendered from one
+ */
+const MIN_KEYED_LENGTH = 2;
+const MIN_LENGTH = 3;
+
+/**
+ * Component types a list can repeat (wrappers render their children in place)
+ */
+const REPEATABLE_TYPES = new Set(['html', 'function', 'class', 'memo', 'forwardRef']);
+
+/**
+ * List prop names for host elements (others are `items`)
+ */
+const HOST_LIST_NAMES: Record<string, string> = {
+  a: 'links',
+  button: 'buttons',
+  img: 'images',
+  option: 'options',
+  td: 'cells',
+  th: 'columns',
+  tr: 'rows',
+};
+
+/**
+ * Find the runs of repeated siblings in a rendered tree
+ * Siblings inside a run are not searched: their own lists differ in length.
+ * @param snapshot - Rendered output of the component
+ * @param options - Detection options
+ * @returns Lists in document order, with prop names unique among themselves and `reserved`
+ */
+export function detectRepeatedLists(
+  snapshot: FiberSnapshot | null,
+  options: ListDetectionOptions = {}
+): RepeatedList[] {
+  if (!snapshot) {
+    return [];
+  }
+
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const used = new Set(opts.reserved);
+  const lists: RepeatedList[] = [];
+
+  const visit = (node: FiberSnapshot) => {
+    const children = node.children.filter((child) => !isBlankText(child));
+    let start = 0;
+
+    while (start < children.length) {
+      const signature = getSignature(children[start], opts);
+      let end = start + 1;
+      while (end < children.length && isRepeatable(children[start]) && getSignature(children[end], opts) === signature) {
+        end++;
+      }
+
+      const run = children.slice(start, end);
+      const list = run.length >= getMinLength(run) ? createList(run, opts, used) : null;
+      if (list) {
+        lists.push(list);
+      } else {
+        run.forEach(visit);
+      }
+      start = end;
+    }
+  };
+
+  visit(snapshot);
+  return lists;
+}
+
+/**
+ * Fill in the slots of a list's rendered template
+ * @param code - JSX of `list.template`
+ * @param list - The list
+ * @returns JSX reading the varying parts from `item`, keyed
+ */
+export function fillListSlots(code: string, list: RepeatedList): string {
+  const read = (slot: string) => `item.${list.fields[Number(slot)]}`;
+  const key = list.keyField ? `item.${list.keyField}` : 'index';
+
+  return code
+    .replace(/="\uE000(\d+)\uE001"/g, (_, slot) => `={${read(slot)}}`)
+    .replace(/\uE000(\d+)\uE001/g, (_, slot) => `{${read(slot)}}`)
+    .replace(/^(\s*<[\w.$]+)/, `$1 key={${key}}`);
+}
+
+/**
+ * Check if a node is whitespace between elements (not written as JSX)
+ */
+function isBlankText(node: FiberSnapshot): boolean {
+  return isTextNode(node) && !node.text?.trim();
+}
+
+/**
+ * Check if a node can be the item of a list
+ */
+function isRepeatable(node: FiberSnapshot): boolean {
+  return !!node.name && (isHostFiber(node) || REPEATABLE_TYPES.has(identifyComponentType(node)));
+}
+
+/**
+ * Get the fewest siblings a run needs to be a list
+ */
+function getMinLength(run: FiberSnapshot[]): number {
+  const keys = run.map((node) => node.key);
+  const keyed = keys.every((key) => key !== null) && new Set(keys).size === keys.length;
+  return keyed ? MIN_KEYED_LENGTH : MIN_LENGTH;
+}
+
+/**
+ * Get what two nodes built the same way share: types, names and generated
+ * styles at every level, but no text or prop values
+ */
+function getSignature(node: FiberSnapshot, opts: Required<ListDetectionOptions>): string {
+  if (isTextNode(node)) {
+    return '#text';
+  }
+
+  const style = node.nodeId ? opts.nodeStyles[node.nodeId]?.className || '' : '';
+  const children = node.children.filter((child) => !isBlankText(child)).map((child) => getSignature(child, opts));
+  return `${node.tag}:${node.name}:${style}(${children.join(',')})`;
+}
+
+/**
+ * Fold a run of siblings into a list
+ * @returns The list, or null if the siblings are identical and unkeyed
+ */
+function createList(
+  run: FiberSnapshot[],
+  opts: Required<ListDetectionOptions>,
+  used: Set<string>
+): RepeatedList | null {
+  const fields: string[] = [];
+  const values: unknown[][] = [];
+
+  const addField = (hint: string, slotValues: unknown[]): string => {
+    fields.push(uniqueName(toFieldName(hint), new Set(fields)));
+    values.push(slotValues);
+    // Marks the slot in the rendered template (private-use characters)
+    return `\uE000${fields.length - 1}\uE001`;
+  };
+
+  // Walk the siblings side by side; the first becomes the template
+  const fold = (nodes: FiberSnapshot[]): FiberSnapshot => {
+    const [first] = nodes;
+
+    if (isTextNode(first)) {
+      const texts = nodes.map((node) => node.text);
+      return differ(texts) ? { ...first, text: addField('text', texts) } : first;
+    }
+
+    const props = { ...first.props };
+    const keys = new Set(nodes.flatMap((node) => Object.keys(node.props)));
+    for (const key of keys) {
+      if (!opts.isValueProp(first, key)) continue;
+      const propValues = nodes.map((node) => node.props[key]);
+      if (differ(propValues)) props[key] = addField(key, propValues);
+    }
+
+    const childLists = nodes.map((node) => node.children.filter((child) => !isBlankText(child)));
+    const children = childLists[0].map((_, index) => fold(childLists.map((list) => list[index])));
+    return { ...first, props, children };
+  };
+
+  const template = fold(run);
+
+  const keys = run.map((node) => node.key);
+  const keyed = keys.every((key) => key !== null) && new Set(keys).size === keys.length;
+  // A field holding the keys already (`id`) keys the items itself
+  const keyField = keyed
+    ? fields.find((_, slot) => values[slot].every((value, index) => String(value) === keys[index])) ||
+      uniqueName('id', new Set(fields))
+    : null;
+
+  if (fields.length === 0 && !keyField) {
+    return null;
+  }
+
+  const items = run.map((_, index) => {
+    const item: Record<string, unknown> = keyField ? { [keyField]: keys[index] } : {};
+    fields.forEach((field, slot) => {
+      if (values[slot][index] !== undefined) item[field] = values[slot][index];
+    });
+    return item;
+  });
+
+  const propName = uniqueName(getListName(run[0]), used);
+  used.add(propName);
+
+  return { propName, siblings: run, template, fields, items, keyField };
+}
+
+/**
+ * Check if the values of a slot differ between siblings
+ */
+function differ(values: unknown[]): boolean {
+  const first = JSON.stringify(values[0]);
+  return values.some((value) => JSON.stringify(value) !== first);
+}
+
+/**
+ * Name the prop of a list after what it repeats (`<tr>` → `rows`, `NavLink` → `navLinkItems`)
+ * Items of a component are not named after it alone: their shape would take
+ * the component's name.
+ */
+function getListName(node: FiberSnapshot): string {
+  if (isHostFiber(node)) {
+    return HOST_LIST_NAMES[node.name!.toLowerCase()] || 'items';
+  }
+  return `${toFieldName(node.name!)}Items`;
+}
+
+/**
+ * Turn a prop name into a field name (`aria-label` → `ariaLabel`)
+ */
+function toFieldName(name: string): string {
+  const words = name.split(/[^A-Za-z0-9_$]+/).filter(Boolean);
+  const field = words
+    .map((word, index) => (index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join('');
+  if (!field) return 'value';
+  return /^\d/.test(field) ? `value${field}` : field;
+}
+
+/**
+ * Number a name until it is not taken (`text`, `text2`)
+ */
+function uniqueName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  let suffix = 2;
+  while (taken.has(`${name}${suffix}`)) suffix++;
+  return `${name}${suffix}`;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { inferProps, printType, type InferredProp } from './prop-inference';
+
+/**
+ * Print inferred props as `name: type` lines (`?` for optional props)
+ */
+function printProps(props: InferredProp[]): string[] {
+  return props.map((prop) => `${prop.name}${prop.optional ? '?' : ''}: ${printType(prop.type)}`);
+}
+
+describe('inferProps', () => {
+  it('infers every prop seen across samples, optional where some sample lacks it', () => {
+    const props = inferProps([
+      { title: 'Desk lamp', price: 39, inStock: true },
+      { title: 'Oak shelf', price: 120 },
+    ]);
+
+    expect(printProps(props)).toEqual(['title: string', 'price: number', 'inStock?: boolean']);
+    expect(props[1].range).toEqual([39, 120]);
+    expect(props[0].example).toBe('Desk lamp');
+  });
+
+  it('turns repeated or keyword-like strings into literal unions', () => {
+    const props = inferProps([
+      { size: 'sm', label: 'Add to cart' },
+      { size: 'lg', label: 'Remove from cart' },
+      { size: 'sm', label: 'Checkout now' },
+    ]);
+
+    expect(printProps(props)).toEqual(["size: 'sm' | 'lg'", 'label: string']);
+  });
+
+  it('keeps strings inside array items as strings', () => {
+    const props = inferProps([
+      { items: [{ label: 'a' }, { label: 'b' }, { label: 'a' }], tags: ['new', 'sale', 'new'] },
+      { items: [{ label: 'b' }], tags: ['sale'] },
+    ]);
+
+    expect(printProps(props)).toEqual(['items: { label: string }[]', 'tags: string[]']);
+  });
+
+  it('keeps strings inside Map and Set entries as strings', () => {
+    const props = inferProps([{ byId: '[Map]', picked: '[Set]' }], {
+      details: {
+        byId: { kind: 'map', entries: [['a', { state: 'open' }], ['b', { state: 'closed' }], ['c', { state: 'open' }]] },
+        picked: { kind: 'set', values: [{ mode: 'x' }, { mode: 'y' }, { mode: 'x' }] },
+      },
+    });
+
+    expect(printProps(props)).toEqual([
+      'byId: Map<string, { state: string }>',
+      'picked: Set<{ mode: string }>',
+    ]);
+  });
+
+  it('still infers literal unions in nested objects outside arrays', () => {
+    const props = inferProps([
+      { user: { role: 'admin' } },
+      { user: { role: 'viewer' } },
+      { user: { role: 'admin' } },
+    ]);
+
+    expect(printProps(props)).toEqual(["user: { role: 'admin' | 'viewer' }"]);
+  });
+
+  it('infers tuples, refs and callback signatures', () => {
+    const props = inferProps([{ point: [3, 'px'], inputRef: { current: null }, onSelect: '[Function: onSelect]' }], {
+      details: { onSelect: { kind: 'function', name: 'onSelect', length: 1, source: '(e, id) => pick(id)' } },
+    });
+
+    expect(printProps(props)).toEqual([
+      'point: [number, string]',
+      'inputRef: React.RefObject<HTMLElement>',
+      'onSelect: (e: React.SyntheticEvent, id?: any) => void',
+    ]);
+  });
+
+  it('wraps callbacks in parentheses inside unions', () => {
+    const props = inferProps(
+      [
+        { onClose: '[Function: onClose]', pair: ['[Function: a]', 1] },
+        { onClose: null, pair: [2, 3] },
+      ],
+      { details: { onClose: { kind: 'function', name: 'onClose', length: 1, source: '(e) => close(e)' } } }
+    );
+
+    expect(printProps(props)).toEqual([
+      'onClose: ((e: React.SyntheticEvent) => void) | null',
+      'pair: [(() => void) | number, number]',
+    ]);
+  });
+});
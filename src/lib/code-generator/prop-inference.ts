@@ -0,0 +1,600 @@
+/**
+ * Prop Inference - Infer a type model of a component's props from captured values
+ *
+ * Props are sampled from every source at hand: the captured instance, the
+ * other mounted instances of the same component and its recorded variants.
+ * Each prop's values across the samples decide its type: props some sample
+ * lacks are optional, strings seen with a few values become literal unions,
+ * numbers keep the range they were seen in, and plain objects get a shape of
+ * their own, inferred the same way from all samples' objects. Arrays of fixed
+ * length and mixed items become tuples, arrays of elements `React.ReactNode[]`,
+ * `{ current }` objects refs. Functions, maps and sets are described on the
+ * side of the captured props (see PropValueDetail): functions get their
+ * parameters, maps and sets their entry types.
+ *
+ * The model is printed as TypeScript by the type generator, which declares
+ * object shapes as interfaces of their own (see extractNamedShapes).
+ */
+
+import type { PropValueDetail } from '@/types';
+import { isPlaceholderValue } from '@lib/fiber-utils';
+import {
+  inferFunctionSignature,
+  printFunctionSignature,
+  type FunctionSignature,
+} from './function-signature';
+
+/**
+ * Type of a prop (or nested field) as inferred from its values
+ */
+export type InferredType =
+  | { kind: 'primitive'; name: 'string' | 'number' | 'boolean' | 'null' | 'undefined' }
+  | { kind: 'literal'; value: string }
+  /** `signature` is missing when only the placeholder was captured */
+  | { kind: 'function'; signature?: FunctionSignature }
+  | { kind: 'element' }
+  /** Anything React renders: elements, strings, numbers */
+  | { kind: 'node' }
+  /** `tag` is the element's tag name, e.g. `DIV` */
+  | { kind: 'dom-element'; tag?: string }
+  | { kind: 'style' }
+  | { kind: 'date' }
+  /** `element` is null for arrays that were always empty */
+  | { kind: 'array'; element: InferredType | null }
+  | { kind: 'tuple'; elements: InferredType[] }
+  /** `key` and `value` are null for maps that were always empty */
+  | { kind: 'map'; key: InferredType | null; value: InferredType | null }
+  | { kind: 'set'; element: InferredType | null }
+  /** `{ current }` objects; `current` is null when it always was */
+  | { kind: 'ref'; current: InferredType | null }
+  | { kind: 'object'; props: InferredProp[] }
+  /** An object shape declared under a name of its own (see extractNamedShapes) */
+  | { kind: 'reference'; name: string }
+  /** Objects without a usable shape (empty, cyclic or too deep) */
+  | { kind: 'record' }
+  | { kind: 'union'; types: InferredType[] };
+
+/**
+ * A prop (or nested field) and what its samples showed
+ */
+export interface InferredProp {
+  name: string;
+  type: InferredType;
+  /** Missing (or undefined) in some sample */
+  optional: boolean;
+  /** Smallest and largest number seen, when several numbers were seen */
+  range?: [number, number];
+  /** First value seen */
+  example: unknown;
+}
+
+/**
+ * An object shape to declare as an interface
+ */
+export interface NamedShape {
+  name: string;
+  /** Where the shape is found among the props: `user`, `user.address`, `items[]` */
+  path: string;
+  props: InferredProp[];
+}
+
+export interface PropInferenceOptions {
+  /** Most distinct strings turned into a literal union (default: 6) */
+  maxLiterals?: number;
+  /** Nesting depth of inferred object shapes (default: 3) */
+  maxDepth?: number;
+  /** What placeholders stand for, by prop path (see FiberSnapshot.propDetails) */
+  details?: Record<string, PropValueDetail>;
+}
+
+const DEFAULT_OPTIONS: Required<PropInferenceOptions> = {
+  maxLiterals: 6,
+  maxDepth: 3,
+  details: {},
+};
+
+/**
+ * Longest array turned into a tuple
+ */
+const MAX_TUPLE_LENGTH = 4;
+
+/**
+ * DOM interfaces of common tags (others are `HTMLElement`)
+ */
+const ELEMENT_INTERFACES: Record<string, string> = {
+  A: 'HTMLAnchorElement',
+  AUDIO: 'HTMLAudioElement',
+  BUTTON: 'HTMLButtonElement',
+  CANVAS: 'HTMLCanvasElement',
+  DIALOG: 'HTMLDialogElement',
+  DIV: 'HTMLDivElement',
+  FORM: 'HTMLFormElement',
+  IFRAME: 'HTMLIFrameElement',
+  IMG: 'HTMLImageElement',
+  INPUT: 'HTMLInputElement',
+  LABEL: 'HTMLLabelElement',
+  LI: 'HTMLLIElement',
+  OL: 'HTMLOListElement',
+  P: 'HTMLParagraphElement',
+  SELECT: 'HTMLSelectElement',
+  SPAN: 'HTMLSpanElement',
+  TABLE: 'HTMLTableElement',
+  TEXTAREA: 'HTMLTextAreaElement',
+  UL: 'HTMLUListElement',
+  VIDEO: 'HTMLVideoElement',
+};
+
+/**
+ * Style properties that identify a style object
+ */
+const STYLE_PROPERTIES = [
+  'color',
+  'backgroundColor',
+  'fontSize',
+  'margin',
+  'padding',
+  'display',
+  'position',
+  'width',
+  'height',
+];
+
+/**
+ * Strings that read like option names (`primary`, `top-left`, `sm`)
+ */
+const KEYWORD_PATTERN = /^[A-Za-z][\w-]{0,19}$/;
+
+/**
+ * Infer the props of a component from one or more samples of its props
+ * @param samples - Captured props, one object per instance or variant
+ * @param options - Inference options
+ * @returns Props in the order they were first seen
+ */
+export function inferProps(
+  samples: Array<Record<string, unknown>>,
+  options: PropInferenceOptions = {}
+): InferredProp[] {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  return inferFields(samples, opts, 0, true, '');
+}
+
+/**
+ * Infer the type of a single value
+ * @param value - Captured value
+ * @param options - Inference options
+ * @returns The value's type
+ */
+export function inferValueType(value: unknown, options: PropInferenceOptions = {}): InferredType {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  return inferTypeFromValues([value], opts, 0, false, '');
+}
+
+/**
+ * Print an inferred type as TypeScript
+ * @param type - Inferred type
+ * @param indent - Indentation of the line the type is printed on
+ * @returns TypeScript type expression
+ */
+export function printType(type: InferredType, indent: string = ''): string {
+  switch (type.kind) {
+    case 'primitive':
+      return type.name;
+    case 'literal':
+      return `'${type.value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    case 'function':
+      return type.signature ? printFunctionSignature(type.signature) : '() => void';
+    case 'element':
+      return 'React.ReactElement';
+    case 'node':
+      return 'React.ReactNode';
+    case 'dom-element':
+      return (type.tag && ELEMENT_INTERFACES[type.tag]) || 'HTMLElement';
+    case 'style':
+      return 'React.CSSProperties';
+    case 'date':
+      return 'Date';
+    case 'record':
+      return 'Record<string, any>';
+    case 'reference':
+      return type.name;
+    case 'array': {
+      if (!type.element) return 'any[]';
+      const element = printType(type.element, indent);
+      return needsParentheses(type.element) ? `(${element})[]` : `${element}[]`;
+    }
+    case 'tuple':
+      return `[${type.elements.map((element) => printType(element, indent)).join(', ')}]`;
+    case 'map':
+      return `Map<${type.key ? printType(type.key, indent) : 'any'}, ${type.value ? printType(type.value, indent) : 'any'}>`;
+    case 'set':
+      return `Set<${type.element ? printType(type.element, indent) : 'any'}>`;
+    case 'ref':
+      return printRefType(type.current, indent);
+    case 'object':
+      return printObjectType(type.props, indent);
+    case 'union':
+      return type.types
+        .map((member) => (needsParentheses(member) ? `(${printType(member, indent)})` : printType(member, indent)))
+        .join(' | ');
+  }
+}
+
+/**
+ * Declare every object shape among the props as an interface of its own
+ * Shapes are named after the prop holding them (`user` → `User`, items of
+ * `items` → `Item`); taken names get the parent's name in front, then a number.
+ * @param props - Inferred props
+ * @param parentName - Name of the component, for names that are taken
+ * @param reserved - Names already in use (the props interface)
+ * @returns The props referring to the shapes by name, and the shapes, each after the shapes it uses
+ */
+export function extractNamedShapes(
+  props: InferredProp[],
+  parentName: string,
+  reserved: string[] = []
+): { props: InferredProp[]; shapes: NamedShape[] } {
+  const shapes: NamedShape[] = [];
+  const used = new Set([parentName, ...reserved]);
+
+  const pickName = (hint: string, parent: string): string => {
+    const base = toTypeName(hint);
+    let name = used.has(base) ? `${parent}${base}` : base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    used.add(name);
+    return name;
+  };
+
+  const nameFields = (fields: InferredProp[], parent: string, path: string): InferredProp[] =>
+    fields.map((prop) => ({
+      ...prop,
+      type: nameType(prop.type, prop.name, parent, path ? `${path}.${prop.name}` : prop.name),
+    }));
+
+  const nameType = (type: InferredType, hint: string, parent: string, path: string): InferredType => {
+    const nameItem = (item: InferredType) => nameType(item, singularize(hint), parent, `${path}[]`);
+
+    switch (type.kind) {
+      case 'object': {
+        // Named before its fields, so a field cannot take the name
+        const name = pickName(hint, parent);
+        shapes.push({ name, path, props: nameFields(type.props, name, path) });
+        return { kind: 'reference', name };
+      }
+      case 'array':
+        return type.element ? { ...type, element: nameItem(type.element) } : type;
+      case 'tuple':
+        return { ...type, elements: type.elements.map(nameItem) };
+      case 'map':
+        return type.value ? { ...type, value: nameItem(type.value) } : type;
+      case 'set':
+        return type.element ? { ...type, element: nameItem(type.element) } : type;
+      case 'union':
+        return { ...type, types: type.types.map((member) => nameType(member, hint, parent, path)) };
+      default:
+        return type;
+    }
+  };
+
+  return { props: nameFields(props, parentName, ''), shapes };
+}
+
+/**
+ * Turn a prop name into a type name (`user_profile` → `UserProfile`)
+ */
+function toTypeName(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const typeName = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  if (!typeName) return 'Item';
+  return /^[0-9]/.test(typeName) ? `Item${typeName}` : typeName;
+}
+
+/**
+ * Name the items of a list prop (`items` → `item`, `categories` → `category`)
+ */
+function singularize(name: string): string {
+  if (/ies$/.test(name)) return name.replace(/ies$/, 'y');
+  if (/(ss|us|is)$/.test(name) || name.length <= 3) return `${name}Item`;
+  if (/s$/.test(name)) return name.slice(0, -1);
+  return `${name}Item`;
+}
+
+/**
+ * Check if a type needs parentheses as an array's item type or a union member
+ * (`(() => void) | null`, not a function returning `void | null`)
+ */
+function needsParentheses(type: InferredType): boolean {
+  return type.kind === 'union' || type.kind === 'function';
+}
+
+/**
+ * Print a ref: DOM refs as `RefObject`, refs holding values as `MutableRefObject`
+ */
+function printRefType(current: InferredType | null, indent: string): string {
+  if (!current) return 'React.RefObject<HTMLElement>';
+
+  const members = (current.kind === 'union' ? current.types : [current]).filter(
+    (member) => !(member.kind === 'primitive' && member.name === 'null')
+  );
+  if (members.length > 0 && members.every((member) => member.kind === 'dom-element')) {
+    return `React.RefObject<${members.map((member) => printType(member, indent)).join(' | ')}>`;
+  }
+  return `React.MutableRefObject<${printType(current, indent)}>`;
+}
+
+/**
+ * Print an object shape inline when it is short and flat, one field per line otherwise
+ */
+function printObjectType(props: InferredProp[], indent: string): string {
+  const field = (prop: InferredProp, fieldIndent: string) =>
+    `${toPropertyKey(prop.name)}${prop.optional ? '?' : ''}: ${printType(prop.type, fieldIndent)}`;
+
+  const inline = `{ ${props.map((prop) => field(prop, indent)).join('; ')} }`;
+  if (inline.length <= 60 && !props.some((prop) => prop.type.kind === 'object')) {
+    return inline;
+  }
+
+  const inner = `${indent}  `;
+  return `{\n${props.map((prop) => `${inner}${field(prop, inner)};`).join('\n')}\n${indent}}`;
+}
+
+/**
+ * Write a prop or field name as a property key, quoted unless it is an identifier
+ * @param name - Prop name, e.g. `aria-label`
+ * @returns Property key
+ */
+export function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Infer the fields of a set of objects
+ * @param literals - Whether strings may become literal unions (not inside array items)
+ */
+function inferFields(
+  samples: Array<Record<string, unknown>>,
+  opts: Required<PropInferenceOptions>,
+  depth: number,
+  literals: boolean,
+  path: string
+): InferredProp[] {
+  const names: string[] = [];
+  for (const sample of samples) {
+    for (const name of Object.keys(sample)) {
+      if (!names.includes(name)) names.push(name);
+    }
+  }
+
+  return names.map((name) => {
+    const values = samples.map((sample) => sample[name]).filter((value) => value !== undefined);
+    const numbers = values.filter((value): value is number => typeof value === 'number');
+    const prop: InferredProp = {
+      name,
+      type: inferTypeFromValues(values, opts, depth, literals, path ? `${path}.${name}` : name),
+      optional: values.length < samples.length,
+      example: values[0],
+    };
+
+    if (new Set(numbers).size > 1) {
+      prop.range = [Math.min(...numbers), Math.max(...numbers)];
+    }
+    return prop;
+  });
+}
+
+/**
+ * Infer one type covering all values a prop or field had
+ * @param literals - Whether strings may become literal unions (not for array items or their fields)
+ * @param path - Path of the values, to look up their details (`user.format`, `items[]`)
+ */
+function inferTypeFromValues(
+  values: unknown[],
+  opts: Required<PropInferenceOptions>,
+  depth: number,
+  literals: boolean,
+  path: string
+): InferredType {
+  if (values.length === 0) return { kind: 'primitive', name: 'undefined' };
+
+  const texts = values.filter((value): value is string => typeof value === 'string' && !isPlaceholderValue(value));
+  const strings = [...new Set(texts)];
+  // A few values that repeat or read like keywords make an enum; free text does not
+  const useLiterals =
+    literals &&
+    strings.length > 1 &&
+    strings.length <= opts.maxLiterals &&
+    (strings.length < texts.length || strings.every((value) => KEYWORD_PATTERN.test(value)));
+
+  const types: InferredType[] = [];
+  const arrays: unknown[][] = [];
+  const objects: Array<Record<string, unknown>> = [];
+  const refs: unknown[] = [];
+
+  for (const value of values) {
+    if (Array.isArray(value)) {
+      arrays.push(value);
+    } else if (isRefObject(value)) {
+      refs.push(value.current);
+    } else if (isShapeObject(value)) {
+      objects.push(value);
+    } else if (useLiterals && typeof value === 'string' && strings.includes(value)) {
+      types.push({ kind: 'literal', value });
+    } else {
+      types.push(inferScalarType(value, opts, depth, path));
+    }
+  }
+
+  // Arrays, refs and objects are merged across samples into one type each
+  if (arrays.length > 0) {
+    types.push(inferArrayType(arrays, opts, depth, path));
+  }
+  if (refs.length > 0) {
+    const currents = refs.filter((current) => current !== null && current !== undefined);
+    types.push({
+      kind: 'ref',
+      current: currents.length > 0 ? inferTypeFromValues(currents, opts, depth + 1, false, `${path}.current`) : null,
+    });
+  }
+  if (objects.length > 0) {
+    types.push(
+      depth >= opts.maxDepth
+        ? { kind: 'record' }
+        : { kind: 'object', props: inferFields(objects, opts, depth + 1, literals, path) }
+    );
+  }
+
+  return toUnion(types);
+}
+
+/**
+ * Infer the type of a prop's arrays
+ * Arrays that always have the same few items of different types are tuples
+ * (`[number, string]`), arrays of elements and text `React.ReactNode[]`.
+ */
+function inferArrayType(
+  arrays: unknown[][],
+  opts: Required<PropInferenceOptions>,
+  depth: number,
+  path: string
+): InferredType {
+  const items = arrays.flat();
+  if (items.length === 0) return { kind: 'array', element: null };
+
+  const itemPath = `${path}[]`;
+  const element = inferTypeFromValues(items, opts, depth + 1, false, itemPath);
+  if (isNodeType(element)) return { kind: 'array', element: { kind: 'node' } };
+
+  const length = arrays[0].length;
+  if (length >= 2 && length <= MAX_TUPLE_LENGTH && arrays.every((array) => array.length === length)) {
+    const elements = Array.from({ length }, (_, index) =>
+      inferTypeFromValues(arrays.map((array) => array[index]), opts, depth + 1, false, itemPath)
+    );
+    if (new Set(elements.map((member) => printType(member))).size > 1) {
+      return { kind: 'tuple', elements };
+    }
+  }
+
+  return { kind: 'array', element };
+}
+
+/**
+ * Check if a type is elements mixed with text React renders as is
+ */
+function isNodeType(type: InferredType): boolean {
+  const members = type.kind === 'union' ? type.types : [type];
+  return (
+    members.some((member) => member.kind === 'element') &&
+    members.every(
+      (member) =>
+        member.kind === 'element' ||
+        member.kind === 'literal' ||
+        (member.kind === 'primitive' && member.name !== 'undefined')
+    )
+  );
+}
+
+/**
+ * Infer the type of a value that is neither an array nor a shaped object
+ * Captured values stand in for functions, elements, dates, maps, sets and DOM
+ * nodes with placeholders (see toSerializable), which are read back here
+ * together with their details.
+ */
+function inferScalarType(
+  value: unknown,
+  opts: Required<PropInferenceOptions>,
+  depth: number,
+  path: string
+): InferredType {
+  if (value === null) return { kind: 'primitive', name: 'null' };
+
+  if (typeof value === 'string') {
+    if (!isPlaceholderValue(value)) return { kind: 'primitive', name: 'string' };
+
+    const detail = opts.details[path];
+    if (value.startsWith('[Function')) {
+      if (detail?.kind !== 'function') return { kind: 'function' };
+      const isEventHandler = /(^|\.)on[A-Z]\w*$/.test(path);
+      return { kind: 'function', signature: inferFunctionSignature(detail.length, detail.source, isEventHandler) };
+    }
+    if (value.startsWith('[Date')) return { kind: 'date' };
+    if (value === '[Map]') {
+      const entries = detail?.kind === 'map' ? detail.entries : [];
+      if (entries.length === 0) return { kind: 'map', key: null, value: null };
+      return {
+        kind: 'map',
+        key: inferTypeFromValues(entries.map(([key]) => key), opts, depth + 1, false, `${path}[]`),
+        value: inferTypeFromValues(entries.map(([, item]) => item), opts, depth + 1, false, `${path}[]`),
+      };
+    }
+    if (value === '[Set]') {
+      const items = detail?.kind === 'set' ? detail.values : [];
+      return {
+        kind: 'set',
+        element: items.length > 0 ? inferTypeFromValues(items, opts, depth + 1, false, `${path}[]`) : null,
+      };
+    }
+    if (value === '[React Element]') return { kind: 'element' };
+    if (value === '[Circular]' || value === '[Object]') return { kind: 'record' };
+    return { kind: 'dom-element', tag: value.slice(1, -1) };
+  }
+
+  if (typeof value === 'number') return { kind: 'primitive', name: 'number' };
+  if (typeof value === 'boolean') return { kind: 'primitive', name: 'boolean' };
+  if (typeof value === 'function') return { kind: 'function' };
+
+  if (value && typeof value === 'object') {
+    if ((value as { $$typeof?: unknown }).$$typeof) return { kind: 'element' };
+    if (isStyleObject(value)) return { kind: 'style' };
+    return { kind: 'record' };
+  }
+
+  return { kind: 'record' };
+}
+
+/**
+ * Check if a value is a plain object worth a shape of its own
+ */
+function isShapeObject(value: unknown): value is Record<string, unknown> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value as { $$typeof?: unknown }).$$typeof &&
+    !isStyleObject(value) &&
+    Object.keys(value).length > 0
+  );
+}
+
+/**
+ * Check if a value is a ref object (`useRef()`, `createRef()`)
+ */
+function isRefObject(value: unknown): value is { current: unknown } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length === 1 && keys[0] === 'current';
+}
+
+/**
+ * Check if object is a style object
+ */
+function isStyleObject(obj: object): boolean {
+  const keys = Object.keys(obj);
+  return keys.some((key) => STYLE_PROPERTIES.includes(key));
+}
+
+/**
+ * Combine types into one, dropping duplicates (`null` goes last, as written by hand)
+ */
+function toUnion(types: InferredType[]): InferredType {
+  const unique = new Map<string, InferredType>();
+  for (const type of types.flatMap((member) => (member.kind === 'union' ? member.types : [member]))) {
+    unique.set(printType(type), type);
+  }
+
+  const members = [...unique.values()].sort(
+    (a, b) => Number(a.kind === 'primitive' && a.name === 'null') - Number(b.kind === 'primitive' && b.name === 'null')
+  );
+  if (members.length === 0) return { kind: 'record' };
+  return members.length === 1 ? members[0] : { kind: 'union', types: members };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { FiberSnapshot } from '@/types';
+import { generatePropTypesBlock, generateZodSchema } from './schema-generator';
+import { generateComponentFile } from './component-generator';
+import productList from './__fixtures__/product-list.snapshot.json';
+
+const snapshot = productList as FiberSnapshot;
+
+/**
+ * Props of three mounted instances of a `Card` component
+ */
+const instances: Array<Record<string, unknown>> = [
+  { size: 'sm', label: 'Save draft', note: null, width: 'auto', user: { role: 'admin' }, tags: ['a'], extra: 1 },
+  { size: 'lg', label: 'Cancel order', note: 'Ships today', width: 'none', user: { role: 'viewer' }, tags: [] },
+  { size: 'sm', label: 'Delete item', note: null, width: 120, user: { role: 'admin' }, tags: ['b'], empty: null },
+];
+
+const card: FiberSnapshot = {
+  id: 'f1',
+  tag: 0,
+  name: 'Card',
+  key: null,
+  props: instances[0],
+  text: null,
+  hooks: [],
+  state: null,
+  nodeId: null,
+  source: null,
+  children: [],
+};
+
+describe('generateZodSchema', () => {
+  const schema = generateZodSchema(card, 'Card', { instances });
+
+  it('turns literal unions into enums, next to the other types', () => {
+    expect(schema).toContain("  size: z.enum(['sm', 'lg']),");
+    expect(schema).toContain("  width: z.union([z.enum(['auto', 'none']), z.number()]),");
+  });
+
+  it('strips null into .nullable(), and keeps props some instance lacks optional', () => {
+    expect(schema).toContain('  note: z.string().nullable(),');
+    expect(schema).toContain('  label: z.string(),');
+    expect(schema).toContain('  extra: z.number().optional(),');
+    expect(schema).toContain('  empty: z.null().optional(),');
+  });
+
+  it('declares nested shapes as schemas of their own and refers to them by name', () => {
+    expect(schema).toContain("export const UserSchema = z.object({\n  role: z.enum(['admin', 'viewer']),\n});");
+    expect(schema).toContain('export type User = z.infer<typeof UserSchema>;');
+    expect(schema).toContain('  user: UserSchema,');
+    expect(schema).toContain('  tags: z.array(z.string()),');
+    expect(schema).toContain('export type CardProps = z.infer<typeof CardPropsSchema>;');
+  });
+});
+
+describe('generatePropTypesBlock', () => {
+  const block = generatePropTypesBlock(card, 'Card', { instances });
+
+  it('requires props every instance passes, unless they can be null', () => {
+    expect(block).toContain("  size: PropTypes.oneOf(['sm', 'lg']).isRequired,");
+    expect(block).toContain('  label: PropTypes.string.isRequired,');
+    expect(block).toContain('  note: PropTypes.string,');
+    expect(block).toContain("  width: PropTypes.oneOfType([PropTypes.oneOf(['auto', 'none']), PropTypes.number]).isRequired,");
+    expect(block).toContain('  extra: PropTypes.number,');
+    expect(block).toContain('  empty: PropTypes.any,');
+  });
+
+  it('declares nested shapes as named PropTypes shapes', () => {
+    expect(block).toContain("const UserShape = PropTypes.shape({\n  role: PropTypes.oneOf(['admin', 'viewer']).isRequired,\n});");
+    expect(block).toContain('  user: UserShape.isRequired,');
+    expect(block).toContain('  tags: PropTypes.arrayOf(PropTypes.string).isRequired,');
+  });
+});
+
+describe('schemas of a saved snapshot', () => {
+  it('validates the props of the generated component', () => {
+    const zod = generateComponentFile(snapshot, undefined, { typescript: true, includeZodSchema: true }, null).code;
+    const propTypes = generateComponentFile(snapshot, undefined, { typescript: false, includePropTypes: true }, null).code;
+
+    expect(zod).toContain('export const ProductListPropsSchema = z.object({');
+    expect(zod).toContain("  onSelect: z.custom<(product: any) => void>((value) => typeof value === 'function').optional(),");
+    expect(zod).toContain('export type ProductListProps = z.infer<typeof ProductListPropsSchema>;');
+    expect(propTypes).toContain('ProductList.propTypes = {');
+    expect(propTypes).toContain('  onSelect: PropTypes.func,');
+  });
+});
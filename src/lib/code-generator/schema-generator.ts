@@ -0,0 +1,222 @@
+/**
+ * Schema Generator - Runtime prop validation from the inferred props model
+ *
+ * The props model behind the TypeScript interface (see inferPropsModel) is
+ * printed two more ways: as a `propTypes` block for JavaScript output, and as
+ * a Zod schema (`CardPropsSchema`) whose `z.infer` type replaces the
+ * interface in TypeScript output. Nested shapes become named PropTypes shapes
+ * or schemas of their own, like the interfaces they stand for.
+ */
+
+import type { FiberSnapshot } from '@/types';
+import { inferPropsModel, type TypeGeneratorOptions } from './type-generator';
+import { printType, toPropertyKey, type InferredType, type NamedShape } from './prop-inference';
+
+/**
+ * Generate a `propTypes` block for a component
+ * @param snapshot - Captured component
+ * @param componentName - Component name
+ * @param options - Type generator options (samples, optional props)
+ * @returns Shape declarations and the `Component.propTypes` assignment, or '' without props
+ */
+export function generatePropTypesBlock(
+  snapshot: FiberSnapshot | null,
+  componentName: string,
+  options: TypeGeneratorOptions = {}
+): string {
+  const model = inferPropsModel(snapshot, componentName, options);
+  if (!model || (model.props.length === 0 && !model.hasChildren)) {
+    return '';
+  }
+
+  const shapes = model.shapes.map(
+    (shape) => `const ${getPropTypesShapeName(shape.name)} = PropTypes.shape({\n${printPropTypesFields(shape)}\n});`
+  );
+
+  const fields = printPropTypesFields({ name: model.name, path: '', props: model.props });
+  const children = model.hasChildren ? '  children: PropTypes.node,' : '';
+  const assignment = `${componentName}.propTypes = {\n${[fields, children].filter(Boolean).join('\n')}\n};`;
+
+  return [...shapes, assignment].join('\n\n');
+}
+
+/**
+ * Generate a Zod schema for a component's props, with the props type inferred from it
+ * @param snapshot - Captured component
+ * @param componentName - Component name
+ * @param options - Type generator options (samples, optional props, interface name)
+ * @returns Schemas of the nested shapes and the props, and their `z.infer` types
+ */
+export function generateZodSchema(
+  snapshot: FiberSnapshot | null,
+  componentName: string,
+  options: TypeGeneratorOptions = {}
+): string {
+  const model = inferPropsModel(snapshot, componentName, options);
+  if (!model) {
+    return '';
+  }
+
+  const exportKeyword = options.exportInterface === false ? '' : 'export ';
+  const declare = (name: string, fields: string) =>
+    `${exportKeyword}const ${name}Schema = z.object({${fields ? `\n${fields}\n` : ''}});\n` +
+    `${exportKeyword}type ${name} = z.infer<typeof ${name}Schema>;`;
+
+  const shapes = model.shapes.map((shape) => declare(shape.name, printZodFields(shape)));
+
+  const fields = printZodFields({ name: model.name, path: '', props: model.props });
+  const children = model.hasChildren
+    ? `  children: z.custom<React.ReactNode>()${options.includeOptional === false ? '' : '.optional()'},`
+    : '';
+  const props = declare(model.name, [fields, children].filter(Boolean).join('\n'));
+
+  return [...shapes, props].join('\n\n');
+}
+
+/**
+ * Name of the PropTypes shape declared for a nested shape (`User` → `UserShape`)
+ */
+function getPropTypesShapeName(name: string): string {
+  return `${name}Shape`;
+}
+
+/**
+ * Print the fields of a shape as PropTypes entries
+ */
+function printPropTypesFields(shape: NamedShape): string {
+  return shape.props
+    .map((prop) => {
+      const validator = toPropTypes(prop.type);
+      const required = !prop.optional && !isNullable(prop.type) && validator !== 'PropTypes.any';
+      return `  ${toPropertyKey(prop.name)}: ${validator}${required ? '.isRequired' : ''},`;
+    })
+    .join('\n');
+}
+
+/**
+ * Print the fields of a shape as Zod object entries
+ */
+function printZodFields(shape: NamedShape): string {
+  return shape.props
+    .map((prop) => `  ${toPropertyKey(prop.name)}: ${toZod(prop.type)}${prop.optional ? '.optional()' : ''},`)
+    .join('\n');
+}
+
+/**
+ * Check if a type allows null or undefined (PropTypes cannot require those)
+ */
+function isNullable(type: InferredType): boolean {
+  const members = type.kind === 'union' ? type.types : [type];
+  return members.some((member) => member.kind === 'primitive' && (member.name === 'null' || member.name === 'undefined'));
+}
+
+/**
+ * Convert an inferred type to a PropTypes validator
+ */
+function toPropTypes(type: InferredType): string {
+  switch (type.kind) {
+    case 'primitive':
+      if (type.name === 'string') return 'PropTypes.string';
+      if (type.name === 'number') return 'PropTypes.number';
+      if (type.name === 'boolean') return 'PropTypes.bool';
+      return 'PropTypes.any';
+    case 'literal':
+      return `PropTypes.oneOf([${printType(type)}])`;
+    case 'function':
+      return 'PropTypes.func';
+    case 'element':
+      return 'PropTypes.element';
+    case 'node':
+      return 'PropTypes.node';
+    case 'dom-element':
+      return `PropTypes.instanceOf(${printType(type)})`;
+    case 'date':
+      return 'PropTypes.instanceOf(Date)';
+    case 'map':
+      return 'PropTypes.instanceOf(Map)';
+    case 'set':
+      return 'PropTypes.instanceOf(Set)';
+    case 'style':
+    case 'record':
+      return 'PropTypes.object';
+    case 'array':
+      return type.element ? `PropTypes.arrayOf(${toPropTypes(type.element)})` : 'PropTypes.array';
+    case 'tuple':
+      return 'PropTypes.array';
+    case 'ref':
+      return 'PropTypes.shape({ current: PropTypes.any })';
+    case 'object':
+      return `PropTypes.shape({ ${type.props.map((prop) => `${toPropertyKey(prop.name)}: ${toPropTypes(prop.type)}`).join(', ')} })`;
+    case 'reference':
+      return getPropTypesShapeName(type.name);
+    case 'union': {
+      // null is what a missing `.isRequired` allows
+      const members = type.types.filter(
+        (member) => !(member.kind === 'primitive' && (member.name === 'null' || member.name === 'undefined'))
+      );
+      const literals = members.filter((member) => member.kind === 'literal');
+      const others = members.filter((member) => member.kind !== 'literal').map(toPropTypes);
+      if (literals.length > 0) {
+        others.unshift(`PropTypes.oneOf([${literals.map((member) => printType(member)).join(', ')}])`);
+      }
+      if (others.length === 0) return 'PropTypes.any';
+      return others.length === 1 ? others[0] : `PropTypes.oneOfType([${others.join(', ')}])`;
+    }
+  }
+}
+
+/**
+ * Convert an inferred type to a Zod schema
+ * Values Zod has no schema for are `z.custom<T>()` with the TypeScript type,
+ * so `z.infer` gives the same type the interface would.
+ */
+function toZod(type: InferredType): string {
+  switch (type.kind) {
+    case 'primitive':
+      return `z.${type.name}()`;
+    case 'literal':
+      return `z.literal(${printType(type)})`;
+    case 'function':
+      return `z.custom<${printType(type)}>((value) => typeof value === 'function')`;
+    case 'element':
+      return 'z.custom<React.ReactElement>((value) => React.isValidElement(value))';
+    case 'node':
+      return 'z.custom<React.ReactNode>()';
+    case 'dom-element':
+      return `z.instanceof(${printType(type)})`;
+    case 'style':
+      return "z.custom<React.CSSProperties>((value) => typeof value === 'object' && value !== null)";
+    case 'date':
+      return 'z.date()';
+    case 'map':
+      return `z.map(${type.key ? toZod(type.key) : 'z.any()'}, ${type.value ? toZod(type.value) : 'z.any()'})`;
+    case 'set':
+      return `z.set(${type.element ? toZod(type.element) : 'z.any()'})`;
+    case 'record':
+      return 'z.record(z.string(), z.any())';
+    case 'array':
+      return `z.array(${type.element ? toZod(type.element) : 'z.any()'})`;
+    case 'tuple':
+      return `z.tuple([${type.elements.map(toZod).join(', ')}])`;
+    case 'ref':
+      return `z.custom<${printType(type)}>((value) => typeof value === 'object' && value !== null && 'current' in value)`;
+    case 'object':
+      return `z.object({ ${type.props.map((prop) => `${toPropertyKey(prop.name)}: ${toZod(prop.type)}${prop.optional ? '.optional()' : ''}`).join(', ')} })`;
+    case 'reference':
+      return `${type.name}Schema`;
+    case 'union': {
+      const nullable = type.types.some((member) => member.kind === 'primitive' && member.name === 'null');
+      const members = type.types.filter((member) => !(member.kind === 'primitive' && member.name === 'null'));
+      const literals = members.filter((member) => member.kind === 'literal');
+      const others = members.filter((member) => member.kind !== 'literal').map(toZod);
+      if (literals.length > 1) {
+        others.unshift(`z.enum([${literals.map((member) => printType(member)).join(', ')}])`);
+      } else if (literals.length === 1) {
+        others.unshift(toZod(literals[0]));
+      }
+
+      const schema = others.length === 0 ? 'z.null()' : others.length === 1 ? others[0] : `z.union([${others.join(', ')}])`;
+      return nullable && others.length > 0 ? `${schema}.nullable()` : schema;
+    }
+  }
+}
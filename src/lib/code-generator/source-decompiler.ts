@@ -0,0 +1,500 @@
+/**
+ * Source Decompiler - Turn a component's bundled render function back into JSX
+ *
+ * Production bundles ship components compiled to `jsx()` / `jsxs()` calls
+ * (the automatic runtime) or `React.createElement` calls, usually minified:
+ * `(0,n.jsx)("div",{className:"card",children:e.title})`. The render function
+ * captured with the snapshot (see RenderSource) is parsed and those call trees
+ * are rewritten to JSX. Everything else - hooks, conditionals, `.map()` loops,
+ * handlers - is kept as written.
+ */
+
+import { parseExpression } from '@babel/parser';
+import babelTraverse, { type NodePath } from '@babel/traverse';
+import babelGenerate from '@babel/generator';
+import * as t from '@babel/types';
+import type { RenderSource } from '@/types';
+
+// CommonJS interop: depending on the bundler the default import is the
+// function or its module object
+const traverse = (babelTraverse as unknown as { default?: typeof babelTraverse }).default || babelTraverse;
+const generate = (babelGenerate as unknown as { default?: typeof babelGenerate }).default || babelGenerate;
+
+export interface DecompileOptions {
+  /** Name of the generated component */
+  componentName: string;
+  /** Type of the props parameter (TypeScript), e.g. `CardProps` */
+  propsType?: string | null;
+}
+
+export interface DecompiledComponent {
+  /** Component declaration with JSX */
+  code: string;
+  /** Identifiers still taken from the original bundle (imports, other components) */
+  externals: string[];
+}
+
+/**
+ * Callee names of the JSX runtime and of createElement
+ */
+const JSX_RUNTIME_CALLS = new Set(['jsx', 'jsxs', 'jsxDEV', '_jsx', '_jsxs', '_jsxDEV']);
+const CREATE_ELEMENT_CALLS = new Set(['createElement', '_createElement']);
+
+/**
+ * React exports recognized on minified module objects (`n.useState`)
+ */
+const REACT_APIS = new Set([
+  'useState', 'useEffect', 'useLayoutEffect', 'useInsertionEffect', 'useMemo', 'useCallback',
+  'useRef', 'useContext', 'useReducer', 'useId', 'useTransition', 'useDeferredValue',
+  'useImperativeHandle', 'useSyncExternalStore', 'useDebugValue', 'useOptimistic', 'useActionState',
+  'Fragment', 'Children', 'cloneElement', 'createContext', 'createRef', 'forwardRef', 'memo',
+  'isValidElement', 'lazy', 'startTransition', 'Suspense', 'StrictMode', 'Component', 'PureComponent',
+]);
+
+/**
+ * Globals that are not bundle references
+ */
+const KNOWN_GLOBALS = new Set([
+  'React', 'undefined', 'NaN', 'Infinity', 'globalThis', 'window', 'document', 'navigator', 'location',
+  'console', 'Math', 'JSON', 'Object', 'Array', 'String', 'Number', 'Boolean', 'Date', 'RegExp', 'Error',
+  'Promise', 'Symbol', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Intl', 'parseInt', 'parseFloat', 'isNaN',
+  'encodeURIComponent', 'decodeURIComponent', 'setTimeout', 'clearTimeout', 'setInterval',
+  'clearInterval', 'requestAnimationFrame', 'cancelAnimationFrame', 'fetch', 'localStorage',
+  'sessionStorage', 'arguments',
+]);
+
+/**
+ * Decompile a captured render function to a component declaration
+ * @param source - Render source captured from the component type
+ * @param options - Decompile options
+ * @returns Component source, or null if the function cannot be parsed
+ */
+export function decompileRenderSource(
+  source: RenderSource,
+  options: DecompileOptions
+): DecompiledComponent | null {
+  const fn = parseFunctionSource(source.code);
+  if (!fn) return null;
+
+  const body = t.isBlockStatement(fn.body)
+    ? fn.body
+    : t.blockStatement([t.returnStatement(fn.body)]);
+
+  const declaration = source.kind === 'class'
+    ? createClassDeclaration(options, fn.params, body)
+    : t.functionDeclaration(t.identifier(options.componentName), fn.params, body);
+
+  const file = t.file(t.program([declaration]));
+
+  try {
+    normalizeBundleCode(file, source.kind, options);
+    renameComponentReferences(file);
+    rewriteElementCalls(file);
+    formatJSX(file);
+  } catch (error) {
+    console.warn('React Component Cloner: Could not decompile render function:', error);
+    return null;
+  }
+
+  const { code } = generate(file, { comments: false, jsescOption: { minimal: true } });
+  return { code, externals: collectExternals(file) };
+}
+
+/**
+ * Parse a function's source: function expressions, arrows and methods
+ * @param code - `fn.toString()` of a render function or callback
+ * @returns The function, methods turned into function expressions, or null
+ */
+export function parseFunctionSource(code: string): t.FunctionExpression | t.ArrowFunctionExpression | null {
+  const options = { plugins: ['jsx' as const] };
+
+  try {
+    const expression = parseExpression(`(${code})`, options);
+    if (t.isFunctionExpression(expression) || t.isArrowFunctionExpression(expression)) {
+      return expression;
+    }
+  } catch {
+    // Method shorthand (`render() {...}`) is not an expression
+  }
+
+  try {
+    const object = parseExpression(`({${code}})`, options);
+    const method = t.isObjectExpression(object) ? object.properties[0] : null;
+    if (t.isObjectMethod(method)) {
+      return t.functionExpression(null, method.params, method.body, method.generator, method.async);
+    }
+  } catch {
+    // Not a function at all
+  }
+
+  return null;
+}
+
+/**
+ * Wrap a render method in a class component
+ */
+function createClassDeclaration(
+  options: DecompileOptions,
+  params: t.FunctionExpression['params'],
+  body: t.BlockStatement
+): t.ClassDeclaration {
+  const declaration = t.classDeclaration(
+    t.identifier(options.componentName),
+    t.memberExpression(t.identifier('React'), t.identifier('Component')),
+    t.classBody([t.classMethod('method', t.identifier('render'), params, body)])
+  );
+
+  if (options.propsType) {
+    declaration.superTypeParameters = t.tsTypeParameterInstantiation([
+      t.tsTypeReference(t.identifier(options.propsType)),
+    ]);
+  }
+
+  return declaration;
+}
+
+/**
+ * Undo minifier idioms: `!0`, `void 0`, `(0, n.jsx)(...)`, `n.useState`,
+ * and name the props parameter
+ */
+function normalizeBundleCode(file: t.File, kind: RenderSource['kind'], options: DecompileOptions): void {
+  traverse(file, {
+    FunctionDeclaration(path) {
+      if (kind !== 'function' || !path.parentPath.isProgram()) return;
+
+      const [props] = path.node.params;
+      if (t.isIdentifier(props) && props.name !== 'props' && !path.scope.hasBinding('props')) {
+        path.scope.rename(props.name, 'props');
+      }
+      if (options.propsType && (t.isIdentifier(props) || t.isObjectPattern(props))) {
+        props.typeAnnotation = t.tsTypeAnnotation(t.tsTypeReference(t.identifier(options.propsType)));
+      }
+    },
+
+    UnaryExpression(path) {
+      const { operator, argument } = path.node;
+      if (operator === '!' && t.isNumericLiteral(argument) && (argument.value === 0 || argument.value === 1)) {
+        path.replaceWith(t.booleanLiteral(argument.value === 0));
+      } else if (operator === 'void' && t.isNumericLiteral(argument, { value: 0 })) {
+        path.replaceWith(t.identifier('undefined'));
+      }
+    },
+
+    CallExpression(path) {
+      const { callee } = path.node;
+      if (
+        t.isSequenceExpression(callee) &&
+        callee.expressions.length === 2 &&
+        t.isNumericLiteral(callee.expressions[0], { value: 0 })
+      ) {
+        path.node.callee = callee.expressions[1];
+      }
+    },
+
+    MemberExpression(path) {
+      const { object, property, computed } = path.node;
+      if (
+        !computed &&
+        t.isIdentifier(object) &&
+        object.name !== 'React' &&
+        t.isIdentifier(property) &&
+        REACT_APIS.has(property.name) &&
+        !path.scope.hasBinding(object.name)
+      ) {
+        path.node.object = t.identifier('React');
+      }
+    },
+  });
+}
+
+/**
+ * Get the kind of element-creating call, if any
+ */
+function getElementCall(node: t.CallExpression): 'jsx' | 'createElement' | null {
+  const { callee } = node;
+  const name = t.isIdentifier(callee)
+    ? callee.name
+    : t.isMemberExpression(callee) && !callee.computed && t.isIdentifier(callee.property)
+      ? callee.property.name
+      : null;
+
+  if (!name || node.arguments.length === 0) return null;
+  if (JSX_RUNTIME_CALLS.has(name)) return 'jsx';
+  if (CREATE_ELEMENT_CALLS.has(name)) return 'createElement';
+  return null;
+}
+
+/**
+ * Give component identifiers used as element types a capitalized name
+ * (`jsx(t, ...)` must not become `<t>`, which JSX reads as an HTML tag)
+ */
+function renameComponentReferences(file: t.File): void {
+  const globals = new Map<string, string>();
+  let program: NodePath<t.Program> | null = null;
+
+  traverse(file, {
+    Program(path) {
+      program = path;
+    },
+
+    CallExpression(path) {
+      const type = path.node.arguments[0];
+      if (!getElementCall(path.node) || !t.isIdentifier(type) || !/^[a-z_$]/.test(type.name)) return;
+
+      const binding = path.scope.getBinding(type.name);
+      const name = uniqueName(path, capitalize(type.name.replace(/^[_$]+/, '')) || 'Component');
+      if (binding) {
+        binding.scope.rename(type.name, name);
+      } else if (!globals.has(type.name)) {
+        globals.set(type.name, name);
+      }
+    },
+  });
+
+  if (globals.size === 0 || !program) return;
+
+  // Bundle references have no binding to rename; replace every reference
+  (program as NodePath<t.Program>).traverse({
+    Identifier(path) {
+      const name = globals.get(path.node.name);
+      if (name && path.isReferencedIdentifier() && !path.scope.hasBinding(path.node.name)) {
+        path.node.name = name;
+      }
+    },
+  });
+}
+
+/**
+ * Replace element-creating calls with JSX, innermost first
+ */
+function rewriteElementCalls(file: t.File): void {
+  traverse(file, {
+    CallExpression: {
+      exit(path) {
+        const kind = getElementCall(path.node);
+        if (!kind) return;
+
+        const [type, props, ...rest] = path.node.arguments;
+        const name = toJSXName(type);
+        if (!name) return;
+
+        const attributes: Array<t.JSXAttribute | t.JSXSpreadAttribute> = [];
+        let children: t.Node[] = kind === 'createElement' ? rest : [];
+
+        // jsx(type, props, key)
+        if (kind === 'jsx' && rest[0] && !t.isIdentifier(rest[0], { name: 'undefined' })) {
+          attributes.push(t.jsxAttribute(t.jsxIdentifier('key'), toAttributeValue(rest[0] as t.Expression)));
+        }
+
+        if (t.isObjectExpression(props)) {
+          for (const property of props.properties) {
+            const key = t.isObjectProperty(property) && !property.computed ? getPropertyName(property.key) : null;
+
+            if (t.isSpreadElement(property)) {
+              attributes.push(t.jsxSpreadAttribute(property.argument));
+            } else if (key === 'children' && kind === 'jsx') {
+              const value = (property as t.ObjectProperty).value;
+              children = t.isArrayExpression(value) ? value.elements.filter(Boolean) as t.Node[] : [value];
+            } else if (key === '__self' || key === '__source') {
+              continue;
+            } else if (key && /^[A-Za-z_$][\w$]*(?:[-:][\w$]+)*$/.test(key)) {
+              const value = (property as t.ObjectProperty).value as t.Expression;
+              attributes.push(
+                t.jsxAttribute(
+                  t.jsxIdentifier(key),
+                  t.isBooleanLiteral(value, { value: true }) ? null : toAttributeValue(value)
+                )
+              );
+            } else {
+              // Computed keys, methods and names JSX cannot spell
+              attributes.push(t.jsxSpreadAttribute(t.objectExpression([property])));
+            }
+          }
+        } else if (props && !t.isNullLiteral(props) && !t.isIdentifier(props, { name: 'undefined' })) {
+          attributes.push(t.jsxSpreadAttribute(props as t.Expression));
+        }
+
+        const jsxChildren = children.flatMap(toJSXChild);
+
+        if (name === 'fragment' && attributes.length === 0) {
+          path.replaceWith(t.jsxFragment(t.jsxOpeningFragment(), t.jsxClosingFragment(), jsxChildren));
+          return;
+        }
+
+        const tag = name === 'fragment'
+          ? t.jsxMemberExpression(t.jsxIdentifier('React'), t.jsxIdentifier('Fragment'))
+          : name;
+        const selfClosing = jsxChildren.length === 0;
+        path.replaceWith(
+          t.jsxElement(
+            t.jsxOpeningElement(tag, attributes, selfClosing),
+            selfClosing ? null : t.jsxClosingElement(t.cloneNode(tag)),
+            jsxChildren,
+            selfClosing
+          )
+        );
+      },
+    },
+  });
+}
+
+/**
+ * Convert an element type to a JSX name ('fragment' for Fragment)
+ */
+function toJSXName(type: t.Node | undefined): t.JSXIdentifier | t.JSXMemberExpression | 'fragment' | null {
+  if (t.isStringLiteral(type)) {
+    return /^[A-Za-z][\w-]*$/.test(type.value) ? t.jsxIdentifier(type.value) : null;
+  }
+
+  if (t.isIdentifier(type)) {
+    if (type.name === 'Fragment') return 'fragment';
+    return /^[A-Z]/.test(type.name) ? t.jsxIdentifier(type.name) : null;
+  }
+
+  if (t.isMemberExpression(type) && !type.computed && t.isIdentifier(type.property)) {
+    if (type.property.name === 'Fragment') return 'fragment';
+
+    const object = toJSXName(type.object);
+    if (object && object !== 'fragment') {
+      return t.jsxMemberExpression(object, t.jsxIdentifier(type.property.name));
+    }
+    if (t.isIdentifier(type.object)) {
+      return t.jsxMemberExpression(t.jsxIdentifier(type.object.name), t.jsxIdentifier(type.property.name));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert a prop value to a JSX attribute value
+ */
+function toAttributeValue(value: t.Expression): t.StringLiteral | t.JSXExpressionContainer {
+  if (t.isStringLiteral(value) && /^[^"\\\n\r]*$/.test(value.value)) {
+    return t.stringLiteral(value.value);
+  }
+  return t.jsxExpressionContainer(value);
+}
+
+/**
+ * Convert a child expression to JSX children
+ */
+function toJSXChild(child: t.Node): Array<t.JSXElement | t.JSXFragment | t.JSXText | t.JSXExpressionContainer> {
+  if (t.isJSXElement(child) || t.isJSXFragment(child)) {
+    return [child];
+  }
+
+  // Nothing renders for these
+  if (t.isNullLiteral(child) || t.isBooleanLiteral(child) || t.isIdentifier(child, { name: 'undefined' })) {
+    return [];
+  }
+
+  if (t.isStringLiteral(child)) {
+    // JSX text loses surrounding whitespace and cannot hold braces or tags
+    if (child.value && child.value === child.value.trim() && !/[{}<>\n]/.test(child.value)) {
+      return [t.jsxText(child.value)];
+    }
+    return [t.jsxExpressionContainer(child)];
+  }
+
+  if (t.isSpreadElement(child)) {
+    return [t.jsxExpressionContainer(child.argument)];
+  }
+
+  return [t.jsxExpressionContainer(child as t.Expression)];
+}
+
+/**
+ * Put nested elements on their own lines
+ * The generator prints JSX children as written, so line breaks are added as
+ * whitespace-only text, which JSX ignores.
+ */
+function formatJSX(file: t.File): void {
+  const format = (node: t.JSXElement | t.JSXFragment, level: number) => {
+    const nested = node.children.filter((child) => !t.isJSXText(child));
+    const multiline = node.children.length > 1 || nested.some(
+      (child) => (t.isJSXElement(child) || t.isJSXFragment(child)) && child.children.length > 0
+    );
+    if (!multiline) {
+      nested.forEach((child) => (t.isJSXElement(child) || t.isJSXFragment(child)) && format(child, level));
+      return;
+    }
+
+    const children: t.JSXElement['children'] = [];
+    for (const child of node.children) {
+      children.push(t.jsxText(`\n${'  '.repeat(level + 1)}`), child);
+      if (t.isJSXElement(child) || t.isJSXFragment(child)) {
+        format(child, level + 1);
+      }
+    }
+    children.push(t.jsxText(`\n${'  '.repeat(level)}`));
+    node.children = children;
+  };
+
+  const visitRoot = (path: NodePath<t.JSXElement> | NodePath<t.JSXFragment>) => {
+    if (t.isJSXElement(path.parent) || t.isJSXFragment(path.parent)) return;
+
+    // Indentation the generator gives the surrounding code
+    const level = path.getAncestry().filter((ancestor) =>
+      ancestor.isBlockStatement() ||
+      ancestor.isClassBody() ||
+      ancestor.isObjectExpression() ||
+      ancestor.isJSXElement() ||
+      ancestor.isJSXFragment()
+    ).length - 1;
+    format(path.node, Math.max(level, 0));
+  };
+
+  traverse(file, { JSXElement: visitRoot, JSXFragment: visitRoot });
+}
+
+/**
+ * Collect the identifiers the code references without declaring them
+ */
+function collectExternals(file: t.File): string[] {
+  const externals = new Set<string>();
+
+  traverse(file, {
+    Program(path) {
+      path.scope.crawl();
+    },
+
+    ReferencedIdentifier(path) {
+      const node = path.node;
+      const name = t.isJSXIdentifier(node) || t.isIdentifier(node) ? node.name : null;
+      if (!name || KNOWN_GLOBALS.has(name) || path.parentPath?.isTSTypeReference()) return;
+      // Intrinsic elements (`<div>`) are not references
+      if (t.isJSXIdentifier(node) && /^[a-z]/.test(name) && !t.isJSXMemberExpression(path.parent)) return;
+
+      if (!path.scope.hasBinding(name)) {
+        externals.add(name);
+      }
+    },
+  });
+
+  return Array.from(externals).sort();
+}
+
+/**
+ * Get the name of a non-computed object key
+ */
+function getPropertyName(key: t.Node): string | null {
+  if (t.isIdentifier(key)) return key.name;
+  if (t.isStringLiteral(key)) return key.value;
+  return null;
+}
+
+/**
+ * Find a name not bound or referenced in the scope of a path
+ */
+function uniqueName(path: NodePath, base: string): string {
+  let name = base;
+  for (let count = 2; path.scope.hasBinding(name) || path.scope.hasGlobal(name); count++) {
+    name = `${base}${count}`;
+  }
+  return name;
+}
+
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
@@ -0,0 +1,101 @@
+/**
+ * Styled Recovery - Use the original styled-components / Emotion definitions
+ *
+ * Styled components found in a snapshot (see StyledSource) are emitted with
+ * their own template instead of computed styles. In the JSX, a styled
+ * component and the element it renders become one element named after the
+ * definition, carrying the props the styled component received, so
+ * prop-driven interpolations keep working.
+ */
+
+import type { FiberSnapshot, StyledSource } from '@/types';
+import { isHostFiber } from '@lib/fiber-utils';
+import { getStyledSourceKey, getStyledSourceName } from '@lib/style-extractor';
+
+export interface RecoveredStyledComponents {
+  /** Snapshot with styled elements referencing the recovered definitions */
+  snapshot: FiberSnapshot;
+  /** Recovered definitions in document order */
+  definitions: Array<{ name: string; source: StyledSource }>;
+  /** Node ids of the elements rendered through a recovered definition */
+  coveredNodeIds: Set<string>;
+}
+
+/**
+ * Replace styled components in a snapshot by their recovered definitions
+ * @param snapshot - Root snapshot (the generated component)
+ * @param reservedNames - Names already used in the generated file
+ * @returns Rewritten snapshot and the definitions it references
+ */
+export function recoverStyledComponents(
+  snapshot: FiberSnapshot,
+  reservedNames: string[] = []
+): RecoveredStyledComponents {
+  const definitions: RecoveredStyledComponents['definitions'] = [];
+  const coveredNodeIds = new Set<string>();
+  const namesByKey = new Map<string, string>();
+  const usedNames = new Set(reservedNames);
+
+  const getName = (source: StyledSource): string => {
+    const key = getStyledSourceKey(source);
+    const existing = namesByKey.get(key);
+    if (existing) return existing;
+
+    const base = getStyledSourceName(source);
+    let name = base;
+    for (let count = 2; usedNames.has(name); count++) {
+      name = `${base}${count}`;
+    }
+
+    usedNames.add(name);
+    namesByKey.set(key, name);
+    definitions.push({ name, source });
+    return name;
+  };
+
+  // The styled component's element, named after the definition
+  const toStyledElement = (styledNode: FiberSnapshot, host: FiberSnapshot): FiberSnapshot => {
+    if (host.nodeId) coveredNodeIds.add(host.nodeId);
+    return {
+      ...host,
+      name: getName(styledNode.styled!),
+      props: styledNode.props,
+      // Styles come from the definition, not from node styles
+      nodeId: null,
+      children: host.children.map(rewrite),
+    };
+  };
+
+  // The generated component itself may be the styled component; it keeps
+  // rendering, but through the recovered definition
+  const rootHost = snapshot.styled ? findHost(snapshot) : null;
+
+  const rewrite = (node: FiberSnapshot): FiberSnapshot => {
+    if (node === rootHost) {
+      return toStyledElement(snapshot, rootHost);
+    }
+    if (node.styled) {
+      const host = findHost(node);
+      if (host) return toStyledElement(node, host);
+    }
+    return { ...node, children: node.children.map(rewrite) };
+  };
+
+  const root = rootHost
+    ? { ...snapshot, children: snapshot.children.map(rewrite) }
+    : rewrite(snapshot);
+
+  return { snapshot: root, definitions, coveredNodeIds };
+}
+
+/**
+ * Find the element a styled component renders (its first host descendant)
+ */
+function findHost(node: FiberSnapshot): FiberSnapshot | null {
+  for (const child of node.children) {
+    if (isHostFiber(child)) return child;
+    const host = findHost(child);
+    if (host) return host;
+  }
+  return null;
+}
@@ -2,14 +2,27 @@
  * Type Generator - Generates TypeScript interfaces from React components
  *
  * This module infers prop types from runtime values and generates
- * TypeScript interfaces for component props.
+ * TypeScript interfaces for component props. Besides the captured instance,
+ * the other mounted instances of the component and its recorded variants are
+ * sampled when available (see prop-inference): props every sample has become
+ * required, strings seen with a few values become literal unions, numbers
+ * note the range they were seen in and nested objects are declared as
+ * interfaces of their own. Callbacks get the parameters of their source.
  */
 
-import type { ReactFiberNode } from '@/types';
-import { extractProps } from '@lib/fiber-utils';
+import type { FiberSnapshot, PropValueDetail } from '@/types';
+import {
+  inferProps,
+  inferValueType,
+  extractNamedShapes,
+  printType,
+  toPropertyKey,
+  type InferredProp,
+  type NamedShape,
+} from './prop-inference';
 
 export interface TypeGeneratorOptions {
-  /** Include optional props (default: true) */
+  /** Include optional props (default: true); with several samples, only props some sample lacks */
   includeOptional?: boolean;
   /** Generate detailed JSDoc comments (default: true) */
   includeJSDoc?: boolean;
@@ -19,6 +32,12 @@ export interface TypeGeneratorOptions {
   exportInterface?: boolean;
   /** Use type alias instead of interface (default: false) */
   useTypeAlias?: boolean;
+  /** Recorded variants of the component (see ComponentInfo.variants) */
+  variants?: FiberSnapshot[];
+  /** Props of every mounted instance of the component (see ComponentInfo.instances) */
+  instances?: Array<Record<string, unknown>>;
+  /** Items of the lists the generated component maps over, by prop (see detectRepeatedLists) */
+  listProps?: Record<string, Array<Record<string, unknown>>>;
 }
 
 const DEFAULT_OPTIONS: Required<TypeGeneratorOptions> = {
@@ -27,25 +46,99 @@ const DEFAULT_OPTIONS: Required<TypeGeneratorOptions> = {
   interfaceName: '',
   exportInterface: true,
   useTypeAlias: false,
+  variants: [],
+  instances: [],
+  listProps: {},
 };
 
+/**
+ * A component's props as inferred for output: the interface, PropTypes and
+ * Zod schemas (see schema-generator) are all printed from it
+ */
+export interface PropsModel {
+  /** Name of the props type, e.g. `CardProps` */
+  name: string;
+  /** Props in order, nested shapes referred to by name; `optional` as printed */
+  props: InferredProp[];
+  /** Nested object shapes, each after the shapes it uses */
+  shapes: NamedShape[];
+  /** Number of instances and variants the props were inferred from */
+  sampleCount: number;
+  /** Some sample passed children */
+  hasChildren: boolean;
+}
+
+/**
+ * Props left out of the model (children is added on its own)
+ */
+const SKIPPED_PROPS = new Set(['children', 'key', 'ref']);
+
+/**
+ * Infer the props model of a component
+ * @param snapshot - Captured component
+ * @param componentName - Component name
+ * @param options - Generator options (samples, optional props, interface name)
+ * @returns The model, or null without a snapshot
+ */
+export function inferPropsModel(
+  snapshot: FiberSnapshot | null,
+  componentName: string,
+  options: TypeGeneratorOptions = {}
+): PropsModel | null {
+  if (!snapshot) {
+    return null;
+  }
+
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const name = opts.interfaceName || `${componentName}Props`;
+  const samples = getPropSamples(snapshot, opts);
+
+  // A single sample cannot tell required props from optional ones
+  const allOptional = opts.includeOptional && samples.length === 1;
+  const inferred = inferProps(samples, { details: getPropDetails(snapshot, opts) })
+    .filter((prop) => !SKIPPED_PROPS.has(prop.name) && !prop.name.startsWith('__'))
+    .map((prop) => ({ ...prop, optional: allOptional || (opts.includeOptional && prop.optional) }));
+
+  // List props default to the captured items, so callers may leave them out;
+  // items are samples of one shape, and their text is content, not options
+  for (const [name, items] of Object.entries(opts.listProps || {})) {
+    inferred.push({
+      name,
+      type: { kind: 'array', element: { kind: 'object', props: inferProps(items, { maxLiterals: 0 }) } },
+      optional: opts.includeOptional,
+      example: items,
+    });
+  }
+
+  // Nested objects are declared on their own, named after their props
+  const { props, shapes } = extractNamedShapes(inferred, componentName, [name]);
+
+  return {
+    name,
+    props,
+    shapes,
+    sampleCount: samples.length,
+    hasChildren: samples.some((sample) => 'children' in sample),
+  };
+}
+
 /**
  * Generate TypeScript interface from component props
  */
 export function generatePropsInterface(
-  fiber: ReactFiberNode | null,
+  snapshot: FiberSnapshot | null,
   componentName: string,
   options: TypeGeneratorOptions = {}
 ): string {
-  if (!fiber) {
+  const model = inferPropsModel(snapshot, componentName, options);
+  if (!model) {
     return '';
   }
 
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const interfaceName = opts.interfaceName || `${componentName}Props`;
+  const interfaceName = model.name;
 
-  const props = extractProps(fiber);
-  if (!props || Object.keys(props).length === 0) {
+  if (model.props.length === 0 && !model.hasChildren) {
     // No props - return empty interface
     const exportKeyword = opts.exportInterface ? 'export ' : '';
     const keyword = opts.useTypeAlias ? 'type' : 'interface';
@@ -61,54 +154,89 @@ ${exportKeyword}${keyword} ${interfaceName}${equals}{}`;
     return `${exportKeyword}${keyword} ${interfaceName}${equals}{}`;
   }
 
+  // Nested objects are declared first, as interfaces of their own
+  const shapeDeclarations = model.shapes.map((shape) => generateShapeDeclaration(shape, opts)).join('\n\n');
+  const prefix = shapeDeclarations ? `${shapeDeclarations}\n\n` : '';
+
   // Generate prop types
-  const propTypes = generatePropTypes(props, opts);
+  const propTypes = generatePropTypes(model, opts);
   const exportKeyword = opts.exportInterface ? 'export ' : '';
 
   if (opts.useTypeAlias) {
     // Type alias format
     const jsdoc = opts.includeJSDoc ? `/**\n * Props for ${componentName} component\n */\n` : '';
-    return `${jsdoc}${exportKeyword}type ${interfaceName} = {
+    return `${prefix}${jsdoc}${exportKeyword}type ${interfaceName} = {
 ${propTypes}
 }`;
   }
 
   // Interface format
   const jsdoc = opts.includeJSDoc ? `/**\n * Props for ${componentName} component\n */\n` : '';
-  return `${jsdoc}${exportKeyword}interface ${interfaceName} {
+  return `${prefix}${jsdoc}${exportKeyword}interface ${interfaceName} {
 ${propTypes}
 }`;
 }
 
 /**
- * Generate prop type definitions
+ * Collect the props to infer types from: recorded variants and mounted
+ * instances when there are several, otherwise the captured instance alone
  */
-function generatePropTypes(
-  props: Record<string, any>,
+function getPropSamples(
+  snapshot: FiberSnapshot,
   opts: Required<TypeGeneratorOptions>
-): string {
-  const lines: string[] = [];
+): Array<Record<string, unknown>> {
+  // Callers may pass `variants: undefined` through
+  const variants = opts.variants || [];
+  const instances = opts.instances || [];
+
+  const samples = [
+    ...(variants.length > 1 ? variants.map((variant) => variant.props) : []),
+    ...(instances.length > 1 ? instances : []),
+  ];
+  return samples.length > 0 ? samples : [snapshot.props || {}];
+}
 
-  for (const [key, value] of Object.entries(props)) {
-    // Skip special React props
-    if (key === 'children' || key === 'key' || key === 'ref') {
-      continue;
-    }
+/**
+ * Collect what the placeholders among the props stand for, from the captured
+ * instance and the recorded variants (see FiberSnapshot.propDetails)
+ */
+function getPropDetails(
+  snapshot: FiberSnapshot,
+  opts: Required<TypeGeneratorOptions>
+): Record<string, PropValueDetail> {
+  const sources = [snapshot, ...(opts.variants || [])];
+  return Object.assign({}, ...sources.reverse().map((source) => source.propDetails || {}));
+}
 
-    // Skip internal props
-    if (key.startsWith('__')) {
-      continue;
-    }
+/**
+ * Declare a nested object shape as an interface (or type alias)
+ */
+function generateShapeDeclaration(shape: NamedShape, opts: Required<TypeGeneratorOptions>): string {
+  const exportKeyword = opts.exportInterface ? 'export ' : '';
+  const fields = shape.props
+    .map((prop) => `  ${toPropertyKey(prop.name)}${prop.optional ? '?' : ''}: ${printType(prop.type, '  ')};`)
+    .join('\n');
+  const declaration = opts.useTypeAlias
+    ? `${exportKeyword}type ${shape.name} = {\n${fields}\n}`
+    : `${exportKeyword}interface ${shape.name} {\n${fields}\n}`;
+  return opts.includeJSDoc ? `/**\n * Shape of \`${shape.path}\` in the props\n */\n${declaration}` : declaration;
+}
 
-    const type = inferType(value);
-    const optional = opts.includeOptional ? '?' : '';
-    const jsdoc = opts.includeJSDoc ? generatePropJSDoc(key, value) : '';
+/**
+ * Generate prop type definitions
+ */
+function generatePropTypes(model: PropsModel, opts: Required<TypeGeneratorOptions>): string {
+  const lines: string[] = [];
+
+  for (const prop of model.props) {
+    const optional = prop.optional ? '?' : '';
+    const jsdoc = opts.includeJSDoc ? generatePropJSDoc(prop, model.sampleCount) : '';
 
-    lines.push(`${jsdoc}  ${key}${optional}: ${type};`);
+    lines.push(`${jsdoc}  ${toPropertyKey(prop.name)}${optional}: ${printType(prop.type, '  ')};`);
   }
 
   // Add children prop if it exists in original props
-  if ('children' in props) {
+  if (model.hasChildren) {
     const jsdoc = opts.includeJSDoc ? '  /** Child elements */\n' : '';
     const optional = opts.includeOptional ? '?' : '';
     lines.push(`${jsdoc}  children${optional}: React.ReactNode;`);
@@ -121,91 +249,19 @@ function generatePropTypes(
  * Infer TypeScript type from runtime value
  */
 function inferType(value: any): string {
-  // Null/undefined
-  if (value === null) {
-    return 'null';
-  }
-  if (value === undefined) {
-    return 'undefined';
-  }
-
-  // Primitives
-  if (typeof value === 'string') {
-    return 'string';
-  }
-  if (typeof value === 'number') {
-    return 'number';
-  }
-  if (typeof value === 'boolean') {
-    return 'boolean';
-  }
-
-  // Functions
-  if (typeof value === 'function') {
-    return '() => void';
-  }
-
-  // Arrays
-  if (Array.isArray(value)) {
-    if (value.length === 0) {
-      return 'any[]';
-    }
-
-    // Infer array element type from first element
-    const firstType = inferType(value[0]);
-    const allSameType = value.every((item) => inferType(item) === firstType);
-
-    if (allSameType) {
-      return `${firstType}[]`;
-    }
-
-    return 'any[]';
-  }
-
-  // Objects
-  if (typeof value === 'object') {
-    // React elements
-    if (value.$$typeof) {
-      return 'React.ReactElement';
-    }
-
-    // Style objects
-    if (isStyleObject(value)) {
-      return 'React.CSSProperties';
-    }
-
-    // Plain objects
-    return 'Record<string, any>';
-  }
-
-  return 'any';
-}
-
-/**
- * Check if object is a style object
- */
-function isStyleObject(obj: any): boolean {
-  const styleProps = [
-    'color',
-    'backgroundColor',
-    'fontSize',
-    'margin',
-    'padding',
-    'display',
-    'position',
-    'width',
-    'height',
-  ];
-
-  const keys = Object.keys(obj);
-  return keys.some((key) => styleProps.includes(key));
+  return printType(inferValueType(value));
 }
 
 /**
  * Generate JSDoc comment for a prop
+ * @param prop - Inferred prop
+ * @param sampleCount - Number of instances and variants it was inferred from
  */
-function generatePropJSDoc(key: string, value: any): string {
-  const type = typeof value;
+function generatePropJSDoc(prop: InferredProp, sampleCount: number): string {
+  const key = prop.name;
+  // Placeholders are strings too, but describe no string prop
+  const isScalar = prop.type.kind === 'primitive' || prop.type.kind === 'literal' || prop.type.kind === 'union';
+  const type = isScalar ? typeof prop.example : 'object';
   let description = '';
 
   // Generate description based on prop name and type
@@ -234,6 +290,11 @@ function generatePropJSDoc(key: string, value: any): string {
     description = `${capitalize(key)} prop`;
   }
 
+  // Numbers note the range the page used
+  if (prop.range) {
+    description += ` (${prop.range[0]}–${prop.range[1]} across ${sampleCount} samples)`;
+  }
+
   return `  /** ${description} */\n`;
 }
 
@@ -248,11 +309,11 @@ function capitalize(str: string): string {
  * Generate props interface with children
  */
 export function generatePropsWithChildren(
-  fiber: ReactFiberNode | null,
+  snapshot: FiberSnapshot | null,
   componentName: string,
   options: TypeGeneratorOptions = {}
 ): string {
-  const propsInterface = generatePropsInterface(fiber, componentName, options);
+  const propsInterface = generatePropsInterface(snapshot, componentName, options);
 
   // If interface already has children, return as-is
   if (propsInterface.includes('children')) {
@@ -361,7 +422,7 @@ export function generateEventHandlerType(eventName: string): string {
  * Generate complete type definitions for a component
  */
 export function generateCompleteTypes(
-  fiber: ReactFiberNode | null,
+  snapshot: FiberSnapshot | null,
   componentName: string,
   stateValues: Record<string, any> = {},
   options: TypeGeneratorOptions = {}
@@ -369,7 +430,7 @@ export function generateCompleteTypes(
   const parts: string[] = [];
 
   // Props interface
-  const propsInterface = generatePropsInterface(fiber, componentName, options);
+  const propsInterface = generatePropsInterface(snapshot, componentName, options);
   if (propsInterface) {
     parts.push(propsInterface);
   }
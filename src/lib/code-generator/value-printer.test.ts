@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { FiberSnapshot } from '@/types';
+import { createHoistedValues, generateValueDeclarations, hoistValue, printValue } from './value-printer';
+
+/**
+ * Print a value and return its code
+ */
+function print(value: unknown, options?: Parameters<typeof printValue>[2]): string | null {
+  return printValue(value, 'value', options)?.code ?? null;
+}
+
+describe('printValue', () => {
+  it('prints primitives and quotes strings', () => {
+    expect(print(42)).toBe('42');
+    expect(print(null)).toBe('null');
+    expect(print('Desk lamp')).toBe("'Desk lamp'");
+    expect(print("Don't")).toBe('"Don\'t"');
+    expect(print('line\nbreak')).toBe("'line\\nbreak'");
+  });
+
+  it('prints arrays and objects inline until they exceed the line width', () => {
+    expect(print({ id: 1, 'data-id': 'a' })).toBe("{ id: 1, 'data-id': 'a' }");
+    expect(print(['a', 'b'], { lineWidth: 8 })).toBe("[\n  'a',\n  'b',\n]");
+  });
+
+  it('rebuilds dates, functions, maps and sets', () => {
+    expect(print('[Date: 2024-01-02T00:00:00.000Z]')).toBe("new Date('2024-01-02T00:00:00.000Z')");
+    expect(print('[Function: onClick]')).toBe('() => {}');
+    expect(print('[Map]')).toBe('new Map()');
+    expect(print('[Map]', { details: { value: { kind: 'map', entries: [['a', 1]] } } })).toBe("new Map([['a', 1]])");
+    expect(print('[Set]', { details: { value: { kind: 'set', values: ['x'] } } })).toBe("new Set(['x'])");
+  });
+
+  it('cuts off deep and long values', () => {
+    expect(print({ a: { b: { c: 1 } } }, { maxDepth: 1 })).toBe('{ a: { /* 1 field */ } }');
+    expect(print([1, 2, 3, 4], { maxItems: 2 })).toBe('[1, 2 /* 2 more */]');
+  });
+
+  it('keeps array positions of items it cannot rebuild and leaves out such fields', () => {
+    expect(print(['[DIV]', 1])).toBe('[null, 1]');
+    expect(print({ node: '[Circular]', id: 1 })).toBe('{ id: 1 }');
+    expect(print('[DIV]')).toBeNull();
+  });
+
+  it('renders elements as JSX when given a renderer', () => {
+    const snapshot = { name: 'Icon' } as FiberSnapshot;
+    const details = { value: { kind: 'element' as const, snapshot } };
+
+    expect(printValue('[React Element]', 'value', { details })).toBeNull();
+    expect(
+      printValue('[React Element]', 'value', { details, renderElement: (element) => `<${element.name} />` })
+    ).toEqual({ code: '<Icon />', hasJSX: true });
+  });
+});
+
+describe('hoistValue', () => {
+  it('names constants after the first free hint and shares them between equal values', () => {
+    const hoisted = createHoistedValues(['items']);
+    const printed = { code: '[1, 2]', hasJSX: false };
+
+    expect(hoistValue(hoisted, printed, ['items', 'listItems'])).toBe('listItems');
+    expect(hoistValue(hoisted, { ...printed }, ['other'])).toBe('listItems');
+    expect(hoisted.values).toHaveLength(1);
+  });
+
+  it('numbers names once every hint is taken', () => {
+    const hoisted = createHoistedValues(['rows']);
+
+    expect(hoistValue(hoisted, { code: '[1]', hasJSX: false }, ['rows'])).toBe('rows2');
+    expect(hoistValue(hoisted, { code: '[2]', hasJSX: false }, ['rows'])).toBe('rows3');
+  });
+
+  it('turns hints into identifiers that are not reserved words', () => {
+    const hoisted = createHoistedValues();
+
+    expect(hoistValue(hoisted, { code: '1', hasJSX: false }, ['data-items'])).toBe('dataItems');
+    expect(hoistValue(hoisted, { code: '2', hasJSX: false }, ['default'])).toBe('defaultValue');
+    expect(hoistValue(hoisted, { code: '3', hasJSX: false }, ['2col'])).toBe('value2col');
+  });
+});
+
+describe('generateValueDeclarations', () => {
+  it('declares hoisted values, exported for a data module', () => {
+    const hoisted = createHoistedValues();
+    hoistValue(hoisted, { code: '[1, 2]', hasJSX: false }, ['items']);
+    hoistValue(hoisted, { code: "{ a: 'b' }", hasJSX: false }, ['style']);
+
+    expect(generateValueDeclarations(hoisted, false)).toBe("const items = [1, 2];\n\nconst style = { a: 'b' };");
+    expect(generateValueDeclarations(hoisted, true)).toBe(
+      "export const items = [1, 2];\n\nexport const style = { a: 'b' };"
+    );
+    expect(generateValueDeclarations(createHoistedValues(), true)).toBe('');
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Value Printer - Write captured prop values back as JavaScript literals
+ *
+ * Captured props are plain JSON, with placeholders for what JSON cannot hold
+ * (see toSerializable). Printing undoes that as far as the capture allows:
+ * dates become `new Date(...)`, maps and sets are rebuilt from their recorded
+ * entries and elements are rendered as JSX (see PropValueDetail). Functions
+ * become empty arrows; DOM nodes, cycles and values the capture cut off
+ * cannot be rebuilt and are left out.
+ *
+ * Values too long for an attribute are hoisted into named constants (see
+ * HoistedValues), which the component generator declares in the component
+ * file or in a `ComponentName.data` module.
+ */
+
+import type { FiberSnapshot, PropValueDetail } from '@/types';
+import { isPlaceholderValue } from '@lib/fiber-utils';
+import { toPropertyKey } from './prop-inference';
+
+export interface ValuePrinterOptions {
+  /** Nesting depth printed; deeper arrays and objects are left empty (default: 4) */
+  maxDepth?: number;
+  /** Items printed per array, map or set (default: 50) */
+  maxItems?: number;
+  /** Longest line before arrays and objects are broken up (default: 80) */
+  lineWidth?: number;
+  /** What placeholders stand for, by prop path (see FiberSnapshot.propDetails) */
+  details?: Record<string, PropValueDetail>;
+  /** Render a captured element as JSX (default: elements are left out) */
+  renderElement?: ((snapshot: FiberSnapshot) => string) | null;
+}
+
+/**
+ * A value printed as a JavaScript expression
+ */
+export interface PrintedValue {
+  code: string;
+  /** Whether the code holds JSX (a module declaring it needs React) */
+  hasJSX: boolean;
+}
+
+/**
+ * A value declared as a named constant
+ */
+export interface HoistedValue extends PrintedValue {
+  name: string;
+}
+
+/**
+ * Values hoisted out of the generated JSX, in declaration order
+ */
+export interface HoistedValues {
+  values: HoistedValue[];
+  /** Names the constants must not take (the component, its props, its helpers) */
+  reserved: Set<string>;
+}
+
+const DEFAULT_OPTIONS: Required<ValuePrinterOptions> = {
+  maxDepth: 4,
+  maxItems: 50,
+  lineWidth: 80,
+  details: {},
+  renderElement: null,
+};
+
+/**
+ * Words a constant cannot be named
+ */
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in',
+  'instanceof', 'let', 'new', 'null', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'await', 'arguments', 'eval', 'undefined',
+]);
+
+/**
+ * Print a captured value as a JavaScript expression
+ * @param value - Captured value (from FiberSnapshot.props)
+ * @param path - Its prop path, to look up its details (`items`, `user.avatar`)
+ * @param options - Printer options
+ * @returns The expression, or null if nothing of the value can be rebuilt
+ */
+export function printValue(value: unknown, path: string, options: ValuePrinterOptions = {}): PrintedValue | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const state = { hasJSX: false };
+  const code = printNode(value, path, 0, 0, opts, state);
+  return code === null ? null : { code, hasJSX: state.hasJSX };
+}
+
+/**
+ * Check if a captured value is data worth hoisting (an array, object, map or set)
+ */
+export function isStructuredValue(value: unknown): boolean {
+  return (typeof value === 'object' && value !== null) || value === '[Map]' || value === '[Set]';
+}
+
+/**
+ * Create an empty set of hoisted values
+ * @param reserved - Names already taken where the constants are used
+ */
+export function createHoistedValues(reserved: Iterable<string> = []): HoistedValues {
+  return { values: [], reserved: new Set(reserved) };
+}
+
+/**
+ * Hoist a printed value into a named constant
+ * The same value printed twice shares one constant.
+ * @param hoisted - Values hoisted so far (modified in place)
+ * @param printed - The value
+ * @param hints - Preferred names, best first (`items`, `listItems`)
+ * @returns Name of the constant
+ */
+export function hoistValue(hoisted: HoistedValues, printed: PrintedValue, hints: string[]): string {
+  const existing = hoisted.values.find((value) => value.code === printed.code);
+  if (existing) return existing.name;
+
+  const taken = (name: string) =>
+    hoisted.reserved.has(name) || hoisted.values.some((value) => value.name === name);
+  const candidates = hints.map(toIdentifier);
+  let name = candidates.find((candidate) => !taken(candidate));
+  if (!name) {
+    const base = candidates[0] || 'value';
+    let suffix = 2;
+    while (taken(`${base}${suffix}`)) suffix++;
+    name = `${base}${suffix}`;
+  }
+
+  hoisted.values.push({ ...printed, name });
+  return name;
+}
+
+/**
+ * Declare hoisted values as constants
+ * @param hoisted - Hoisted values
+ * @param exported - Export the constants (data module) or not (component file)
+ * @returns One `const` per value, or '' if none were hoisted
+ */
+export function generateValueDeclarations(hoisted: HoistedValues, exported: boolean): string {
+  return hoisted.values
+    .map((value) => `${exported ? 'export ' : ''}const ${value.name} = ${value.code};`)
+    .join('\n\n');
+}
+
+/**
+ * Turn a prop name into a camelCase identifier (`data-items` → `dataItems`)
+ */
+function toIdentifier(name: string): string {
+  const words = name.split(/[^A-Za-z0-9_$]+/).filter(Boolean);
+  let identifier = words
+    .map((word, index) => (index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join('');
+  if (!identifier) return 'value';
+  if (/^\d/.test(identifier)) identifier = `value${identifier}`;
+  return RESERVED_WORDS.has(identifier) ? `${identifier}Value` : identifier;
+}
+
+/**
+ * Print one value at a nesting depth
+ * @param indentLevel - Indentation of the line the value starts on
+ * @returns The expression, or null if the value cannot be rebuilt
+ */
+function printNode(
+  value: unknown,
+  path: string,
+  depth: number,
+  indentLevel: number,
+  opts: Required<ValuePrinterOptions>,
+  state: { hasJSX: boolean }
+): string | null {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  if (typeof value === 'string') {
+    return isPlaceholderValue(value)
+      ? printPlaceholder(value, path, depth, indentLevel, opts, state)
+      : quote(value);
+  }
+
+  if (Array.isArray(value)) {
+    if (depth >= opts.maxDepth) return value.length > 0 ? `[/* ${pluralize(value.length, 'item')} */]` : '[]';
+
+    const items = value
+      .slice(0, opts.maxItems)
+      // Items that cannot be rebuilt stay as null, keeping the positions of the rest
+      .map((item, index) => printNode(item, `${path}[${index}]`, depth + 1, indentLevel + 1, opts, state) ?? 'null');
+    const rest = value.length - items.length;
+    return layout('[', ']', items, rest > 0 ? `/* ${rest} more */` : null, indentLevel, opts);
+  }
+
+  if (typeof value === 'object') {
+    const keys = Object.keys(value);
+    if (depth >= opts.maxDepth) return keys.length > 0 ? `{ /* ${pluralize(keys.length, 'field')} */ }` : '{}';
+
+    const fields = keys
+      .map((key) => {
+        const printed = printNode((value as Record<string, unknown>)[key], `${path}.${key}`, depth + 1, indentLevel + 1, opts, state);
+        return printed === null ? null : `${toPropertyKey(key)}: ${printed}`;
+      })
+      .filter((field): field is string => field !== null);
+    return layout('{ ', ' }', fields, null, indentLevel, opts);
+  }
+
+  return null;
+}
+
+/**
+ * Print what a placeholder stands for (see toSerializable)
+ */
+function printPlaceholder(
+  value: string,
+  path: string,
+  depth: number,
+  indentLevel: number,
+  opts: Required<ValuePrinterOptions>,
+  state: { hasJSX: boolean }
+): string | null {
+  // Functions, maps and sets are described per prop, elements per occurrence
+  const detail = opts.details[path.replace(/\[\d+\]/g, '[]')];
+
+  if (value.startsWith('[Function')) {
+    return '() => {}';
+  }
+
+  if (value.startsWith('[Date: ')) {
+    const date = value.slice('[Date: '.length, -1);
+    return date === 'Invalid Date' ? 'new Date(NaN)' : `new Date(${quote(date)})`;
+  }
+
+  if (value === '[Map]') {
+    const entries = detail?.kind === 'map' ? detail.entries : [];
+    if (entries.length === 0) return 'new Map()';
+    return `new Map(${printNode(entries, `${path}[]`, depth, indentLevel, opts, state)})`;
+  }
+
+  if (value === '[Set]') {
+    const values = detail?.kind === 'set' ? detail.values : [];
+    if (values.length === 0) return 'new Set()';
+    return `new Set(${printNode(values, `${path}[]`, depth, indentLevel, opts, state)})`;
+  }
+
+  if (value === '[React Element]') {
+    const element = opts.details[path];
+    const jsx = element?.kind === 'element' && opts.renderElement ? opts.renderElement(element.snapshot) : '';
+    if (!jsx) return null;
+    state.hasJSX = true;
+    return jsx;
+  }
+
+  // DOM nodes, cycles and cut-off objects
+  return null;
+}
+
+/**
+ * Lay out the items of an array or object on one line, or one per line
+ * @param trailer - Comment after the last item (no comma follows it)
+ */
+function layout(
+  open: string,
+  close: string,
+  items: string[],
+  trailer: string | null,
+  indentLevel: number,
+  opts: Required<ValuePrinterOptions>
+): string {
+  if (items.length === 0 && !trailer) return `${open.trim()}${close.trim()}`;
+
+  const inline = `${open}${items.join(', ')}${trailer ? `${items.length > 0 ? ' ' : ''}${trailer}` : ''}${close}`;
+  const fits = indent(indentLevel).length + inline.length <= opts.lineWidth;
+  if (fits && !items.some((item) => item.includes('\n'))) {
+    return inline;
+  }
+
+  const inner = indent(indentLevel + 1);
+  const lines = items.map((item) => `${inner}${item},`);
+  if (trailer) lines.push(`${inner}${trailer}`);
+  return `${open.trim()}\n${lines.join('\n')}\n${indent(indentLevel)}${close.trim()}`;
+}
+
+/**
+ * Quote a string as a JavaScript literal, in single quotes unless it holds some
+ */
+function quote(value: string): string {
+  const mark = value.includes("'") && !value.includes('"') ? '"' : "'";
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(new RegExp(mark, 'g'), `\\${mark}`)
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+  return `${mark}${escaped}${mark}`;
+}
+
+/**
+ * Count things in words (`1 item`, `3 items`)
+ */
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Generate indentation string
+ */
+function indent(level: number): string {
+  return '  '.repeat(level);
+}
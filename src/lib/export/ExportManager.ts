@@ -6,17 +6,44 @@
  */
 
 import JSZip from 'jszip';
-import type { ReactFiberNode, ComponentInfo } from '@/types';
-import { getComponentName } from '@lib/fiber-utils';
+import type { ComponentInfo, StyleSource } from '@/types';
 import { generateComponentPackage } from '@lib/code-generator';
+import { captureResponsiveStyles, getResponsiveCaptureWarning, type TailwindThemeConfig } from '@lib/style-extractor';
+import { getOriginalFileName } from '@lib/source-maps';
+import { isPlaceholderValue } from '@lib/fiber-utils';
+import { getBridgeForElement } from '@lib/bridge';
+
+/**
+ * A Storybook story: its export name and args
+ */
+interface StoryDefinition {
+  name: string;
+  args: Record<string, unknown>;
+}
 
 export interface ExportOptions {
-  /** Component name (default: extracted from fiber) */
+  /** Component name (default: the captured component's name) */
   componentName?: string;
+  /** Generate the rendered output (snapshot) or the decompiled render logic (source) */
+  mode?: 'snapshot' | 'source';
   /** Use TypeScript (.tsx) or JavaScript (.jsx) */
   typescript?: boolean;
+  /** Infer prop types from every mounted instance of the component */
+  inferTypesFromInstances?: boolean;
+  /** Add a `propTypes` block to JavaScript output */
+  includePropTypes?: boolean;
+  /** Declare the props of TypeScript output as a Zod schema */
+  includeZodSchema?: boolean;
   /** Styling strategy */
-  styleStrategy?: 'inline' | 'css-module' | 'styled-components' | 'plain-css' | 'none';
+  styleStrategy?: 'inline' | 'css-module' | 'styled-components' | 'plain-css' | 'tailwind' | 'none';
+  /** Emit computed values or the authored stylesheet rules */
+  styleSource?: StyleSource;
+  /** tailwind.config theme (JSON) to snap Tailwind classes to */
+  tailwindTheme?: TailwindThemeConfig | null;
+  /** Keep the original classes of Tailwind sites instead of generating styles */
+  preserveTailwindClasses?: boolean;
+  /** Regenerate the page's own CSS Modules for the css-module strategy */
+  preserveCSSModules?: boolean;
   /** Include comments in generated code */
   includeComments?: boolean;
   /** Include package.json */
@@ -25,42 +52,104 @@ export interface ExportOptions {
   includeStorybook?: boolean;
   /** Include test file template */
   includeTests?: boolean;
+  /** Include the original source file recovered from the page's source maps */
+  includeOriginalSource?: boolean;
   /** Extract depth */
   extractDepth?: 'shallow' | 'deep';
+  /** Re-measure styles at every breakpoint and emit media queries */
+  captureBreakpoints?: boolean;
+  /** Nesting depth of prop values written as literals */
+  valueDepth?: number;
+  /** Items written per array prop value */
+  maxArrayItems?: number;
+  /** Longest prop value written inline; longer ones go to `ComponentName.data` */
+  maxInlineValueLength?: number;
+  /** Write runs of repeated siblings as `.map()` loops over an items prop */
+  detectLists?: boolean;
+}
+
+/**
+ * Outcome of an export
+ */
+export interface ExportResult {
+  /** Parts of the export that fell short, for the user */
+  warnings: string[];
 }
 
 const DEFAULT_OPTIONS: Required<ExportOptions> = {
   componentName: '',
+  mode: 'snapshot',
   typescript: true,
+  inferTypesFromInstances: true,
+  includePropTypes: true,
+  includeZodSchema: false,
   styleStrategy: 'css-module',
+  styleSource: 'computed',
+  tailwindTheme: null,
+  preserveTailwindClasses: true,
+  preserveCSSModules: true,
   includeComments: true,
   includePackageJson: true,
   includeStorybook: false,
   includeTests: false,
+  includeOriginalSource: true,
   extractDepth: 'deep',
+  captureBreakpoints: false,
+  valueDepth: 4,
+  maxArrayItems: 50,
+  maxInlineValueLength: 60,
+  detectLists: true,
 };
 
 export class ExportManager {
   /**
    * Export component as ZIP file
+   * @returns Warnings about parts of the export that fell short
    */
   public async exportAsZip(
-    fiber: ReactFiberNode,
     componentInfo: ComponentInfo,
     options: ExportOptions = {}
-  ): Promise<void> {
+  ): Promise<ExportResult> {
     const opts = { ...DEFAULT_OPTIONS, ...options };
-    const componentName = opts.componentName || getComponentName(fiber) || 'Component';
+    const componentName = opts.componentName || componentInfo.name || 'Component';
+    const warnings: string[] = [];
 
     try {
+      // Breakpoints need the live element to clone
+      let packageInfo = componentInfo;
+      if (opts.captureBreakpoints && componentInfo.nodeStyles) {
+        const domNode = componentInfo.domNode;
+        if (domNode?.isConnected) {
+          const bridge = getBridgeForElement(domNode);
+          const capture = await captureResponsiveStyles(componentInfo.nodeStyles, (nodeId) => bridge.findElement(nodeId));
+          const warning = getResponsiveCaptureWarning(capture);
+          if (warning) warnings.push(warning);
+          packageInfo = { ...componentInfo, nodeStyles: capture.nodeStyles };
+        } else {
+          warnings.push('Breakpoints could not be measured: the component is no longer on the page.');
+        }
+      }
+
       // Generate component package
-      const files = generateComponentPackage(componentInfo, {
+      const files = generateComponentPackage(packageInfo, {
         componentName,
+        mode: opts.mode,
         typescript: opts.typescript,
         includeTypes: opts.typescript,
+        inferTypesFromInstances: opts.inferTypesFromInstances,
+        includePropTypes: opts.includePropTypes,
+        includeZodSchema: opts.includeZodSchema,
         styleStrategy: opts.styleStrategy,
+        styleSource: opts.styleSource,
+        tailwindTheme: opts.tailwindTheme,
+        preserveTailwindClasses: opts.preserveTailwindClasses,
+        preserveCSSModules: opts.preserveCSSModules,
         includeComments: opts.includeComments,
         extractDepth: opts.extractDepth,
+        valueDepth: opts.valueDepth,
+        maxArrayItems: opts.maxArrayItems,
+        maxInlineValueLength: opts.maxInlineValueLength,
+        detectLists: opts.detectLists,
       });
 
       // Create ZIP
@@ -79,7 +168,7 @@ export class ExportManager {
 
       // Add Storybook story
       if (opts.includeStorybook) {
-        const story = this.generateStorybookStory(componentName, opts);
+        const story = this.generateStorybookStory(componentName, componentInfo, opts);
         const ext = opts.typescript ? 'tsx' : 'jsx';
         zip.file(`${componentName}.stories.${ext}`, story);
       }
@@ -91,6 +180,12 @@ export class ExportManager {
         zip.file(`${componentName}.test.${ext}`, test);
       }
 
+      // Add the original source file
+      const originalFile = this.getOriginalSourceFile(componentInfo, opts);
+      if (originalFile) {
+        zip.file(originalFile, componentInfo.originalSource!.code!);
+      }
+
       // Generate ZIP blob
       const blob = await zip.generateAsync({ type: 'blob' });
 
@@ -99,8 +194,13 @@ export class ExportManager {
 
       console.log('React Component Cloner: ZIP export successful', {
         componentName,
-        fileCount: files.size + (opts.includePackageJson ? 1 : 0) + (opts.includeStorybook ? 1 : 0) + (opts.includeTests ? 1 : 0),
+        fileCount: files.size + (opts.includePackageJson ? 1 : 0) + (opts.includeStorybook ? 1 : 0) + (opts.includeTests ? 1 : 0) + (originalFile ? 1 : 0),
       });
+      if (warnings.length > 0) {
+        console.warn('React Component Cloner: ZIP export warnings', warnings);
+      }
+
+      return { warnings };
     } catch (error) {
       console.error('React Component Cloner: Error exporting ZIP', error);
       throw error;
@@ -115,7 +215,7 @@ export class ExportManager {
     componentInfo: ComponentInfo,
     opts: Required<ExportOptions>
   ): string {
-    const dependencies = this.detectDependencies(componentInfo);
+    const dependencies = this.detectDependencies(componentInfo, opts);
 
     const packageJson = {
       name: componentName.toLowerCase().replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`),
@@ -149,18 +249,37 @@ export class ExportManager {
           '@storybook/react': '^7.0.0',
           '@storybook/addon-essentials': '^7.0.0',
         }),
+        ...(this.usesTailwind(componentInfo, opts) && {
+          tailwindcss: '^3.4.0',
+        }),
       },
     };
 
     return JSON.stringify(packageJson, null, 2);
   }
 
+  /**
+   * Check if the exported component is styled with Tailwind classes
+   */
+  private usesTailwind(componentInfo: ComponentInfo, opts: Required<ExportOptions>): boolean {
+    if (opts.styleStrategy === 'tailwind') return true;
+    return !!componentInfo.tailwind && opts.preserveTailwindClasses && opts.styleStrategy !== 'none';
+  }
+
   /**
    * Detect dependencies from component info
    */
-  private detectDependencies(componentInfo: ComponentInfo): Record<string, string> {
+  private detectDependencies(componentInfo: ComponentInfo, opts: Required<ExportOptions>): Record<string, string> {
     const dependencies: Record<string, string> = {};
 
+    // Runtime props validation
+    if (!opts.typescript && opts.includePropTypes) {
+      dependencies['prop-types'] = '^15.8.1';
+    }
+    if (opts.typescript && opts.includeZodSchema) {
+      dependencies.zod = '^3.23.0';
+    }
+
     // Check for styled-components
     if (componentInfo.styles?.strategy === 'styled-components') {
       dependencies['styled-components'] = '^6.0.0';
@@ -179,9 +298,44 @@ export class ExportManager {
 
   /**
    * Generate Storybook story
+   * Recorded variants become one story each; otherwise a template is emitted.
    */
-  private generateStorybookStory(componentName: string, opts: Required<ExportOptions>): string {
+  private generateStorybookStory(
+    componentName: string,
+    componentInfo: ComponentInfo,
+    opts: Required<ExportOptions>
+  ): string {
     const typeAnnotation = opts.typescript ? ': Meta<typeof Component>' : '';
+    const stories = this.getVariantStories(componentInfo);
+
+    if (stories.length > 1) {
+      const storyExports = stories.map(({ name, args }) => {
+        // Identifier keys go unquoted, as written by hand
+        const body = JSON.stringify(args, null, 2)
+          .replace(/^(\s*)"([A-Za-z_$][\w$]*)":/gm, '$1$2:')
+          .replace(/\n/g, '\n  ');
+        return `export const ${name}: Story = {\n  args: ${body},\n};`;
+      });
+
+      return `import type { Meta, StoryObj } from '@storybook/react';
+import ${componentName} from './${componentName}';
+
+const meta${typeAnnotation} = {
+  title: 'Components/${componentName}',
+  component: ${componentName},
+  parameters: {
+    layout: 'centered',
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// One story per variant recorded on the page
+${storyExports.join('\n\n')}
+`;
+    }
 
     return `import type { Meta, StoryObj } from '@storybook/react';
 import ${componentName} from './${componentName}';
@@ -215,6 +369,86 @@ export const Example: Story = {
 `;
   }
 
+  /**
+   * Turn recorded variants into stories, one per distinct set of args
+   * Functions, elements and other non-data props are left to Storybook.
+   * Variants differing in state only look the same as args, so they merge.
+   */
+  private getVariantStories(componentInfo: ComponentInfo): StoryDefinition[] {
+    const stories: StoryDefinition[] = [];
+    const seen = new Set<string>();
+
+    for (const variant of componentInfo.variants || []) {
+      const args = Object.fromEntries(
+        Object.entries(variant.props).filter(
+          ([key, value]) => key !== 'key' && key !== 'ref' && !this.containsPlaceholder(value)
+        )
+      );
+
+      const key = JSON.stringify(args);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const taken = new Set(stories.map((story) => story.name));
+      const candidates = stories.length === 0 ? ['Default'] : this.getStoryNames(args, stories[0].args);
+      const baseName = candidates.find((candidate) => !taken.has(candidate)) || candidates[0] || 'Variant';
+      let name = baseName;
+      for (let index = 2; taken.has(name); index++) {
+        name = `${baseName}${index}`;
+      }
+      stories.push({ name, args });
+    }
+
+    return stories;
+  }
+
+  /**
+   * Check if a captured value is or contains a placeholder (see isPlaceholderValue)
+   */
+  private containsPlaceholder(value: unknown): boolean {
+    if (isPlaceholderValue(value)) return true;
+    if (value && typeof value === 'object') {
+      return Object.values(value).some((item) => this.containsPlaceholder(item));
+    }
+    return false;
+  }
+
+  /**
+   * Name a story after the args that differ from the default story
+   * (`isOpen: true` → `Open`, `status: 'loading'` → `Loading`)
+   * @returns Candidate names, one per differing arg
+   */
+  private getStoryNames(args: Record<string, unknown>, defaults: Record<string, unknown>): string[] {
+    const toPascalCase = (text: string) =>
+      text
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join('');
+
+    const keys = [...new Set([...Object.keys(args), ...Object.keys(defaults)])];
+    const differing = keys.filter((key) => JSON.stringify(args[key]) !== JSON.stringify(defaults[key]));
+
+    return differing.map((key) => {
+      const value = args[key];
+      const propName = toPascalCase(key.replace(/^(is|has|show)(?=[A-Z])/, ''));
+      let name: string;
+      if (value === true) {
+        name = propName;
+      } else if (value === false || value === undefined || value === null) {
+        name = `No${propName}`;
+      } else if (typeof value === 'string' && value.length <= 24 && toPascalCase(value)) {
+        name = toPascalCase(value);
+      } else {
+        const isIndex = typeof value === 'number' && Number.isInteger(value) && value >= 0;
+        name = `${propName}${isIndex ? value : 'Variant'}`;
+      }
+
+      // Export names cannot start with a digit
+      return /^[0-9]/.test(name) ? `${propName}${name}` : name;
+    });
+  }
+
   /**
    * Generate test template
    */
@@ -264,7 +498,8 @@ describe('${componentName}', () => {
    */
   public getExportFileList(
     componentName: string,
-    options: ExportOptions = {}
+    options: ExportOptions = {},
+    componentInfo?: ComponentInfo
   ): string[] {
     const opts = { ...DEFAULT_OPTIONS, ...options };
     const ext = opts.typescript ? 'tsx' : 'jsx';
@@ -273,8 +508,12 @@ describe('${componentName}', () => {
     // Main component file
     files.push(`${componentName}.${ext}`);
 
-    // Style files
-    if (opts.styleStrategy === 'css-module') {
+    // Style files (decompiled source keeps the page's classes)
+    if (opts.mode === 'source' && componentInfo?.snapshot.renderSource) {
+      // No style file
+    } else if (componentInfo?.tailwind && opts.preserveTailwindClasses && opts.styleStrategy !== 'none') {
+      files.push('tailwind.config.js');
+    } else if (opts.styleStrategy === 'css-module') {
       files.push(`${componentName}.module.css`);
     } else if (opts.styleStrategy === 'plain-css') {
       files.push(`${componentName}.css`);
@@ -304,13 +543,27 @@ describe('${componentName}', () => {
       files.push(`${componentName}.test.${ext}`);
     }
 
+    const originalFile = componentInfo && this.getOriginalSourceFile(componentInfo, opts);
+    if (originalFile) {
+      files.push(originalFile);
+    }
+
     return files;
   }
 
+  /**
+   * Get the package path of the original source file, if it is included
+   */
+  private getOriginalSourceFile(componentInfo: ComponentInfo, opts: Required<ExportOptions>): string | null {
+    const originalSource = componentInfo.originalSource;
+    if (!opts.includeOriginalSource || !originalSource?.code) return null;
+    return `original/${getOriginalFileName(originalSource.fileName)}`;
+  }
+
   /**
    * Get estimated package size (in KB)
    */
-  public estimatePackageSize(_componentInfo: ComponentInfo, options: ExportOptions = {}): number {
+  public estimatePackageSize(componentInfo: ComponentInfo, options: ExportOptions = {}): number {
     const opts = { ...DEFAULT_OPTIONS, ...options };
     let sizeKB = 0;
 
@@ -318,7 +571,7 @@ describe('${componentName}', () => {
     sizeKB += 3;
 
     // Style file: ~1-2 KB
-    if (opts.styleStrategy !== 'none' && opts.styleStrategy !== 'inline') {
+    if (opts.styleStrategy !== 'none' && opts.styleStrategy !== 'inline' && opts.styleStrategy !== 'tailwind') {
       sizeKB += 1.5;
     }
 
@@ -345,6 +598,11 @@ describe('${componentName}', () => {
       sizeKB += 1;
     }
 
+    // Original source: its actual size
+    if (this.getOriginalSourceFile(componentInfo, opts)) {
+      sizeKB += componentInfo.originalSource!.code!.length / 1024;
+    }
+
     return Math.round(sizeKB * 10) / 10;
   }
 }
@@ -2,4 +2,4 @@
  * Export utilities - Main export file
  */
 
-export { ExportManager, exportManager, type ExportOptions } from './ExportManager';
+export { ExportManager, exportManager, type ExportOptions, type ExportResult } from './ExportManager';
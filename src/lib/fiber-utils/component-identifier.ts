@@ -3,40 +3,69 @@
  */
 
 import type { ReactFiberNode, ComponentType } from '@/types';
+import { WorkTag, getWorkTag, getWorkTagName } from './work-tags';
+
+/**
+ * Anything carrying a Fiber work tag (live fibers and snapshots)
+ */
+type TaggedNode = Pick<ReactFiberNode, 'tag'>;
 
 /**
  * Identify the type of a React component from its Fiber node
  * @param fiber - The Fiber node to identify
  * @returns The component type
  */
-export function identifyComponentType(fiber: ReactFiberNode): ComponentType {
-  const tag = fiber.tag;
-
-  // Fiber tags reference:
-  // https://github.com/facebook/react/blob/main/packages/react-reconciler/src/ReactWorkTags.js
-  switch (tag) {
-    case 0:
+export function identifyComponentType(fiber: TaggedNode): ComponentType {
+  // Canonical tags, whichever React version the fiber comes from (see work-tags)
+  switch (getWorkTag(fiber)) {
+    case WorkTag.FunctionComponent:
+    case WorkTag.IndeterminateComponent:
+    case WorkTag.IncompleteFunctionComponent:
       return 'function';
-    case 1:
+    case WorkTag.ClassComponent:
+    case WorkTag.IncompleteClassComponent:
       return 'class';
-    case 5:
+    case WorkTag.HostComponent:
       return 'html';
-    case 7:
+    case WorkTag.HostHoistable:
+      return 'html.hoistable';
+    case WorkTag.HostSingleton:
+      return 'html.singleton';
+    case WorkTag.HostText:
+      return 'text';
+    case WorkTag.HostRoot:
+      return 'root';
+    case WorkTag.HostPortal:
+      return 'portal';
+    case WorkTag.Fragment:
       return 'fragment';
-    case 9:
+    case WorkTag.Mode:
+      return 'mode';
+    case WorkTag.ContextConsumer:
       return 'context.consumer';
-    case 10:
+    case WorkTag.ContextProvider:
       return 'context.provider';
-    case 11:
-      // ForwardRef
+    case WorkTag.ForwardRef:
       return 'forwardRef';
-    case 14:
-    case 15:
-      // MemoComponent
+    case WorkTag.Profiler:
+      return 'profiler';
+    case WorkTag.SuspenseComponent:
+      return 'suspense';
+    case WorkTag.SuspenseListComponent:
+      return 'suspense.list';
+    case WorkTag.MemoComponent:
+    case WorkTag.SimpleMemoComponent:
       return 'memo';
+    case WorkTag.LazyComponent:
+      return 'lazy';
+    case WorkTag.OffscreenComponent:
+    case WorkTag.ActivityComponent:
+      return 'activity';
+    case WorkTag.Throw:
+      return 'throw';
     default:
-      // Default to function component for unknown types
-      return 'function';
+      // Internal tags (Scope, Cache, TracingMarker, ...) and unknown ones
+      return 'other';
   }
 }
 
@@ -45,8 +74,8 @@ export function identifyComponentType(fiber: ReactFiberNode): ComponentType {
  * @param fiber - The Fiber node
  * @returns True if the component is a function component
  */
-export function isFunctionComponent(fiber: ReactFiberNode): boolean {
-  return fiber.tag === 0;
+export function isFunctionComponent(fiber: TaggedNode): boolean {
+  return getWorkTag(fiber) === WorkTag.FunctionComponent;
 }
 
 /**
@@ -54,8 +83,8 @@ export function isFunctionComponent(fiber: ReactFiberNode): boolean {
  * @param fiber - The Fiber node
  * @returns True if the component is a class component
  */
-export function isClassComponent(fiber: ReactFiberNode): boolean {
-  return fiber.tag === 1;
+export function isClassComponent(fiber: TaggedNode): boolean {
+  return getWorkTag(fiber) === WorkTag.ClassComponent;
 }
 
 /**
@@ -63,8 +92,9 @@ export function isClassComponent(fiber: ReactFiberNode): boolean {
  * @param fiber - The Fiber node
  * @returns True if the component is memoized
  */
-export function isMemoComponent(fiber: ReactFiberNode): boolean {
-  return fiber.tag === 14 || fiber.tag === 15;
+export function isMemoComponent(fiber: TaggedNode): boolean {
+  const tag = getWorkTag(fiber);
+  return tag === WorkTag.MemoComponent || tag === WorkTag.SimpleMemoComponent;
 }
 
 /**
@@ -72,8 +102,8 @@ export function isMemoComponent(fiber: ReactFiberNode): boolean {
  * @param fiber - The Fiber node
  * @returns True if the component uses forwardRef
  */
-export function isForwardRefComponent(fiber: ReactFiberNode): boolean {
-  return fiber.tag === 11;
+export function isForwardRefComponent(fiber: TaggedNode): boolean {
+  return getWorkTag(fiber) === WorkTag.ForwardRef;
 }
 
 /**
@@ -81,8 +111,8 @@ export function isForwardRefComponent(fiber: ReactFiberNode): boolean {
  * @param fiber - The Fiber node
  * @returns True if the component is a context provider
  */
-export function isContextProvider(fiber: ReactFiberNode): boolean {
-  return fiber.tag === 10;
+export function isContextProvider(fiber: TaggedNode): boolean {
+  return getWorkTag(fiber) === WorkTag.ContextProvider;
 }
 
 /**
@@ -90,8 +120,8 @@ export function isContextProvider(fiber: ReactFiberNode): boolean {
  * @param fiber - The Fiber node
  * @returns True if the component is a context consumer
  */
-export function isContextConsumer(fiber: ReactFiberNode): boolean {
-  return fiber.tag === 9;
+export function isContextConsumer(fiber: TaggedNode): boolean {
+  return getWorkTag(fiber) === WorkTag.ContextConsumer;
 }
 
 /**
@@ -99,8 +129,8 @@ export function isContextConsumer(fiber: ReactFiberNode): boolean {
  * @param fiber - The Fiber node
  * @returns True if the component is a Fragment
  */
-export function isFragment(fiber: ReactFiberNode): boolean {
-  return fiber.tag === 7;
+export function isFragment(fiber: TaggedNode): boolean {
+  return getWorkTag(fiber) === WorkTag.Fragment;
 }
 
 /**
@@ -108,8 +138,8 @@ export function isFragment(fiber: ReactFiberNode): boolean {
  * @param fiber - The Fiber node
  * @returns True if the component is an HTML element
  */
-export function isHostComponent(fiber: ReactFiberNode): boolean {
-  return fiber.tag === 5;
+export function isHostComponent(fiber: TaggedNode): boolean {
+  return getWorkTag(fiber) === WorkTag.HostComponent;
 }
 
 /**
@@ -117,8 +147,21 @@ export function isHostComponent(fiber: ReactFiberNode): boolean {
  * @param fiber - The Fiber node
  * @returns True if the component is a text node
  */
-export function isTextNode(fiber: ReactFiberNode): boolean {
-  return fiber.tag === 6;
+export function isTextNode(fiber: TaggedNode): boolean {
+  return getWorkTag(fiber) === WorkTag.HostText;
+}
+
+/**
+ * Check if a component was loaded through React.lazy
+ * Resolved lazy fibers take their component's tag but keep the lazy element type.
+ * @param fiber - The Fiber node
+ * @returns True if the component is lazy
+ */
+export function isLazyComponent(fiber: ReactFiberNode): boolean {
+  return (
+    getWorkTag(fiber) === WorkTag.LazyComponent ||
+    fiber.elementType?.$$typeof === Symbol.for('react.lazy')
+  );
 }
 
 /**
@@ -191,47 +234,11 @@ export function getComponentTypeInfo(fiber: ReactFiberNode): {
     isHost: isHostComponent(fiber),
     isNative: isNativeElement(fiber),
     usesHooks: usesHooks(fiber),
-    tag: fiber.tag,
-    tagName: getFiberTagName(fiber.tag),
+    tag: getWorkTag(fiber),
+    tagName: getWorkTagName(getWorkTag(fiber)),
   };
 }
 
-/**
- * Get a human-readable name for a Fiber tag
- * @param tag - The Fiber tag number
- * @returns The tag name
- */
-function getFiberTagName(tag: number): string {
-  const tagNames: Record<number, string> = {
-    0: 'FunctionComponent',
-    1: 'ClassComponent',
-    2: 'IndeterminateComponent',
-    3: 'HostRoot',
-    4: 'HostPortal',
-    5: 'HostComponent',
-    6: 'HostText',
-    7: 'Fragment',
-    8: 'Mode',
-    9: 'ContextConsumer',
-    10: 'ContextProvider',
-    11: 'ForwardRef',
-    12: 'Profiler',
-    13: 'SuspenseComponent',
-    14: 'MemoComponent',
-    15: 'SimpleMemoComponent',
-    16: 'LazyComponent',
-    17: 'IncompleteClassComponent',
-    18: 'DehydratedFragment',
-    19: 'SuspenseListComponent',
-    22: 'OffscreenComponent',
-    23: 'LegacyHiddenComponent',
-    24: 'CacheComponent',
-    25: 'TracingMarkerComponent',
-  };
-
-  return tagNames[tag] || `Unknown(${tag})`;
-}
-
 /**
  * Check if a Fiber represents a custom component (user-defined)
  * vs built-in React component or HTML element
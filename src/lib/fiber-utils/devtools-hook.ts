@@ -0,0 +1,338 @@
+/**
+ * DevTools Hook - Learn about React renderers and roots as React reports them
+ *
+ * Every React DOM build looks for `__REACT_DEVTOOLS_GLOBAL_HOOK__` when it
+ * loads, registers itself through `inject()` and reports every commit through
+ * `onCommitFiberRoot()`. The hook script (src/injected/hook.ts) installs a
+ * hook at `document_start`, before the page's scripts run: React DevTools'
+ * hook is wrapped when it is already there, otherwise a minimal hook stands
+ * in for it until React DevTools installs its own. Renderers and mounted roots are recorded in a registry on the
+ * page's window, so detection and root discovery need no DOM scan and see
+ * roots mounted at any time.
+ *
+ * This module has no runtime imports: the hook script runs as a classic
+ * script in the page's main world.
+ */
+
+import type { ReactFiberNode } from '@/types';
+
+/**
+ * Window property holding the registry (shared by the hook script and the page agent)
+ */
+export const HOOK_REGISTRY_KEY = '__REACT_COMPONENT_CLONER_HOOK__';
+
+/**
+ * A React renderer's FiberRoot (the object behind `HostRoot.stateNode`)
+ */
+export interface FiberRootNode {
+  current: ReactFiberNode | null;
+  containerInfo?: unknown;
+}
+
+/**
+ * The part of `__REACT_DEVTOOLS_GLOBAL_HOOK__` React calls (React DevTools' hook has more)
+ */
+export interface DevToolsHook {
+  renderers?: Map<number, unknown>;
+  inject(renderer: unknown): number;
+  onCommitFiberRoot(id: number, root: FiberRootNode, ...rest: unknown[]): unknown;
+  getFiberRoots?(id: number): Set<FiberRootNode>;
+  [method: string]: unknown;
+}
+
+/**
+ * Renderers and mounted roots reported through the DevTools hook
+ */
+export interface HookRegistry {
+  /** Renderers by renderer id (their injected internals, with `version`) */
+  renderers: Map<number, unknown>;
+  /** Mounted roots by renderer id */
+  roots: Map<number, Set<FiberRootNode>>;
+  /** Called when a renderer registers or a root mounts or unmounts */
+  listeners: Set<() => void>;
+  /** Called after every commit, with the committed root */
+  commitListeners: Set<(root: FiberRootNode) => void>;
+  /** Whether the hook is React DevTools' own (wrapped) or a stand-in */
+  wrapped: boolean;
+  /** Hand the stand-in over to a DevTools hook installed after it (null once handed over) */
+  adopt: ((hook: DevToolsHook) => void) | null;
+}
+
+/**
+ * Window property React and React DevTools share the hook through
+ */
+const DEVTOOLS_HOOK_KEY = '__REACT_DEVTOOLS_GLOBAL_HOOK__';
+
+/**
+ * Hook methods React calls with a renderer id, forwarded by the stand-in
+ */
+const FORWARDED_METHODS = ['onCommitFiberRoot', 'onCommitFiberUnmount', 'onPostCommitFiberRoot', 'onScheduleFiberRoot'];
+
+/**
+ * Install the hook on a window, once
+ * @param target - Window to install on (default: this one)
+ * @returns The registry
+ */
+export function installDevToolsHook(target: Window = window): HookRegistry {
+  const existing = getWindowProperty<HookRegistry>(target, HOOK_REGISTRY_KEY);
+  if (existing) return existing;
+
+  const devToolsHook = getWindowProperty<DevToolsHook>(target, DEVTOOLS_HOOK_KEY);
+  const registry: HookRegistry = {
+    renderers: new Map(),
+    roots: new Map(),
+    listeners: new Set(),
+    commitListeners: new Set(),
+    wrapped: !!devToolsHook,
+    adopt: null,
+  };
+  Object.defineProperty(target, HOOK_REGISTRY_KEY, { value: registry });
+
+  if (devToolsHook) {
+    wrapHook(registry, devToolsHook);
+  } else {
+    installStandInHook(target, registry);
+  }
+
+  return registry;
+}
+
+/**
+ * Get the registry of a window
+ * A DevTools hook defined over the stand-in since the last call is adopted first.
+ * @param target - Window to read (default: this one)
+ * @returns The registry, or null if the hook script did not run there
+ */
+export function getHookRegistry(target: Window = window): HookRegistry | null {
+  const registry = getWindowProperty<HookRegistry>(target, HOOK_REGISTRY_KEY);
+  if (!registry) return null;
+
+  // React DevTools defines its hook on the window itself, hiding the stand-in's accessor
+  if (registry.adopt && Object.prototype.hasOwnProperty.call(target, DEVTOOLS_HOOK_KEY)) {
+    const hook = getWindowProperty<DevToolsHook>(target, DEVTOOLS_HOOK_KEY);
+    if (hook) registry.adopt(hook);
+  }
+  return registry;
+}
+
+/**
+ * Get the host root fibers of every mounted root the hook recorded
+ * @returns Current `HostRoot` fibers, in mount order
+ */
+export function getHookRootFibers(): ReactFiberNode[] {
+  const registry = getHookRegistry();
+  if (!registry) return [];
+
+  const fibers: ReactFiberNode[] = [];
+  for (const roots of registry.roots.values()) {
+    for (const root of roots) {
+      if (root.current) fibers.push(root.current);
+    }
+  }
+  return fibers;
+}
+
+/**
+ * Check if a React renderer registered through the hook
+ * @returns True once React DOM (or another renderer) has loaded
+ */
+export function hasHookRenderer(): boolean {
+  return (getHookRegistry()?.renderers.size || 0) > 0;
+}
+
+/**
+ * Listen for renderers registering and roots mounting or unmounting
+ * @param listener - Called after each change
+ * @returns Function removing the listener
+ */
+export function subscribeToHook(listener: () => void): () => void {
+  const registry = getHookRegistry();
+  if (!registry) return () => {};
+
+  registry.listeners.add(listener);
+  return () => registry.listeners.delete(listener);
+}
+
+/**
+ * Listen for every commit of every root (see variant recording)
+ * @param listener - Called with the committed root, after React committed it
+ * @returns Function removing the listener, or null if the hook script did not run
+ */
+export function subscribeToCommits(listener: (root: FiberRootNode) => void): (() => void) | null {
+  const registry = getHookRegistry();
+  if (!registry) return null;
+
+  registry.commitListeners.add(listener);
+  return () => registry.commitListeners.delete(listener);
+}
+
+/**
+ * Record what a hook saw before us and wrap it to record what it sees from now on
+ */
+function wrapHook(registry: HookRegistry, hook: DevToolsHook): void {
+  // Renderers (and roots) the hook saw before we got here
+  if (hook.renderers instanceof Map) {
+    for (const [id, renderer] of hook.renderers) {
+      registry.renderers.set(id, renderer);
+      const roots = typeof hook.getFiberRoots === 'function' ? hook.getFiberRoots(id) : null;
+      if (roots?.size) registry.roots.set(id, new Set([...(registry.roots.get(id) || []), ...roots]));
+    }
+  }
+
+  const inject = hook.inject;
+  hook.inject = function (this: DevToolsHook, renderer: unknown) {
+    const id = inject.call(this, renderer);
+    registry.renderers.set(id, renderer);
+    notify(registry);
+    return id;
+  };
+
+  const onCommitFiberRoot = hook.onCommitFiberRoot;
+  hook.onCommitFiberRoot = function (this: DevToolsHook, id: number, root: FiberRootNode, ...rest: unknown[]) {
+    handleCommit(registry, id, root);
+    return onCommitFiberRoot.call(this, id, root, ...rest);
+  };
+}
+
+/**
+ * Record a commit and tell the commit listeners
+ */
+function handleCommit(registry: HookRegistry, id: number, root: FiberRootNode): void {
+  try {
+    recordCommit(registry, id, root);
+  } catch (error) {
+    console.warn('React Component Cloner: Failed to record commit', error);
+  }
+  for (const listener of registry.commitListeners) {
+    try {
+      listener(root);
+    } catch (error) {
+      console.warn('React Component Cloner: Commit listener failed', error);
+    }
+  }
+}
+
+/**
+ * Track a root through a commit: added once it renders something, removed
+ * once its content is gone (the same rule React DevTools applies)
+ */
+function recordCommit(registry: HookRegistry, id: number, root: FiberRootNode): void {
+  let roots = registry.roots.get(id);
+  if (!roots) {
+    roots = new Set();
+    registry.roots.set(id, roots);
+  }
+
+  const state = root.current?.memoizedState;
+  const isUnmounting = !state || state.element == null;
+  const isKnown = roots.has(root);
+
+  if (!isKnown && !isUnmounting) {
+    roots.add(root);
+    notify(registry);
+  } else if (isKnown && isUnmounting) {
+    roots.delete(root);
+    notify(registry);
+  }
+}
+
+/**
+ * Call the registry's listeners
+ */
+function notify(registry: HookRegistry): void {
+  for (const listener of registry.listeners) {
+    try {
+      listener();
+    } catch (error) {
+      console.warn('React Component Cloner: Hook listener failed', error);
+    }
+  }
+}
+
+/**
+ * Install the minimal hook React needs to register and report commits
+ * The stand-in is an accessor on the window's prototype, so React DevTools
+ * still installs its hook when it comes later (it backs off from a window
+ * that has the property itself), by definition or by assignment. The DevTools
+ * hook then gets the renderers and roots the stand-in recorded, and React,
+ * which keeps calling the hook it registered with, is forwarded to it.
+ */
+function installStandInHook(target: Window, registry: HookRegistry): void {
+  let nextRendererId = 1;
+  let replacement: DevToolsHook | null = null;
+  // Stand-in renderer ids → the replacement's
+  const rendererIds = new Map<number, number>();
+  const renderers = new Map<number, unknown>();
+
+  const standIn: DevToolsHook = {
+    renderers,
+    supportsFiber: true,
+    isDisabled: false,
+    inject(renderer: unknown): number {
+      const id = nextRendererId++;
+      renderers.set(id, renderer);
+      if (replacement) {
+        rendererIds.set(id, replacement.inject(renderer));
+      } else {
+        registry.renderers.set(id, renderer);
+        notify(registry);
+      }
+      return id;
+    },
+    onCommitFiberRoot(id: number, root: FiberRootNode) {
+      handleCommit(registry, id, root);
+    },
+    checkDCE() {},
+  };
+
+  // Once replaced, React's calls go to the replacement (which records them)
+  for (const method of FORWARDED_METHODS) {
+    const own = standIn[method] as ((id: number, ...args: unknown[]) => unknown) | undefined;
+    standIn[method] = (id: number, ...args: unknown[]) => {
+      if (!replacement) return own?.(id, ...args);
+      const forward = replacement[method];
+      return typeof forward === 'function' ? forward.call(replacement, rendererIds.get(id) ?? id, ...args) : undefined;
+    };
+  }
+
+  registry.adopt = (hook: DevToolsHook) => {
+    if (hook === standIn || replacement) return;
+    replacement = hook;
+    registry.adopt = null;
+    registry.wrapped = true;
+
+    // Register what React told the stand-in, under the replacement's renderer ids
+    const roots = new Map(registry.roots);
+    registry.renderers.clear();
+    registry.roots.clear();
+    for (const [id, renderer] of renderers) {
+      const newId = hook.inject(renderer);
+      rendererIds.set(id, newId);
+      const mounted = roots.get(id) || new Set<FiberRootNode>();
+      for (const root of mounted) {
+        hook.onCommitFiberRoot(newId, root);
+      }
+      if (mounted.size) registry.roots.set(newId, new Set(mounted));
+    }
+
+    wrapHook(registry, hook);
+    notify(registry);
+  };
+
+  let current: DevToolsHook = standIn;
+  Object.defineProperty(Object.getPrototypeOf(target), DEVTOOLS_HOOK_KEY, {
+    configurable: true,
+    get: () => current,
+    set(hook: DevToolsHook) {
+      registry.adopt?.(hook);
+      current = hook;
+    },
+  });
+}
+
+/**
+ * Read a property of the page's window (the registry, the DevTools hook)
+ */
+function getWindowProperty<T>(target: Window, key: string): T | undefined {
+  return (target as unknown as Record<string, T | undefined>)[key];
+}
@@ -1,8 +1,12 @@
 /**
  * Fiber Accessor - Utilities to access React Fiber nodes from DOM elements
+ * Preact trees are presented as fibers too (see preact-adapter).
  */
 
 import type { ReactFiberNode } from '@/types';
+import { WorkTag, getWorkTag, getWorkTagName, getBuiltInComponentName } from './work-tags';
+import { getPreactFiberFromElement, getPreactRootFiber } from './preact-adapter';
+import { getHookRegistry, getHookRootFibers, hasHookRenderer } from './devtools-hook';
 
 /**
  * React Fiber keys that might be present on DOM elements
@@ -25,6 +29,13 @@ export function getFiberFromElement(
 ): ReactFiberNode | null {
   if (!element) return null;
 
+  return getReactFiberFromElement(element) || getPreactFiberFromElement(element);
+}
+
+/**
+ * Get the React Fiber node React stored on a DOM element
+ */
+function getReactFiberFromElement(element: Element): ReactFiberNode | null {
   const keys = Object.keys(element);
 
   // Look for React Fiber key
@@ -52,7 +63,7 @@ export function getElementFromFiber(
   if (!fiber) return null;
 
   // For host components (HTML elements), stateNode is the DOM element
-  if (fiber.tag === 5 && fiber.stateNode instanceof HTMLElement) {
+  if (isInPlaceElementFiber(fiber)) {
     return fiber.stateNode;
   }
 
@@ -60,7 +71,7 @@ export function getElementFromFiber(
   // We need to find the nearest host component
   let node: ReactFiberNode | null = fiber;
   while (node) {
-    if (node.tag === 5 && node.stateNode instanceof HTMLElement) {
+    if (isInPlaceElementFiber(node)) {
       return node.stateNode;
     }
     node = node.child;
@@ -69,6 +80,46 @@ export function getElementFromFiber(
   return null;
 }
 
+/**
+ * Get the DOM elements a fiber renders through portals (modals, tooltips, ...)
+ * They live under the portal's container, away from the fiber's own element.
+ * @param fiber - The React Fiber node
+ * @returns The outermost host elements inside each portal of the subtree,
+ *   without the element getElementFromFiber returns
+ */
+export function getPortalElements(fiber: ReactFiberNode | null): HTMLElement[] {
+  if (!fiber) return [];
+
+  const ownElement = getElementFromFiber(fiber);
+  const elements: HTMLElement[] = [];
+
+  const visit = (node: ReactFiberNode, inPortal: boolean) => {
+    for (let child = node.child; child; child = child.sibling) {
+      if (inPortal && isInPlaceElementFiber(child)) {
+        if (child.stateNode !== ownElement) elements.push(child.stateNode);
+        visit(child, false);
+      } else {
+        visit(child, inPortal || getWorkTag(child) === WorkTag.HostPortal);
+      }
+    }
+  };
+
+  visit(fiber, false);
+  return elements;
+}
+
+/**
+ * Check if a fiber's element is where the fiber renders it
+ * (hoistables like `<title>` are moved into the document head)
+ */
+function isInPlaceElementFiber(fiber: ReactFiberNode): boolean {
+  const tag = getWorkTag(fiber);
+  return (
+    (tag === WorkTag.HostComponent || tag === WorkTag.HostSingleton) &&
+    fiber.stateNode instanceof HTMLElement
+  );
+}
+
 /**
  * Find the root Fiber node from any Fiber node
  * @param fiber - Any React Fiber node
@@ -113,15 +164,17 @@ export function getNearestComponentFiber(
  * @returns True if the fiber represents a component
  */
 export function isComponentFiber(fiber: ReactFiberNode): boolean {
-  // Fiber tags:
-  // 0: FunctionComponent
-  // 1: ClassComponent
-  // 2: IndeterminateComponent
-  // 11: MemoComponent
-  // 12: SimpleMemoComponent
-  // 15: ForwardRef
-  const componentTags = [0, 1, 2, 11, 12, 15];
-  return componentTags.includes(fiber.tag);
+  const componentTags: number[] = [
+    WorkTag.FunctionComponent,
+    WorkTag.ClassComponent,
+    WorkTag.IndeterminateComponent,
+    WorkTag.ForwardRef,
+    WorkTag.MemoComponent,
+    WorkTag.SimpleMemoComponent,
+    WorkTag.IncompleteClassComponent,
+    WorkTag.IncompleteFunctionComponent,
+  ];
+  return componentTags.includes(getWorkTag(fiber));
 }
 
 /**
@@ -129,9 +182,11 @@ export function isComponentFiber(fiber: ReactFiberNode): boolean {
  * @param fiber - The Fiber node to check
  * @returns True if the fiber represents a host element
  */
-export function isHostFiber(fiber: ReactFiberNode): boolean {
-  // Tag 5 is HostComponent (HTML elements like div, span, etc.)
-  return fiber.tag === 5;
+export function isHostFiber(fiber: Pick<ReactFiberNode, 'tag'>): boolean {
+  // HTML elements like div and span; React 19 adds hoisted <title>/<meta>/<link>
+  // and the <html>/<head>/<body> singletons
+  const tag = getWorkTag(fiber);
+  return tag === WorkTag.HostComponent || tag === WorkTag.HostHoistable || tag === WorkTag.HostSingleton;
 }
 
 /**
@@ -170,51 +225,27 @@ export function getComponentName(fiber: ReactFiberNode): string {
     }
   }
 
-  // Fallback to fiber tag name
-  return getFiberTagName(fiber.tag);
+  // Built-in components (Suspense, Profiler, ...), then the fiber tag name
+  const tag = getWorkTag(fiber);
+  return getBuiltInComponentName(tag) || getFiberTagName(tag);
 }
 
 /**
  * Get a human-readable name for a Fiber tag
- * @param tag - The Fiber tag number
+ * @param tag - The canonical Fiber tag number (see WorkTag)
  * @returns The tag name
  */
 export function getFiberTagName(tag: number): string {
-  const tagNames: Record<number, string> = {
-    0: 'FunctionComponent',
-    1: 'ClassComponent',
-    2: 'IndeterminateComponent',
-    3: 'HostRoot',
-    4: 'HostPortal',
-    5: 'HostComponent',
-    6: 'HostText',
-    7: 'Fragment',
-    8: 'Mode',
-    9: 'ContextConsumer',
-    10: 'ContextProvider',
-    11: 'ForwardRef',
-    12: 'Profiler',
-    13: 'SuspenseComponent',
-    14: 'MemoComponent',
-    15: 'SimpleMemoComponent',
-    16: 'LazyComponent',
-    17: 'IncompleteClassComponent',
-    18: 'DehydratedFragment',
-    19: 'SuspenseListComponent',
-    22: 'OffscreenComponent',
-    23: 'LegacyHiddenComponent',
-    24: 'CacheComponent',
-    25: 'TracingMarkerComponent',
-  };
-
-  return tagNames[tag] || `Unknown(${tag})`;
+  return getWorkTagName(tag);
 }
 
 /**
  * Check if React DevTools is available
- * @returns True if React DevTools hook is present
+ * @returns True if React DevTools hook is present (not our stand-in, see devtools-hook)
  */
 export function hasReactDevTools(): boolean {
+  const registry = getHookRegistry();
+  if (registry && !registry.wrapped) return false;
   return !!(window as any).__REACT_DEVTOOLS_GLOBAL_HOOK__;
 }
 
@@ -224,9 +255,10 @@ export function hasReactDevTools(): boolean {
  */
 export function getReactVersion(): string | null {
   try {
-    const hook = (window as any).__REACT_DEVTOOLS_GLOBAL_HOOK__;
+    const hook: { renderers?: Map<number, unknown> } | undefined =
+      getHookRegistry() || (window as unknown as Record<string, { renderers?: Map<number, unknown> }>).__REACT_DEVTOOLS_GLOBAL_HOOK__;
     if (hook && hook.renderers) {
-      const renderers = Array.from(hook.renderers.values()) as any[];
+      const renderers = Array.from(hook.renderers.values()) as Array<{ version?: string }>;
       if (renderers.length > 0 && renderers[0].version) {
         return renderers[0].version;
       }
@@ -239,16 +271,27 @@ export function getReactVersion(): string | null {
 
 /**
  * Find all Fiber nodes in the current page
+ * Roots React reported through the DevTools hook are used as they are; without
+ * a renderer there (Preact, or the hook script did not run) the DOM is
+ * scanned, apps mounted inside web components' (open) shadow roots included.
  * @returns Array of all root Fiber nodes found
  */
 export function findAllFiberRoots(): ReactFiberNode[] {
+  if (hasHookRenderer()) {
+    return getHookRootFibers();
+  }
+
   const roots: ReactFiberNode[] = [];
-  const allElements = document.querySelectorAll('*');
+  const allElements = querySelectorAllDeep(document, '*');
 
   const processedFibers = new Set<ReactFiberNode>();
 
-  for (const element of Array.from(allElements)) {
-    const fiber = getFiberFromElement(element as HTMLElement);
+  for (const element of allElements) {
+    // Preact roots sit on their containers; its elements need no lookup
+    const fiber =
+      getReactFiberFromElement(element) ||
+      getPreactRootFiber(element) ||
+      (element.shadowRoot ? getPreactRootFiber(element.shadowRoot) : null);
     if (fiber) {
       const root = findRootFiber(fiber);
       if (!processedFibers.has(root)) {
@@ -260,3 +303,40 @@ export function findAllFiberRoots(): ReactFiberNode[] {
 
   return roots;
 }
+
+/**
+ * Find all elements matching a selector, including inside open shadow roots
+ * @param root - Document or shadow root to search
+ * @param selector - CSS selector
+ * @returns Matching elements in document order, shadow trees after their host
+ */
+export function querySelectorAllDeep(root: Document | ShadowRoot, selector: string): Element[] {
+  const matches: Element[] = [];
+
+  const search = (scope: Document | ShadowRoot) => {
+    matches.push(...Array.from(scope.querySelectorAll(selector)));
+    for (const element of Array.from(scope.querySelectorAll('*'))) {
+      if (element.shadowRoot) search(element.shadowRoot);
+    }
+  };
+
+  search(root);
+  return matches;
+}
+
+/**
+ * Find the first element matching a selector, including inside open shadow roots
+ * @param root - Document or shadow root to search
+ * @param selector - CSS selector
+ * @returns The element or null
+ */
+export function querySelectorDeep(root: Document | ShadowRoot, selector: string): Element | null {
+  const match = root.querySelector(selector);
+  if (match) return match;
+
+  for (const element of Array.from(root.querySelectorAll('*'))) {
+    const nested = element.shadowRoot ? querySelectorDeep(element.shadowRoot, selector) : null;
+    if (nested) return nested;
+  }
+  return null;
+}
@@ -7,6 +7,7 @@
 export {
   getFiberFromElement,
   getElementFromFiber,
+  getPortalElements,
   findRootFiber,
   getNearestComponentFiber,
   isComponentFiber,
@@ -16,6 +17,8 @@ export {
   hasReactDevTools,
   getReactVersion,
   findAllFiberRoots,
+  querySelectorAllDeep,
+  querySelectorDeep,
 } from './fiber-accessor';
 
 // Fiber Traversal
@@ -36,6 +39,38 @@ export {
   findCommonAncestor,
 } from './fiber-traversal';
 
+// DevTools Hook
+export {
+  HOOK_REGISTRY_KEY,
+  installDevToolsHook,
+  getHookRegistry,
+  getHookRootFibers,
+  hasHookRenderer,
+  subscribeToHook,
+  subscribeToCommits,
+  type HookRegistry,
+  type FiberRootNode,
+} from './devtools-hook';
+
+// Work Tags
+export {
+  WorkTag,
+  UNKNOWN_WORK_TAG,
+  getWorkTag,
+  getWorkTagTable,
+  normalizeWorkTag,
+  getWorkTagName,
+  getBuiltInComponentName,
+  type WorkTagName,
+} from './work-tags';
+
+// Preact Adapter
+export {
+  isPreactFiber,
+  getPreactFiberFromElement,
+  getPreactRootFiber,
+} from './preact-adapter';
+
 // Component Identifier
 export {
   identifyComponentType,
@@ -48,6 +83,7 @@ export {
   isFragment,
   isHostComponent,
   isTextNode,
+  isLazyComponent,
   usesHooks,
   getUnwrappedType,
   isNativeElement,
@@ -65,8 +101,8 @@ export {
   extractRef,
   extractKey,
   extractSourceLocation,
+  extractRenderSource,
   extractOwner,
-  buildComponentInfo,
   extractAllMetadata,
   hasProps,
   hasChildren,
@@ -85,3 +121,29 @@ export {
   usesHookType,
   extractStateInitialValues,
 } from './hooks-extractor';
+
+// Styled Extractor
+export { extractStyledSource } from './styled-extractor';
+
+// Variants
+export {
+  MAX_VARIANTS,
+  getVariantKey,
+  addVariant,
+  isPlaceholderValue,
+} from './variants';
+
+// Snapshots
+export {
+  captureSnapshot,
+  traverseSnapshot,
+  findAllSnapshots,
+  getSnapshotNodeId,
+  getPortalNodeIds,
+  getStyledSnapshot,
+  buildComponentInfo,
+  toStoredComponentInfo,
+  captureInstanceProps,
+  type CaptureOptions,
+  type ElementResolver,
+} from './snapshot';
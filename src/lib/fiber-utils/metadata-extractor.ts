@@ -2,11 +2,15 @@
  * Metadata Extractor - Extract component metadata from Fiber nodes
  */
 
-import type { ReactFiberNode, ComponentInfo } from '@/types';
-import { getComponentName, getElementFromFiber } from './fiber-accessor';
-import { identifyComponentType } from './component-identifier';
-import { getChildrenFibers } from './fiber-traversal';
-import { extractStyles } from '@lib/style-extractor';
+import type { ReactFiberNode, RenderSource } from '@/types';
+import { getComponentName } from './fiber-accessor';
+import { identifyComponentType, getUnwrappedType, isClassComponent } from './component-identifier';
+import { getWorkTag } from './work-tags';
+
+/**
+ * Longest render source worth capturing (larger functions are bundler output)
+ */
+const MAX_RENDER_SOURCE_LENGTH = 100_000;
 
 /**
  * Extract props from a Fiber node
@@ -109,7 +113,7 @@ export function extractChildrenFromProps(fiber: ReactFiberNode): any[] {
  */
 export function extractState(fiber: ReactFiberNode): Record<string, any> | null {
   // Class components have state in stateNode.state
-  if (fiber.tag === 1 && fiber.stateNode && fiber.stateNode.state) {
+  if (isClassComponent(fiber) && fiber.stateNode && fiber.stateNode.state) {
     return sanitizeValue(fiber.stateNode.state);
   }
 
@@ -188,61 +192,44 @@ export function extractSourceLocation(fiber: ReactFiberNode): {
 }
 
 /**
- * Extract owner component (parent that created this component)
+ * Extract the source of a component's render logic
  * @param fiber - The Fiber node
- * @returns Owner component name or null
+ * @returns Function component source or class render method, or null
  */
-export function extractOwner(fiber: ReactFiberNode): string | null {
-  if (fiber._debugOwner) {
-    return getComponentName(fiber._debugOwner);
+export function extractRenderSource(fiber: ReactFiberNode): RenderSource | null {
+  let type = getUnwrappedType(fiber);
+  // memo(forwardRef(...))
+  if (type && typeof type === 'object' && typeof type.render === 'function') {
+    type = type.render;
+  }
+  if (typeof type !== 'function') return null;
+
+  // Preact classes only have isReactComponent under preact/compat
+  const isClass = !!type.prototype?.isReactComponent || typeof type.prototype?.render === 'function';
+  const render = isClass ? type.prototype.render : type;
+  if (typeof render !== 'function') return null;
+
+  try {
+    const code = Function.prototype.toString.call(render);
+    if (code.includes('[native code]') || code.length > MAX_RENDER_SOURCE_LENGTH) {
+      return null;
+    }
+    return { kind: isClass ? 'class' : 'function', code };
+  } catch {
+    return null;
   }
-  return null;
 }
 
 /**
- * Build complete component information from a Fiber node
+ * Extract owner component (parent that created this component)
  * @param fiber - The Fiber node
- * @param includeChildren - Whether to recursively extract children
- * @param maxDepth - Maximum depth for child extraction
- * @returns ComponentInfo object
+ * @returns Owner component name or null
  */
-export function buildComponentInfo(
-  fiber: ReactFiberNode,
-  includeChildren: boolean = true,
-  maxDepth: number = 3,
-  currentDepth: number = 0
-): ComponentInfo {
-  const componentType = identifyComponentType(fiber);
-  const props = extractProps(fiber);
-  const domNode = getElementFromFiber(fiber);
-
-  // Extract styles if DOM element exists
-  const styles = domNode ? extractStyles(domNode) : {
-    inline: {},
-    computed: {},
-    classes: [],
-    strategy: 'inline' as const,
-  };
-
-  const info: ComponentInfo = {
-    name: getComponentName(fiber),
-    type: componentType,
-    props,
-    children: [],
-    domNode,
-    fiberNode: fiber,
-    styles,
-  };
-
-  // Extract children if requested and within depth limit
-  if (includeChildren && currentDepth < maxDepth) {
-    const childFibers = getChildrenFibers(fiber, true);
-    info.children = childFibers.map((childFiber) =>
-      buildComponentInfo(childFiber, true, maxDepth, currentDepth + 1)
-    );
+export function extractOwner(fiber: ReactFiberNode): string | null {
+  if (fiber._debugOwner) {
+    return getComponentName(fiber._debugOwner);
   }
-
-  return info;
+  return null;
 }
 
 /**
@@ -272,7 +259,7 @@ export function extractAllMetadata(fiber: ReactFiberNode): {
     key: extractKey(fiber),
     source: extractSourceLocation(fiber),
     owner: extractOwner(fiber),
-    tag: fiber.tag,
+    tag: getWorkTag(fiber),
   };
 }
 
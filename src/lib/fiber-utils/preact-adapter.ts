@@ -0,0 +1,372 @@
+/**
+ * Preact Adapter - Present Preact vnodes as Fiber nodes
+ *
+ * Preact (and `preact/compat`) keeps no fibers on DOM elements. The render
+ * container holds the root vnode (`_children`), and vnodes link to their
+ * children (`_children`), parent (`_parent`), DOM node (`_dom`) and component
+ * instance (`_component`), whose hooks live in `__hooks`. Production builds
+ * mangle these to `__k`, `__`, `__e`, `__c` and `__H`; both spellings are read.
+ *
+ * Each vnode is wrapped in a read-only object with the ReactFiberNode shape and
+ * canonical work tags, so traversal, snapshots, hooks and generation need no
+ * Preact-specific code. Wrappers read the vnode lazily: components re-render
+ * into new vnodes, so a component's wrapper follows its instance (`_vnode`).
+ */
+
+import type { ReactFiberNode } from '@/types';
+import { WorkTag } from './work-tags';
+
+/**
+ * A Preact 10 vnode (only the fields read here)
+ */
+interface VNode {
+  /** Tag name, component, Fragment, or null for text */
+  type: unknown;
+  /** Props, or the text of a text vnode */
+  props: unknown;
+  key: unknown;
+  ref: unknown;
+  __source?: { fileName: string; lineNumber: number; columnNumber: number };
+  [field: string]: unknown;
+}
+
+/**
+ * What the adapter reads of a component (compat wrappers included)
+ */
+interface ComponentType {
+  displayName?: string;
+  $$typeof?: symbol;
+  prototype?: { render?: unknown };
+}
+
+/**
+ * The fields of a React hook extractHooks reads
+ */
+interface ReactHookFields {
+  memoizedState: unknown;
+  baseState: unknown;
+  baseQueue: unknown;
+  queue: unknown;
+}
+
+/**
+ * Mangled and readable names of the Preact internals read here
+ */
+const FIELDS = {
+  children: ['__k', '_children'],
+  parent: ['__', '_parent'],
+  dom: ['__e', '_dom'],
+  component: ['__c', '_component'],
+  vnode: ['__v', '_vnode'],
+  hooks: ['__H', '__hooks'],
+  hookList: ['__', '_list'],
+  hookValue: ['__', '_value'],
+  hookArgs: ['__H', '_args'],
+  hookFactory: ['__h', '_factory'],
+  hookContext: ['c', '_context'],
+  globalContext: ['__n', '_globalContext'],
+  contextId: ['__c', '_id'],
+  contextDefault: ['__', '_defaultValue'],
+} as const;
+
+/**
+ * Wrappers by component instance (stable across renders) or vnode
+ */
+const wrappers = new WeakMap<object, ReactFiberNode>();
+
+/**
+ * All wrappers, to tell them apart from React fibers
+ */
+const preactFibers = new WeakSet<object>();
+
+/**
+ * Render containers by root vnode
+ */
+const containers = new WeakMap<VNode, Element | ShadowRoot>();
+
+/**
+ * Preact's Fragment, learned from root vnodes (it is not reachable otherwise)
+ */
+let fragmentType: unknown = null;
+
+/**
+ * Check if a value is a Preact vnode
+ */
+function isVNode(value: unknown): value is VNode {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    'type' in value &&
+    'props' in value &&
+    FIELDS.children.some((field) => field in value)
+  );
+}
+
+/**
+ * Read an internal field by its mangled or readable name
+ */
+function read(target: unknown, field: keyof typeof FIELDS): unknown {
+  if (!target) return undefined;
+  for (const name of FIELDS[field]) {
+    const value = (target as Record<string, unknown>)[name];
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Check if a node is a Preact vnode presented as a fiber
+ * @param node - Any fiber-like node
+ * @returns True for wrappers made by this adapter
+ */
+export function isPreactFiber(node: object): boolean {
+  return preactFibers.has(node);
+}
+
+/**
+ * Get the root vnode Preact rendered into a container element
+ * @param element - Any DOM element or shadow root
+ * @returns The root as a fiber (tag HostRoot), or null if the element is no container
+ */
+export function getPreactRootFiber(element: Element | ShadowRoot): ReactFiberNode | null {
+  const root = getContainerRoot(element);
+  return root ? toPreactFiber(root) : null;
+}
+
+/**
+ * Get the vnode that rendered a DOM element
+ * The nearest render container is searched for the vnode owning the element
+ * (or its closest rendered ancestor), since elements keep no back-reference.
+ * @param element - The DOM element
+ * @returns The host vnode as a fiber, or null outside Preact trees
+ */
+export function getPreactFiberFromElement(element: Element): ReactFiberNode | null {
+  // Some builds keep the vnode on the element
+  const own = read(element, 'vnode');
+  if (isVNode(own) && read(own, 'dom') === element) {
+    return toPreactFiber(own);
+  }
+
+  for (let container: Element | ShadowRoot | null = element; container; container = getParentScope(container)) {
+    const root = getContainerRoot(container);
+    if (!root) continue;
+
+    const vnodes = indexHostVNodes(root);
+    for (let node: Element | null = element; node && node !== container; node = node.parentElement) {
+      const vnode = vnodes.get(node);
+      if (vnode) return toPreactFiber(vnode);
+    }
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Get the parent element of a node, stepping from shadow roots to their hosts
+ * (web components can be render containers themselves)
+ */
+function getParentScope(node: Element | ShadowRoot): Element | ShadowRoot | null {
+  if (node instanceof ShadowRoot) return node.host;
+  if (node.parentElement) return node.parentElement;
+  return node.parentNode instanceof ShadowRoot ? node.parentNode : null;
+}
+
+/**
+ * Get the root vnode of a render container
+ * render() wraps the tree in a Fragment, which is how Fragment is learned.
+ */
+function getContainerRoot(element: Element | ShadowRoot): VNode | null {
+  const root = read(element, 'children');
+  if (!isVNode(root) || read(root, 'parent')) return null;
+
+  containers.set(root, element);
+  fragmentType = root.type;
+  return root;
+}
+
+/**
+ * Map the DOM nodes of a vnode tree to their host vnodes
+ */
+function indexHostVNodes(root: VNode): Map<Node, VNode> {
+  const vnodes = new Map<Node, VNode>();
+
+  const visit = (vnode: VNode) => {
+    if (typeof vnode.type === 'string') {
+      const dom = read(vnode, 'dom');
+      if (dom) vnodes.set(dom as Node, vnode);
+    }
+    for (const child of getChildVNodes(vnode)) {
+      visit(child);
+    }
+  };
+
+  visit(root);
+  return vnodes;
+}
+
+/**
+ * Get the rendered children of a vnode (holes left by `null` and `false` skipped)
+ */
+function getChildVNodes(vnode: VNode): VNode[] {
+  const children = read(vnode, 'children');
+  return Array.isArray(children) ? children.filter(isVNode) : [];
+}
+
+/**
+ * Wrap a vnode as a fiber (one wrapper per component instance or vnode)
+ * @param vnode - A Preact vnode
+ * @returns Fiber-shaped view of the vnode
+ */
+function toPreactFiber(vnode: VNode): ReactFiberNode {
+  const component = read(vnode, 'component');
+  const identity = component && typeof component === 'object' ? component : vnode;
+
+  const existing = wrappers.get(identity);
+  if (existing) return existing;
+
+  // Components render into a new vnode each time; follow the instance
+  const current = (): VNode => {
+    const latest = component ? read(component, 'vnode') : null;
+    return isVNode(latest) ? latest : vnode;
+  };
+  const parent = (): VNode | null => {
+    const value = read(current(), 'parent');
+    return isVNode(value) ? value : null;
+  };
+
+  const fiber = {
+    get tag() { return getPreactWorkTag(current()); },
+    get key() { return current().key ?? null; },
+    get type() { return current().type; },
+    get elementType() { return current().type; },
+    get stateNode() {
+      const latest = current();
+      if (!parent()) return containers.get(latest) || null;
+      return typeof latest.type === 'function' ? read(latest, 'component') : read(latest, 'dom');
+    },
+    get return() {
+      const value = parent();
+      return value ? toPreactFiber(value) : null;
+    },
+    get child() {
+      const [first] = getChildVNodes(current());
+      return first ? toPreactFiber(first) : null;
+    },
+    get sibling() {
+      const value = parent();
+      if (!value) return null;
+      const siblings = getChildVNodes(value);
+      const index = siblings.indexOf(current());
+      const next = index === -1 ? null : siblings[index + 1];
+      return next ? toPreactFiber(next) : null;
+    },
+    get index() {
+      const value = parent();
+      return value ? Math.max(0, getChildVNodes(value).indexOf(current())) : 0;
+    },
+    get ref() { return current().ref ?? null; },
+    get pendingProps() { return getPreactProps(current()); },
+    get memoizedProps() { return getPreactProps(current()); },
+    get memoizedState() { return getPreactState(current()); },
+    get _debugSource() { return current().__source; },
+    dependencies: null,
+    mode: 0,
+    flags: 0,
+    alternate: null,
+  } as ReactFiberNode;
+
+  wrappers.set(identity, fiber);
+  preactFibers.add(fiber);
+  return fiber;
+}
+
+/**
+ * Get the canonical work tag of a vnode
+ */
+function getPreactWorkTag(vnode: VNode): number {
+  if (!read(vnode, 'parent')) return WorkTag.HostRoot;
+  if (vnode.type === null || vnode.type === undefined) return WorkTag.HostText;
+  if (typeof vnode.type === 'string') return WorkTag.HostComponent;
+  if (vnode.type === fragmentType) return WorkTag.Fragment;
+
+  const type = vnode.type as ComponentType;
+
+  // preact/compat marks its wrappers through their display names
+  const displayName: string = type.displayName || '';
+  if (displayName.startsWith('Memo(')) return WorkTag.MemoComponent;
+  if (displayName.startsWith('ForwardRef(') || type.$$typeof === Symbol.for('react.forward_ref')) {
+    return WorkTag.ForwardRef;
+  }
+
+  return typeof type.prototype?.render === 'function' ? WorkTag.ClassComponent : WorkTag.FunctionComponent;
+}
+
+/**
+ * Get the props of a vnode the way React has them
+ * Text vnodes carry their text as props; Preact accepts `class` for `className`.
+ */
+function getPreactProps(vnode: VNode): unknown {
+  const props = vnode.props;
+  if (typeof vnode.type !== 'string' || !props || typeof props !== 'object') return props;
+
+  const { class: className, ...rest } = props as Record<string, unknown>;
+  if (className === undefined || rest.className !== undefined) return props;
+  return { ...rest, className };
+}
+
+/**
+ * Get a component's state the way React's fibers hold it: class state, or
+ * the hooks as a linked list of React-shaped hooks (see extractHooks)
+ */
+function getPreactState(vnode: VNode): unknown {
+  const component = read(vnode, 'component');
+  if (!component || typeof vnode.type !== 'function') return null;
+
+  if (typeof (vnode.type as ComponentType).prototype?.render === 'function') {
+    return (component as { state?: unknown }).state ?? null;
+  }
+
+  const list = read(read(component, 'hooks'), 'hookList');
+  if (!Array.isArray(list)) return null;
+
+  let head: (ReactHookFields & { next: unknown }) | null = null;
+  for (let index = list.length - 1; index >= 0; index--) {
+    head = { ...toReactHook(list[index], component), next: head };
+  }
+  return head;
+}
+
+/**
+ * Convert a Preact hook state to the fields React's hooks have
+ * useState/useReducer keep `[value, dispatch]`, useMemo/useRef/useCallback a
+ * factory, effects their callback and arguments, useContext its context.
+ */
+function toReactHook(hook: unknown, component: unknown): ReactHookFields {
+  const value = read(hook, 'hookValue');
+  const args = read(hook, 'hookArgs');
+  const base = { baseState: null, baseQueue: null, queue: null };
+
+  const context = read(hook, 'hookContext');
+  if (context && typeof context === 'object') {
+    const providers = read(component, 'globalContext') as Record<string, { props: { value: unknown } }> | undefined;
+    const provider = providers?.[String(read(context, 'contextId'))];
+    return { ...base, memoizedState: provider ? provider.props.value : read(context, 'contextDefault') };
+  }
+
+  if (Array.isArray(value) && typeof value[1] === 'function') {
+    return { ...base, memoizedState: value[0], queue: { dispatch: value[1] } };
+  }
+
+  if (typeof read(hook, 'hookFactory') === 'function') {
+    return { ...base, memoizedState: value };
+  }
+
+  if (typeof value === 'function') {
+    const { _cleanup, __c } = hook as Record<string, unknown>;
+    const cleanup = _cleanup ?? (typeof __c === 'function' ? __c : undefined);
+    return { ...base, memoizedState: { create: value, destroy: cleanup, deps: args ?? null } };
+  }
+
+  return { ...base, memoizedState: value };
+}
@@ -0,0 +1,544 @@
+/**
+ * Snapshot - Capture live Fiber trees as plain-JSON FiberSnapshot trees
+ *
+ * Capturing runs where the live fibers are (the page agent). Everything
+ * downstream - component info, code generation, history - works on snapshots.
+ */
+
+import type { ReactFiberNode, FiberSnapshot, ComponentInfo, PropValueDetail } from '@/types';
+import { getComponentName, isHostFiber, findAllFiberRoots } from './fiber-accessor';
+import { findAllFibers } from './fiber-traversal';
+import { identifyComponentType, isClassComponent, isLazyComponent } from './component-identifier';
+import { WorkTag, getWorkTag, getWorkTagName } from './work-tags';
+import { extractHooks } from './hooks-extractor';
+import { extractSourceLocation, extractRenderSource } from './metadata-extractor';
+import { extractStyledSource } from './styled-extractor';
+import {
+  extractStyles,
+  extractNodeStyles,
+  analyzeTailwindClasses,
+  analyzeCSSModules,
+} from '@lib/style-extractor';
+
+export interface CaptureOptions {
+  /** Maximum subtree depth to capture (default: unlimited) */
+  maxDepth?: number;
+  /** Get (or assign) an id for a fiber */
+  getFiberId?: (fiber: ReactFiberNode) => string;
+  /** Get (or assign) an id for a host DOM element */
+  getNodeId?: (element: Element) => string | null;
+}
+
+/**
+ * Resolves a snapshot node id to a live DOM element
+ */
+export type ElementResolver = (nodeId: string) => HTMLElement | null;
+
+/**
+ * Maximum nesting depth for captured values
+ */
+const MAX_VALUE_DEPTH = 6;
+
+/**
+ * Longest function source kept for signature inference
+ */
+const MAX_FUNCTION_SOURCE_LENGTH = 5000;
+
+/**
+ * Most entries kept of a Map or Set prop
+ */
+const MAX_COLLECTION_ENTRIES = 20;
+
+/**
+ * Most instances whose props are collected for one component
+ */
+const MAX_INSTANCES = 100;
+
+/**
+ * What capture reads of a React element
+ */
+interface ElementLike {
+  $$typeof?: symbol;
+  /** Tag name, Fragment symbol or component */
+  type?: string | symbol | ComponentTypeLike | null;
+  key?: string | null;
+  props?: Record<string, unknown> | null;
+}
+
+/**
+ * What capture reads of a component (function, class, or `memo` wrapper)
+ */
+interface ComponentTypeLike {
+  displayName?: string;
+  name?: string;
+  prototype?: { isReactComponent?: unknown };
+  type?: ComponentTypeLike;
+}
+
+/**
+ * Capture a Fiber node and its subtree as a snapshot
+ * @param fiber - The live Fiber node
+ * @param options - Capture options
+ * @returns FiberSnapshot tree
+ */
+export function captureSnapshot(
+  fiber: ReactFiberNode,
+  options: CaptureOptions = {},
+  currentDepth: number = 0
+): FiberSnapshot {
+  const { maxDepth = Infinity, getFiberId, getNodeId } = options;
+  const children: FiberSnapshot[] = [];
+
+  if (currentDepth < maxDepth) {
+    let child = fiber.child;
+    while (child) {
+      children.push(captureSnapshot(child, options, currentDepth + 1));
+      child = child.sibling;
+    }
+  }
+
+  const tag = getWorkTag(fiber);
+  const isHost = isHostFiber(fiber);
+  // Hoisted elements (<title>, <meta>) live in the document head, not in place
+  const isInPlaceElement = isHost && tag !== WorkTag.HostHoistable && fiber.stateNode instanceof Element;
+  const styled = isHost || tag === WorkTag.HostText ? null : extractStyledSource(fiber);
+  // Only the captured component is decompiled; its children stay references
+  const renderSource = currentDepth === 0 && !isHost ? extractRenderSource(fiber) : null;
+  // ...and only its props are described for type inference; elements in
+  // props are kept throughout, for the generated JSX to render them
+  const propDetails: Record<string, PropValueDetail> | undefined = isHost ? undefined : {};
+  const fallback = tag === WorkTag.SuspenseComponent ? captureElement(fiber.memoizedProps?.fallback) : null;
+  const portalContainer = tag === WorkTag.HostPortal ? describePortalContainer(fiber) : null;
+
+  return {
+    id: getFiberId ? getFiberId(fiber) : '',
+    tag,
+    name: getComponentName(fiber),
+    key: fiber.key,
+    props: captureProps(fiber, propDetails && { details: propDetails, elementsOnly: currentDepth > 0 }),
+    text: typeof fiber.memoizedProps === 'string' ? fiber.memoizedProps : null,
+    hooks: extractHooks(fiber),
+    state:
+      isClassComponent(fiber) && fiber.stateNode?.state
+        ? (toSerializable(fiber.stateNode.state) as Record<string, unknown>)
+        : null,
+    nodeId: isInPlaceElement && getNodeId ? getNodeId(fiber.stateNode) : null,
+    source: extractSourceLocation(fiber),
+    ...(styled && { styled }),
+    ...(renderSource && { renderSource }),
+    ...(propDetails && Object.keys(propDetails).length > 0 && { propDetails }),
+    ...(isLazyComponent(fiber) && { lazy: true }),
+    ...(fallback && { fallback }),
+    ...(portalContainer && { portalContainer }),
+    children,
+  };
+}
+
+/**
+ * Capture a React element that has not rendered (a Suspense fallback) as a snapshot
+ * Elements carry no fibers, so there are no hooks, ids or node ids.
+ */
+function captureElement(element: unknown, depth: number = 0): FiberSnapshot | null {
+  if (element === null || element === undefined || typeof element === 'boolean') return null;
+  if (depth >= MAX_VALUE_DEPTH) return null;
+
+  const base = { id: '', key: null, props: {}, text: null, hooks: [], state: null, nodeId: null, source: null };
+  const captureChildren = (children: unknown): FiberSnapshot[] =>
+    (Array.isArray(children) ? children : [children])
+      .map((child) => captureElement(child, depth + 1))
+      .filter((child): child is FiberSnapshot => child !== null);
+
+  if (typeof element === 'string' || typeof element === 'number') {
+    const tag = WorkTag.HostText;
+    return { ...base, tag, name: getWorkTagName(tag), text: String(element), children: [] };
+  }
+
+  if (Array.isArray(element)) {
+    return { ...base, tag: WorkTag.Fragment, name: 'Fragment', children: captureChildren(element) };
+  }
+
+  const { $$typeof, type, key, props: elementProps } = (element || {}) as ElementLike;
+  if (!$$typeof || !elementProps) return null;
+
+  const { children, ...props } = elementProps;
+  const component = typeof type === 'string' || typeof type === 'symbol' ? null : type;
+  const tag =
+    typeof type === 'string'
+      ? WorkTag.HostComponent
+      : type === Symbol.for('react.fragment')
+        ? WorkTag.Fragment
+        : component?.prototype?.isReactComponent
+          ? WorkTag.ClassComponent
+          : WorkTag.FunctionComponent;
+  const name =
+    typeof type === 'string'
+      ? type
+      : tag === WorkTag.Fragment
+        ? 'Fragment'
+        : component?.displayName || component?.name || component?.type?.displayName || component?.type?.name || 'Anonymous';
+
+  return {
+    ...base,
+    tag,
+    name,
+    key: key ?? null,
+    props: toSerializable(props) as Record<string, unknown>,
+    children: captureChildren(children),
+  };
+}
+
+/**
+ * Describe the container a portal renders into as a selector
+ * A HostPortal's stateNode holds the container (`containerInfo`).
+ */
+function describePortalContainer(fiber: ReactFiberNode): string | null {
+  const container = fiber.stateNode?.containerInfo;
+  if (!(container instanceof Element)) return null;
+
+  let selector = container.tagName.toLowerCase();
+  if (container === document.body) {
+    selector = 'body';
+  } else if (container.id) {
+    selector = `#${CSS.escape(container.id)}`;
+  } else if (container.classList.length > 0) {
+    selector += `.${CSS.escape(container.classList[0])}`;
+  }
+
+  return selector;
+}
+
+/**
+ * Capture the props of every mounted instance of a fiber's component
+ * Instances are found by component type across all roots, starting with the
+ * fiber itself; their props are what type inference samples.
+ * @param fiber - Any instance of the component
+ * @param limit - Most instances to collect (default: 100)
+ * @returns Captured props, one object per instance
+ */
+export function captureInstanceProps(
+  fiber: ReactFiberNode,
+  limit: number = MAX_INSTANCES
+): Array<Record<string, unknown>> {
+  const instances = [fiber];
+
+  for (const root of findAllFiberRoots()) {
+    for (const instance of findAllFibers(root, (node) => node.type === fiber.type)) {
+      if (instances.length >= limit) break;
+      // The fiber itself (or its alternate, which is the same instance)
+      if (instance === fiber || instance === fiber.alternate) continue;
+      instances.push(instance);
+    }
+  }
+
+  return instances.map((instance) => captureProps(instance));
+}
+
+/**
+ * Where toSerializable records what its placeholders stand for
+ */
+interface DetailCollector {
+  /** Filled by prop path (see PropValueDetail) */
+  details: Record<string, PropValueDetail>;
+  /** Record elements only, not functions, maps and sets */
+  elementsOnly: boolean;
+}
+
+/**
+ * Capture a fiber's props (without children)
+ * @param collector - Records what placeholders stand for
+ */
+function captureProps(fiber: ReactFiberNode, collector?: DetailCollector): Record<string, unknown> {
+  const props = fiber.memoizedProps || fiber.pendingProps;
+  if (!props || typeof props !== 'object') return {};
+
+  const captured: Record<string, unknown> = {};
+  for (const key of Object.keys(props)) {
+    if (key === 'children') continue;
+    captured[key] = toSerializable(props[key], 0, new WeakSet(), collector, key);
+  }
+  return captured;
+}
+
+/**
+ * Convert a runtime value into plain JSON-safe data
+ * Unlike the metadata extractor's sanitizer this guards against cycles,
+ * which are common in props holding stores or DOM references.
+ * @param collector - Collects function sources, Map/Set entries and elements
+ * @param path - Path of the value: `user.format`, `items[2].onSelect`
+ */
+function toSerializable(
+  value: unknown,
+  depth: number = 0,
+  seen: WeakSet<object> = new WeakSet(),
+  collector?: DetailCollector,
+  path: string = ''
+): unknown {
+  if (value === null || value === undefined) return value;
+
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return value;
+  }
+
+  // Functions, maps and sets are described per prop (`items[].onSelect`)
+  const details = collector && !collector.elementsOnly ? collector.details : undefined;
+  const typePath = path.replace(/\[\d+\]/g, '[]');
+
+  if (typeof value === 'function') {
+    if (details && !details[typePath]) details[typePath] = describeFunction(value as (...args: never[]) => unknown);
+    return `[Function: ${value.name || 'anonymous'}]`;
+  }
+
+  if (typeof value !== 'object') {
+    return String(value);
+  }
+
+  // ...elements per occurrence (`items[2].icon`)
+  if ((value as ElementLike).$$typeof) {
+    const snapshot = collector && captureElement(value);
+    if (snapshot) collector.details[path] = { kind: 'element', snapshot };
+    return '[React Element]';
+  }
+  if (value instanceof Element) return `[${value.tagName}]`;
+  if (value instanceof Date) {
+    return `[Date: ${isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()}]`;
+  }
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_VALUE_DEPTH) return '[Object]';
+
+  seen.add(value);
+
+  // Map and Set keep no own keys; their entries are described on the side
+  if (value instanceof Map || value instanceof Set) {
+    const isMap = value instanceof Map;
+    if (details && !details[typePath]) {
+      const capture = (item: unknown) => toSerializable(item, depth + 1, seen);
+      details[typePath] = isMap
+        ? {
+            kind: 'map',
+            entries: Array.from(value)
+              .slice(0, MAX_COLLECTION_ENTRIES)
+              .map(([key, item]): [unknown, unknown] => [capture(key), capture(item)]),
+          }
+        : { kind: 'set', values: Array.from(value).slice(0, MAX_COLLECTION_ENTRIES).map(capture) };
+    }
+    return isMap ? '[Map]' : '[Set]';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => toSerializable(item, depth + 1, seen, collector, `${path}[${index}]`));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) {
+    try {
+      result[key] = toSerializable((value as Record<string, unknown>)[key], depth + 1, seen, collector, `${path}.${key}`);
+    } catch (error) {
+      result[key] = '[Error reading value]';
+    }
+  }
+  return result;
+}
+
+/**
+ * Describe a function for signature inference (see PropValueDetail)
+ */
+function describeFunction(fn: (...args: never[]) => unknown): PropValueDetail {
+  let source: string | null = null;
+  try {
+    source = Function.prototype.toString.call(fn);
+  } catch {
+    // Revoked proxies and the like
+  }
+  if (source && (source.includes('[native code]') || source.length > MAX_FUNCTION_SOURCE_LENGTH)) {
+    source = null;
+  }
+  return { kind: 'function', name: fn.name || 'anonymous', length: fn.length, source };
+}
+
+/**
+ * Traverse a snapshot tree in depth-first order
+ * @param snapshot - Starting snapshot node
+ * @param callback - Function called for each node, return false to stop
+ */
+export function traverseSnapshot(
+  snapshot: FiberSnapshot | null,
+  callback: (node: FiberSnapshot, depth: number) => boolean | void
+): void {
+  if (!snapshot) return;
+
+  const traverse = (node: FiberSnapshot, depth: number): boolean => {
+    if (callback(node, depth) === false) return false;
+    for (const child of node.children) {
+      if (!traverse(child, depth + 1)) return false;
+    }
+    return true;
+  };
+
+  traverse(snapshot, 0);
+}
+
+/**
+ * Find all snapshot nodes matching a predicate
+ * @param snapshot - Starting snapshot node
+ * @param predicate - Function that returns true for matching nodes
+ * @returns Array of matching nodes
+ */
+export function findAllSnapshots(
+  snapshot: FiberSnapshot | null,
+  predicate: (node: FiberSnapshot) => boolean
+): FiberSnapshot[] {
+  const matches: FiberSnapshot[] = [];
+  traverseSnapshot(snapshot, (node) => {
+    if (predicate(node)) matches.push(node);
+  });
+  return matches;
+}
+
+/**
+ * Get the node id of the first host element of a snapshot
+ * (mirrors getElementFromFiber, which follows the first-child chain)
+ * @param snapshot - Snapshot node
+ * @returns Node id or null
+ */
+export function getSnapshotNodeId(snapshot: FiberSnapshot): string | null {
+  let node: FiberSnapshot | undefined = snapshot;
+  while (node) {
+    if (node.nodeId) {
+      return node.nodeId;
+    }
+    node = node.children[0];
+  }
+  return null;
+}
+
+/**
+ * Get the node ids of the host elements a snapshot renders through portals
+ * (mirrors getPortalElements; the first host element is left out)
+ * @param snapshot - Snapshot node
+ * @returns Node ids of the outermost host elements inside each portal
+ */
+export function getPortalNodeIds(snapshot: FiberSnapshot): string[] {
+  const ownNodeId = getSnapshotNodeId(snapshot);
+  const nodeIds: string[] = [];
+
+  const visit = (node: FiberSnapshot, inPortal: boolean) => {
+    for (const child of node.children) {
+      if (inPortal && child.nodeId) {
+        if (child.nodeId !== ownNodeId) nodeIds.push(child.nodeId);
+        visit(child, false);
+      } else {
+        visit(child, inPortal || child.tag === WorkTag.HostPortal);
+      }
+    }
+  };
+
+  visit(snapshot, false);
+  return nodeIds;
+}
+
+/**
+ * Build complete component information from a snapshot
+ * @param snapshot - The captured snapshot
+ * @param resolveElement - Resolves node ids to live DOM elements (for styles)
+ * @param includeChildren - Whether to recursively extract children
+ * @param maxDepth - Maximum depth for child extraction
+ * @returns ComponentInfo object
+ */
+export function buildComponentInfo(
+  snapshot: FiberSnapshot,
+  resolveElement: ElementResolver = () => null,
+  includeChildren: boolean = true,
+  maxDepth: number = 3,
+  currentDepth: number = 0
+): ComponentInfo {
+  const nodeId = getSnapshotNodeId(snapshot);
+  const domNode = nodeId ? resolveElement(nodeId) : null;
+
+  // Extract styles if DOM element exists
+  const styles = domNode ? extractStyles(domNode) : {
+    inline: {},
+    computed: {},
+    classes: [],
+    strategy: 'inline' as const,
+  };
+
+  // The definition read off the fiber is more reliable than class name patterns
+  if (getStyledSnapshot(snapshot)) {
+    styles.strategy = 'styled-components';
+  }
+
+  const info: ComponentInfo = {
+    name: snapshot.name,
+    type: identifyComponentType(snapshot),
+    props: snapshot.props,
+    children: [],
+    domNode,
+    snapshot,
+    styles,
+    hooks: snapshot.hooks,
+  };
+
+  // Styles for the whole subtree are collected once, at the top
+  if (currentDepth === 0 && domNode) {
+    const portalNodes = getPortalNodeIds(snapshot)
+      .map(resolveElement)
+      .filter((element): element is HTMLElement => element !== null);
+    if (portalNodes.length > 0) info.portalNodes = portalNodes;
+
+    info.nodeStyles = extractNodeStyles(snapshot, resolveElement);
+
+    const elements = Object.keys(info.nodeStyles)
+      .map(resolveElement)
+      .filter((element): element is HTMLElement => element !== null);
+
+    // Tailwind sites keep their own classes (see preserveTailwindClasses)
+    if (styles.strategy === 'tailwind') {
+      info.tailwind = analyzeTailwindClasses(elements);
+    } else {
+      // CSS Modules are regenerated with local names (see preserveCSSModules)
+      const cssModules = analyzeCSSModules(elements);
+      if (cssModules) info.cssModules = cssModules;
+    }
+  }
+
+  // Extract children if requested and within depth limit
+  if (includeChildren && currentDepth < maxDepth) {
+    info.children = snapshot.children.map((child) =>
+      buildComponentInfo(child, resolveElement, true, maxDepth, currentDepth + 1)
+    );
+  }
+
+  return info;
+}
+
+/**
+ * Get the styled component that renders a snapshot's first host element
+ * @param snapshot - Snapshot node
+ * @returns The styled snapshot node, or null
+ */
+export function getStyledSnapshot(snapshot: FiberSnapshot): FiberSnapshot | null {
+  let node: FiberSnapshot | undefined = snapshot;
+  while (node && !isHostFiber(node)) {
+    if (node.styled) return node;
+    node = node.children[0];
+  }
+  return null;
+}
+
+/**
+ * Strip live references from component info so it can be stored or messaged
+ * @param info - Component info
+ * @returns JSON-safe copy
+ */
+export function toStoredComponentInfo(info: ComponentInfo): ComponentInfo {
+  return {
+    ...info,
+    domNode: null,
+    portalNodes: undefined,
+    children: info.children.map(toStoredComponentInfo),
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * Styled Extractor - Read styled-components and Emotion definitions off fibers
+ *
+ * Both libraries keep the template a component was created with on the
+ * component type: styled-components in `componentStyle.rules` (with `attrs`
+ * and `styledComponentId` next to it), Emotion in `__emotion_styles`.
+ * Interpolated functions are kept as source when they only depend on their
+ * arguments (`(p) => p.$primary ? 'blue' : 'white'`); otherwise the value
+ * they produce for the captured props is recorded.
+ */
+
+import type { ReactFiberNode, StyledAttrs, StyledSource, StyledTemplatePart } from '@/types';
+
+/**
+ * Maximum nesting of interpolations (functions returning css`` fragments)
+ */
+const MAX_INTERPOLATION_DEPTH = 8;
+
+/**
+ * Identifiers a self-contained function may use besides its parameters
+ */
+const ALLOWED_IDENTIFIERS = new Set([
+  'return', 'function', 'if', 'else', 'const', 'let', 'var', 'new', 'typeof', 'void', 'instanceof',
+  'in', 'of', 'true', 'false', 'null', 'undefined', 'NaN', 'Infinity', 'this',
+  'Math', 'Number', 'String', 'Boolean', 'Array', 'Object', 'JSON', 'parseInt', 'parseFloat', 'isNaN',
+]);
+
+/**
+ * What the extractor reads of a styled-components or Emotion component type
+ */
+interface StyledComponentType {
+  styledComponentId?: string;
+  componentStyle?: ComponentStyle;
+  target?: unknown;
+  displayName?: string;
+  attrs?: unknown;
+  __emotion_styles?: unknown;
+  __emotion_base?: unknown;
+}
+
+/**
+ * A styled-components ComponentStyle (`baseStyle` for `styled(OtherStyled)`)
+ */
+interface ComponentStyle {
+  rules?: unknown;
+  baseStyle?: ComponentStyle;
+}
+
+/**
+ * An interpolated function or `.attrs()` function, called with the props
+ */
+type Interpolation = (props: Record<string, unknown>) => unknown;
+
+/**
+ * Numeric style object values that stay unitless
+ */
+const UNITLESS_PROPERTIES = new Set([
+  'opacity', 'z-index', 'font-weight', 'line-height', 'flex', 'flex-grow', 'flex-shrink', 'order',
+  'zoom', 'orphans', 'widows', 'column-count', 'grid-row', 'grid-column', 'tab-size',
+]);
+
+/**
+ * Extract the styled definition of a styled-components or Emotion component
+ * @param fiber - The component's Fiber node
+ * @returns Styled source, or null if the fiber is not a styled component
+ *   rendering an HTML element (wrapped components are not recovered)
+ */
+export function extractStyledSource(fiber: ReactFiberNode): StyledSource | null {
+  if (!fiber.type || (typeof fiber.type !== 'object' && typeof fiber.type !== 'function')) {
+    return null;
+  }
+  const type: StyledComponentType = fiber.type;
+
+  try {
+    const props: Record<string, unknown> = { ...(fiber.memoizedProps || {}) };
+    if (!props.theme) {
+      props.theme = findTheme(fiber);
+    }
+
+    // styled-components (v5/v6): the wrapped forwardRef carries the definition
+    if (type.styledComponentId && type.componentStyle) {
+      if (typeof type.target !== 'string') return null;
+
+      return {
+        library: 'styled-components',
+        tag: type.target,
+        displayName: type.displayName || null,
+        componentId: type.styledComponentId,
+        template: readTemplate(getComponentStyleRules(type.componentStyle), props),
+        attrs: (Array.isArray(type.attrs) ? type.attrs : []).map((attr: unknown) => readAttrs(attr, props)),
+      };
+    }
+
+    // Emotion: `styled.div` stores its styles and base tag on the component
+    if (Array.isArray(type.__emotion_styles)) {
+      if (typeof type.__emotion_base !== 'string') return null;
+
+      const label = type.__emotion_styles
+        .map((style: unknown) => (typeof style === 'string' ? style.match(/label:([\w-]+);/)?.[1] : undefined))
+        .find(Boolean);
+
+      return {
+        library: 'emotion',
+        tag: type.__emotion_base,
+        displayName: label || null,
+        componentId: null,
+        template: readTemplate(type.__emotion_styles, props),
+        attrs: [],
+      };
+    }
+  } catch (error) {
+    console.warn('React Component Cloner: Could not read styled definition:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Get the rules of a styled-components ComponentStyle, base styles first
+ * (components created with `styled(OtherStyled)` fold the base in)
+ */
+function getComponentStyleRules(componentStyle: ComponentStyle): unknown[] {
+  const base = componentStyle.baseStyle ? getComponentStyleRules(componentStyle.baseStyle) : [];
+  return [...base, ...(Array.isArray(componentStyle.rules) ? componentStyle.rules : [])];
+}
+
+/**
+ * Turn template rules into parts, merging adjacent static CSS
+ */
+function readTemplate(rules: unknown[], props: Record<string, unknown>): StyledTemplatePart[] {
+  const parts: StyledTemplatePart[] = [];
+
+  const addCSS = (text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last?.type === 'css') {
+      last.text += text;
+    } else {
+      parts.push({ type: 'css', text });
+    }
+  };
+
+  const visit = (rule: unknown, depth: number) => {
+    if (Array.isArray(rule)) {
+      rule.forEach((item) => visit(item, depth + 1));
+    } else if (typeof rule === 'function' && !isStyledReference(rule)) {
+      parts.push({
+        type: 'function',
+        source: getSelfContainedSource(rule as Interpolation),
+        value: flattenInterpolation(rule, props, depth),
+      });
+    } else {
+      addCSS(flattenInterpolation(rule, props, depth));
+    }
+  };
+
+  rules.forEach((rule) => visit(rule, 0));
+  return parts;
+}
+
+/**
+ * Read one `.attrs()` argument
+ */
+function readAttrs(attr: unknown, props: Record<string, unknown>): StyledAttrs {
+  if (typeof attr === 'function') {
+    let value: unknown = {};
+    try {
+      value = (attr as Interpolation)(props);
+    } catch {
+      // Attrs depending on values missing from the captured props
+    }
+    return { source: getSelfContainedSource(attr as Interpolation), value: toPlainObject(value) };
+  }
+
+  return { source: null, value: toPlainObject(attr) };
+}
+
+/**
+ * Evaluate an interpolation to CSS text
+ */
+function flattenInterpolation(value: unknown, props: Record<string, unknown>, depth: number): string {
+  if (depth > MAX_INTERPOLATION_DEPTH) return '';
+  if (value === null || value === undefined || value === false || value === true) return '';
+  if (typeof value === 'string') return stripLabels(value);
+  if (typeof value === 'number') return String(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => flattenInterpolation(item, props, depth + 1)).join('');
+  }
+
+  // Other styled components are referenced by their class selector
+  if (isStyledReference(value)) {
+    return `.${value.styledComponentId}`;
+  }
+
+  if (typeof value === 'function') {
+    try {
+      return flattenInterpolation((value as Interpolation)(props), props, depth + 1);
+    } catch {
+      return '';
+    }
+  }
+
+  if (typeof value === 'object') {
+    const style = value as { getName?: unknown; anim?: unknown; name?: unknown; styles?: unknown };
+    // styled-components keyframes
+    if (typeof style.getName === 'function') return String(style.getName());
+    // Emotion keyframes and serialized styles (`css` / Babel plugin output)
+    if (style.anim && typeof style.name === 'string') return style.name;
+    if (typeof style.styles === 'string') return stripLabels(style.styles);
+    return objectToCSS(value as Record<string, unknown>, props, depth + 1);
+  }
+
+  return String(value);
+}
+
+/**
+ * Convert a style object (`{ fontSize: 12, '&:hover': {...} }`) to CSS text
+ */
+function objectToCSS(styles: Record<string, unknown>, props: Record<string, unknown>, depth: number): string {
+  return Object.entries(styles)
+    .map(([key, value]) => {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return `${key}{${objectToCSS(value as Record<string, unknown>, props, depth + 1)}}`;
+      }
+
+      const property = key.startsWith('--') ? key : key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+      const text = typeof value === 'number' && value !== 0 && !UNITLESS_PROPERTIES.has(property)
+        ? `${value}px`
+        : flattenInterpolation(value, props, depth + 1);
+      return text ? `${property}:${text};` : '';
+    })
+    .join('');
+}
+
+/**
+ * Check if a value is a styled-components component (usable as a selector)
+ */
+function isStyledReference(value: unknown): value is { styledComponentId: string } {
+  return !!value && typeof (value as StyledComponentType).styledComponentId === 'string';
+}
+
+/**
+ * Remove Emotion's `label:Name;` markers
+ */
+function stripLabels(css: string): string {
+  return css.replace(/label:[\w-]+;/g, '');
+}
+
+/**
+ * Get a function's source if it only uses its parameters and globals
+ * @returns Source usable as an expression, or null
+ */
+function getSelfContainedSource(fn: Interpolation): string | null {
+  let source: string;
+  try {
+    source = Function.prototype.toString.call(fn).trim();
+  } catch {
+    return null;
+  }
+
+  if (source.includes('[native code]')) return null;
+
+  // Arrow functions and function expressions; method shorthand is not an expression
+  const arrow = source.match(/^(?:async\s+)?(\([^)]*\)|[A-Za-z_$][\w$]*)\s*=>/);
+  const declaration = source.match(/^(?:async\s+)?function\b[^(]*\(([^)]*)\)/);
+  if (!arrow && !declaration) return null;
+
+  const paramText = arrow ? arrow[1] : declaration![1];
+  const body = source.slice((arrow || declaration)![0].length);
+  const params = new Set(paramText.match(/[A-Za-z_$][\w$]*/g) || []);
+
+  const code = stripStringLiterals(body)
+    // Property accesses and object literal keys are not references
+    .replace(/\.\s*[A-Za-z_$][\w$]*/g, '')
+    .replace(/([{,]\s*)[A-Za-z_$][\w$]*\s*:/g, '$1');
+
+  const identifiers = code.match(/(?<![\w$])[A-Za-z_$][\w$]*/g) || [];
+  const selfContained = identifiers.every(
+    (identifier) => params.has(identifier) || ALLOWED_IDENTIFIERS.has(identifier)
+  );
+
+  return selfContained ? source : null;
+}
+
+/**
+ * Remove string literals, keeping the expressions of template literals
+ */
+function stripStringLiterals(code: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (char === '"' || char === "'") {
+      i++;
+      while (i < code.length && code[i] !== char) {
+        i += code[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      result += '""';
+    } else if (char === '`') {
+      i++;
+      while (i < code.length && code[i] !== '`') {
+        if (code[i] === '\\') {
+          i += 2;
+        } else if (code[i] === '$' && code[i + 1] === '{') {
+          // Nested braces inside the expression are balanced
+          let depth = 1;
+          i += 2;
+          result += ' (';
+          while (i < code.length && depth > 0) {
+            if (code[i] === '{') depth++;
+            if (code[i] === '}') depth--;
+            if (depth > 0) result += code[i];
+            i++;
+          }
+          result += ') ';
+        } else {
+          i++;
+        }
+      }
+      i++;
+      result += '""';
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find the theme a styled component reads from context
+ * Themes are the plain objects among the fiber's context dependencies.
+ */
+function findTheme(fiber: ReactFiberNode): Record<string, unknown> {
+  let dependency = fiber.dependencies?.firstContext;
+  while (dependency) {
+    const value = dependency.memoizedValue;
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return value;
+    }
+    dependency = dependency.next;
+  }
+  return {};
+}
+
+/**
+ * Keep the JSON-safe entries of an attrs object
+ */
+function toPlainObject(value: unknown): StyledAttrs['value'] {
+  if (!value || typeof value !== 'object') return {};
+
+  const plain: StyledAttrs['value'] = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry === null || ['string', 'number', 'boolean'].includes(typeof entry)) {
+      plain[key] = entry;
+    }
+  }
+  return plain;
+}
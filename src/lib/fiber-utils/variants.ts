@@ -0,0 +1,83 @@
+/**
+ * Variants - Tell recorded snapshots of one component apart
+ *
+ * While a component is being recorded, the page agent captures it after every
+ * commit of its root. A capture is a new variant when its props, state, hooks
+ * or rendered output differ from every earlier one; ids, node ids and source
+ * locations do not count, since they change without the component looking
+ * any different.
+ */
+
+import type { FiberSnapshot } from '@/types';
+
+/**
+ * Most variants kept per recording (later distinct captures are dropped)
+ */
+export const MAX_VARIANTS = 20;
+
+/**
+ * Snapshot fields that do not make a variant
+ */
+const VOLATILE_FIELDS: Array<keyof FiberSnapshot> = ['id', 'nodeId', 'source', 'renderSource', 'styled'];
+
+/**
+ * Get the key two snapshots of the same variant share
+ * @param snapshot - Captured snapshot
+ * @returns Stable JSON of what the component shows and holds
+ */
+export function getVariantKey(snapshot: FiberSnapshot): string {
+  return JSON.stringify(withoutVolatileFields(snapshot));
+}
+
+/**
+ * Copy a snapshot tree without its volatile fields
+ * Only the nodes lose them: props and state keep fields of the same names.
+ */
+function withoutVolatileFields(node: FiberSnapshot): Partial<FiberSnapshot> {
+  const copy: Partial<FiberSnapshot> = { ...node };
+  for (const field of VOLATILE_FIELDS) {
+    delete copy[field];
+  }
+
+  copy.children = node.children.map(withoutVolatileFields) as FiberSnapshot[];
+  if (node.fallback) {
+    copy.fallback = withoutVolatileFields(node.fallback) as FiberSnapshot;
+  }
+  if (node.propDetails) {
+    copy.propDetails = Object.fromEntries(
+      Object.entries(node.propDetails).map(([path, detail]) => [
+        path,
+        detail.kind === 'element' ? { ...detail, snapshot: withoutVolatileFields(detail.snapshot) as FiberSnapshot } : detail,
+      ])
+    );
+  }
+  return copy;
+}
+
+/**
+ * Add a snapshot to the recorded variants if it is a new one
+ * @param variants - Variants recorded so far (modified in place)
+ * @param keys - Their variant keys (modified in place)
+ * @param snapshot - New capture
+ * @returns True if the snapshot was added
+ */
+export function addVariant(variants: FiberSnapshot[], keys: Set<string>, snapshot: FiberSnapshot): boolean {
+  if (variants.length >= MAX_VARIANTS) return false;
+
+  const key = getVariantKey(snapshot);
+  if (keys.has(key)) return false;
+
+  keys.add(key);
+  variants.push(snapshot);
+  return true;
+}
+
+/**
+ * Check if a captured value stands in for something that is not data
+ * (functions, elements, dates, maps, sets, cycles and cut-off objects, see toSerializable)
+ * @param value - Captured prop or state value
+ * @returns True for placeholders such as `[Function: onClick]`
+ */
+export function isPlaceholderValue(value: unknown): boolean {
+  return typeof value === 'string' && /^\[(Function: .*|Date: .*|React Element|Circular|Object|Map|Set|[A-Z][A-Z0-9]*)\]$/.test(value);
+}
@@ -0,0 +1,270 @@
+/**
+ * Work Tags - Version-aware Fiber work tags
+ *
+ * React has renumbered its work tags several times (16.4.3, 16.6, 17, 18).
+ * Everything in this extension compares against one canonical numbering -
+ * React 18/19's (see WorkTag) - so live fibers are normalized through the
+ * table of the page's React version. Snapshots and fiber summaries store the
+ * canonical tags, so they read the same whichever React they came from.
+ *
+ * Tag reference:
+ * https://github.com/facebook/react/blob/main/packages/react-reconciler/src/ReactWorkTags.js
+ */
+
+import type { ReactFiberNode } from '@/types';
+import { getReactVersion } from './fiber-accessor';
+import { isPreactFiber } from './preact-adapter';
+
+/**
+ * Canonical work tags (React 18/19 numbering)
+ */
+export const WorkTag = {
+  FunctionComponent: 0,
+  ClassComponent: 1,
+  IndeterminateComponent: 2,
+  HostRoot: 3,
+  HostPortal: 4,
+  HostComponent: 5,
+  HostText: 6,
+  Fragment: 7,
+  Mode: 8,
+  ContextConsumer: 9,
+  ContextProvider: 10,
+  ForwardRef: 11,
+  Profiler: 12,
+  SuspenseComponent: 13,
+  MemoComponent: 14,
+  SimpleMemoComponent: 15,
+  LazyComponent: 16,
+  IncompleteClassComponent: 17,
+  DehydratedFragment: 18,
+  SuspenseListComponent: 19,
+  ScopeComponent: 21,
+  OffscreenComponent: 22,
+  LegacyHiddenComponent: 23,
+  CacheComponent: 24,
+  TracingMarkerComponent: 25,
+  HostHoistable: 26,
+  HostSingleton: 27,
+  IncompleteFunctionComponent: 28,
+  Throw: 29,
+  ViewTransitionComponent: 30,
+  ActivityComponent: 31,
+} as const;
+
+export type WorkTagName = keyof typeof WorkTag;
+
+/**
+ * Canonical tag for kinds the page's React has but the canonical numbering
+ * lacks (call/return components, Fundamental, Block)
+ */
+export const UNKNOWN_WORK_TAG = -1;
+
+/**
+ * Names of built-in components, whose types are symbols without a name
+ */
+const BUILT_IN_COMPONENT_NAMES: Partial<Record<WorkTagName, string>> = {
+  HostRoot: 'Root',
+  HostPortal: 'Portal',
+  Fragment: 'Fragment',
+  Mode: 'StrictMode',
+  Profiler: 'Profiler',
+  SuspenseComponent: 'Suspense',
+  SuspenseListComponent: 'SuspenseList',
+  OffscreenComponent: 'Offscreen',
+  ActivityComponent: 'Activity',
+  ViewTransitionComponent: 'ViewTransition',
+};
+
+/**
+ * Work tags of one React version range, raw tag → kind
+ */
+type WorkTagTable = Record<number, WorkTagName>;
+
+/**
+ * React 16.0 - 16.4.2
+ */
+const REACT_16_0_TAGS: WorkTagTable = {
+  0: 'IndeterminateComponent',
+  1: 'FunctionComponent',
+  2: 'ClassComponent',
+  3: 'HostRoot',
+  4: 'HostPortal',
+  5: 'HostComponent',
+  6: 'HostText',
+  // 7 - 9: call/return components (never released)
+  10: 'Fragment',
+  11: 'Mode',
+  12: 'ContextConsumer',
+  13: 'ContextProvider',
+  14: 'ForwardRef',
+  15: 'Profiler',
+  16: 'SuspenseComponent',
+};
+
+/**
+ * React 16.4.3 - 16.5 (with the first, tag-based lazy components)
+ */
+const REACT_16_4_3_TAGS: WorkTagTable = {
+  0: 'FunctionComponent',
+  1: 'FunctionComponent',
+  2: 'ClassComponent',
+  3: 'ClassComponent',
+  4: 'IndeterminateComponent',
+  5: 'HostRoot',
+  6: 'HostPortal',
+  7: 'HostComponent',
+  8: 'HostText',
+  9: 'Fragment',
+  10: 'Mode',
+  11: 'ContextConsumer',
+  12: 'ContextProvider',
+  13: 'ForwardRef',
+  14: 'ForwardRef',
+  15: 'Profiler',
+  16: 'SuspenseComponent',
+};
+
+/**
+ * React 16.6 - 16.14 (20: Fundamental, 22: Block have no canonical kind)
+ */
+const REACT_16_6_TAGS: WorkTagTable = {
+  ...pickTags(0, 19),
+  21: 'ScopeComponent',
+};
+
+/**
+ * React 17 (22: Block)
+ */
+const REACT_17_TAGS: WorkTagTable = {
+  ...REACT_16_6_TAGS,
+  23: 'OffscreenComponent',
+  24: 'LegacyHiddenComponent',
+};
+
+/**
+ * React 18 and 19: the canonical numbering
+ */
+const REACT_18_TAGS: WorkTagTable = pickTags(0, Infinity);
+
+/**
+ * Tables by the first version they apply to, newest first
+ */
+const WORK_TAG_TABLES: Array<{ since: [number, number, number]; tags: WorkTagTable }> = [
+  { since: [18, 0, 0], tags: REACT_18_TAGS },
+  { since: [17, 0, 0], tags: REACT_17_TAGS },
+  { since: [16, 6, 0], tags: REACT_16_6_TAGS },
+  { since: [16, 4, 3], tags: REACT_16_4_3_TAGS },
+  { since: [0, 0, 0], tags: REACT_16_0_TAGS },
+];
+
+/**
+ * Table of the page's React version, once the version is known
+ */
+let detectedTable: WorkTagTable | null = null;
+
+/**
+ * Get the work tag table of a React version
+ * @param version - React version (e.g. `18.2.0`); null for the latest numbering
+ * @returns Raw tag → kind
+ */
+export function getWorkTagTable(version: string | null): WorkTagTable {
+  const parsed = version ? parseVersion(version) : null;
+  if (!parsed) return REACT_18_TAGS;
+
+  const entry = WORK_TAG_TABLES.find(({ since }) => compareVersions(parsed, since) >= 0);
+  return entry ? entry.tags : REACT_18_TAGS;
+}
+
+/**
+ * Normalize a raw work tag of the page's React to the canonical numbering
+ * @param tag - Raw `fiber.tag`
+ * @param version - React version (default: detected through getReactVersion)
+ * @returns Canonical tag, or UNKNOWN_WORK_TAG
+ */
+export function normalizeWorkTag(tag: number, version?: string | null): number {
+  const table = version !== undefined ? getWorkTagTable(version) : getDetectedTable();
+  const name = table[tag];
+  return name ? WorkTag[name] : UNKNOWN_WORK_TAG;
+}
+
+/**
+ * Get the canonical work tag of a live fiber, snapshot or fiber summary
+ * Live fibers are normalized; snapshots, summaries and Preact vnodes
+ * (see preact-adapter) already are.
+ * @param node - Anything carrying a work tag
+ * @returns Canonical tag
+ */
+export function getWorkTag(node: Pick<ReactFiberNode, 'tag'>): number {
+  return isLiveFiber(node) && !isPreactFiber(node) ? normalizeWorkTag(node.tag) : node.tag;
+}
+
+/**
+ * Get the name of a canonical work tag
+ * @param tag - Canonical tag
+ * @returns Tag name, e.g. `SuspenseComponent`
+ */
+export function getWorkTagName(tag: number): string {
+  const entry = Object.entries(WorkTag).find(([, value]) => value === tag);
+  return entry ? entry[0] : `Unknown(${tag})`;
+}
+
+/**
+ * Get the name of a built-in component
+ * @param tag - Canonical tag
+ * @returns Name as written in JSX (`Suspense`), or null for other tags
+ */
+export function getBuiltInComponentName(tag: number): string | null {
+  const name = getWorkTagName(tag) as WorkTagName;
+  return BUILT_IN_COMPONENT_NAMES[name] || null;
+}
+
+/**
+ * Check if a node is a live fiber (snapshots and summaries have no stateNode)
+ */
+function isLiveFiber(node: Pick<ReactFiberNode, 'tag'>): node is ReactFiberNode {
+  return 'stateNode' in node;
+}
+
+/**
+ * Get the table of the page's React version
+ * The version is read once it is known; until then the latest numbering applies.
+ */
+function getDetectedTable(): WorkTagTable {
+  if (detectedTable) return detectedTable;
+
+  const version = getReactVersion();
+  if (!version) return REACT_18_TAGS;
+
+  detectedTable = getWorkTagTable(version);
+  return detectedTable;
+}
+
+/**
+ * Canonical tags in a range, as a table
+ */
+function pickTags(from: number, to: number): WorkTagTable {
+  const tags: WorkTagTable = {};
+  for (const [name, tag] of Object.entries(WorkTag) as Array<[WorkTagName, number]>) {
+    if (tag >= from && tag <= to) tags[tag] = name;
+  }
+  return tags;
+}
+
+/**
+ * Parse `major.minor.patch` (pre-release suffixes are ignored)
+ */
+function parseVersion(version: string): [number, number, number] | null {
+  const match = version.match(/^(\d+)\.(\d+)\.(\d+)/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+/**
+ * Compare two parsed versions
+ */
+function compareVersions(a: [number, number, number], b: [number, number, number]): number {
+  for (let index = 0; index < 3; index++) {
+    if (a[index] !== b[index]) return a[index] - b[index];
+  }
+  return 0;
+}
@@ -0,0 +1,253 @@
+/**
+ * Preview Frame - Host side of the sandboxed preview page
+ *
+ * Embeds `sandbox.html` in an iframe and asks it to render generated
+ * component code, measure the result and highlight nodes.
+ */
+
+import type { ElementMeasurement } from '@lib/visual-diff/measure';
+import {
+  PREVIEW_SOURCE,
+  isPreviewMessage,
+  type PreviewMeasureMessage,
+  type PreviewMessage,
+  type PreviewRenderMessage,
+} from './protocol';
+
+interface PendingRequest {
+  resolve(value: unknown): void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface PreviewFrameOptions {
+  /** Path of the sandbox page inside the extension (default: sandbox.html) */
+  pagePath?: string;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+  /** Minimum iframe height in pixels (default: 120) */
+  minHeight?: number;
+}
+
+export interface PreviewRenderInput {
+  code: string;
+  css: string;
+}
+
+const DEFAULT_OPTIONS: Required<PreviewFrameOptions> = {
+  pagePath: 'sandbox.html',
+  timeout: 10000,
+  minHeight: 120,
+};
+
+export class PreviewFrame {
+  private options: Required<PreviewFrameOptions>;
+  private iframe: HTMLIFrameElement | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+  private readyPromise: Promise<void> | null = null;
+  private resolveReady: (() => void) | null = null;
+
+  constructor(options: PreviewFrameOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Create the iframe inside a container and wait until the sandbox is ready
+   * @param container - Element the iframe is appended to
+   */
+  public mount(container: HTMLElement): Promise<void> {
+    if (this.iframe && this.readyPromise) {
+      if (this.iframe.parentElement !== container) {
+        // Moving an iframe reloads it, so start over
+        this.destroy();
+      } else {
+        return this.readyPromise;
+      }
+    }
+
+    window.addEventListener('message', this.handleMessage);
+
+    this.iframe = document.createElement('iframe');
+    this.iframe.src = chrome.runtime.getURL(this.options.pagePath);
+    this.iframe.setAttribute('sandbox', 'allow-scripts');
+    this.iframe.style.cssText = `
+      display: block;
+      width: 100%;
+      height: ${this.options.minHeight}px;
+      border: none;
+      background: white;
+      margin: 0 auto;
+      transition: width 0.3s ease;
+    `;
+
+    this.readyPromise = new Promise<void>((resolve) => {
+      this.resolveReady = resolve;
+    });
+
+    container.appendChild(this.iframe);
+    return this.readyPromise;
+  }
+
+  /**
+   * Render a component module in the sandbox
+   * @param input - Generated code and CSS
+   * @returns Promise resolving once the component rendered
+   */
+  public async render(input: PreviewRenderInput): Promise<void> {
+    await this.whenReady();
+
+    const id = this.nextRequestId++;
+    const message: PreviewRenderMessage = {
+      source: PREVIEW_SOURCE,
+      type: 'RENDER',
+      id,
+      code: input.code,
+      css: input.css,
+    };
+
+    return this.request<void>(message, 'Preview did not render in time');
+  }
+
+  /**
+   * Measure the rendered component's root element
+   * @returns Measurement tree, or null if nothing was rendered
+   */
+  public async measure(): Promise<ElementMeasurement | null> {
+    await this.whenReady();
+
+    const message: PreviewMeasureMessage = {
+      source: PREVIEW_SOURCE,
+      type: 'MEASURE',
+      id: this.nextRequestId++,
+    };
+
+    return this.request<ElementMeasurement | null>(message, 'Preview did not answer MEASURE in time');
+  }
+
+  /**
+   * Highlight rendered nodes, replacing previous highlights
+   * @param paths - Node paths from the visual diff
+   */
+  public async highlight(paths: string[]): Promise<void> {
+    await this.whenReady();
+    this.post({ source: PREVIEW_SOURCE, type: 'HIGHLIGHT', paths });
+  }
+
+  /**
+   * Set the preview width (the iframe is the preview's viewport)
+   * @param width - Width in pixels
+   */
+  public setWidth(width: number): void {
+    if (this.iframe) {
+      this.iframe.style.width = `${width}px`;
+      this.iframe.style.maxWidth = '100%';
+    }
+  }
+
+  /**
+   * Remove the iframe and reject pending requests
+   */
+  public destroy(): void {
+    window.removeEventListener('message', this.handleMessage);
+
+    this.pending.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Preview frame was destroyed'));
+    });
+    this.pending.clear();
+
+    this.iframe?.remove();
+    this.iframe = null;
+    this.readyPromise = null;
+    this.resolveReady = null;
+  }
+
+  /**
+   * Wait until the sandbox reported ready
+   */
+  private whenReady(): Promise<void> {
+    if (!this.readyPromise) {
+      return Promise.reject(new Error('Preview frame is not mounted'));
+    }
+    return this.readyPromise;
+  }
+
+  /**
+   * Send a message and wait for the sandbox's answer
+   */
+  private request<T>(message: PreviewMessage & { id: number }, timeoutMessage: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(message.id);
+        reject(new Error(timeoutMessage));
+      }, this.options.timeout);
+
+      this.pending.set(message.id, { resolve, reject, timer });
+      this.post(message);
+    });
+  }
+
+  /**
+   * Post a message to the sandbox
+   */
+  private post(message: PreviewMessage): void {
+    // The sandbox has an opaque origin, so no narrower target is possible
+    this.iframe?.contentWindow?.postMessage(message, '*');
+  }
+
+  /**
+   * Handle messages posted by the sandbox
+   */
+  private handleMessage = (event: MessageEvent): void => {
+    if (
+      !this.iframe ||
+      event.source !== this.iframe.contentWindow ||
+      !isPreviewMessage(event.data)
+    ) {
+      return;
+    }
+
+    const message = event.data;
+
+    switch (message.type) {
+      case 'READY':
+        this.resolveReady?.();
+        this.resolveReady = null;
+        break;
+
+      case 'RESIZE':
+        this.setHeight(message.height);
+        break;
+
+      case 'RENDERED':
+      case 'MEASURED':
+      case 'ERROR': {
+        const pending = this.pending.get(message.id);
+        if (!pending) return;
+
+        clearTimeout(pending.timer);
+        this.pending.delete(message.id);
+
+        if (message.type === 'ERROR') {
+          pending.reject(new Error(message.error));
+        } else if (message.type === 'MEASURED') {
+          pending.resolve(message.measurement);
+        } else {
+          this.setHeight(message.height);
+          pending.resolve(undefined);
+        }
+        break;
+      }
+    }
+  };
+
+  /**
+   * Fit the iframe to the rendered content
+   */
+  private setHeight(height: number): void {
+    if (this.iframe) {
+      this.iframe.style.height = `${Math.max(height, this.options.minHeight)}px`;
+    }
+  }
+}
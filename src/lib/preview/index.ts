@@ -0,0 +1,23 @@
+/**
+ * Preview - Live rendering of generated components in a sandboxed page
+ */
+
+export {
+  PreviewFrame,
+  type PreviewFrameOptions,
+  type PreviewRenderInput,
+} from './PreviewFrame';
+
+export {
+  PREVIEW_SOURCE,
+  isPreviewMessage,
+  type PreviewMessage,
+  type PreviewRenderMessage,
+  type PreviewMeasureMessage,
+  type PreviewHighlightMessage,
+  type PreviewReadyMessage,
+  type PreviewRenderedMessage,
+  type PreviewMeasuredMessage,
+  type PreviewErrorMessage,
+  type PreviewResizeMessage,
+} from './protocol';
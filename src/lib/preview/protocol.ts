@@ -0,0 +1,102 @@
+/**
+ * Preview Protocol - Messages exchanged between the preview panel and the
+ * sandboxed preview page
+ *
+ * The sandbox page (`sandbox.html`) runs with an opaque origin and a CSP that
+ * allows evaluating compiled code, so generated components are compiled and
+ * rendered there with a bundled React instead of in the inspected page.
+ */
+
+import type { ElementMeasurement } from '@lib/visual-diff/measure';
+
+/**
+ * Marker used to tell preview messages apart from other messages
+ */
+export const PREVIEW_SOURCE = 'react-component-cloner-preview';
+
+/**
+ * Ask the sandbox to compile and render a component module
+ */
+export interface PreviewRenderMessage {
+  source: typeof PREVIEW_SOURCE;
+  type: 'RENDER';
+  id: number;
+  /** Generated TSX/JSX module with a default-exported component */
+  code: string;
+  /** CSS to apply to the preview document */
+  css: string;
+}
+
+/**
+ * Ask the sandbox to measure the rendered component
+ */
+export interface PreviewMeasureMessage {
+  source: typeof PREVIEW_SOURCE;
+  type: 'MEASURE';
+  id: number;
+}
+
+/**
+ * Ask the sandbox to highlight rendered nodes (paths from the visual diff)
+ */
+export interface PreviewHighlightMessage {
+  source: typeof PREVIEW_SOURCE;
+  type: 'HIGHLIGHT';
+  paths: string[];
+}
+
+export interface PreviewReadyMessage {
+  source: typeof PREVIEW_SOURCE;
+  type: 'READY';
+}
+
+export interface PreviewRenderedMessage {
+  source: typeof PREVIEW_SOURCE;
+  type: 'RENDERED';
+  id: number;
+  height: number;
+}
+
+export interface PreviewMeasuredMessage {
+  source: typeof PREVIEW_SOURCE;
+  type: 'MEASURED';
+  id: number;
+  /** Null when nothing was rendered */
+  measurement: ElementMeasurement | null;
+}
+
+export interface PreviewErrorMessage {
+  source: typeof PREVIEW_SOURCE;
+  type: 'ERROR';
+  id: number;
+  error: string;
+}
+
+export interface PreviewResizeMessage {
+  source: typeof PREVIEW_SOURCE;
+  type: 'RESIZE';
+  height: number;
+}
+
+export type PreviewMessage =
+  | PreviewRenderMessage
+  | PreviewMeasureMessage
+  | PreviewHighlightMessage
+  | PreviewReadyMessage
+  | PreviewRenderedMessage
+  | PreviewMeasuredMessage
+  | PreviewErrorMessage
+  | PreviewResizeMessage;
+
+/**
+ * Check if a posted message belongs to the preview protocol
+ * @param data - `MessageEvent.data`
+ * @returns True if the message is a preview message
+ */
+export function isPreviewMessage(data: unknown): data is PreviewMessage {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    (data as { source?: unknown }).source === PREVIEW_SOURCE
+  );
+}
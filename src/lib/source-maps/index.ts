@@ -0,0 +1,16 @@
+/**
+ * Source Maps - Recover original component sources from the page's source maps
+ */
+
+// Original sources
+export { findOriginalSource, isMinifiedName, getOriginalFileName } from './original-source';
+
+// Source map decoding
+export {
+  parseSourceMap,
+  originalPositionFor,
+  type RawSourceMap,
+  type SourceMap,
+  type MappingSegment,
+  type OriginalPosition,
+} from './source-map';
@@ -0,0 +1,315 @@
+/**
+ * Original Source - Map a component back to its original file
+ *
+ * Production builds drop `_debugSource`, but many ship source maps. A
+ * component's render function (see RenderSource) appears verbatim in one of
+ * the page's scripts; its position there is mapped through the script's
+ * `sourceMappingURL` to the original file, line and name. Scripts and maps are
+ * fetched like the page fetches them and cached for the page's lifetime.
+ */
+
+import type { FiberSnapshot, OriginalSource, RenderSource, SourceLocation } from '@/types';
+import { parseSourceMap, originalPositionFor, type SourceMap } from './source-map';
+
+/**
+ * Scripts searched for a component at most (large apps load many chunks)
+ */
+const MAX_SCRIPTS = 200;
+
+/**
+ * Lines searched upwards from a mapped position for the declaration's name
+ * Class render methods can sit far below their class.
+ */
+const DECLARATION_LOOKBACK: Record<RenderSource['kind'], number> = {
+  function: 3,
+  class: 300,
+};
+
+/**
+ * Names React and the inspector fall back to for anonymous components
+ */
+const FALLBACK_NAMES = /^(Anonymous|Unknown|FunctionComponent|ClassComponent|ForwardRef|Memo|SimpleMemoComponent)$/;
+
+interface PageScript {
+  url: string;
+  text: string;
+  mapUrl: string | null;
+}
+
+const scriptCache = new Map<string, Promise<PageScript | null>>();
+const mapCache = new Map<string, Promise<SourceMap | null>>();
+
+/**
+ * Find a component's original source through the page's source maps
+ * @param snapshot - Root snapshot of a capture (with its render source)
+ * @param target - Window the component was captured in (default: this frame's)
+ * @returns Original file, position and name, or null without a usable map
+ */
+export async function findOriginalSource(
+  snapshot: FiberSnapshot,
+  target: Window = window
+): Promise<OriginalSource | null> {
+  const renderSource = snapshot.renderSource;
+
+  if (renderSource) {
+    for (const script of getPageScripts(target)) {
+      const loaded = await script();
+      const index = loaded ? loaded.text.indexOf(renderSource.code) : -1;
+      if (!loaded || index === -1) continue;
+
+      if (!loaded.mapUrl) {
+        console.log('React Component Cloner: No source map for', loaded.url);
+        return null;
+      }
+
+      const map = await loadSourceMap(loaded.mapUrl);
+      return map ? mapRenderSource(renderSource, loaded, map, index) : null;
+    }
+  }
+
+  // Development builds know the file already; the map still has its contents
+  return snapshot.source ? findByDebugSource(snapshot.source, renderSource?.kind || 'function', target) : null;
+}
+
+/**
+ * Check whether a component name looks minified (or is a fallback name)
+ * @param name - Component name from the fiber
+ */
+export function isMinifiedName(name: string): boolean {
+  return FALLBACK_NAMES.test(name) || name.length <= 2 || /^[a-z_$]/.test(name);
+}
+
+/**
+ * Get the file name of an original source path
+ * @param fileName - Source path, e.g. `webpack://app/./src/Button.tsx?abc1`
+ * @returns Base name, e.g. `Button.tsx`
+ */
+export function getOriginalFileName(fileName: string): string {
+  return fileName.replace(/[?#].*$/, '').split('/').filter(Boolean).pop() || 'source.js';
+}
+
+/**
+ * Map the render source's position in a script to its original source
+ */
+function mapRenderSource(
+  renderSource: RenderSource,
+  script: PageScript,
+  map: SourceMap,
+  index: number
+): OriginalSource | null {
+  const start = toLineColumn(script.text, index);
+  const position = originalPositionFor(map, start.line, start.column);
+  if (!position) return null;
+
+  const code = map.sourcesContent[position.source];
+  const name =
+    findMappedName(renderSource, script.text, index, map) ||
+    (code ? findDeclarationName(code, position.line, renderSource.kind) : null);
+
+  return {
+    fileName: map.sources[position.source],
+    lineNumber: position.line,
+    columnNumber: position.column,
+    name,
+    code,
+    mapUrl: script.mapUrl!,
+  };
+}
+
+/**
+ * Find the original name of the identifier a render function is bound to
+ * (`function Xe(`, `const Xe = (e) =>`, `Xe = memo(function (`)
+ */
+function findMappedName(renderSource: RenderSource, text: string, index: number, map: SourceMap): string | null {
+  // A class's name is far from its render method
+  if (renderSource.kind === 'class') return null;
+
+  let nameIndex = -1;
+  const declaration = renderSource.code.match(/^(?:async\s*)?function\s*\*?\s*([\w$]+)/);
+  if (declaration) {
+    nameIndex = index + declaration[0].length - declaration[1].length;
+  } else {
+    const before = text.slice(Math.max(0, index - 200), index);
+    const assignment = before.match(/([A-Za-z_$][\w$]*)\s*=\s*(?:(?:\(\s*0\s*,\s*)?[\w$.]+\)?\s*\(\s*)*$/);
+    if (assignment) {
+      nameIndex = index - before.length + assignment.index!;
+    }
+  }
+  if (nameIndex === -1) return null;
+
+  const { line, column } = toLineColumn(text, nameIndex);
+  const name = originalPositionFor(map, line, column, true)?.name;
+  return name && /^[A-Z][\w$]*$/.test(name) ? name : null;
+}
+
+/**
+ * Find the name of the component declared at or above a line of the original source
+ */
+function findDeclarationName(code: string, line: number, kind: RenderSource['kind']): string | null {
+  const pattern = kind === 'class'
+    ? /\bclass\s+([A-Z][\w$]*)/
+    : /\b(?:function\s*\*?\s*|(?:const|let|var)\s+)([A-Z][\w$]*)/;
+  const lines = code.split('\n');
+
+  for (let index = line - 1; index >= Math.max(0, line - 1 - DECLARATION_LOOKBACK[kind]); index--) {
+    const match = lines[index]?.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Find a `_debugSource` file among the sources of the page's maps
+ */
+async function findByDebugSource(
+  location: SourceLocation,
+  kind: RenderSource['kind'],
+  target: Window
+): Promise<OriginalSource | null> {
+  const fileName = location.fileName.replace(/\\/g, '/');
+
+  for (const script of getPageScripts(target)) {
+    const loaded = await script();
+    if (!loaded?.mapUrl) continue;
+
+    const map = await loadSourceMap(loaded.mapUrl);
+    const source = map?.sources.findIndex((candidate) => {
+      const path = normalizeSourcePath(candidate);
+      return path !== '' && (fileName === path || fileName.endsWith(`/${path}`));
+    });
+    if (!map || source === undefined || source === -1) continue;
+
+    const code = map.sourcesContent[source];
+    return {
+      fileName: map.sources[source],
+      lineNumber: location.lineNumber,
+      columnNumber: location.columnNumber,
+      name: code ? findDeclarationName(code, location.lineNumber, kind) : null,
+      code,
+      mapUrl: loaded.mapUrl,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Strip bundler prefixes from a source path (`webpack://app/./src/a.ts` → `src/a.ts`)
+ */
+function normalizeSourcePath(source: string): string {
+  return source
+    .replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '')
+    .replace(/[?#].*$/, '')
+    .replace(/^(?:\.{0,2}\/)+/, '');
+}
+
+/**
+ * Get loaders for the page's scripts: `<script>` elements, then every script
+ * resource the page loaded (chunks loaded on demand have no element)
+ */
+function getPageScripts(target: Window): Array<() => Promise<PageScript | null>> {
+  const loaders = new Map<string, () => Promise<PageScript | null>>();
+  const { document: targetDocument, performance: targetPerformance } = target;
+
+  Array.from(targetDocument.scripts).forEach((script, index) => {
+    if (script.src) {
+      loaders.set(script.src, () => loadScript(script.src));
+    } else if (script.textContent) {
+      const text = script.textContent;
+      loaders.set(`inline:${index}`, async () => ({
+        url: targetDocument.URL,
+        text,
+        mapUrl: resolveMapUrl(findSourceMappingURL(text), targetDocument.URL),
+      }));
+    }
+  });
+
+  const resources = targetPerformance.getEntriesByType('resource') as PerformanceResourceTiming[];
+  for (const entry of resources) {
+    if (entry.initiatorType === 'script' || /\.m?js(?:[?#]|$)/.test(entry.name)) {
+      if (!loaders.has(entry.name)) loaders.set(entry.name, () => loadScript(entry.name));
+    }
+  }
+
+  return Array.from(loaders.entries())
+    .filter(([url]) => url.startsWith('inline:') || /^https?:/.test(url))
+    .slice(0, MAX_SCRIPTS)
+    .map(([, load]) => load);
+}
+
+/**
+ * Fetch a script and find its source map URL (comment or `SourceMap` header)
+ */
+function loadScript(url: string): Promise<PageScript | null> {
+  let cached = scriptCache.get(url);
+  if (!cached) {
+    cached = fetch(url, { credentials: 'same-origin' })
+      .then(async (response) => {
+        if (!response.ok) return null;
+        const text = await response.text();
+        const reference =
+          findSourceMappingURL(text) ||
+          response.headers.get('SourceMap') ||
+          response.headers.get('X-SourceMap');
+        return { url, text, mapUrl: resolveMapUrl(reference, url) };
+      })
+      .catch(() => null);
+    scriptCache.set(url, cached);
+  }
+  return cached;
+}
+
+/**
+ * Fetch and decode a source map (`data:` URLs included)
+ */
+function loadSourceMap(url: string): Promise<SourceMap | null> {
+  let cached = mapCache.get(url);
+  if (!cached) {
+    cached = fetch(url, { credentials: 'same-origin' })
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        // Some servers prefix JSON with an XSSI guard
+        const text = (await response.text()).replace(/^\)\]\}'[^\n]*\n/, '');
+        return parseSourceMap(JSON.parse(text));
+      })
+      .catch((error) => {
+        console.warn('React Component Cloner: Failed to load source map', url, error);
+        return null;
+      });
+    mapCache.set(url, cached);
+  }
+  return cached;
+}
+
+/**
+ * Find the last `//# sourceMappingURL=` comment of a script
+ */
+function findSourceMappingURL(text: string): string | null {
+  const matches = Array.from(text.matchAll(/\/\/[#@]\s*sourceMappingURL=(\S+)/g));
+  return matches.length > 0 ? matches[matches.length - 1][1] : null;
+}
+
+/**
+ * Resolve a source map reference against its script's URL
+ */
+function resolveMapUrl(reference: string | null, base: string): string | null {
+  if (!reference) return null;
+  try {
+    return new URL(reference, base).href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a string index to a 1-based line and 0-based column
+ */
+function toLineColumn(text: string, index: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let newline = text.indexOf('\n'); newline !== -1 && newline < index; newline = text.indexOf('\n', newline + 1)) {
+    line++;
+    lineStart = newline + 1;
+  }
+  return { line, column: index - lineStart };
+}
@@ -0,0 +1,234 @@
+/**
+ * Source Map - Decode source maps and look up original positions
+ *
+ * Only what mapping a bundle position back needs: the `mappings` VLQ segments,
+ * sources (resolved against `sourceRoot` and the map's URL), `sourcesContent`
+ * and `names`. Indexed maps (`sections`) are flattened into one map.
+ */
+
+/**
+ * Source map JSON (revision 3)
+ */
+export interface RawSourceMap {
+  version: number;
+  sources?: string[];
+  sourcesContent?: Array<string | null>;
+  sourceRoot?: string;
+  names?: string[];
+  mappings?: string;
+  sections?: Array<{ offset: { line: number; column: number }; map: RawSourceMap }>;
+}
+
+/**
+ * A decoded source map
+ */
+export interface SourceMap {
+  /** Source paths as listed in the map, prefixed with `sourceRoot` */
+  sources: string[];
+  sourcesContent: Array<string | null>;
+  names: string[];
+  /** Segments per generated line, ordered by generated column */
+  lines: MappingSegment[][];
+}
+
+/**
+ * A mapping segment; positions are 0-based
+ */
+export interface MappingSegment {
+  column: number;
+  source: number;
+  line: number;
+  sourceColumn: number;
+  name: number | null;
+}
+
+/**
+ * Original position of a generated position
+ */
+export interface OriginalPosition {
+  /** Index into the map's sources */
+  source: number;
+  /** 1-based line */
+  line: number;
+  /** 0-based column */
+  column: number;
+  /** Original name of the identifier at the position, when the map has one */
+  name: string | null;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_VALUES = new Map(Array.from(BASE64_CHARS, (char, index) => [char, index]));
+
+/**
+ * Decode a source map
+ * @param raw - Source map JSON
+ * @returns Decoded map
+ */
+export function parseSourceMap(raw: RawSourceMap): SourceMap {
+  if (raw.sections) {
+    return flattenSections(raw.sections);
+  }
+
+  const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : '';
+  const sources = (raw.sources || []).map((source) => (root && !/^[a-z][\w+.-]*:/i.test(source) ? root + source : source));
+
+  return {
+    sources,
+    sourcesContent: sources.map((_, index) => raw.sourcesContent?.[index] ?? null),
+    names: raw.names || [],
+    lines: decodeMappings(raw.mappings || ''),
+  };
+}
+
+/**
+ * Find the original position of a generated position
+ * @param map - Decoded map
+ * @param line - 1-based generated line
+ * @param column - 0-based generated column
+ * @param exact - Only accept a segment starting at the column
+ * @returns Original position, or null when the position is unmapped
+ */
+export function originalPositionFor(
+  map: SourceMap,
+  line: number,
+  column: number,
+  exact: boolean = false
+): OriginalPosition | null {
+  const segments = map.lines[line - 1];
+  if (!segments || segments.length === 0) return null;
+
+  // Last segment starting at or before the column
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (segments[middle].column <= column) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  const segment = segments[found];
+  if (!segment || segment.source < 0) return null;
+  if (exact && segment.column !== column) return null;
+
+  return {
+    source: segment.source,
+    line: segment.line + 1,
+    column: segment.sourceColumn,
+    name: segment.name !== null ? map.names[segment.name] ?? null : null,
+  };
+}
+
+/**
+ * Decode the `mappings` field
+ * Fields after the first are relative to the previous segment's; the
+ * generated column restarts on every line.
+ */
+function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let source = 0;
+  let line = 0;
+  let sourceColumn = 0;
+  let name = 0;
+
+  for (const lineText of mappings.split(';')) {
+    const segments: MappingSegment[] = [];
+    let column = 0;
+
+    for (const segmentText of lineText.split(',')) {
+      if (!segmentText) continue;
+
+      const fields = decodeVLQ(segmentText);
+      column += fields[0];
+
+      // Segments with only a column map to nothing
+      if (fields.length < 4) {
+        segments.push({ column, source: -1, line: 0, sourceColumn: 0, name: null });
+        continue;
+      }
+
+      source += fields[1];
+      line += fields[2];
+      sourceColumn += fields[3];
+      if (fields.length > 4) {
+        name += fields[4];
+      }
+
+      segments.push({ column, source, line, sourceColumn, name: fields.length > 4 ? name : null });
+    }
+
+    segments.sort((a, b) => a.column - b.column);
+    lines.push(segments);
+  }
+
+  return lines;
+}
+
+/**
+ * Decode the base64 VLQ values of a segment
+ */
+function decodeVLQ(text: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of text) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid base64 VLQ character: ${char}`);
+    }
+
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+
+    // The lowest bit is the sign
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+}
+
+/**
+ * Flatten the sections of an indexed map into one map
+ */
+function flattenSections(sections: NonNullable<RawSourceMap['sections']>): SourceMap {
+  const flat: SourceMap = { sources: [], sourcesContent: [], names: [], lines: [] };
+
+  for (const { offset, map: raw } of sections) {
+    const map = parseSourceMap(raw);
+    const sourceOffset = flat.sources.length;
+    const nameOffset = flat.names.length;
+
+    flat.sources.push(...map.sources);
+    flat.sourcesContent.push(...map.sourcesContent);
+    flat.names.push(...map.names);
+
+    map.lines.forEach((segments, index) => {
+      const line = offset.line + index;
+      // Only the first line of a section starts at the offset column
+      const columnOffset = index === 0 ? offset.column : 0;
+
+      while (flat.lines.length <= line) flat.lines.push([]);
+      flat.lines[line].push(
+        ...segments.map((segment) => ({
+          ...segment,
+          column: segment.column + columnOffset,
+          source: segment.source < 0 ? -1 : segment.source + sourceOffset,
+          name: segment.name !== null ? segment.name + nameOffset : null,
+        }))
+      );
+    });
+  }
+
+  return flat;
+}
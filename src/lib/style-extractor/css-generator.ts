@@ -2,13 +2,28 @@
  * CSS Generator - Generate CSS code in different formats
  */
 
-import type { StyleStrategy } from '@/types';
+import type {
+  NodeStyle,
+  NodeStyleRule,
+  ResponsiveStyle,
+  StyleSource,
+  StyleStrategy,
+  StyledSource,
+} from '@/types';
+import { cssToTailwind } from './tailwind-converter';
+import { DEFAULT_TAILWIND_THEME, type TailwindTheme } from './tailwind-theme';
 
 export interface CSSGeneratorOptions {
   strategy: StyleStrategy;
   componentName: string;
   includeComments?: boolean;
   prettify?: boolean;
+  /** Emit TypeScript annotations where needed (default: false) */
+  typescript?: boolean;
+  /** Emit computed values or the authored rules of each node (default: computed) */
+  styleSource?: StyleSource;
+  /** Pseudo-element and state styles of the element (see ExtractedStyles.pseudo) */
+  pseudo?: Record<string, Record<string, string>>;
 }
 
 /**
@@ -18,20 +33,20 @@ export function generateCSS(
   styles: Record<string, string>,
   options: CSSGeneratorOptions
 ): string {
-  const { strategy, componentName, includeComments = true } = options;
+  const { strategy, componentName, includeComments = true, pseudo = {} } = options;
 
   switch (strategy) {
     case 'inline':
       return generateInlineStyles(styles, componentName, includeComments);
     case 'css-module':
-      return generateCSSModule(styles, componentName, includeComments);
+      return generateCSSModule(styles, componentName, includeComments, pseudo);
     case 'styled-components':
-      return generateStyledComponents(styles, componentName, includeComments);
+      return generateStyledComponents(styles, componentName, includeComments, pseudo);
     case 'tailwind':
       return ''; // Tailwind uses utility classes, no CSS generation needed
     case 'plain-css':
     default:
-      return generatePlainCSS(styles, componentName, includeComments);
+      return generatePlainCSS(styles, componentName, includeComments, pseudo);
   }
 }
 
@@ -61,7 +76,8 @@ export function generateInlineStyles(
 export function generateCSSModule(
   styles: Record<string, string>,
   componentName: string,
-  includeComments: boolean
+  includeComments: boolean,
+  pseudo: Record<string, Record<string, string>> = {}
 ): string {
   const className = componentName.toLowerCase();
   const comment = includeComments
@@ -72,26 +88,39 @@ export function generateCSSModule(
     .map(([property, value]) => `  ${property}: ${value};`)
     .join('\n');
 
-  return `${comment}.${className} {\n${cssProperties}\n}`;
+  return `${comment}.${className} {\n${cssProperties}\n}${generatePseudoRules(className, pseudo)}`;
 }
 
 /**
  * Generate styled-components code
+ * States and pseudo-elements become nested `&:hover` / `&::before` blocks.
+ * With the component's original definition (see StyledSource) its template
+ * is emitted instead of the computed styles.
  */
 export function generateStyledComponents(
   styles: Record<string, string>,
   componentName: string,
-  includeComments: boolean
+  includeComments: boolean,
+  pseudo: Record<string, Record<string, string>> = {},
+  source?: StyledSource
 ): string {
   const comment = includeComments
     ? `// Styled component for ${componentName}\n`
     : '';
 
+  if (source) {
+    return `${comment}${generateStyledSource(`Styled${componentName}`, source)}`;
+  }
+
   const cssProperties = Object.entries(styles)
     .map(([property, value]) => `  ${property}: ${value};`)
     .join('\n');
 
-  return `${comment}const Styled${componentName} = styled.div\`\n${cssProperties}\n\`;`;
+  const nested = Object.entries(pseudo)
+    .map(([suffix, pseudoStyles]) => `\n\n${indent(formatBlock(`&${suffix}`, formatDeclarations(pseudoStyles)))}`)
+    .join('');
+
+  return `${comment}const Styled${componentName} = styled.div\`\n${cssProperties}${nested}\n\`;`;
 }
 
 /**
@@ -100,7 +129,8 @@ export function generateStyledComponents(
 export function generatePlainCSS(
   styles: Record<string, string>,
   componentName: string,
-  includeComments: boolean
+  includeComments: boolean,
+  pseudo: Record<string, Record<string, string>> = {}
 ): string {
   const className = componentName.toLowerCase();
   const comment = includeComments ? `/* ${componentName} styles */\n\n` : '';
@@ -109,7 +139,314 @@ export function generatePlainCSS(
     .map(([property, value]) => `  ${property}: ${value};`)
     .join('\n');
 
-  return `${comment}.${className} {\n${cssProperties}\n}`;
+  return `${comment}.${className} {\n${cssProperties}\n}${generatePseudoRules(className, pseudo)}`;
+}
+
+/**
+ * Generate `.class:hover` / `.class::before` rules for pseudo styles
+ */
+function generatePseudoRules(
+  className: string,
+  pseudo: Record<string, Record<string, string>>
+): string {
+  return Object.entries(pseudo)
+    .map(([suffix, pseudoStyles]) => `\n\n${formatBlock(`.${className}${suffix}`, formatDeclarations(pseudoStyles))}`)
+    .join('');
+}
+
+/**
+ * Generate styles for every host element of a subtree
+ * CSS Modules and plain CSS produce one rule per class, styled-components one
+ * styled element per class, and inline a `styles` object keyed by class.
+ * With authored rules, states, pseudo-elements and at-rules become extra
+ * blocks (nested for styled-components); inline styles cannot express them
+ * and keep the element's own declarations only.
+ * @param nodeStyles - Unique node styles (see getUniqueNodeStyles)
+ * @param options - Generator options
+ * @returns Generated code
+ */
+export function generateNodeStylesCSS(
+  nodeStyles: NodeStyle[],
+  options: CSSGeneratorOptions
+): string {
+  const {
+    strategy,
+    componentName,
+    includeComments = true,
+    typescript = false,
+    styleSource = 'computed',
+  } = options;
+
+  switch (strategy) {
+    case 'inline': {
+      const comment = includeComments ? `// Inline styles for ${componentName}\n` : '';
+      const entries = nodeStyles.map((nodeStyle) => {
+        const [base] = getNodeRules(nodeStyle, styleSource);
+        const properties = Object.entries(base.styles)
+          .map(([property, value]) => {
+            const key = property.startsWith('--') ? `'${property}'` : kebabToCamel(property);
+            const inlineValue = value.replace(/\s*!\s*important$/i, '').replace(/'/g, "\\'");
+            return `    ${key}: '${inlineValue}'`;
+          })
+          .join(',\n');
+        return properties
+          ? `  ${nodeStyle.className}: {\n${properties},\n  }`
+          : `  ${nodeStyle.className}: {}`;
+      });
+      const annotation = typescript ? ': Record<string, React.CSSProperties>' : '';
+      return `${comment}const styles${annotation} = {\n${entries.join(',\n')},\n};`;
+    }
+
+    case 'styled-components': {
+      const comment = includeComments ? `// Styled elements for ${componentName}\n` : '';
+      const components = nodeStyles.map((nodeStyle) => {
+        const blocks = getNodeRules(nodeStyle, styleSource)
+          .filter((rule) => Object.keys(rule.styles).length > 0)
+          .map((rule) => {
+            const properties = formatDeclarations(rule.styles);
+            const block = rule.pseudo ? formatBlock(`&${rule.pseudo}`, properties) : properties;
+            return indent(wrapConditions(block, rule.conditions));
+          });
+        const name = getStyledComponentName(nodeStyle.className);
+        return `const ${name} = styled.${nodeStyle.tag}\`\n${blocks.join('\n\n')}\n\`;`;
+      });
+      return `${comment}${components.join('\n\n')}`;
+    }
+
+    case 'tailwind':
+      return '';
+
+    case 'css-module':
+    case 'plain-css':
+    default: {
+      const comment = includeComments
+        ? strategy === 'css-module'
+          ? `/* ${componentName}.module.css */\n\n`
+          : `/* ${componentName} styles */\n\n`
+        : '';
+      const rules = nodeStyles.flatMap((nodeStyle) =>
+        getNodeRules(nodeStyle, styleSource)
+          .filter((rule) => Object.keys(rule.styles).length > 0)
+          .map((rule) => {
+            const block = formatBlock(`.${nodeStyle.className}${rule.pseudo}`, formatDeclarations(rule.styles));
+            return wrapConditions(block, rule.conditions);
+          })
+      );
+      return `${comment}${rules.join('\n\n')}`;
+    }
+  }
+}
+
+/**
+ * Get the style blocks of a node; the first one is the element's own
+ * Falls back to computed styles when no rules were captured.
+ */
+function getNodeRules(nodeStyle: NodeStyle, styleSource: StyleSource): NodeStyleRule[] {
+  if (styleSource === 'rules' && nodeStyle.rules && nodeStyle.rules.length > 0) {
+    return nodeStyle.rules;
+  }
+  return [
+    { pseudo: '', conditions: [], styles: nodeStyle.styles },
+    ...Object.entries(nodeStyle.pseudo || {}).map(([pseudo, styles]) => ({
+      pseudo,
+      conditions: [],
+      styles,
+    })),
+    ...(nodeStyle.responsive || []).map(({ minWidth, styles }) => ({
+      pseudo: '',
+      conditions: [`@media (min-width: ${minWidth}px)`],
+      styles,
+    })),
+  ];
+}
+
+/**
+ * Format declarations as `property: value;` lines
+ */
+function formatDeclarations(styles: Record<string, string>): string {
+  return Object.entries(styles)
+    .map(([property, value]) => `${property}: ${value};`)
+    .join('\n');
+}
+
+/**
+ * Format a block with an indented body
+ */
+function formatBlock(selector: string, body: string): string {
+  return `${selector} {\n${indent(body)}\n}`;
+}
+
+/**
+ * Wrap a block in its at-rules, outermost first
+ */
+function wrapConditions(block: string, conditions: string[]): string {
+  return conditions.reduceRight((inner, condition) => formatBlock(condition, inner), block);
+}
+
+/**
+ * Indent every non-empty line by two spaces
+ */
+function indent(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `  ${line}` : line))
+    .join('\n');
+}
+
+/**
+ * Get the styled-components element name for a generated class
+ * @param className - Generated class name
+ * @returns Component name, e.g. `StyledCardHeader`
+ */
+export function getStyledComponentName(className: string): string {
+  return `Styled${className.charAt(0).toUpperCase()}${className.slice(1)}`;
+}
+
+/**
+ * Get a component name for a recovered styled definition
+ * @param source - Styled source
+ * @returns Name from the display name (`styled.div` → `StyledDiv`), or from the tag
+ */
+export function getStyledSourceName(source: StyledSource): string {
+  const words = (source.displayName || '')
+    .replace(/-sc-[\w-]*$/, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  const name = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+
+  return /^[A-Z]/.test(name) ? name : `Styled${source.tag.charAt(0).toUpperCase()}${source.tag.slice(1)}`;
+}
+
+/**
+ * Get a key identifying a styled definition (instances share it)
+ */
+export function getStyledSourceKey(source: StyledSource): string {
+  return source.componentId || JSON.stringify([source.library, source.tag, source.displayName, source.template]);
+}
+
+/**
+ * Generate the original `styled.tag\`...\`` definition of a styled component
+ * Self-contained interpolations stay functions of props; others are replaced
+ * by the CSS they produced for the captured props.
+ * @param name - Component name
+ * @param source - Styled source (see StyledSource)
+ * @param typescript - Type the props of prop-driven templates (default: false)
+ * @returns Definition code
+ */
+export function generateStyledSource(
+  name: string,
+  source: StyledSource,
+  typescript: boolean = false
+): string {
+  const functions: string[] = [];
+  let css = '';
+
+  for (const part of source.template) {
+    if (part.type === 'css') {
+      css += part.text;
+    } else if (part.source) {
+      css += `\uE000${functions.length}\uE000`;
+      functions.push(part.source);
+    } else {
+      css += part.value || '/* unresolved interpolation */';
+    }
+  }
+
+  const body = formatTemplateCSS(css)
+    .replace(/\\/g, '\\\\')
+    .replace(/`/g, '\\`')
+    .replace(/\$\{/g, '\\${')
+    .replace(/\uE000(\d+)\uE000/g, (_, index) => `\${${functions[Number(index)]}}`);
+
+  const attrs = source.attrs
+    .map((attr) => `.attrs(${attr.source || toObjectLiteral(attr.value)})`)
+    .join('');
+  const generic = typescript && functions.length > 0 ? '<Record<string, any>>' : '';
+
+  return `const ${name} = styled.${source.tag}${attrs}${generic}\`\n${body}\n\`;`;
+}
+
+/**
+ * Format template CSS one declaration per line, indented by nesting
+ * Interpolation placeholders standing alone (mixins) get their own line.
+ */
+function formatTemplateCSS(css: string): string {
+  const lines: string[] = [];
+  let depth = 1;
+  let line = '';
+  let parens = 0;
+  let quote = '';
+
+  const flush = (lineDepth: number = depth) => {
+    const text = line.trim().replace(/^([\w-]+)\s*:\s*/, '$1: ');
+    if (text) lines.push('  '.repeat(lineDepth) + text);
+    line = '';
+  };
+
+  const text = css.replace(/\s+/g, ' ');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      line += char;
+      if (char === quote && text[i - 1] !== '\\') quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      line += char;
+    } else if (char === '(') {
+      parens++;
+      line += char;
+    } else if (char === ')') {
+      parens--;
+      line += char;
+    } else if (char === '\uE000') {
+      const end = text.indexOf('\uE000', i + 1);
+      const rest = text.slice(end + 1);
+      // At the start of a statement and not a property name: a mixin
+      const standalone = !line.trim() && !/^\s*:/.test(rest);
+      line += text.slice(i, end + 1);
+      i = end;
+      if (standalone) {
+        const semicolon = rest.match(/^\s*;/);
+        if (semicolon) {
+          line += ';';
+          i += semicolon[0].length;
+        }
+        flush();
+      }
+    } else if (parens > 0) {
+      line += char;
+    } else if (char === ';') {
+      line += ';';
+      flush();
+    } else if (char === '{') {
+      line = `${line.trim()} {`;
+      flush();
+      depth++;
+    } else if (char === '}') {
+      flush();
+      depth = Math.max(1, depth - 1);
+      line = '}';
+      flush();
+    } else {
+      line += char;
+    }
+  }
+  flush();
+
+  return lines.join('\n');
+}
+
+/**
+ * Write a plain object as a JS object literal
+ */
+function toObjectLiteral(value: Record<string, unknown>): string {
+  const entries = Object.entries(value).map(([key, entry]) => {
+    const property = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+    const literal = typeof entry === 'string' ? `'${entry.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(entry);
+    return `${property}: ${literal}`;
+  });
+  return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
 }
 
 /**
@@ -192,101 +529,109 @@ export function generateResponsiveCSS(
 }
 
 /**
- * Generate Tailwind classes approximation
+ * Tailwind variants for pseudo-element and state selector suffixes
+ */
+const TAILWIND_VARIANTS: Record<string, string> = {
+  ':hover': 'hover',
+  ':focus': 'focus',
+  ':focus-visible': 'focus-visible',
+  ':focus-within': 'focus-within',
+  ':active': 'active',
+  ':visited': 'visited',
+  ':disabled': 'disabled',
+  '::before': 'before',
+  '::after': 'after',
+};
+
+/**
+ * Generate Tailwind classes
+ * Values are snapped to the theme (see cssToTailwind). Pseudo styles get
+ * variant prefixes (`hover:bg-...`, `before:content-[...]`) and responsive
+ * styles breakpoint prefixes (`md:flex-row`).
  */
 export function generateTailwindClasses(
-  styles: Record<string, string>
+  styles: Record<string, string>,
+  pseudo: Record<string, Record<string, string>> = {},
+  responsive: ResponsiveStyle[] = [],
+  theme: TailwindTheme = DEFAULT_TAILWIND_THEME
 ): string[] {
-  const classes: string[] = [];
+  const classes = cssToTailwind(styles, theme);
 
-  // Map common CSS properties to Tailwind classes
-  const tailwindMap: Record<string, (value: string) => string | null> = {
-    display: (v) => {
-      const map: Record<string, string> = {
-        flex: 'flex',
-        'inline-flex': 'inline-flex',
-        block: 'block',
-        'inline-block': 'inline-block',
-        grid: 'grid',
-        hidden: 'hidden',
-      };
-      return map[v] || null;
-    },
-    'flex-direction': (v) => {
-      const map: Record<string, string> = {
-        row: 'flex-row',
-        'row-reverse': 'flex-row-reverse',
-        column: 'flex-col',
-        'column-reverse': 'flex-col-reverse',
-      };
-      return map[v] || null;
-    },
-    'justify-content': (v) => {
-      const map: Record<string, string> = {
-        'flex-start': 'justify-start',
-        'flex-end': 'justify-end',
-        center: 'justify-center',
-        'space-between': 'justify-between',
-        'space-around': 'justify-around',
-      };
-      return map[v] || null;
-    },
-    'align-items': (v) => {
-      const map: Record<string, string> = {
-        'flex-start': 'items-start',
-        'flex-end': 'items-end',
-        center: 'items-center',
-        baseline: 'items-baseline',
-        stretch: 'items-stretch',
-      };
-      return map[v] || null;
-    },
-    'text-align': (v) => {
-      const map: Record<string, string> = {
-        left: 'text-left',
-        center: 'text-center',
-        right: 'text-right',
-        justify: 'text-justify',
-      };
-      return map[v] || null;
-    },
-    'font-weight': (v) => {
-      const map: Record<string, string> = {
-        '100': 'font-thin',
-        '200': 'font-extralight',
-        '300': 'font-light',
-        '400': 'font-normal',
-        '500': 'font-medium',
-        '600': 'font-semibold',
-        '700': 'font-bold',
-        '800': 'font-extrabold',
-        '900': 'font-black',
-      };
-      return map[v] || null;
-    },
-    'border-radius': (v) => {
-      if (v === '0px') return null;
-      if (v === '0.25rem') return 'rounded';
-      if (v === '0.375rem') return 'rounded-md';
-      if (v === '0.5rem') return 'rounded-lg';
-      if (v === '9999px') return 'rounded-full';
-      return null;
-    },
-  };
+  for (const [suffix, pseudoStyles] of Object.entries(pseudo)) {
+    const prefix = getPseudoVariantPrefix(suffix);
+    if (prefix === null) continue;
+    classes.push(...cssToTailwind(pseudoStyles, theme).map((cls) => `${prefix}${cls}`));
+  }
 
-  for (const [property, mapper] of Object.entries(tailwindMap)) {
-    const value = styles[property];
-    if (value) {
-      const tailwindClass = mapper(value);
-      if (tailwindClass) {
-        classes.push(tailwindClass);
-      }
-    }
+  for (const breakpoint of responsive) {
+    classes.push(...cssToTailwind(breakpoint.styles, theme).map((cls) => `${breakpoint.name}:${cls}`));
   }
 
   return classes;
 }
 
+/**
+ * Generate the Tailwind classes of a host element
+ * Every style block becomes classes with variant prefixes; blocks whose
+ * state or condition has no variant are left out.
+ * @param nodeStyle - Node style
+ * @param options - Style source and theme to snap values to
+ * @returns Space-separated classes
+ */
+export function generateNodeTailwindClasses(
+  nodeStyle: NodeStyle,
+  options: { styleSource?: StyleSource; theme?: TailwindTheme } = {}
+): string {
+  const { styleSource = 'computed', theme = DEFAULT_TAILWIND_THEME } = options;
+  const classes: string[] = [];
+
+  for (const rule of getNodeRules(nodeStyle, styleSource)) {
+    const pseudoPrefix = getPseudoVariantPrefix(rule.pseudo);
+    const conditionVariants = rule.conditions.map((condition) => getConditionVariant(condition, theme));
+    if (pseudoPrefix === null || conditionVariants.includes(null)) continue;
+
+    // Tailwind applies responsive and media variants outside state variants
+    const prefix = conditionVariants.map((variant) => `${variant}:`).join('') + pseudoPrefix;
+    classes.push(...cssToTailwind(rule.styles, theme).map((cls) => `${prefix}${cls}`));
+  }
+
+  return classes.join(' ');
+}
+
+/**
+ * Get the variant prefix for states and a pseudo-element (`:hover::before` → `hover:before:`)
+ * @returns Prefix, or null if a part has no variant
+ */
+function getPseudoVariantPrefix(pseudo: string): string | null {
+  const variants = pseudo.match(/::?[\w-]+/g) || [];
+  if (variants.some((variant) => !TAILWIND_VARIANTS[variant])) return null;
+  return variants.map((variant) => `${TAILWIND_VARIANTS[variant]}:`).join('');
+}
+
+/**
+ * Get the variant for an at-rule condition (`@media (min-width: 768px)` → `md`)
+ * @returns Variant, or null if the condition has none
+ */
+function getConditionVariant(condition: string, theme: TailwindTheme): string | null {
+  const minWidth = condition.match(/^@media \(min-width: ?([\d.]+)px\)$/);
+  if (minWidth) {
+    const width = Number(minWidth[1]);
+    const screen = Object.entries(theme.screens).find(([, screenWidth]) => screenWidth === width)?.[0];
+    return screen || `min-[${width}px]`;
+  }
+
+  const maxWidth = condition.match(/^@media \(max-width: ?([\d.]+)px\)$/);
+  if (maxWidth) return `max-[${maxWidth[1]}px]`;
+
+  const mediaVariants: Record<string, string> = {
+    '@media (prefers-color-scheme: dark)': 'dark',
+    '@media (prefers-reduced-motion: reduce)': 'motion-reduce',
+    '@media (prefers-reduced-motion: no-preference)': 'motion-safe',
+    '@media print': 'print',
+  };
+  return mediaVariants[condition] || null;
+}
+
 /**
  * Generate CSS-in-JS object (for React)
  */
@@ -0,0 +1,318 @@
+/**
+ * CSS Modules - Map hashed CSS Modules classes back to their source modules
+ *
+ * Bundlers compile the classes of `Button.module.css` to names like
+ * `Button_primary__2x3y4` (`[name]_[local]__[hash]`). The hashed classes of a
+ * subtree are mapped back to their local names, and the page's rules for the
+ * same modules are gathered with local names so the module can be
+ * regenerated. `composes` is recovered from class lists: CSS Modules put a
+ * class first, followed by every class it composes.
+ */
+
+import type { CSSModuleReport, CSSModuleRule } from '@/types';
+import {
+  parseDeclarations,
+  getStyleScope,
+  getScopeStyleSheets,
+  isCSSRule,
+  isGroupingRule,
+} from './rule-matcher';
+
+/**
+ * CSS Modules class names: `File_local__hash`
+ */
+const CSS_MODULE_CLASS_PATTERN = /^([A-Za-z0-9-]+)_([A-Za-z][\w-]*?)__[\w-]{5,}$/;
+
+/**
+ * Class selectors, escaped as in `selectorText`
+ */
+const CLASS_SELECTOR_PATTERN = /\.((?:\\[0-9a-fA-F]{1,6}\s?|\\.|[\w-])+)/g;
+
+/**
+ * Parse a CSS Modules class name
+ * @param cls - Class name, e.g. `Button_primary__2x3y4`
+ * @returns Module file and local name, or null for other classes
+ */
+export function parseCSSModuleClass(cls: string): { file: string; local: string } | null {
+  const match = cls.match(CSS_MODULE_CLASS_PATTERN);
+  return match ? { file: match[1], local: match[2] } : null;
+}
+
+/**
+ * Map the CSS Modules classes of a subtree back to their modules
+ * @param elements - Elements of the subtree, in document order
+ * @returns Local names, compositions and rules, or null without module classes
+ */
+export function analyzeCSSModules(elements: Element[]): CSSModuleReport | null {
+  const classLists = elements.map((element) =>
+    Array.from(element.classList).filter((cls) => parseCSSModuleClass(cls))
+  );
+  const usedClasses = Array.from(new Set(classLists.flat()));
+  if (usedClasses.length === 0) return null;
+
+  const files = new Set(usedClasses.map((cls) => parseCSSModuleClass(cls)!.file));
+  const classes = createLocalNames();
+  const keyframes = createLocalNames();
+
+  // Names follow document order, so the same subtree always yields the same names
+  usedClasses.forEach((cls) => classes.get(cls));
+
+  const { rules, resolved } = collectModuleRules(getStyleScope(elements[0]), files, classes.get, keyframes.get);
+  renameAnimations(rules, keyframes.names);
+
+  const composes = findCompositions(classLists, classes.names);
+  addCompositions(rules, composes);
+
+  const unresolved = usedClasses.filter((cls) => !resolved.has(cls));
+  if (unresolved.length > 0) {
+    console.warn(
+      `React Component Cloner: ${unresolved.length} CSS Modules class(es) have no rule in the page's stylesheets:`,
+      unresolved.join(' ')
+    );
+  }
+
+  return { classes: classes.names, composes, rules, unresolved };
+}
+
+/**
+ * Generate the source of a CSS module from a report
+ * @param report - CSS Modules report (see analyzeCSSModules)
+ * @returns Module source with local class names
+ */
+export function generateCSSModuleSource(report: CSSModuleReport): string {
+  const lines: string[] = [];
+  let open: string[] = [];
+
+  const indent = (level: number) => '  '.repeat(level);
+
+  for (const rule of report.rules) {
+    let common = 0;
+    while (common < open.length && open[common] === rule.conditions[common]) {
+      common++;
+    }
+
+    for (let level = open.length - 1; level >= common; level--) {
+      lines.push(`${indent(level)}}`);
+    }
+    if (common === 0 && lines.length > 0) {
+      lines.push('');
+    }
+    for (let level = common; level < rule.conditions.length; level++) {
+      lines.push(`${indent(level)}${rule.conditions[level]} {`);
+    }
+    open = rule.conditions;
+
+    const level = open.length;
+    lines.push(`${indent(level)}${rule.selector} {`);
+    for (const [property, value] of Object.entries(rule.styles)) {
+      lines.push(`${indent(level + 1)}${property}: ${value};`);
+    }
+    lines.push(`${indent(level)}}`);
+  }
+
+  for (let level = open.length - 1; level >= 0; level--) {
+    lines.push(`${indent(level)}}`);
+  }
+
+  if (report.unresolved.length > 0) {
+    lines.push('');
+    lines.push("/* Classes without a rule in the page's stylesheets (cross-origin sheets or script hooks): */");
+    lines.push(`/* ${Object.entries(report.classes)
+      .filter(([cls]) => report.unresolved.includes(cls))
+      .map(([, local]) => `.${local}`)
+      .join(' ')} */`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Assigns unique local names to hashed names (`root`, `root2` across modules)
+ */
+function createLocalNames(): { names: Record<string, string>; get: (hashed: string) => string } {
+  const names: Record<string, string> = {};
+  const counts = new Map<string, number>();
+
+  const get = (hashed: string): string => {
+    if (names[hashed]) return names[hashed];
+
+    const base = parseCSSModuleClass(hashed)?.local || hashed;
+    const count = (counts.get(base) || 0) + 1;
+    counts.set(base, count);
+
+    names[hashed] = count === 1 ? base : `${base}${count}`;
+    return names[hashed];
+  };
+
+  return { names, get };
+}
+
+/**
+ * Collect the rules of the given modules in source order, with local names
+ */
+function collectModuleRules(
+  scope: Document | ShadowRoot,
+  files: Set<string>,
+  getClassName: (hashed: string) => string,
+  getKeyframesName: (hashed: string) => string
+): { rules: CSSModuleRule[]; resolved: Set<string> } {
+  const rules: CSSModuleRule[] = [];
+  const resolved = new Set<string>();
+
+  const readSheet = (sheet: CSSStyleSheet, conditions: string[]) => {
+    try {
+      collectRules(sheet.cssRules, conditions);
+    } catch {
+      // Cross-origin stylesheets do not expose their rules
+    }
+  };
+
+  const collectRules = (cssRules: CSSRuleList, conditions: string[]) => {
+    for (const rule of Array.from(cssRules)) {
+      if (isCSSRule(rule, 'CSSStyleRule')) {
+        addStyleRule(rule, conditions);
+      } else if (isCSSRule(rule, 'CSSKeyframesRule')) {
+        addKeyframes(rule, conditions);
+      } else if (isCSSRule(rule, 'CSSMediaRule')) {
+        collectRules(rule.cssRules, [...conditions, `@media ${rule.media.mediaText}`]);
+      } else if (isCSSRule(rule, 'CSSContainerRule')) {
+        const name = rule.containerName ? `${rule.containerName} ` : '';
+        collectRules(rule.cssRules, [...conditions, `@container ${name}${rule.containerQuery}`]);
+      } else if (isCSSRule(rule, 'CSSSupportsRule')) {
+        collectRules(rule.cssRules, [...conditions, `@supports ${rule.conditionText}`]);
+      } else if (isCSSRule(rule, 'CSSImportRule')) {
+        if (rule.styleSheet) readSheet(rule.styleSheet, conditions);
+      } else if (isGroupingRule(rule)) {
+        // @layer blocks and other groupings without a condition
+        collectRules(rule.cssRules, conditions);
+      }
+    }
+  };
+
+  const addStyleRule = (rule: CSSStyleRule, conditions: string[]) => {
+    const selectorClasses = Array.from(rule.selectorText.matchAll(CLASS_SELECTOR_PATTERN), (match) =>
+      unescapeClass(match[1])
+    );
+    const moduleClasses = selectorClasses.filter((cls) => {
+      const parsed = parseCSSModuleClass(cls);
+      return parsed && files.has(parsed.file);
+    });
+    if (moduleClasses.length === 0) return;
+
+    moduleClasses.forEach((cls) => resolved.add(cls));
+
+    // Other modules' classes are local too; anything else is global
+    const selector = rule.selectorText.replace(CLASS_SELECTOR_PATTERN, (match, escaped: string) => {
+      const cls = unescapeClass(escaped);
+      return parseCSSModuleClass(cls) ? `.${getClassName(cls)}` : `:global(${match})`;
+    });
+
+    rules.push({ selector, conditions, styles: parseDeclarations(rule.style.cssText) });
+  };
+
+  const addKeyframes = (rule: CSSKeyframesRule, conditions: string[]) => {
+    const parsed = parseCSSModuleClass(rule.name);
+    if (!parsed || !files.has(parsed.file)) return;
+
+    const name = getKeyframesName(rule.name);
+    for (const keyframe of Array.from(rule.cssRules) as CSSKeyframeRule[]) {
+      rules.push({
+        selector: keyframe.keyText,
+        conditions: [...conditions, `@keyframes ${name}`],
+        styles: parseDeclarations(keyframe.style.cssText),
+      });
+    }
+  };
+
+  for (const sheet of getScopeStyleSheets(scope)) {
+    readSheet(sheet, []);
+  }
+
+  return { rules, resolved };
+}
+
+/**
+ * Point animations at the local keyframes names
+ */
+function renameAnimations(rules: CSSModuleRule[], keyframes: Record<string, string>): void {
+  const entries = Object.entries(keyframes);
+  if (entries.length === 0) return;
+
+  for (const rule of rules) {
+    for (const property of ['animation', 'animation-name']) {
+      let value = rule.styles[property];
+      if (!value) continue;
+
+      for (const [hashed, local] of entries) {
+        value = value.replace(new RegExp(`(?<![\\w-])${hashed}(?![\\w-])`, 'g'), local);
+      }
+      rule.styles[property] = value;
+    }
+  }
+}
+
+/**
+ * Find compositions: a class composes the classes of its module that follow
+ * it on every element it is used on
+ * @returns Local classes each local class composes
+ */
+function findCompositions(
+  classLists: string[][],
+  localNames: Record<string, string>
+): Record<string, string[]> {
+  const following = new Map<string, string[]>();
+
+  for (const list of classLists) {
+    list.forEach((cls, index) => {
+      const file = parseCSSModuleClass(cls)!.file;
+      const after = list.slice(index + 1).filter((other) => parseCSSModuleClass(other)!.file === file);
+      const previous = following.get(cls);
+      following.set(cls, previous ? previous.filter((other) => after.includes(other)) : after);
+    });
+  }
+
+  const composes: Record<string, string[]> = {};
+  for (const [cls, candidates] of following) {
+    // Classes composed through another composed class are not repeated
+    const direct = candidates.filter(
+      (candidate) => !candidates.some((other) => other !== candidate && following.get(other)?.includes(candidate))
+    );
+    if (direct.length > 0) {
+      composes[localNames[cls]] = direct.map((candidate) => localNames[candidate]);
+    }
+  }
+
+  return composes;
+}
+
+/**
+ * Add `composes` declarations to the rules of composing classes
+ */
+function addCompositions(rules: CSSModuleRule[], composes: Record<string, string[]>): void {
+  for (const [local, composed] of Object.entries(composes)) {
+    const selector = `.${local}`;
+    const declaration = { composes: composed.join(' ') };
+
+    // `composes` is only allowed in rules for a single class
+    const own = rules.find((rule) => rule.selector === selector && rule.conditions.length === 0);
+    if (own) {
+      own.styles = { ...declaration, ...own.styles };
+      continue;
+    }
+
+    const mentions = new RegExp(`\\.${local}(?![\\w-])`);
+    const index = rules.findIndex((rule) => mentions.test(rule.selector));
+    rules.splice(index === -1 ? rules.length : index, 0, { selector, conditions: [], styles: declaration });
+  }
+}
+
+/**
+ * Unescape a class from selector text (`md\:p-4` → `md:p-4`)
+ */
+function unescapeClass(escaped: string): string {
+  return escaped.replace(/\\([0-9a-fA-F]{1,6}\s?|.)/g, (_, sequence: string) =>
+    /^[0-9a-fA-F]{1,6}\s?$/.test(sequence)
+      ? String.fromCodePoint(parseInt(sequence, 16))
+      : sequence
+  );
+}
@@ -7,6 +7,8 @@ export {
   extractStyles,
   extractInlineStyles,
   extractComputedStyles,
+  extractPseudoElementStyles,
+  extractStateStyles,
   extractClasses,
   detectStyleStrategy,
   extractBackgroundImages,
@@ -28,9 +30,55 @@ export {
   generateNestedCSS,
   generateResponsiveCSS,
   generateTailwindClasses,
+  generateNodeTailwindClasses,
   generateCSSInJS,
   optimizeCSS,
   groupCSSProperties,
   camelToKebab,
+  generateNodeStylesCSS,
+  getStyledComponentName,
+  getStyledSourceName,
+  getStyledSourceKey,
+  generateStyledSource,
   type CSSGeneratorOptions,
 } from './css-generator';
+
+// Per-node styles
+export {
+  extractNodeStyles,
+  getUniqueNodeStyles,
+  ROOT_CLASS_NAME,
+} from './node-styles';
+
+// Stylesheet rule matching
+export {
+  matchStyleRules,
+  parseDeclarations,
+  getCustomPropertyReferences,
+  resolveVarReferences,
+} from './rule-matcher';
+
+// Responsive capture
+export {
+  captureResponsiveStyles,
+  getResponsiveCaptureWarning,
+  DEFAULT_BREAKPOINTS,
+  type Breakpoint,
+  type ResponsiveCapture,
+  type ResponsiveCaptureOptions,
+} from './responsive';
+
+// Tailwind conversion
+export { cssToTailwind, parseColor } from './tailwind-converter';
+export {
+  DEFAULT_TAILWIND_THEME,
+  resolveTailwindTheme,
+  toPixels,
+  type TailwindTheme,
+  type TailwindThemeConfig,
+  type TailwindFontSize,
+} from './tailwind-theme';
+export { analyzeTailwindClasses, generateTailwindConfig } from './tailwind-passthrough';
+
+// CSS Modules
+export { analyzeCSSModules, generateCSSModuleSource, parseCSSModuleClass } from './css-modules';
@@ -0,0 +1,250 @@
+/**
+ * Node Styles - Extract styles for every host element of a snapshot subtree
+ *
+ * Each host element gets a generated class name. Names are derived from the
+ * element's original class (or its tag) in depth-first order, so the same
+ * subtree always yields the same names. Elements with the same tag, base name
+ * and styles share one class.
+ *
+ * Next to the computed styles, the authored stylesheet rules matching each
+ * element are recorded so generators can emit either (see StyleSource).
+ *
+ * Elements rendered through a portal inherit from the portal's container,
+ * not from the component. Generated portals render into `document.body`, so
+ * the outermost ones keep what they inherited, like the root does.
+ */
+
+import type { FiberSnapshot, NodeStyle, NodeStyleRule } from '@/types';
+import {
+  extractComputedStyles,
+  extractPseudoElementStyles,
+  extractStateStyles,
+} from './style-extractor';
+import { optimizeCSS } from './css-generator';
+import { matchStyleRules, getCustomPropertyReferences } from './rule-matcher';
+import { parseCSSModuleClass } from './css-modules';
+
+/**
+ * Class name of the component's root element
+ */
+export const ROOT_CLASS_NAME = 'root';
+
+/**
+ * Properties children inherit from their parent by default
+ */
+const INHERITED_PROPERTIES = [
+  'color',
+  'cursor',
+  'font-family',
+  'font-size',
+  'font-style',
+  'font-weight',
+  'letter-spacing',
+  'line-height',
+  'text-align',
+  'text-transform',
+  'visibility',
+  'white-space',
+  'word-break',
+  'word-wrap',
+];
+
+/**
+ * Class name prefixes of CSS-in-JS libraries (generated, not meaningful)
+ */
+const GENERATED_CLASS_PATTERN = /^(css|sc|jss|emotion|makeStyles|tw)-/i;
+
+/**
+ * Extract styles for every host element in a snapshot subtree
+ * @param snapshot - Root snapshot node
+ * @param resolveElement - Resolves node ids to live DOM elements
+ * @returns Node styles keyed by node id
+ */
+export function extractNodeStyles(
+  snapshot: FiberSnapshot,
+  resolveElement: (nodeId: string) => HTMLElement | null
+): Record<string, NodeStyle> {
+  const entries: Array<{ nodeId: string; element: HTMLElement; tag: string; styles: Record<string, string> }> = [];
+  // Outermost elements inside each portal
+  const portalRoots: HTMLElement[] = [];
+
+  const walk = (node: FiberSnapshot, parent: CSSStyleDeclaration | null, inPortal: boolean) => {
+    let computed = parent;
+    let childInPortal = inPortal;
+
+    if (node.portalContainer) {
+      computed = null;
+      childInPortal = true;
+    }
+
+    // Only host elements rendered in place have node ids
+    if (node.nodeId) {
+      const element = resolveElement(node.nodeId);
+      if (element) {
+        const styles = optimizeCSS(extractComputedStyles(element));
+        computed = window.getComputedStyle(element);
+
+        // Inherited values equal to the parent's come for free
+        if (parent) {
+          for (const property of INHERITED_PROPERTIES) {
+            if (styles[property] === parent.getPropertyValue(property)) {
+              delete styles[property];
+            }
+          }
+        }
+
+        entries.push({ nodeId: node.nodeId, element, tag: element.tagName.toLowerCase(), styles });
+        if (inPortal) portalRoots.push(element);
+        childInPortal = false;
+      }
+    }
+
+    for (const child of node.children) {
+      walk(child, computed, childInPortal);
+    }
+  };
+
+  walk(snapshot, null, false);
+  if (entries.length === 0) return {};
+
+  const elements = entries.map(({ element }) => element);
+  const matchedRules = matchStyleRules(elements);
+  addRootContext(elements[0], matchedRules, elements);
+
+  // Portal content is rendered outside the root, so it needs its own context
+  for (const portalRoot of portalRoots) {
+    if (portalRoot === elements[0]) continue;
+    addRootContext(
+      portalRoot,
+      matchedRules,
+      elements.filter((element) => portalRoot.contains(element))
+    );
+  }
+
+  const nodeStyles: Record<string, NodeStyle> = {};
+  const classNames = new Map<string, string>();
+  const nameCounts = new Map<string, number>([[ROOT_CLASS_NAME, 1]]);
+
+  const assignClassName = (base: string, tag: string, styleKey: string): string => {
+    const key = `${base}|${tag}|${styleKey}`;
+    const existing = classNames.get(key);
+    if (existing) return existing;
+
+    const count = (nameCounts.get(base) || 0) + 1;
+    nameCounts.set(base, count);
+
+    const className = count === 1 ? base : `${base}${count}`;
+    classNames.set(key, className);
+    return className;
+  };
+
+  entries.forEach(({ nodeId, element, tag, styles }, index) => {
+    const rules = matchedRules.get(element) || [];
+    const pseudo = extractPseudoStyles(element, rules);
+    const className = index === 0
+      ? ROOT_CLASS_NAME
+      : assignClassName(getClassBase(element, tag), tag, JSON.stringify([styles, pseudo, rules]));
+
+    nodeStyles[nodeId] = { className, tag, styles, rules };
+    if (Object.keys(pseudo).length > 0) {
+      nodeStyles[nodeId].pseudo = pseudo;
+    }
+  });
+
+  return nodeStyles;
+}
+
+/**
+ * Extract pseudo-element and interaction-state styles of an element
+ * Pseudo-elements inherit from their element, so equal inherited values are
+ * left out like they are for children.
+ */
+function extractPseudoStyles(
+  element: HTMLElement,
+  rules: NodeStyleRule[]
+): Record<string, Record<string, string>> {
+  const computed = window.getComputedStyle(element);
+  const pseudoElements = extractPseudoElementStyles(element);
+
+  for (const [pseudo, extracted] of Object.entries(pseudoElements)) {
+    const styles = optimizeCSS(extracted);
+    pseudoElements[pseudo] = styles;
+    for (const property of INHERITED_PROPERTIES) {
+      if (styles[property] === computed.getPropertyValue(property)) {
+        delete styles[property];
+      }
+    }
+  }
+
+  return { ...pseudoElements, ...extractStateStyles(element, rules) };
+}
+
+/**
+ * Give the root's authored rules the context the page provided around it:
+ * inherited values and the custom properties the subtree references
+ */
+function addRootContext(
+  rootElement: HTMLElement,
+  matchedRules: Map<Element, NodeStyleRule[]>,
+  elements: HTMLElement[]
+): void {
+  const rootRules = matchedRules.get(rootElement);
+  if (!rootRules) return;
+
+  const base = rootRules[0].styles;
+  const computed = window.getComputedStyle(rootElement);
+
+  for (const property of INHERITED_PROPERTIES) {
+    if (!base[property]) {
+      base[property] = computed.getPropertyValue(property);
+    }
+  }
+
+  const references = new Set<string>();
+  for (const element of elements) {
+    getCustomPropertyReferences(matchedRules.get(element) || []).forEach((name) => references.add(name));
+  }
+
+  for (const name of references) {
+    const value = computed.getPropertyValue(name).trim();
+    if (!base[name] && value) {
+      base[name] = value;
+    }
+  }
+}
+
+/**
+ * Derive a readable class name from an element's original classes
+ * Falls back to the tag name for hashed, generated or utility classes.
+ */
+function getClassBase(element: HTMLElement, tag: string): string {
+  for (const cls of Array.from(element.classList)) {
+    const candidate = parseCSSModuleClass(cls)?.local || cls;
+
+    if (GENERATED_CLASS_PATTERN.test(candidate)) continue;
+    // Digits and special characters mean hashes or utility classes (p-4, w-1/2)
+    if (!/^[A-Za-z][A-Za-z_-]*$/.test(candidate)) continue;
+    if (candidate.length > 24) continue;
+
+    const camel = candidate.replace(/[-_]+([A-Za-z])/g, (_, letter) => letter.toUpperCase());
+    if (camel !== ROOT_CLASS_NAME) {
+      return camel.charAt(0).toLowerCase() + camel.slice(1);
+    }
+  }
+
+  return tag;
+}
+
+/**
+ * Get the unique node styles (one entry per class name)
+ * @param nodeStyles - Node styles keyed by node id
+ * @returns Node styles in document order, without duplicates
+ */
+export function getUniqueNodeStyles(nodeStyles: Record<string, NodeStyle>): NodeStyle[] {
+  const seen = new Set<string>();
+  return Object.values(nodeStyles).filter((nodeStyle) => {
+    if (seen.has(nodeStyle.className)) return false;
+    seen.add(nodeStyle.className);
+    return true;
+  });
+}
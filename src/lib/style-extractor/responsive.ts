@@ -0,0 +1,357 @@
+/**
+ * Responsive Styles - Capture how a subtree's styles change across viewport widths
+ *
+ * The page is cloned into an offscreen same-origin iframe, which is resized to
+ * every breakpoint. The iframe is the clone's viewport, so media queries,
+ * viewport units and fluid layouts respond as they would on a device of that
+ * width. Styles are recorded mobile first: the narrowest width becomes the
+ * base and each breakpoint keeps what changed from the previous one.
+ *
+ * The clone is taken of the document the component lives in, a same-origin
+ * frame's included, with open shadow roots copied over: cloning markup leaves
+ * them behind. Nodes that cannot be found in the clone keep the styles of the
+ * current viewport and are reported back (see ResponsiveCapture).
+ */
+
+import type { NodeStyle, ResponsiveStyle } from '@/types';
+import type { ElementResolver } from '@lib/fiber-utils';
+import { querySelectorAllDeep } from '@lib/fiber-utils/fiber-accessor';
+import { NODE_ID_ATTRIBUTE } from '@lib/bridge/protocol';
+import { extractComputedStyles } from './style-extractor';
+import { optimizeCSS } from './css-generator';
+
+export interface Breakpoint {
+  /** Name used for Tailwind variants, e.g. `md` */
+  name: string;
+  /** Viewport width in pixels the breakpoint starts at */
+  minWidth: number;
+}
+
+export interface ResponsiveCaptureOptions {
+  /** Breakpoints to capture (default: Tailwind's sm to 2xl) */
+  breakpoints?: Breakpoint[];
+  /** Width of the base (narrowest) layout in pixels (default: 375) */
+  baseWidth?: number;
+  /** Time to wait for the clone's stylesheets in milliseconds (default: 3000) */
+  loadTimeout?: number;
+}
+
+/**
+ * Node styles re-measured at every breakpoint
+ */
+export interface ResponsiveCapture {
+  /** Node styles, with the changes per breakpoint in `responsive` */
+  nodeStyles: Record<string, NodeStyle>;
+  /** Node ids that could not be measured (they keep the current viewport's styles) */
+  unmeasured: string[];
+}
+
+/**
+ * Tailwind's default breakpoints
+ */
+export const DEFAULT_BREAKPOINTS: Breakpoint[] = [
+  { name: 'sm', minWidth: 640 },
+  { name: 'md', minWidth: 768 },
+  { name: 'lg', minWidth: 1024 },
+  { name: 'xl', minWidth: 1280 },
+  { name: '2xl', minWidth: 1536 },
+];
+
+const DEFAULT_OPTIONS: Required<ResponsiveCaptureOptions> = {
+  breakpoints: DEFAULT_BREAKPOINTS,
+  baseWidth: 375,
+  loadTimeout: 3000,
+};
+
+/**
+ * Elements of the extension's own UI, left out of the clone
+ */
+const EXTENSION_UI_SELECTOR = '[id^="react-component-cloner"]';
+
+/**
+ * Re-measure node styles at every breakpoint
+ * @param nodeStyles - Node styles captured at the current viewport
+ * @param resolveElement - Resolves node ids to live DOM elements (the inspector's
+ *   bridge lookup: frames and shadow trees included)
+ * @param options - Capture options
+ * @returns Node styles with the base layout in `styles` and the changes per
+ *   breakpoint in `responsive`, and the nodes that could not be measured
+ */
+export async function captureResponsiveStyles(
+  nodeStyles: Record<string, NodeStyle>,
+  resolveElement: ElementResolver,
+  options: ResponsiveCaptureOptions = {}
+): Promise<ResponsiveCapture> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const breakpoints = [...opts.breakpoints].sort((a, b) => a.minWidth - b.minWidth);
+  const widths = [opts.baseWidth, ...breakpoints.map((breakpoint) => breakpoint.minWidth)];
+
+  const originals = new Map<string, HTMLElement>();
+  for (const nodeId of Object.keys(nodeStyles)) {
+    const element = resolveElement(nodeId);
+    if (element) originals.set(nodeId, element);
+  }
+
+  // The component's nodes share a document; nothing to clone once it is gone
+  const sourceDocument = originals.values().next().value?.ownerDocument;
+  if (!sourceDocument) {
+    return { nodeStyles, unmeasured: Object.keys(nodeStyles) };
+  }
+
+  const iframe = await createMeasurementFrame(sourceDocument, opts.loadTimeout);
+
+  try {
+    const clones = findNodes(iframe.contentDocument!);
+    const measurements = new Map<string, Array<Record<string, string>>>();
+
+    for (const width of widths) {
+      iframe.style.width = `${width}px`;
+      await waitForLayout(iframe);
+
+      for (const nodeId of originals.keys()) {
+        const clone = clones.get(nodeId);
+        if (!clone) continue;
+
+        const values = measurements.get(nodeId) || [];
+        values.push(extractComputedStyles(clone, true));
+        measurements.set(nodeId, values);
+      }
+    }
+
+    const result: Record<string, NodeStyle> = {};
+    const unmeasured: string[] = [];
+
+    for (const [nodeId, nodeStyle] of Object.entries(nodeStyles)) {
+      const values = measurements.get(nodeId);
+      const original = originals.get(nodeId);
+      if (!values || values.length !== widths.length || !original) {
+        result[nodeId] = nodeStyle;
+        unmeasured.push(nodeId);
+        continue;
+      }
+
+      // Base: the captured styles, with whatever differs at the base width replaced
+      const live = extractComputedStyles(original, true);
+      const base = { ...nodeStyle.styles };
+      for (const [property, value] of Object.entries(values[0])) {
+        if (value !== live[property]) {
+          base[property] = value;
+        }
+      }
+
+      const responsive: ResponsiveStyle[] = [];
+      breakpoints.forEach((breakpoint, index) => {
+        const changes = getChangedStyles(values[index], values[index + 1]);
+        if (Object.keys(changes).length > 0) {
+          responsive.push({ ...breakpoint, styles: optimizeCSS(changes) });
+        }
+      });
+
+      result[nodeId] = { ...nodeStyle, styles: optimizeCSS(base) };
+      if (responsive.length > 0) {
+        result[nodeId].responsive = responsive;
+      }
+    }
+
+    return { nodeStyles: result, unmeasured };
+  } finally {
+    iframe.remove();
+  }
+}
+
+/**
+ * Describe the nodes a capture could not measure, for the user
+ * @param capture - Result of captureResponsiveStyles
+ * @returns Warning message, or null if every node was measured
+ */
+export function getResponsiveCaptureWarning(capture: ResponsiveCapture): string | null {
+  const total = Object.keys(capture.nodeStyles).length;
+  const count = capture.unmeasured.length;
+  if (count === 0) return null;
+
+  return count === total
+    ? "Breakpoints could not be measured: none of the component's elements were found."
+    : `Breakpoints could not be measured for ${count} of ${total} elements; they keep the styles of the current viewport.`;
+}
+
+/**
+ * Get the properties whose values differ between two measurements
+ */
+function getChangedStyles(
+  previous: Record<string, string>,
+  next: Record<string, string>
+): Record<string, string> {
+  const changes: Record<string, string> = {};
+  for (const [property, value] of Object.entries(next)) {
+    if (previous[property] !== value) {
+      changes[property] = value;
+    }
+  }
+  return changes;
+}
+
+/**
+ * Find the captured nodes of a document by node id (shadow trees included)
+ */
+function findNodes(doc: Document): Map<string, HTMLElement> {
+  const nodes = new Map<string, HTMLElement>();
+  for (const element of querySelectorAllDeep(doc, `[${NODE_ID_ATTRIBUTE}]`)) {
+    nodes.set(element.getAttribute(NODE_ID_ATTRIBUTE)!, element as HTMLElement);
+  }
+  return nodes;
+}
+
+/**
+ * Clone a document into a hidden iframe and wait for its stylesheets
+ * @param source - The page's document, or a same-origin frame's
+ */
+async function createMeasurementFrame(source: Document, loadTimeout: number): Promise<HTMLIFrameElement> {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.tabIndex = -1;
+  iframe.style.cssText = `
+    position: fixed;
+    top: 0;
+    left: -100000px;
+    width: ${source.defaultView?.innerWidth || window.innerWidth}px;
+    height: ${source.defaultView?.innerHeight || window.innerHeight}px;
+    border: none;
+    visibility: hidden;
+    pointer-events: none;
+  `;
+  document.body.appendChild(iframe);
+
+  const doc = iframe.contentDocument!;
+  doc.open();
+  doc.write('<!DOCTYPE html><html></html>');
+  doc.close();
+
+  // Imported straight into the frame, so the copied shadow roots belong to it
+  const clone = doc.importNode(source.documentElement, true);
+  copyShadowRoots(source.documentElement, clone);
+  prepareClone(source, clone);
+
+  const head = clone.querySelector('head') || clone;
+  const base = doc.createElement('base');
+  base.href = source.baseURI;
+  head.prepend(base);
+
+  doc.replaceChild(clone, doc.documentElement);
+
+  const links = querySelectorAllDeep(doc, 'link[rel~="stylesheet"]') as HTMLLinkElement[];
+  await Promise.all(links.map((link) => waitForStylesheet(link, loadTimeout)));
+
+  return iframe;
+}
+
+/**
+ * Copy the open shadow roots of an original tree onto its clone
+ * Both trees must still have the same shape.
+ */
+function copyShadowRoots(original: Element | ShadowRoot, clone: Element | ShadowRoot): void {
+  if (isElement(original) && isElement(clone) && original.shadowRoot) {
+    // Clonable shadow roots come along with the markup
+    let shadow = clone.shadowRoot;
+    if (!shadow) {
+      try {
+        shadow = clone.attachShadow({ mode: 'open' });
+      } catch {
+        // Elements that cannot host a shadow root (custom elements that claimed it)
+        shadow = null;
+      }
+      if (shadow) {
+        for (const child of Array.from(original.shadowRoot.childNodes)) {
+          shadow.appendChild(clone.ownerDocument.importNode(child, true));
+        }
+      }
+    }
+
+    if (shadow) {
+      copyShadowRoots(original.shadowRoot, shadow);
+      prepareClone(original.shadowRoot, shadow);
+    }
+  }
+
+  const originalChildren = original.children;
+  const cloneChildren = clone.children;
+  for (let index = 0; index < originalChildren.length && index < cloneChildren.length; index++) {
+    copyShadowRoots(originalChildren[index], cloneChildren[index]);
+  }
+}
+
+/**
+ * Check if a node is an element
+ * Nodes of a frame or the measurement frame fail `instanceof Element` here.
+ */
+function isElement(node: Element | ShadowRoot): node is Element {
+  return node.nodeType === Node.ELEMENT_NODE;
+}
+
+/**
+ * Make a cloned document or shadow tree render like its original: rules
+ * inserted through CSSOM and constructable sheets are written out, scripts,
+ * frames and the extension's own UI are left out
+ */
+function prepareClone(original: Document | ShadowRoot, clone: Element | ShadowRoot): void {
+  const doc = clone.ownerDocument;
+
+  // Rules inserted through CSSOM (CSS-in-JS) are not part of the markup
+  const originalStyles = original.querySelectorAll('style');
+  clone.querySelectorAll('style').forEach((style, index) => {
+    const text = getSheetText(originalStyles[index]?.sheet);
+    if (text !== null) style.textContent = text;
+  });
+
+  clone.querySelectorAll(`script, iframe, ${EXTENSION_UI_SELECTOR}`).forEach((element) => element.remove());
+
+  // Constructable sheets cannot be shared with another document
+  const target = isElement(clone) ? clone.querySelector('head') || clone : clone;
+  for (const sheet of original.adoptedStyleSheets || []) {
+    const text = getSheetText(sheet);
+    if (text) {
+      const style = doc.createElement('style');
+      style.textContent = text;
+      target.appendChild(style);
+    }
+  }
+}
+
+/**
+ * Serialize a stylesheet's rules, or null if they cannot be read
+ */
+function getSheetText(sheet: CSSStyleSheet | null | undefined): string | null {
+  if (!sheet) return null;
+  try {
+    return Array.from(sheet.cssRules)
+      .map((rule) => rule.cssText)
+      .join('\n');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wait until a stylesheet link loaded (or failed, or timed out)
+ */
+function waitForStylesheet(link: HTMLLinkElement, timeout: number): Promise<void> {
+  if (link.sheet) return Promise.resolve();
+
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, timeout);
+    const done = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    link.addEventListener('load', done, { once: true });
+    link.addEventListener('error', done, { once: true });
+  });
+}
+
+/**
+ * Wait until the iframe laid out at its new width
+ */
+function waitForLayout(iframe: HTMLIFrameElement): Promise<void> {
+  // Reading layout applies the new size to the frame's viewport
+  void iframe.offsetWidth;
+  return new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+}
@@ -0,0 +1,427 @@
+/**
+ * Rule Matcher - Collect the authored stylesheet rules that apply to elements
+ *
+ * Walks `document.styleSheets` and adopted (constructable) stylesheets and
+ * matches every style rule against the given elements. Elements of a
+ * same-origin frame or a shadow root are matched against that scope's sheets. Unlike computed styles
+ * the result keeps authored values (`var()`, `rem`, `%`), interaction states
+ * (`:hover`, `:focus`), pseudo-elements (`::before`) and the `@media`,
+ * `@container` and `@supports` blocks around each rule.
+ */
+
+import type { NodeStyleRule } from '@/types';
+
+/**
+ * A style rule prepared for matching
+ */
+interface AuthoredRule {
+  /** Selector with interaction states and pseudo-elements removed */
+  selector: string;
+  /** Removed states and pseudo-element, e.g. `:hover::before` */
+  pseudo: string;
+  conditions: string[];
+  styles: Record<string, string>;
+  specificity: number;
+  /** Source order across all stylesheets */
+  order: number;
+}
+
+/**
+ * CSS rule interfaces by name (see isCSSRule)
+ */
+interface CSSRuleTypes {
+  CSSStyleRule: CSSStyleRule;
+  CSSMediaRule: CSSMediaRule;
+  CSSContainerRule: CSSContainerRule;
+  CSSSupportsRule: CSSSupportsRule;
+  CSSImportRule: CSSImportRule;
+  CSSKeyframesRule: CSSKeyframesRule;
+}
+
+/**
+ * Pseudo-classes that depend on interaction or form state rather than the DOM
+ */
+const STATE_PSEUDO_CLASS_PATTERN = /:(hover|focus-visible|focus-within|focus|active|visited|target|disabled)(?![\w-])/g;
+
+/**
+ * Trailing pseudo-element (legacy single-colon forms included)
+ */
+const PSEUDO_ELEMENT_PATTERN = /(::[\w-]+(?:\([^)]*\))?|:(?:before|after|first-line|first-letter))$/;
+
+/**
+ * Custom property references inside a value
+ */
+const VAR_REFERENCE_PATTERN = /var\(\s*(--[\w-]+)/g;
+
+/**
+ * Match authored stylesheet rules against elements
+ * @param elements - Elements to match
+ * @returns Matched rules per element, merged per pseudo/condition block
+ */
+export function matchStyleRules(elements: Element[]): Map<Element, NodeStyleRule[]> {
+  const rulesByScope = new Map<Document | ShadowRoot, AuthoredRule[]>();
+  const result = new Map<Element, NodeStyleRule[]>();
+
+  for (const element of elements) {
+    const scope = getStyleScope(element);
+    let rules = rulesByScope.get(scope);
+    if (!rules) {
+      rules = collectAuthoredRules(scope);
+      rulesByScope.set(scope, rules);
+    }
+
+    const matched = rules.filter((rule) => {
+      try {
+        return element.matches(rule.selector);
+      } catch {
+        // Stripping states can leave selectors the browser rejects
+        return false;
+      }
+    });
+
+    matched.sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+
+    const inlineStyle = element.getAttribute('style');
+    if (inlineStyle) {
+      matched.push({
+        selector: '',
+        pseudo: '',
+        conditions: [],
+        styles: parseDeclarations(inlineStyle),
+        specificity: Infinity,
+        order: Infinity,
+      });
+    }
+
+    result.set(element, mergeRules(matched));
+  }
+
+  return result;
+}
+
+/**
+ * Get the stylesheet scope of an element: its shadow root or its document
+ * (this frame's or a same-origin frame's)
+ * @param element - Element to style (default scope: this document)
+ */
+export function getStyleScope(element?: Element): Document | ShadowRoot {
+  const root = element?.getRootNode();
+  const isScope =
+    !!root && (root.nodeType === Node.DOCUMENT_NODE || root.nodeType === Node.DOCUMENT_FRAGMENT_NODE);
+  return isScope ? (root as Document | ShadowRoot) : document;
+}
+
+/**
+ * Get the enabled stylesheets of a scope in cascade order, adopted sheets last
+ * @param scope - Document or shadow root
+ */
+export function getScopeStyleSheets(scope: Document | ShadowRoot): CSSStyleSheet[] {
+  return [
+    ...Array.from(scope.styleSheets).filter((sheet) => !sheet.disabled),
+    ...(scope.adoptedStyleSheets || []),
+  ];
+}
+
+/**
+ * Check a CSS rule's type by interface name
+ * Rules of a frame's stylesheets come from that frame's realm, where
+ * `instanceof` against this frame's constructors fails.
+ * @param rule - CSS rule
+ * @param type - Interface name, e.g. `CSSStyleRule`
+ */
+export function isCSSRule<K extends keyof CSSRuleTypes>(rule: CSSRule, type: K): rule is CSSRuleTypes[K] {
+  return Object.prototype.toString.call(rule) === `[object ${type}]`;
+}
+
+/**
+ * Check if a CSS rule groups other rules (@layer blocks and the like)
+ * @param rule - CSS rule
+ */
+export function isGroupingRule(rule: CSSRule): rule is CSSGroupingRule {
+  return 'cssRules' in rule;
+}
+
+/**
+ * Collect the style rules of every readable stylesheet of a scope in cascade order
+ */
+function collectAuthoredRules(scope: Document | ShadowRoot): AuthoredRule[] {
+  const rules: AuthoredRule[] = [];
+  let unreadable = 0;
+
+  const readSheet = (sheet: CSSStyleSheet, conditions: string[]) => {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      // Cross-origin stylesheets do not expose their rules
+      unreadable++;
+      return;
+    }
+
+    const mediaText = sheet.media?.mediaText;
+    collectRules(cssRules, mediaText ? [...conditions, `@media ${mediaText}`] : conditions);
+  };
+
+  const collectRules = (cssRules: CSSRuleList, conditions: string[]) => {
+    for (const rule of Array.from(cssRules)) {
+      if (isCSSRule(rule, 'CSSStyleRule')) {
+        addStyleRule(rule, conditions);
+      } else if (isCSSRule(rule, 'CSSMediaRule')) {
+        collectRules(rule.cssRules, [...conditions, `@media ${rule.media.mediaText}`]);
+      } else if (isCSSRule(rule, 'CSSContainerRule')) {
+        const name = rule.containerName ? `${rule.containerName} ` : '';
+        collectRules(rule.cssRules, [...conditions, `@container ${name}${rule.containerQuery}`]);
+      } else if (isCSSRule(rule, 'CSSSupportsRule')) {
+        collectRules(rule.cssRules, [...conditions, `@supports ${rule.conditionText}`]);
+      } else if (isCSSRule(rule, 'CSSImportRule')) {
+        if (rule.styleSheet) readSheet(rule.styleSheet, conditions);
+      } else if (isGroupingRule(rule)) {
+        // @layer blocks and other groupings without a condition
+        collectRules(rule.cssRules, conditions);
+      }
+    }
+  };
+
+  const addStyleRule = (rule: CSSStyleRule, conditions: string[]) => {
+    const styles = parseDeclarations(rule.style.cssText);
+    if (Object.keys(styles).length === 0) return;
+
+    for (const selector of splitSelectorList(rule.selectorText)) {
+      const parsed = parseSelector(selector);
+      if (!parsed) continue;
+
+      rules.push({
+        ...parsed,
+        conditions,
+        styles,
+        specificity: getSpecificity(selector),
+        order: rules.length,
+      });
+    }
+  };
+
+  for (const sheet of getScopeStyleSheets(scope)) {
+    readSheet(sheet, []);
+  }
+
+  if (unreadable > 0) {
+    console.warn(
+      `React Component Cloner: ${unreadable} cross-origin stylesheet(s) could not be read; their rules are missing`
+    );
+  }
+
+  return rules;
+}
+
+/**
+ * Merge matched rules (in cascade order) into one rule per pseudo/condition block
+ * Blocks without conditions come first so conditional blocks override them.
+ */
+function mergeRules(matched: AuthoredRule[]): NodeStyleRule[] {
+  const blocks = new Map<string, NodeStyleRule>();
+  blocks.set('|', { pseudo: '', conditions: [], styles: {} });
+
+  for (const rule of matched) {
+    const key = `${rule.conditions.join('\n')}|${rule.pseudo}`;
+    let block = blocks.get(key);
+    if (!block) {
+      block = { pseudo: rule.pseudo, conditions: rule.conditions, styles: {} };
+      blocks.set(key, block);
+    }
+
+    for (const [property, value] of Object.entries(rule.styles)) {
+      const current = block.styles[property];
+      if (current && isImportant(current) && !isImportant(value)) continue;
+      block.styles[property] = value;
+    }
+  }
+
+  const merged = Array.from(blocks.values());
+  return [
+    ...merged.filter((block) => block.conditions.length === 0),
+    ...merged.filter((block) => block.conditions.length > 0),
+  ].filter((block, index) => index === 0 || Object.keys(block.styles).length > 0);
+}
+
+function isImportant(value: string): boolean {
+  return /!\s*important$/i.test(value);
+}
+
+/**
+ * Split a selector list at top-level commas
+ */
+function splitSelectorList(selectorText: string): string[] {
+  return splitTopLevel(selectorText, ',').map((selector) => selector.trim()).filter(Boolean);
+}
+
+/**
+ * Separate interaction states and the pseudo-element from a selector
+ * States are only supported on the subject (the last compound selector);
+ * rules like `.card:hover .title` are skipped.
+ */
+function parseSelector(selector: string): { selector: string; pseudo: string } | null {
+  let base = selector;
+  let pseudoElement = '';
+
+  const elementMatch = base.match(PSEUDO_ELEMENT_PATTERN);
+  if (elementMatch) {
+    pseudoElement = elementMatch[1].startsWith('::') ? elementMatch[1] : `:${elementMatch[1]}`;
+    base = base.slice(0, -elementMatch[1].length);
+  }
+
+  const subjectStart = getSubjectStart(base);
+  const prefix = base.slice(0, subjectStart);
+  const subject = base.slice(subjectStart);
+
+  if (new RegExp(STATE_PSEUDO_CLASS_PATTERN.source).test(prefix)) {
+    return null;
+  }
+
+  const states = subject.match(STATE_PSEUDO_CLASS_PATTERN) || [];
+  const stripped = subject.replace(STATE_PSEUDO_CLASS_PATTERN, '');
+  // A state inside :not()/:is() cannot be separated from its selector
+  if (/\(\s*\)/.test(stripped)) {
+    return null;
+  }
+
+  return {
+    selector: prefix + (stripped || '*'),
+    pseudo: states.join('') + pseudoElement,
+  };
+}
+
+/**
+ * Find where the last compound selector starts
+ */
+function getSubjectStart(selector: string): number {
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (quote) {
+      if (char === quote && selector[i - 1] !== '\\') quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (depth === 0 && /[\s>+~]/.test(char)) {
+      start = i + 1;
+    }
+  }
+
+  return start;
+}
+
+/**
+ * Approximate selector specificity as a single comparable number
+ */
+function getSpecificity(selector: string): number {
+  const stripped = selector
+    .replace(/:where\((?:[^()]|\([^()]*\))*\)/g, '')
+    .replace(/"[^"]*"|'[^']*'/g, '');
+
+  const ids = (stripped.match(/#[\w-]+/g) || []).length;
+  const classes =
+    (stripped.match(/\.[\w-]+|\[[^\]]*\]/g) || []).length +
+    (stripped.match(/(^|[^:]):(?!not\(|is\(|has\()[\w-]+/g) || []).length;
+  const types =
+    (stripped.match(/(^|[\s>+~(,])[a-zA-Z][\w-]*/g) || []).length +
+    (stripped.match(/::[\w-]+/g) || []).length;
+
+  return ids * 10000 + classes * 100 + types;
+}
+
+/**
+ * Parse a declaration block (`a: b; c: d`) keeping authored values
+ * `cssText` is used instead of the expanded longhands so shorthands built
+ * from `var()` survive.
+ */
+export function parseDeclarations(cssText: string): Record<string, string> {
+  const styles: Record<string, string> = {};
+
+  for (const declaration of splitTopLevel(cssText, ';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+
+    const name = declaration.slice(0, colon).trim();
+    const value = declaration.slice(colon + 1).trim();
+    if (!name || !value) continue;
+
+    // Custom property names are case-sensitive
+    styles[name.startsWith('--') ? name : name.toLowerCase()] = value;
+  }
+
+  return styles;
+}
+
+/**
+ * Get the custom properties referenced by rules
+ * @param rules - Node rules
+ * @returns Custom property names, e.g. `--brand-color`
+ */
+export function getCustomPropertyReferences(rules: NodeStyleRule[]): Set<string> {
+  const names = new Set<string>();
+  for (const rule of rules) {
+    for (const value of Object.values(rule.styles)) {
+      for (const match of value.matchAll(VAR_REFERENCE_PATTERN)) {
+        names.add(match[1]);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Replace `var()` references with the values an element resolves them to
+ * @param value - Authored value
+ * @param computed - Computed style of the element the value applies to
+ * @returns Value without custom property references (unless unresolvable)
+ */
+export function resolveVarReferences(value: string, computed: CSSStyleDeclaration): string {
+  let resolved = value;
+  // Innermost references first, so fallbacks containing var() resolve too
+  const innermost = /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/;
+
+  for (let match = resolved.match(innermost); match; match = resolved.match(innermost)) {
+    const replacement = computed.getPropertyValue(match[1]).trim() || (match[2] || '').trim();
+    if (!replacement) break;
+    resolved = resolved.replace(match[0], replacement);
+  }
+
+  return resolved;
+}
+
+/**
+ * Split text at a separator outside of parentheses, brackets and strings
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote && text[i - 1] !== '\\') quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
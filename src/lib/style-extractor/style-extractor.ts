@@ -2,7 +2,9 @@
  * Style Extractor - Extract styles from DOM elements
  */
 
-import type { ExtractedStyles, StyleStrategy } from '@/types';
+import type { ExtractedStyles, NodeStyleRule, StyleStrategy } from '@/types';
+import { matchStyleRules, resolveVarReferences } from './rule-matcher';
+import { parseCSSModuleClass } from './css-modules';
 
 /**
  * CSS properties that are safe to ignore if they have default values
@@ -149,6 +151,11 @@ const IMPORTANT_PROPERTIES = [
   'outline',
 ];
 
+/**
+ * Pseudo-elements read with `getComputedStyle(element, pseudo)`
+ */
+const PSEUDO_ELEMENTS = ['::before', '::after'];
+
 /**
  * Extract all styles from a DOM element
  */
@@ -163,6 +170,10 @@ export function extractStyles(element: HTMLElement): ExtractedStyles {
     computed: computedStyles,
     classes,
     strategy,
+    pseudo: {
+      ...extractPseudoElementStyles(element),
+      ...extractStateStyles(element),
+    },
   };
 }
 
@@ -186,15 +197,22 @@ export function extractInlineStyles(element: HTMLElement): Record<string, string
 
 /**
  * Extract computed styles from the element
+ * @param element - Element (of this or a same-origin frame's document)
+ * @param includeDefaults - Keep properties that have their default value
  */
-export function extractComputedStyles(element: HTMLElement): Record<string, string> {
-  const computed = window.getComputedStyle(element);
+export function extractComputedStyles(
+  element: HTMLElement,
+  includeDefaults: boolean = false
+): Record<string, string> {
+  // Elements of other documents are computed against their own viewport
+  const view = element.ownerDocument.defaultView || window;
+  const computed = view.getComputedStyle(element);
   const styles: Record<string, string> = {};
 
   for (const property of IMPORTANT_PROPERTIES) {
     const value = computed.getPropertyValue(property);
 
-    if (value && !isDefaultValue(property, value)) {
+    if (value && (includeDefaults || !isDefaultValue(property, value))) {
       styles[property] = value;
     }
   }
@@ -202,6 +220,71 @@ export function extractComputedStyles(element: HTMLElement): Record<string, stri
   return styles;
 }
 
+/**
+ * Extract computed styles of the element's `::before` and `::after`
+ * Pseudo-elements without content are not rendered and are left out.
+ * @returns Styles keyed by pseudo-element
+ */
+export function extractPseudoElementStyles(
+  element: HTMLElement
+): Record<string, Record<string, string>> {
+  const pseudoStyles: Record<string, Record<string, string>> = {};
+
+  for (const pseudo of PSEUDO_ELEMENTS) {
+    const computed = window.getComputedStyle(element, pseudo);
+    const content = computed.getPropertyValue('content');
+    if (!content || content === 'none' || content === 'normal') continue;
+
+    const styles: Record<string, string> = { content };
+    for (const property of IMPORTANT_PROPERTIES) {
+      const value = computed.getPropertyValue(property);
+      if (value && !isDefaultValue(property, value)) {
+        styles[property] = value;
+      }
+    }
+
+    pseudoStyles[pseudo] = styles;
+  }
+
+  return pseudoStyles;
+}
+
+/**
+ * Extract interaction-state styles (`:hover`, `:focus`, `:active`, `:disabled`)
+ * States cannot be forced from a content script, so they are recovered by
+ * diffing rules: the declarations of the element's state rules that differ
+ * from its own, with `var()` references resolved.
+ * @param element - Element to inspect
+ * @param rules - Matched rules of the element (matched on demand if omitted)
+ * @returns Styles keyed by state, e.g. `:hover` or `:hover::after`
+ */
+export function extractStateStyles(
+  element: HTMLElement,
+  rules: NodeStyleRule[] = matchStyleRules([element]).get(element) || []
+): Record<string, Record<string, string>> {
+  const stateStyles: Record<string, Record<string, string>> = {};
+  const own = rules.find((rule) => !rule.pseudo && rule.conditions.length === 0)?.styles || {};
+  const computed = window.getComputedStyle(element);
+
+  for (const rule of rules) {
+    const isState = rule.pseudo.startsWith(':') && !rule.pseudo.startsWith('::');
+    if (!isState || rule.conditions.length > 0) continue;
+
+    const styles: Record<string, string> = {};
+    for (const [property, value] of Object.entries(rule.styles)) {
+      if (own[property] !== value) {
+        styles[property] = resolveVarReferences(value, computed);
+      }
+    }
+
+    if (Object.keys(styles).length > 0) {
+      stateStyles[rule.pseudo] = styles;
+    }
+  }
+
+  return stateStyles;
+}
+
 /**
  * Check if a CSS value is a default value
  */
@@ -276,13 +359,7 @@ function isTailwindElement(classes: string[]): boolean {
  */
 function isCSSModulesElement(classes: string[]): boolean {
   // CSS Modules typically have hashed class names like: Button_button__2x3y4
-  const cssModulePattern = /^[A-Za-z]+_[A-Za-z]+__[A-Za-z0-9]+$/;
-
-  const hashedCount = classes.filter((cls) =>
-    cssModulePattern.test(cls)
-  ).length;
-
-  return hashedCount > 0;
+  return classes.some((cls) => parseCSSModuleClass(cls) !== null);
 }
 
 /**
@@ -0,0 +1,788 @@
+/**
+ * Tailwind Converter - Convert CSS declarations to Tailwind utility classes
+ *
+ * Values are snapped to the theme's scales (spacing, colors, font sizes,
+ * shadows, ...). A value without a close enough scale entry becomes an
+ * arbitrary value (`p-[13px]`), and a property without a utility becomes an
+ * arbitrary property (`[mix-blend-mode:multiply]`), so no declaration is lost.
+ */
+
+import { DEFAULT_TAILWIND_THEME, toPixels, type TailwindTheme } from './tailwind-theme';
+
+interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Largest pixel difference snapped to a scale value
+ */
+const LENGTH_TOLERANCE = 0.5;
+
+/**
+ * Largest RGB distance snapped to a theme color
+ */
+const COLOR_TOLERANCE = 6;
+
+const PERCENT_FRACTIONS: Record<string, number> = {
+  '1/2': 50, '1/3': 33.333333, '2/3': 66.666667, '1/4': 25, '3/4': 75,
+  '1/5': 20, '2/5': 40, '3/5': 60, '4/5': 80, '1/6': 16.666667, '5/6': 83.333333, full: 100,
+};
+
+/**
+ * Keyword values with a utility of the same name (property → value → class)
+ */
+const KEYWORD_CLASSES: Record<string, Record<string, string>> = {
+  display: {
+    block: 'block', 'inline-block': 'inline-block', inline: 'inline', flex: 'flex',
+    'inline-flex': 'inline-flex', grid: 'grid', 'inline-grid': 'inline-grid', table: 'table',
+    'table-row': 'table-row', 'table-cell': 'table-cell', contents: 'contents',
+    'flow-root': 'flow-root', 'list-item': 'list-item', none: 'hidden',
+  },
+  position: { static: 'static', fixed: 'fixed', absolute: 'absolute', relative: 'relative', sticky: 'sticky' },
+  'flex-direction': { row: 'flex-row', 'row-reverse': 'flex-row-reverse', column: 'flex-col', 'column-reverse': 'flex-col-reverse' },
+  'flex-wrap': { wrap: 'flex-wrap', 'wrap-reverse': 'flex-wrap-reverse', nowrap: 'flex-nowrap' },
+  'justify-content': {
+    'flex-start': 'justify-start', start: 'justify-start', 'flex-end': 'justify-end', end: 'justify-end',
+    center: 'justify-center', 'space-between': 'justify-between', 'space-around': 'justify-around',
+    'space-evenly': 'justify-evenly', stretch: 'justify-stretch',
+  },
+  'align-items': {
+    'flex-start': 'items-start', start: 'items-start', 'flex-end': 'items-end', end: 'items-end',
+    center: 'items-center', baseline: 'items-baseline', stretch: 'items-stretch',
+  },
+  'align-content': {
+    'flex-start': 'content-start', start: 'content-start', 'flex-end': 'content-end', end: 'content-end',
+    center: 'content-center', 'space-between': 'content-between', 'space-around': 'content-around',
+    'space-evenly': 'content-evenly', stretch: 'content-stretch',
+  },
+  'align-self': {
+    auto: 'self-auto', 'flex-start': 'self-start', start: 'self-start', 'flex-end': 'self-end', end: 'self-end',
+    center: 'self-center', baseline: 'self-baseline', stretch: 'self-stretch',
+  },
+  'justify-self': { auto: 'justify-self-auto', start: 'justify-self-start', end: 'justify-self-end', center: 'justify-self-center', stretch: 'justify-self-stretch' },
+  'grid-auto-flow': { row: 'grid-flow-row', column: 'grid-flow-col', dense: 'grid-flow-dense', 'row dense': 'grid-flow-row-dense', 'column dense': 'grid-flow-col-dense' },
+  'text-align': { left: 'text-left', center: 'text-center', right: 'text-right', justify: 'text-justify', start: 'text-start', end: 'text-end' },
+  'text-transform': { uppercase: 'uppercase', lowercase: 'lowercase', capitalize: 'capitalize', none: 'normal-case' },
+  'font-style': { italic: 'italic', normal: 'not-italic' },
+  'white-space': { normal: 'whitespace-normal', nowrap: 'whitespace-nowrap', pre: 'whitespace-pre', 'pre-line': 'whitespace-pre-line', 'pre-wrap': 'whitespace-pre-wrap', 'break-spaces': 'whitespace-break-spaces' },
+  'word-break': { 'break-all': 'break-all', 'keep-all': 'break-keep', normal: 'break-normal' },
+  'word-wrap': { 'break-word': 'break-words', anywhere: 'break-words' },
+  'overflow-wrap': { 'break-word': 'break-words', anywhere: 'break-words' },
+  'vertical-align': { baseline: 'align-baseline', top: 'align-top', middle: 'align-middle', bottom: 'align-bottom', 'text-top': 'align-text-top', 'text-bottom': 'align-text-bottom', sub: 'align-sub', super: 'align-super' },
+  visibility: { visible: 'visible', hidden: 'invisible', collapse: 'collapse' },
+  'box-sizing': { 'content-box': 'box-content', 'border-box': 'box-border' },
+  'pointer-events': { none: 'pointer-events-none', auto: 'pointer-events-auto' },
+  'user-select': { none: 'select-none', text: 'select-text', all: 'select-all', auto: 'select-auto' },
+  'object-fit': { contain: 'object-contain', cover: 'object-cover', fill: 'object-fill', none: 'object-none', 'scale-down': 'object-scale-down' },
+  'background-size': { auto: 'bg-auto', cover: 'bg-cover', contain: 'bg-contain' },
+  'background-repeat': { repeat: 'bg-repeat', 'no-repeat': 'bg-no-repeat', 'repeat-x': 'bg-repeat-x', 'repeat-y': 'bg-repeat-y', round: 'bg-repeat-round', space: 'bg-repeat-space' },
+  'background-attachment': { fixed: 'bg-fixed', local: 'bg-local', scroll: 'bg-scroll' },
+  'background-position': {
+    '50% 50%': 'bg-center', center: 'bg-center', '50% 0%': 'bg-top', top: 'bg-top', '50% 100%': 'bg-bottom', bottom: 'bg-bottom',
+    '0% 50%': 'bg-left', left: 'bg-left', '100% 50%': 'bg-right', right: 'bg-right',
+  },
+  'list-style-type': { none: 'list-none', disc: 'list-disc', decimal: 'list-decimal' },
+  cursor: {
+    auto: 'cursor-auto', default: 'cursor-default', pointer: 'cursor-pointer', wait: 'cursor-wait', text: 'cursor-text',
+    move: 'cursor-move', help: 'cursor-help', 'not-allowed': 'cursor-not-allowed', none: 'cursor-none',
+    grab: 'cursor-grab', grabbing: 'cursor-grabbing', crosshair: 'cursor-crosshair', 'zoom-in': 'cursor-zoom-in', 'zoom-out': 'cursor-zoom-out',
+  },
+};
+
+/**
+ * Values that need no class: Tailwind's preflight or the browser default
+ */
+const NO_CLASS_VALUES: Record<string, string[]> = {
+  'box-sizing': ['border-box'],
+  'background-position': ['0% 0%'],
+  'background-repeat': ['repeat'],
+  'background-attachment': ['scroll'],
+  'background-size': ['auto'],
+  'background-image': ['none'],
+  'flex-basis': ['auto'],
+  'letter-spacing': ['normal'],
+  'line-height': ['normal'],
+  'word-wrap': ['normal'],
+  'overflow-wrap': ['normal'],
+  overflow: ['visible'],
+  'overflow-x': ['visible'],
+  'overflow-y': ['visible'],
+  transform: ['none'],
+  filter: ['none'],
+  'backdrop-filter': ['none'],
+  'box-shadow': ['none'],
+  'grid-template-columns': ['none'],
+  'grid-template-rows': ['none'],
+  'grid-column': ['auto', 'auto / auto'],
+  'grid-row': ['auto', 'auto / auto'],
+  'grid-area': ['auto', 'auto / auto / auto / auto'],
+  'z-index': ['auto'],
+  gap: ['normal', 'normal normal'],
+  'row-gap': ['normal'],
+  'column-gap': ['normal'],
+  'min-width': ['auto'],
+  'min-height': ['auto'],
+  'max-width': ['none'],
+  'max-height': ['none'],
+  'text-decoration': ['none'],
+  content: ['normal', 'none'],
+};
+
+/**
+ * Convert CSS declarations to Tailwind classes
+ * @param styles - Declarations (kebab-case), computed or authored
+ * @param theme - Theme to snap values to (default: Tailwind's)
+ * @returns Utility classes, without variants
+ */
+export function cssToTailwind(
+  styles: Record<string, string>,
+  theme: TailwindTheme = DEFAULT_TAILWIND_THEME
+): string[] {
+  const classes: string[] = [];
+  const important: Record<string, string> = {};
+  const declarations: Record<string, string> = {};
+
+  for (const [property, value] of Object.entries(styles)) {
+    const match = value.match(/^(.*?)\s*!\s*important$/i);
+    if (match) {
+      important[property] = match[1];
+    } else {
+      declarations[property] = value.trim();
+    }
+  }
+
+  classes.push(...convertDeclarations(declarations, theme));
+  // Tailwind's important modifier
+  classes.push(...convertDeclarations(important, theme).map((cls) => `!${cls}`));
+
+  return classes;
+}
+
+/**
+ * Convert declarations without `!important`
+ */
+function convertDeclarations(styles: Record<string, string>, theme: TailwindTheme): string[] {
+  const classes: string[] = [];
+  const fontSize = toPixels(styles['font-size'] || '') ?? 16;
+  const handled = new Set<string>();
+
+  const add = (...items: Array<string | null | undefined>) => {
+    for (const item of items) {
+      if (item) classes.push(item);
+    }
+  };
+
+  // Shorthands take precedence over their longhands
+  const skipLonghands = (shorthand: string, longhands: string[]) => {
+    if (styles[shorthand]) longhands.forEach((longhand) => handled.add(longhand));
+  };
+  skipLonghands('margin', ['margin-top', 'margin-right', 'margin-bottom', 'margin-left']);
+  skipLonghands('padding', ['padding-top', 'padding-right', 'padding-bottom', 'padding-left']);
+  skipLonghands('border-radius', ['border-top-left-radius', 'border-top-right-radius', 'border-bottom-right-radius', 'border-bottom-left-radius']);
+  skipLonghands('border', ['border-top', 'border-right', 'border-bottom', 'border-left', 'border-width', 'border-style', 'border-color']);
+  skipLonghands('background', ['background-color', 'background-image']);
+
+  for (const [property, value] of Object.entries(styles)) {
+    if (handled.has(property) || !value) continue;
+    handled.add(property);
+
+    if (NO_CLASS_VALUES[property]?.includes(value)) continue;
+
+    const keyword = KEYWORD_CLASSES[property]?.[value];
+    if (keyword) {
+      add(keyword);
+      continue;
+    }
+
+    const converted = convertProperty(property, value, styles, fontSize, theme);
+    if (converted !== null) {
+      add(...converted);
+    } else {
+      add(arbitraryProperty(property, value));
+    }
+  }
+
+  return classes;
+}
+
+/**
+ * Convert one declaration
+ * @returns Classes, or null when the property has no utility
+ */
+function convertProperty(
+  property: string,
+  value: string,
+  styles: Record<string, string>,
+  fontSize: number,
+  theme: TailwindTheme
+): string[] | null {
+  switch (property) {
+    case 'margin':
+    case 'padding': {
+      const prefix = property === 'margin' ? 'm' : 'p';
+      return sideClasses(prefix, parseBox(value), theme);
+    }
+
+    case 'margin-top':
+    case 'margin-right':
+    case 'margin-bottom':
+    case 'margin-left':
+    case 'padding-top':
+    case 'padding-right':
+    case 'padding-bottom':
+    case 'padding-left': {
+      if (toPixels(value) === 0) return [];
+      const prefix = `${property[0]}${property.split('-')[1][0]}`;
+      return [lengthClass(prefix, value, theme.spacing)];
+    }
+
+    case 'top':
+    case 'right':
+    case 'bottom':
+    case 'left':
+      return [lengthClass(property, value, theme.spacing)];
+
+    case 'width':
+    case 'height':
+    case 'min-width':
+    case 'min-height':
+    case 'max-height': {
+      const prefix = { width: 'w', height: 'h', 'min-width': 'min-w', 'min-height': 'min-h', 'max-height': 'max-h' }[property]!;
+      return [sizeClass(prefix, value, theme.spacing, property.endsWith('height'))];
+    }
+
+    case 'max-width':
+      return [sizeClass('max-w', value, { ...theme.spacing, ...theme.maxWidth }, false)];
+
+    case 'flex-basis':
+      return [sizeClass('basis', value, theme.spacing, false)];
+
+    case 'gap': {
+      const [row, column = row] = value.split(/\s+/);
+      return row === column
+        ? [lengthClass('gap', row, theme.spacing)]
+        : [lengthClass('gap-y', row, theme.spacing), lengthClass('gap-x', column, theme.spacing)];
+    }
+
+    case 'row-gap':
+      return [lengthClass('gap-y', value, theme.spacing)];
+
+    case 'column-gap':
+      return [lengthClass('gap-x', value, theme.spacing)];
+
+    case 'flex': {
+      const flexClasses: Record<string, string> = {
+        '1 1 0%': 'flex-1', '1 1 0px': 'flex-1', '1': 'flex-1', '1 1 auto': 'flex-auto', auto: 'flex-auto',
+        '0 1 auto': 'flex-initial', none: 'flex-none', '0 0 auto': 'flex-none',
+      };
+      return [flexClasses[value] || `flex-${arbitrary(value)}`];
+    }
+
+    case 'flex-grow':
+      return [value === '0' ? 'grow-0' : value === '1' ? 'grow' : `grow-${arbitrary(value)}`];
+
+    case 'flex-shrink':
+      return [value === '0' ? 'shrink-0' : value === '1' ? 'shrink' : `shrink-${arbitrary(value)}`];
+
+    case 'order': {
+      const order = Number(value);
+      if (order === 0) return [];
+      if (order === -9999) return ['order-first'];
+      if (order === 9999) return ['order-last'];
+      return [order >= 1 && order <= 12 ? `order-${order}` : `order-${arbitrary(value)}`];
+    }
+
+    case 'z-index': {
+      const key = Object.entries(theme.zIndex).find(([, zIndex]) => zIndex === value)?.[0];
+      return [key ? `z-${key}` : `z-${arbitrary(value)}`];
+    }
+
+    case 'grid-template-columns':
+    case 'grid-template-rows': {
+      const prefix = property === 'grid-template-columns' ? 'grid-cols' : 'grid-rows';
+      const count = getGridTrackCount(value);
+      return [count ? `${prefix}-${count}` : `${prefix}-${arbitrary(value)}`];
+    }
+
+    case 'grid-column':
+    case 'grid-row': {
+      const prefix = property === 'grid-column' ? 'col' : 'row';
+      const span = value.match(/^span (\d+) \/ span \1$/);
+      if (span) return [`${prefix}-span-${span[1]}`];
+      if (value === '1 / -1') return [`${prefix}-span-full`];
+      return null;
+    }
+
+    case 'overflow':
+    case 'overflow-x':
+    case 'overflow-y': {
+      const [x, y = x] = value.split(/\s+/);
+      const keywords = ['auto', 'hidden', 'clip', 'visible', 'scroll'];
+      if (![x, y].every((keyword) => keywords.includes(keyword))) return null;
+      if (property !== 'overflow') return [`${property}-${x}`];
+      return x === y ? [`overflow-${x}`] : [`overflow-x-${x}`, `overflow-y-${y}`];
+    }
+
+    case 'font-size': {
+      const px = toPixels(value);
+      const key = px !== null ? findScaleKey(mapValues(theme.fontSize, (entry) => entry.size), px) : null;
+      return [key ? `text-${key}` : `text-${arbitrary(value)}`];
+    }
+
+    case 'font-weight': {
+      const weight = value === 'normal' ? '400' : value === 'bold' ? '700' : value;
+      const key = Object.entries(theme.fontWeight).find(([, fontWeight]) => fontWeight === weight)?.[0];
+      return [key ? `font-${key}` : `font-${arbitrary(value)}`];
+    }
+
+    case 'font-family': {
+      const first = value.split(',')[0].trim().replace(/["']/g, '').toLowerCase();
+      const key = Object.entries(theme.fontFamily).find(([, stack]) => stack.includes(first))?.[0];
+      return [key ? `font-${key}` : `font-${arbitrary(value.replace(/"/g, "'"))}`];
+    }
+
+    case 'line-height':
+      return lineHeightClasses(value, styles, fontSize, theme);
+
+    case 'letter-spacing': {
+      const px = toPixels(value);
+      const em = value.endsWith('em') && !value.endsWith('rem') ? parseFloat(value) : px !== null ? px / fontSize : null;
+      const key = em !== null ? findScaleKey(theme.letterSpacing, em, 0.005) : null;
+      return [key ? `tracking-${key}` : `tracking-${arbitrary(value)}`];
+    }
+
+    case 'text-decoration':
+    case 'text-decoration-line': {
+      const line = value.split(/\s+/)[0];
+      const decorations: Record<string, string> = { underline: 'underline', overline: 'overline', 'line-through': 'line-through', none: 'no-underline' };
+      return decorations[line] ? [decorations[line]] : null;
+    }
+
+    case 'color':
+      return [colorClass('text', value, theme)];
+
+    case 'background-color':
+      return [colorClass('bg', value, theme)];
+
+    case 'background-image':
+      return [`bg-${arbitrary(value)}`];
+
+    case 'background':
+      return backgroundClasses(value, theme);
+
+    case 'border':
+    case 'border-top':
+    case 'border-right':
+    case 'border-bottom':
+    case 'border-left':
+      return borderClasses(property, value, theme);
+
+    case 'border-width': {
+      const widths = parseBox(value);
+      return sideClasses('border', widths, theme, theme.borderWidth, true);
+    }
+
+    case 'border-style':
+      return value === 'solid' ? [] : [`border-${value.split(/\s+/)[0]}`];
+
+    case 'border-color':
+      return [colorClass('border', value.split(/\s+(?![^(]*\))/)[0], theme)];
+
+    case 'border-radius':
+      return radiusClasses(value, theme);
+
+    case 'border-top-left-radius':
+    case 'border-top-right-radius':
+    case 'border-bottom-right-radius':
+    case 'border-bottom-left-radius': {
+      const corner = property.split('-').slice(1, 3).map((part) => part[0]).join('');
+      return toPixels(value) === 0 ? [] : [lengthClass(`rounded-${corner}`, value, theme.borderRadius)];
+    }
+
+    case 'box-shadow': {
+      const normalized = normalizeShadow(value);
+      const key = Object.entries(theme.boxShadow).find(([, shadow]) => normalizeShadow(shadow) === normalized)?.[0];
+      if (key) return [key === 'DEFAULT' ? 'shadow' : `shadow-${key}`];
+      return [`shadow-${arbitrary(value)}`];
+    }
+
+    case 'opacity': {
+      const key = findScaleKey(theme.opacity, parseFloat(value), 0.005);
+      return [key ? `opacity-${key}` : `opacity-${arbitrary(value)}`];
+    }
+
+    case 'content':
+      return [`content-${arbitrary(value.replace(/"/g, "'"))}`];
+
+    case 'transition':
+    case 'animation':
+      // Computed defaults: `all 0s ease 0s`, `none 0s ease 0s 1 normal none running`
+      if (/^(all|none) 0s/.test(value)) return [];
+      return null;
+
+    case 'outline':
+      if (/\bnone\b|\b0px\b/.test(value)) return [];
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Classes for a four-sided value (margin, padding, border-width)
+ * Zero sides are left out: preflight resets margins, paddings and borders.
+ */
+function sideClasses(
+  prefix: string,
+  [top, right, bottom, left]: string[],
+  theme: TailwindTheme,
+  scale: Record<string, number> = theme.spacing,
+  joinSide: boolean = false
+): string[] {
+  const side = (suffix: string) => (joinSide ? `${prefix}-${suffix}` : `${prefix}${suffix}`);
+  const nonZero = (value: string) => toPixels(value) !== 0;
+  const cls = (classPrefix: string, value: string) =>
+    joinSide && value === '1px' ? classPrefix : lengthClass(classPrefix, value, scale);
+
+  if (top === right && right === bottom && bottom === left) {
+    return nonZero(top) ? [cls(prefix, top)] : [];
+  }
+
+  if (top === bottom && left === right) {
+    return [
+      nonZero(top) ? cls(side('y'), top) : null,
+      nonZero(left) ? cls(side('x'), left) : null,
+    ].filter((item): item is string => !!item);
+  }
+
+  return [
+    nonZero(top) ? cls(side('t'), top) : null,
+    nonZero(right) ? cls(side('r'), right) : null,
+    nonZero(bottom) ? cls(side('b'), bottom) : null,
+    nonZero(left) ? cls(side('l'), left) : null,
+  ].filter((item): item is string => !!item);
+}
+
+/**
+ * Class for a length on a scale (`p-4`, `-mt-2`, `rounded-lg`, `top-[13px]`)
+ */
+function lengthClass(prefix: string, value: string, scale: Record<string, number>): string {
+  if (value === 'auto') return `${prefix}-auto`;
+
+  const px = toPixels(value);
+  if (px !== null) {
+    const key = findScaleKey(scale, Math.abs(px));
+    if (key) {
+      const negative = px < 0 ? '-' : '';
+      return key === 'DEFAULT' ? `${negative}${prefix}` : `${negative}${prefix}-${key}`;
+    }
+  }
+
+  const fraction = getFraction(value);
+  if (fraction) return `${prefix}-${fraction}`;
+
+  return `${prefix}-${arbitrary(value)}`;
+}
+
+/**
+ * Class for a width or height
+ */
+function sizeClass(prefix: string, value: string, scale: Record<string, number>, vertical: boolean): string {
+  const keywords: Record<string, string> = {
+    'fit-content': 'fit',
+    'min-content': 'min',
+    'max-content': 'max',
+    none: 'none',
+    [vertical ? '100vh' : '100vw']: 'screen',
+  };
+  if (keywords[value]) return `${prefix}-${keywords[value]}`;
+  return lengthClass(prefix, value, scale);
+}
+
+/**
+ * Classes for line-height; left out when the font size class already sets it
+ */
+function lineHeightClasses(
+  value: string,
+  styles: Record<string, string>,
+  fontSize: number,
+  theme: TailwindTheme
+): string[] {
+  const px = toPixels(value);
+  const isRatio = px === null && !Number.isNaN(Number(value));
+  const lineHeightPx = isRatio ? Number(value) * fontSize : px;
+
+  const fontSizeEntry = Object.values(theme.fontSize).find(
+    (entry) => Math.abs(entry.size - (toPixels(styles['font-size'] || '') ?? -1)) <= LENGTH_TOLERANCE
+  );
+  if (
+    fontSizeEntry?.lineHeight !== undefined &&
+    lineHeightPx !== null &&
+    Math.abs(fontSizeEntry.lineHeight - lineHeightPx) <= LENGTH_TOLERANCE
+  ) {
+    return [];
+  }
+
+  for (const [key, themeValue] of Object.entries(theme.lineHeight)) {
+    const themePx = toPixels(themeValue);
+    if (themePx !== null && themeValue.endsWith('px')) {
+      if (lineHeightPx !== null && Math.abs(themePx - lineHeightPx) <= LENGTH_TOLERANCE) {
+        return [`leading-${key}`];
+      }
+    } else if (lineHeightPx !== null && Math.abs(Number(themeValue) * fontSize - lineHeightPx) <= LENGTH_TOLERANCE) {
+      return [`leading-${key}`];
+    }
+  }
+
+  return [`leading-${arbitrary(value)}`];
+}
+
+/**
+ * Classes for the `background` shorthand (color and image)
+ */
+function backgroundClasses(value: string, theme: TailwindTheme): string[] {
+  const classes: string[] = [];
+
+  const image = value.match(/(url\([^)]*\)|[\w-]*gradient\((?:[^()]|\([^()]*\))*\))/);
+  if (image) classes.push(`bg-${arbitrary(image[1])}`);
+
+  const color = value.replace(image?.[1] || '', '').match(/(rgba?\([^)]*\)|#[0-9a-f]{3,8}\b)/i);
+  if (color && parseColor(color[1])?.a !== 0) {
+    classes.push(colorClass('bg', color[1], theme));
+  }
+
+  return classes;
+}
+
+/**
+ * Classes for `border` / `border-<side>` shorthands (`1px solid rgb(...)`)
+ */
+function borderClasses(property: string, value: string, theme: TailwindTheme): string[] {
+  const parts = value.split(/\s+(?![^(]*\))/);
+  const width = parts.find((part) => toPixels(part) !== null) || '0px';
+  const style = parts.find((part) => /^(none|hidden|solid|dashed|dotted|double|groove|ridge|inset|outset)$/.test(part)) || 'none';
+  const color = parts.find((part) => parseColor(part) !== null || part.startsWith('var('));
+
+  if (style === 'none' || toPixels(width) === 0) return [];
+
+  const side = property === 'border' ? '' : `-${property.split('-')[1][0]}`;
+  const widthClass = width === '1px' ? `border${side}` : lengthClass(`border${side}`, width, theme.borderWidth);
+
+  return [
+    widthClass,
+    style !== 'solid' ? `border-${style}` : null,
+    color ? colorClass(`border${side}`, color, theme) : null,
+  ].filter((item): item is string => !!item);
+}
+
+/**
+ * Classes for `border-radius` (one to four corners)
+ */
+function radiusClasses(value: string, theme: TailwindTheme): string[] {
+  // Elliptical radii (`a / b`) have no utility
+  if (value.includes('/')) return [`rounded-${arbitrary(value)}`];
+
+  const [tl, tr, br, bl] = parseBox(value);
+  if (tl === tr && tr === br && br === bl) {
+    return toPixels(tl) === 0 ? [] : [lengthClass('rounded', tl, theme.borderRadius)];
+  }
+
+  const corners: Array<[string, string]> = [['tl', tl], ['tr', tr], ['br', br], ['bl', bl]];
+  return corners
+    .filter(([, corner]) => toPixels(corner) !== 0)
+    .map(([name, corner]) => lengthClass(`rounded-${name}`, corner, theme.borderRadius));
+}
+
+/**
+ * Class for a color (`bg-blue-500`, `text-black/50`, `border-[#123456]`)
+ */
+function colorClass(prefix: string, value: string, theme: TailwindTheme): string {
+  const keyword = value.toLowerCase();
+  if (keyword === 'transparent') return `${prefix}-transparent`;
+  if (keyword === 'currentcolor') return `${prefix}-current`;
+  if (keyword === 'inherit') return `${prefix}-inherit`;
+
+  const color = parseColor(value);
+  if (!color) {
+    // `text-[...]` is ambiguous between size and color without a hint
+    return `${prefix}-${arbitrary(`color:${value}`)}`;
+  }
+  if (color.a === 0) return `${prefix}-transparent`;
+
+  const name = findThemeColor(color, theme);
+  const alpha = color.a < 1 ? getOpacityModifier(color.a, theme) : '';
+
+  if (name) return `${prefix}-${name}${alpha}`;
+  return `${prefix}-${arbitrary(toHex(color))}`;
+}
+
+/**
+ * Opacity modifier for a color (`/50` or `/[0.37]`)
+ */
+function getOpacityModifier(alpha: number, theme: TailwindTheme): string {
+  const key = findScaleKey(theme.opacity, alpha, 0.005);
+  return key ? `/${key}` : `/${arbitrary(String(Math.round(alpha * 100) / 100))}`;
+}
+
+const themeColorCache = new WeakMap<TailwindTheme, Array<[string, RGBA]>>();
+
+/**
+ * Find the nearest theme color within tolerance
+ */
+function findThemeColor(color: RGBA, theme: TailwindTheme): string | null {
+  let colors = themeColorCache.get(theme);
+  if (!colors) {
+    colors = Object.entries(theme.colors)
+      .map(([name, value]) => [name, parseColor(value)] as [string, RGBA | null])
+      .filter((entry): entry is [string, RGBA] => entry[1] !== null);
+    themeColorCache.set(theme, colors);
+  }
+
+  let best: string | null = null;
+  let bestDistance = COLOR_TOLERANCE;
+
+  for (const [name, themeColor] of colors) {
+    const distance = Math.sqrt(
+      (color.r - themeColor.r) ** 2 + (color.g - themeColor.g) ** 2 + (color.b - themeColor.b) ** 2
+    );
+    if (distance <= bestDistance) {
+      best = name;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parse hex, rgb() and rgba() colors
+ */
+export function parseColor(value: string): RGBA | null {
+  const text = value.trim().toLowerCase();
+
+  const hex = text.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.split('').map((digit) => digit + digit).join('');
+    }
+    if (digits.length !== 6 && digits.length !== 8) return null;
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const rgb = text.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    const alpha = rgb[4] === undefined
+      ? 1
+      : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]), a: alpha };
+  }
+
+  return null;
+}
+
+function toHex({ r, g, b, a }: RGBA): string {
+  const channel = (number: number) => Math.round(number).toString(16).padStart(2, '0');
+  return `#${channel(r)}${channel(g)}${channel(b)}${a < 1 ? channel(a * 255) : ''}`;
+}
+
+/**
+ * Normalize a box-shadow for comparison (color and lengths, any order)
+ */
+function normalizeShadow(value: string): string {
+  return value
+    .split(/,(?![^(]*\))/)
+    .map((shadow) => {
+      const parts = shadow.trim().split(/\s+(?![^(]*\))/);
+      const inset = parts.includes('inset') ? 'inset ' : '';
+      const colorPart = parts.find((part) => parseColor(part) !== null);
+      const color = colorPart ? parseColor(colorPart)! : { r: 0, g: 0, b: 0, a: 1 };
+      const lengths = parts
+        .map((part) => toPixels(part))
+        .filter((px): px is number => px !== null);
+      while (lengths.length < 4) lengths.push(0);
+      return `${inset}${lengths.join(' ')} ${color.r},${color.g},${color.b},${Math.round(color.a * 100)}`;
+    })
+    .join('|');
+}
+
+/**
+ * Count equal tracks of a grid template (`repeat(3, minmax(0, 1fr))` or `100px 100px 100px`)
+ */
+function getGridTrackCount(value: string): number | null {
+  const repeat = value.match(/^repeat\((\d+),\s*minmax\(0(px)?,\s*1fr\)\)$/);
+  if (repeat) return Number(repeat[1]);
+
+  const tracks = value.split(/\s+/);
+  const allEqual = tracks.length > 1 && tracks.length <= 12 && tracks.every((track) => track === tracks[0]);
+  return allEqual && toPixels(tracks[0]) !== null ? tracks.length : null;
+}
+
+/**
+ * Expand a 1–4 value box shorthand to top, right, bottom, left
+ */
+function parseBox(value: string): string[] {
+  const parts = value.trim().split(/\s+(?![^(]*\))/);
+  const [top, right = top, bottom = top, left = right] = parts;
+  return [top, right, bottom, left];
+}
+
+/**
+ * Find the key of the scale value nearest to a number, within tolerance
+ */
+function findScaleKey(
+  scale: Record<string, number>,
+  value: number,
+  tolerance: number = LENGTH_TOLERANCE
+): string | null {
+  if (Number.isNaN(value)) return null;
+
+  let best: string | null = null;
+  let bestDistance = tolerance;
+
+  for (const [key, scaleValue] of Object.entries(scale)) {
+    const distance = Math.abs(scaleValue - value);
+    if (distance <= bestDistance) {
+      best = key;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Fraction name for a percentage (`50%` → `1/2`)
+ */
+function getFraction(value: string): string | null {
+  if (!value.endsWith('%')) return null;
+  const percent = parseFloat(value);
+  return Object.entries(PERCENT_FRACTIONS).find(([, fraction]) => Math.abs(fraction - percent) < 0.01)?.[0] || null;
+}
+
+function mapValues<T, U>(record: Record<string, T>, map: (value: T) => U): Record<string, U> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(value)]));
+}
+
+/**
+ * Arbitrary value (`[13px]`); spaces become underscores
+ */
+function arbitrary(value: string): string {
+  return `[${value.trim().replace(/_/g, '\\_').replace(/\s+/g, '_')}]`;
+}
+
+/**
+ * Arbitrary property (`[mix-blend-mode:multiply]`)
+ */
+function arbitraryProperty(property: string, value: string): string {
+  return arbitrary(`${property}:${value}`);
+}
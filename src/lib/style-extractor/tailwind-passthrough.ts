@@ -0,0 +1,301 @@
+/**
+ * Tailwind Passthrough - Keep the utility classes of sites built with Tailwind
+ *
+ * Instead of re-deriving classes from computed styles, the classes the page
+ * already uses are kept verbatim. Each class is checked against the page's
+ * stylesheets, and classes relying on more than the default theme (arbitrary
+ * values, custom colors or spacing) are collected so a `tailwind.config`
+ * snippet can be generated for the project the component is copied into.
+ */
+
+import type { TailwindClassReport } from '@/types';
+import {
+  parseDeclarations,
+  resolveVarReferences,
+  getStyleScope,
+  getScopeStyleSheets,
+  isCSSRule,
+  isGroupingRule,
+} from './rule-matcher';
+import { DEFAULT_TAILWIND_THEME, type TailwindTheme } from './tailwind-theme';
+
+/**
+ * Utilities reading a theme scale, recognized by prefix and declared property
+ */
+const SCALE_UTILITIES: Array<{ scale: keyof TailwindTheme; prefixes: string[]; properties: string[] }> = [
+  {
+    scale: 'colors',
+    prefixes: [
+      'bg', 'text', 'border', 'border-x', 'border-y', 'border-t', 'border-r', 'border-b', 'border-l',
+      'outline', 'ring', 'ring-offset', 'divide', 'decoration', 'placeholder', 'accent', 'caret',
+      'fill', 'stroke', 'from', 'via', 'to', 'shadow',
+    ],
+    properties: [
+      'color', 'background-color', 'border-color', 'border-top-color', 'border-right-color',
+      'border-bottom-color', 'border-left-color', 'outline-color', 'text-decoration-color',
+      'caret-color', 'accent-color', 'fill', 'stroke', '--tw-ring-color', '--tw-ring-offset-color',
+      '--tw-gradient-from', '--tw-gradient-to', '--tw-shadow-color',
+    ],
+  },
+  { scale: 'fontSize', prefixes: ['text'], properties: ['font-size'] },
+  { scale: 'fontFamily', prefixes: ['font'], properties: ['font-family'] },
+  { scale: 'fontWeight', prefixes: ['font'], properties: ['font-weight'] },
+  { scale: 'lineHeight', prefixes: ['leading'], properties: ['line-height'] },
+  { scale: 'letterSpacing', prefixes: ['tracking'], properties: ['letter-spacing'] },
+  { scale: 'maxWidth', prefixes: ['max-w'], properties: ['max-width'] },
+  {
+    scale: 'spacing',
+    prefixes: [
+      'p', 'px', 'py', 'pt', 'pr', 'pb', 'pl', 'm', 'mx', 'my', 'mt', 'mr', 'mb', 'ml',
+      'gap', 'gap-x', 'gap-y', 'space-x', 'space-y', 'w', 'h', 'size', 'min-w', 'min-h', 'max-h',
+      'inset', 'inset-x', 'inset-y', 'top', 'right', 'bottom', 'left', 'basis', 'translate-x', 'translate-y',
+    ],
+    properties: [
+      'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+      'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+      'gap', 'row-gap', 'column-gap', 'width', 'height', 'min-width', 'min-height', 'max-height',
+      'inset', 'top', 'right', 'bottom', 'left', 'flex-basis', '--tw-translate-x', '--tw-translate-y',
+    ],
+  },
+  {
+    scale: 'borderRadius',
+    prefixes: [
+      'rounded', 'rounded-t', 'rounded-r', 'rounded-b', 'rounded-l',
+      'rounded-tl', 'rounded-tr', 'rounded-br', 'rounded-bl',
+    ],
+    properties: [
+      'border-radius', 'border-top-left-radius', 'border-top-right-radius',
+      'border-bottom-right-radius', 'border-bottom-left-radius',
+    ],
+  },
+  { scale: 'boxShadow', prefixes: ['shadow'], properties: ['--tw-shadow', 'box-shadow'] },
+  { scale: 'opacity', prefixes: ['opacity'], properties: ['opacity'] },
+  { scale: 'zIndex', prefixes: ['z'], properties: ['z-index'] },
+];
+
+/**
+ * Keys that are part of a utility rather than of a theme scale
+ */
+const KEYWORD_KEYS = new Set([
+  'auto', 'full', 'screen', 'min', 'max', 'fit', 'none', 'inherit', 'current', 'transparent',
+  'svh', 'lvh', 'dvh', 'svw', 'lvw', 'dvw', 'prose',
+]);
+
+/**
+ * Check the classes of a subtree against the page's stylesheets
+ * @param elements - Elements of the subtree
+ * @param theme - Theme the classes are compared with (default: Tailwind's)
+ * @returns Classes in document order, with what a project needs to render them
+ */
+export function analyzeTailwindClasses(
+  elements: Element[],
+  theme: TailwindTheme = DEFAULT_TAILWIND_THEME
+): TailwindClassReport {
+  const classes = new Set<string>();
+  for (const element of elements) {
+    element.classList.forEach((cls) => classes.add(cls));
+  }
+
+  // Elements of a same-origin frame are styled by that frame's document
+  const classRules = collectClassRules(getStyleScope(elements[0]));
+  const rootStyle = window.getComputedStyle((elements[0]?.ownerDocument || document).documentElement);
+
+  const report: TailwindClassReport = {
+    resolved: [],
+    unresolved: [],
+    safelist: [],
+    themeExtend: {},
+  };
+
+  for (const cls of classes) {
+    const styles = classRules.get(cls);
+    if (!styles) {
+      report.unresolved.push(cls);
+      continue;
+    }
+    report.resolved.push(cls);
+
+    if (cls.includes('[')) {
+      report.safelist.push(cls);
+      continue;
+    }
+
+    const custom = findCustomThemeValue(getUtility(cls), styles, theme, rootStyle);
+    if (custom) {
+      const [scale, key, value] = custom;
+      report.themeExtend[scale] = { ...report.themeExtend[scale], [key]: value };
+    }
+  }
+
+  if (report.unresolved.length > 0) {
+    console.warn(
+      `React Component Cloner: ${report.unresolved.length} class(es) have no rule in the page's stylesheets:`,
+      report.unresolved.join(' ')
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Generate a `tailwind.config.js` for the classes of a report
+ * @param report - Class report (see analyzeTailwindClasses)
+ * @returns Config module source
+ */
+export function generateTailwindConfig(report: TailwindClassReport): string {
+  const lines: string[] = [
+    "/** @type {import('tailwindcss').Config} */",
+    'module.exports = {',
+    "  content: ['./**/*.{js,jsx,ts,tsx}'],",
+  ];
+
+  if (report.safelist.length > 0) {
+    lines.push('  // Arbitrary values and variants used by the component');
+    lines.push('  safelist: [');
+    report.safelist.forEach((cls) => lines.push(`    ${quote(cls)},`));
+    lines.push('  ],');
+  }
+
+  lines.push('  theme: {');
+  lines.push('    extend: {');
+  for (const [scale, values] of Object.entries(report.themeExtend)) {
+    lines.push(`      ${scale}: {`);
+    for (const [key, value] of Object.entries(values)) {
+      const property = /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+      lines.push(`        ${property}: ${quote(value)},`);
+    }
+    lines.push('      },');
+  }
+  lines.push('    },');
+  lines.push('  },');
+  lines.push('};');
+
+  if (report.unresolved.length > 0) {
+    lines.push('');
+    lines.push("// Classes without a rule in the page's stylesheets (purged, script hooks or");
+    lines.push('// cross-origin sheets); they render nothing until defined:');
+    lines.push(`// ${report.unresolved.join(' ')}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Map every class used in a selector to the declarations of its first rule
+ */
+function collectClassRules(scope: Document | ShadowRoot): Map<string, Record<string, string>> {
+  const classRules = new Map<string, Record<string, string>>();
+
+  const collectRules = (cssRules: CSSRuleList) => {
+    for (const rule of Array.from(cssRules)) {
+      if (isCSSRule(rule, 'CSSStyleRule')) {
+        for (const cls of getSelectorClasses(rule.selectorText)) {
+          if (!classRules.has(cls)) {
+            classRules.set(cls, parseDeclarations(rule.style.cssText));
+          }
+        }
+      } else if (isCSSRule(rule, 'CSSImportRule')) {
+        if (rule.styleSheet) readSheet(rule.styleSheet);
+      } else if (isGroupingRule(rule)) {
+        // @media, @supports, @layer and other grouping rules
+        collectRules(rule.cssRules);
+      }
+    }
+  };
+
+  const readSheet = (sheet: CSSStyleSheet) => {
+    try {
+      collectRules(sheet.cssRules);
+    } catch {
+      // Cross-origin stylesheets do not expose their rules
+    }
+  };
+
+  for (const sheet of getScopeStyleSheets(scope)) {
+    readSheet(sheet);
+  }
+
+  return classRules;
+}
+
+/**
+ * Get the class names in a selector, unescaped (`.md\:p-4` → `md:p-4`)
+ */
+function getSelectorClasses(selectorText: string): string[] {
+  const pattern = /\.((?:\\[0-9a-fA-F]{1,6}\s?|\\.|[\w-])+)/g;
+  return Array.from(selectorText.matchAll(pattern), (match) =>
+    match[1].replace(/\\([0-9a-fA-F]{1,6}\s?|.)/g, (_, escaped: string) =>
+      /^[0-9a-fA-F]{1,6}\s?$/.test(escaped)
+        ? String.fromCodePoint(parseInt(escaped, 16))
+        : escaped
+    )
+  );
+}
+
+/**
+ * Strip variants, the important modifier and the negative sign from a class
+ */
+function getUtility(cls: string): string {
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < cls.length; i++) {
+    if (cls[i] === '[') depth++;
+    else if (cls[i] === ']') depth--;
+    else if (cls[i] === ':' && depth === 0) start = i + 1;
+  }
+  return cls.slice(start).replace(/^!/, '').replace(/^-/, '');
+}
+
+/**
+ * Find the theme value a utility needs beyond the theme
+ * @returns Scale, key and value, or null for default and non-theme utilities
+ */
+function findCustomThemeValue(
+  utility: string,
+  styles: Record<string, string>,
+  theme: TailwindTheme,
+  rootStyle: CSSStyleDeclaration
+): [string, string, string] | null {
+  for (const { scale, prefixes, properties } of SCALE_UTILITIES) {
+    const property = properties.find((name) => styles[name]);
+    if (!property) continue;
+
+    const prefix = prefixes
+      .filter((candidate) => utility.startsWith(`${candidate}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!prefix) continue;
+
+    let key = utility.slice(prefix.length + 1);
+    if (scale === 'colors') {
+      // Opacity modifier (`bg-brand/50`)
+      key = key.replace(/\/[\w.]+$/, '');
+    }
+    if (KEYWORD_KEYS.has(key) || key.includes('/') || key in theme[scale]) {
+      return null;
+    }
+
+    const value = resolveVarReferences(styles[property].replace(/\s*!\s*important$/i, ''), rootStyle);
+    return [scale, key, scale === 'colors' ? readColor(value) : value];
+  }
+
+  return null;
+}
+
+/**
+ * Read the color of a Tailwind color declaration (`rgb(255 90 31 / var(--tw-bg-opacity))`)
+ */
+function readColor(value: string): string {
+  const hex = value.match(/#[0-9a-fA-F]{3,8}\b/);
+  if (hex) return hex[0].toLowerCase();
+
+  const rgb = value.match(/rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  if (rgb) {
+    return `#${rgb.slice(1, 4).map((channel) => Number(channel).toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  return value;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
@@ -0,0 +1,304 @@
+/**
+ * Tailwind Theme - The scales CSS values are snapped to when converting to
+ * Tailwind classes
+ *
+ * The default theme mirrors Tailwind v3. A `tailwind.config` theme (as JSON)
+ * can replace or extend it; its values are normalized to pixels and hex
+ * colors so they compare directly with computed styles.
+ */
+
+export interface TailwindFontSize {
+  /** Font size in pixels */
+  size: number;
+  /** Line height the font size class sets, in pixels */
+  lineHeight?: number;
+}
+
+/**
+ * Normalized theme: lengths in pixels, colors as hex
+ */
+export interface TailwindTheme {
+  /** Breakpoint min-widths */
+  screens: Record<string, number>;
+  spacing: Record<string, number>;
+  /** Flattened colors, e.g. `blue-500` */
+  colors: Record<string, string>;
+  fontSize: Record<string, TailwindFontSize>;
+  fontWeight: Record<string, string>;
+  /** Font stacks, lowercased without quotes */
+  fontFamily: Record<string, string[]>;
+  /** Unitless ratios or pixel values as strings (`1.5`, `12px`) */
+  lineHeight: Record<string, string>;
+  /** In em */
+  letterSpacing: Record<string, number>;
+  /** `DEFAULT` is the bare class (`rounded`) */
+  borderRadius: Record<string, number>;
+  borderWidth: Record<string, number>;
+  boxShadow: Record<string, string>;
+  /** 0 to 1 */
+  opacity: Record<string, number>;
+  maxWidth: Record<string, number>;
+  zIndex: Record<string, string>;
+}
+
+/**
+ * A `tailwind.config` theme (or the whole config) parsed from JSON
+ */
+export type TailwindThemeConfig = Record<string, unknown>;
+
+const REM_IN_PX = 16;
+
+const SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+
+/**
+ * Tailwind v3 default palette, shades 50 to 950
+ */
+const PALETTE: Record<string, string[]> = {
+  slate: ['#f8fafc', '#f1f5f9', '#e2e8f0', '#cbd5e1', '#94a3b8', '#64748b', '#475569', '#334155', '#1e293b', '#0f172a', '#020617'],
+  gray: ['#f9fafb', '#f3f4f6', '#e5e7eb', '#d1d5db', '#9ca3af', '#6b7280', '#4b5563', '#374151', '#1f2937', '#111827', '#030712'],
+  zinc: ['#fafafa', '#f4f4f5', '#e4e4e7', '#d4d4d8', '#a1a1aa', '#71717a', '#52525b', '#3f3f46', '#27272a', '#18181b', '#09090b'],
+  neutral: ['#fafafa', '#f5f5f5', '#e5e5e5', '#d4d4d4', '#a3a3a3', '#737373', '#525252', '#404040', '#262626', '#171717', '#0a0a0a'],
+  stone: ['#fafaf9', '#f5f5f4', '#e7e5e4', '#d6d3d1', '#a8a29e', '#78716c', '#57534e', '#44403c', '#292524', '#1c1917', '#0c0a09'],
+  red: ['#fef2f2', '#fee2e2', '#fecaca', '#fca5a5', '#f87171', '#ef4444', '#dc2626', '#b91c1c', '#991b1b', '#7f1d1d', '#450a0a'],
+  orange: ['#fff7ed', '#ffedd5', '#fed7aa', '#fdba74', '#fb923c', '#f97316', '#ea580c', '#c2410c', '#9a3412', '#7c2d12', '#431407'],
+  amber: ['#fffbeb', '#fef3c7', '#fde68a', '#fcd34d', '#fbbf24', '#f59e0b', '#d97706', '#b45309', '#92400e', '#78350f', '#451a03'],
+  yellow: ['#fefce8', '#fef9c3', '#fef08a', '#fde047', '#facc15', '#eab308', '#ca8a04', '#a16207', '#854d0e', '#713f12', '#422006'],
+  lime: ['#f7fee7', '#ecfccb', '#d9f99d', '#bef264', '#a3e635', '#84cc16', '#65a30d', '#4d7c0f', '#3f6212', '#365314', '#1a2e05'],
+  green: ['#f0fdf4', '#dcfce7', '#bbf7d0', '#86efac', '#4ade80', '#22c55e', '#16a34a', '#15803d', '#166534', '#14532d', '#052e16'],
+  emerald: ['#ecfdf5', '#d1fae5', '#a7f3d0', '#6ee7b7', '#34d399', '#10b981', '#059669', '#047857', '#065f46', '#064e3b', '#022c22'],
+  teal: ['#f0fdfa', '#ccfbf1', '#99f6e4', '#5eead4', '#2dd4bf', '#14b8a6', '#0d9488', '#0f766e', '#115e59', '#134e4a', '#042f2e'],
+  cyan: ['#ecfeff', '#cffafe', '#a5f3fc', '#67e8f9', '#22d3ee', '#06b6d4', '#0891b2', '#0e7490', '#155e75', '#164e63', '#083344'],
+  sky: ['#f0f9ff', '#e0f2fe', '#bae6fd', '#7dd3fc', '#38bdf8', '#0ea5e9', '#0284c7', '#0369a1', '#075985', '#0c4a6e', '#082f49'],
+  blue: ['#eff6ff', '#dbeafe', '#bfdbfe', '#93c5fd', '#60a5fa', '#3b82f6', '#2563eb', '#1d4ed8', '#1e40af', '#1e3a8a', '#172554'],
+  indigo: ['#eef2ff', '#e0e7ff', '#c7d2fe', '#a5b4fc', '#818cf8', '#6366f1', '#4f46e5', '#4338ca', '#3730a3', '#312e81', '#1e1b4b'],
+  violet: ['#f5f3ff', '#ede9fe', '#ddd6fe', '#c4b5fd', '#a78bfa', '#8b5cf6', '#7c3aed', '#6d28d9', '#5b21b6', '#4c1d95', '#2e1065'],
+  purple: ['#faf5ff', '#f3e8ff', '#e9d5ff', '#d8b4fe', '#c084fc', '#a855f7', '#9333ea', '#7e22ce', '#6b21a8', '#581c87', '#3b0764'],
+  fuchsia: ['#fdf4ff', '#fae8ff', '#f5d0fe', '#f0abfc', '#e879f9', '#d946ef', '#c026d3', '#a21caf', '#86198f', '#701a75', '#4a044e'],
+  pink: ['#fdf2f8', '#fce7f3', '#fbcfe8', '#f9a8d4', '#f472b6', '#ec4899', '#db2777', '#be185d', '#9d174d', '#831843', '#500724'],
+  rose: ['#fff1f2', '#ffe4e6', '#fecdd3', '#fda4af', '#fb7185', '#f43f5e', '#e11d48', '#be123c', '#9f1239', '#881337', '#4c0519'],
+};
+
+function buildDefaultColors(): Record<string, string> {
+  const colors: Record<string, string> = {
+    black: '#000000',
+    white: '#ffffff',
+  };
+  for (const [name, shades] of Object.entries(PALETTE)) {
+    shades.forEach((hex, index) => {
+      colors[`${name}-${SHADES[index]}`] = hex;
+    });
+  }
+  return colors;
+}
+
+export const DEFAULT_TAILWIND_THEME: TailwindTheme = {
+  screens: { sm: 640, md: 768, lg: 1024, xl: 1280, '2xl': 1536 },
+  spacing: {
+    '0': 0, px: 1, '0.5': 2, '1': 4, '1.5': 6, '2': 8, '2.5': 10, '3': 12, '3.5': 14,
+    '4': 16, '5': 20, '6': 24, '7': 28, '8': 32, '9': 36, '10': 40, '11': 44, '12': 48,
+    '14': 56, '16': 64, '20': 80, '24': 96, '28': 112, '32': 128, '36': 144, '40': 160,
+    '44': 176, '48': 192, '52': 208, '56': 224, '60': 240, '64': 256, '72': 288, '80': 320,
+    '96': 384,
+  },
+  colors: buildDefaultColors(),
+  fontSize: {
+    xs: { size: 12, lineHeight: 16 },
+    sm: { size: 14, lineHeight: 20 },
+    base: { size: 16, lineHeight: 24 },
+    lg: { size: 18, lineHeight: 28 },
+    xl: { size: 20, lineHeight: 28 },
+    '2xl': { size: 24, lineHeight: 32 },
+    '3xl': { size: 30, lineHeight: 36 },
+    '4xl': { size: 36, lineHeight: 40 },
+    '5xl': { size: 48, lineHeight: 48 },
+    '6xl': { size: 60, lineHeight: 60 },
+    '7xl': { size: 72, lineHeight: 72 },
+    '8xl': { size: 96, lineHeight: 96 },
+    '9xl': { size: 128, lineHeight: 128 },
+  },
+  fontWeight: {
+    thin: '100', extralight: '200', light: '300', normal: '400', medium: '500',
+    semibold: '600', bold: '700', extrabold: '800', black: '900',
+  },
+  fontFamily: {
+    sans: ['ui-sans-serif', 'system-ui', '-apple-system', 'sans-serif'],
+    serif: ['ui-serif', 'georgia', 'cambria', 'serif'],
+    mono: ['ui-monospace', 'sfmono-regular', 'menlo', 'monaco', 'consolas', 'monospace'],
+  },
+  lineHeight: {
+    none: '1', tight: '1.25', snug: '1.375', normal: '1.5', relaxed: '1.625', loose: '2',
+    '3': '12px', '4': '16px', '5': '20px', '6': '24px', '7': '28px', '8': '32px', '9': '36px', '10': '40px',
+  },
+  letterSpacing: {
+    tighter: -0.05, tight: -0.025, normal: 0, wide: 0.025, wider: 0.05, widest: 0.1,
+  },
+  borderRadius: {
+    none: 0, sm: 2, DEFAULT: 4, md: 6, lg: 8, xl: 12, '2xl': 16, '3xl': 24, full: 9999,
+  },
+  borderWidth: { '0': 0, DEFAULT: 1, '2': 2, '4': 4, '8': 8 },
+  boxShadow: {
+    sm: '0 1px 2px 0 rgb(0 0 0 / 0.05)',
+    DEFAULT: '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)',
+    md: '0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)',
+    lg: '0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)',
+    xl: '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)',
+    '2xl': '0 25px 50px -12px rgb(0 0 0 / 0.25)',
+    inner: 'inset 0 2px 4px 0 rgb(0 0 0 / 0.05)',
+    none: 'none',
+  },
+  opacity: Object.fromEntries(
+    [0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80, 85, 90, 95, 100].map(
+      (value) => [String(value), value / 100]
+    )
+  ),
+  maxWidth: {
+    xs: 320, sm: 384, md: 448, lg: 512, xl: 576, '2xl': 672, '3xl': 768,
+    '4xl': 896, '5xl': 1024, '6xl': 1152, '7xl': 1280,
+  },
+  zIndex: { '0': '0', '10': '10', '20': '20', '30': '30', '40': '40', '50': '50', auto: 'auto' },
+};
+
+/**
+ * Build a theme from a `tailwind.config` theme
+ * Keys under `theme` replace the defaults, keys under `theme.extend` are
+ * merged into them. Values that cannot be normalized (functions, CSS
+ * variables) are ignored.
+ * @param config - Parsed config, either `{ theme: {...} }` or the theme itself
+ * @returns Normalized theme
+ */
+export function resolveTailwindTheme(config?: TailwindThemeConfig | null): TailwindTheme {
+  if (!config || typeof config !== 'object') {
+    return DEFAULT_TAILWIND_THEME;
+  }
+
+  const themeConfig = (config.theme && typeof config.theme === 'object'
+    ? config.theme
+    : config) as TailwindThemeConfig;
+  const { extend, ...overrides } = themeConfig;
+
+  const theme: TailwindTheme = { ...DEFAULT_TAILWIND_THEME };
+
+  const apply = (source: TailwindThemeConfig, merge: boolean) => {
+    for (const [key, value] of Object.entries(source)) {
+      if (!(key in theme) || !value || typeof value !== 'object') continue;
+
+      const scaleKey = key as keyof TailwindTheme;
+      const normalized = normalizeScale(scaleKey, value as Record<string, unknown>);
+      Object.assign(theme, { [scaleKey]: merge ? { ...theme[scaleKey], ...normalized } : normalized });
+    }
+  };
+
+  apply(overrides, false);
+  if (extend && typeof extend === 'object') {
+    apply(extend as TailwindThemeConfig, true);
+  }
+
+  return theme;
+}
+
+/**
+ * Normalize one theme scale from config values
+ */
+function normalizeScale(key: keyof TailwindTheme, value: Record<string, unknown>): Record<string, unknown> {
+  const scale: Record<string, unknown> = {};
+
+  switch (key) {
+    case 'colors':
+      return flattenColors(value);
+
+    case 'fontSize':
+      for (const [name, entry] of Object.entries(value)) {
+        const [size, options] = Array.isArray(entry) ? entry : [entry];
+        const px = toPixels(String(size));
+        if (px === null) continue;
+
+        const lineHeightValue = typeof options === 'string' ? options : options?.lineHeight;
+        const lineHeight = lineHeightValue ? resolveLineHeight(String(lineHeightValue), px) : null;
+        scale[name] = lineHeight !== null ? { size: px, lineHeight } : { size: px };
+      }
+      return scale;
+
+    case 'fontFamily':
+      for (const [name, entry] of Object.entries(value)) {
+        const families = Array.isArray(entry) ? entry : String(entry).split(',');
+        scale[name] = families.map((family) => String(family).trim().replace(/["']/g, '').toLowerCase());
+      }
+      return scale;
+
+    case 'fontWeight':
+    case 'zIndex':
+    case 'lineHeight':
+    case 'boxShadow':
+      for (const [name, entry] of Object.entries(value)) {
+        const text = String(entry);
+        scale[name] = key === 'lineHeight' && /rem|em$/.test(text) ? `${toPixels(text)}px` : text;
+      }
+      return scale;
+
+    case 'letterSpacing':
+      for (const [name, entry] of Object.entries(value)) {
+        const em = parseFloat(String(entry));
+        if (!Number.isNaN(em)) scale[name] = em;
+      }
+      return scale;
+
+    case 'opacity':
+      for (const [name, entry] of Object.entries(value)) {
+        const opacity = parseFloat(String(entry));
+        if (!Number.isNaN(opacity)) scale[name] = opacity;
+      }
+      return scale;
+
+    default:
+      // Length scales: screens, spacing, borderRadius, borderWidth, maxWidth
+      for (const [name, entry] of Object.entries(value)) {
+        const px = toPixels(typeof entry === 'object' && entry ? String((entry as { min?: unknown }).min ?? '') : String(entry));
+        if (px !== null) scale[name] = px;
+      }
+      return scale;
+  }
+}
+
+/**
+ * Flatten nested color objects (`{ blue: { 500: '#...' } }` → `blue-500`)
+ */
+function flattenColors(colors: Record<string, unknown>, prefix: string = ''): Record<string, string> {
+  const flat: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(colors)) {
+    const key = name === 'DEFAULT' ? prefix.replace(/-$/, '') : `${prefix}${name}`;
+    if (value && typeof value === 'object') {
+      Object.assign(flat, flattenColors(value as Record<string, unknown>, `${key}-`));
+    } else if (typeof value === 'string' && !value.includes('var(')) {
+      flat[key] = value;
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Convert a length to pixels (px, rem, em, unitless zero)
+ * @returns Pixels, or null for other units
+ */
+export function toPixels(value: string): number | null {
+  const match = value.trim().match(/^(-?[\d.]+)(px|rem|em)?$/);
+  if (!match) return null;
+
+  const number = parseFloat(match[1]);
+  if (Number.isNaN(number)) return null;
+  if (!match[2]) return number === 0 ? 0 : null;
+
+  return match[2] === 'px' ? number : number * REM_IN_PX;
+}
+
+/**
+ * Resolve a line height to pixels for a font size
+ */
+function resolveLineHeight(value: string, fontSize: number): number | null {
+  const px = toPixels(value);
+  if (px !== null && /px|rem$/.test(value)) return px;
+
+  const ratio = parseFloat(value);
+  return Number.isNaN(ratio) ? null : ratio * fontSize;
+}
@@ -0,0 +1,172 @@
+/**
+ * Diff - Compare the measurements of an original element and its clone
+ *
+ * Both trees are walked in parallel (children matched by index). Every node
+ * gets a score from the share of compared properties that match, and the
+ * overall fidelity score is the average over all nodes of both trees.
+ */
+
+import { COMPARED_PROPERTIES, type ElementMeasurement } from './measure';
+
+export interface PropertyDifference {
+  property: string;
+  original: string;
+  clone: string;
+}
+
+export interface NodeMismatch {
+  /** Child indices from the root joined by "/" (empty for the root) */
+  path: string;
+  tag: string;
+  /**
+   * different - node exists in both trees but differs
+   * missing - node exists only in the original
+   * extra - node exists only in the clone
+   */
+  kind: 'different' | 'missing' | 'extra';
+  differences: PropertyDifference[];
+}
+
+export interface VisualDiffResult {
+  /** Fidelity score from 0 (nothing matches) to 100 (identical) */
+  score: number;
+  /** Number of nodes compared (union of both trees) */
+  totalNodes: number;
+  /** Number of nodes without differences */
+  matchingNodes: number;
+  mismatches: NodeMismatch[];
+}
+
+export interface VisualDiffOptions {
+  /** Allowed position difference in pixels (default: 2) */
+  positionTolerance?: number;
+  /** Allowed size difference in pixels (default: 2) */
+  sizeTolerance?: number;
+  /** Compare bounding boxes (default: true) */
+  compareBoxes?: boolean;
+  /** Compare direct text (default: true) */
+  compareText?: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<VisualDiffOptions> = {
+  positionTolerance: 2,
+  sizeTolerance: 2,
+  compareBoxes: true,
+  compareText: true,
+};
+
+/**
+ * Compare an original measurement tree with a clone measurement tree
+ * @param original - Measurement of the original element
+ * @param clone - Measurement of the rendered clone
+ * @param options - Diff options
+ * @returns Visual diff result
+ */
+export function compareMeasurements(
+  original: ElementMeasurement,
+  clone: ElementMeasurement,
+  options: VisualDiffOptions = {}
+): VisualDiffResult {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const mismatches: NodeMismatch[] = [];
+  let totalNodes = 0;
+  let matchingNodes = 0;
+  let scoreSum = 0;
+
+  const walk = (a: ElementMeasurement | undefined, b: ElementMeasurement | undefined, path: string) => {
+    if (!a || !b) {
+      // Every node of an unmatched subtree scores 0
+      const node = (a || b)!;
+      totalNodes += countNodes(node);
+      mismatches.push({
+        path,
+        tag: node.tag,
+        kind: a ? 'missing' : 'extra',
+        differences: [],
+      });
+      return;
+    }
+
+    const { differences, checks } = compareNode(a, b, opts);
+    totalNodes++;
+    scoreSum += 1 - differences.length / checks;
+
+    if (differences.length === 0) {
+      matchingNodes++;
+    } else {
+      mismatches.push({ path, tag: a.tag, kind: 'different', differences });
+    }
+
+    const childCount = Math.max(a.children.length, b.children.length);
+    for (let i = 0; i < childCount; i++) {
+      walk(a.children[i], b.children[i], path ? `${path}/${i}` : String(i));
+    }
+  };
+
+  walk(original, clone, '');
+
+  return {
+    score: totalNodes > 0 ? Math.round((scoreSum / totalNodes) * 100) : 100,
+    totalNodes,
+    matchingNodes,
+    mismatches,
+  };
+}
+
+/**
+ * Compare a single pair of nodes
+ * @returns The differences and how many checks were made
+ */
+function compareNode(
+  a: ElementMeasurement,
+  b: ElementMeasurement,
+  opts: Required<VisualDiffOptions>
+): { differences: PropertyDifference[]; checks: number } {
+  const differences: PropertyDifference[] = [];
+  let checks = 0;
+
+  const check = (property: string, original: string, clone: string, equal: boolean) => {
+    checks++;
+    if (!equal) {
+      differences.push({ property, original, clone });
+    }
+  };
+
+  check('tag', a.tag, b.tag, a.tag === b.tag);
+
+  for (const property of COMPARED_PROPERTIES) {
+    const original = a.styles[property] ?? '';
+    const clone = b.styles[property] ?? '';
+    check(property, original, clone, original === clone);
+  }
+
+  if (opts.compareBoxes) {
+    const boxes: Array<[keyof ElementMeasurement['rect'], number]> = [
+      ['x', opts.positionTolerance],
+      ['y', opts.positionTolerance],
+      ['width', opts.sizeTolerance],
+      ['height', opts.sizeTolerance],
+    ];
+    for (const [key, tolerance] of boxes) {
+      check(
+        `box.${key}`,
+        `${a.rect[key]}px`,
+        `${b.rect[key]}px`,
+        Math.abs(a.rect[key] - b.rect[key]) <= tolerance
+      );
+    }
+  }
+
+  if (opts.compareText) {
+    check('text', a.text, b.text, a.text === b.text);
+  }
+
+  return { differences, checks };
+}
+
+/**
+ * Count the nodes of a measurement tree
+ */
+function countNodes(node: ElementMeasurement): number {
+  return node.children.reduce((count, child) => count + countNodes(child), 1);
+}
@@ -0,0 +1,20 @@
+/**
+ * Visual Diff - Compare an original element with its rendered clone
+ */
+
+export {
+  measureElement,
+  getElementByPath,
+  COMPARED_PROPERTIES,
+  type ElementMeasurement,
+  type MeasuredRect,
+  type MeasureOptions,
+} from './measure';
+
+export {
+  compareMeasurements,
+  type VisualDiffResult,
+  type VisualDiffOptions,
+  type NodeMismatch,
+  type PropertyDifference,
+} from './diff';
@@ -0,0 +1,185 @@
+/**
+ * Measure - Capture the rendered geometry and styles of a DOM subtree
+ *
+ * Measurements are plain JSON so the sandboxed preview can measure its clone
+ * and post the result back to the preview panel.
+ */
+
+/**
+ * Computed style properties that are compared between original and clone
+ */
+export const COMPARED_PROPERTIES = [
+  'display',
+  'position',
+  'box-sizing',
+  'color',
+  'background-color',
+  'background-image',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'line-height',
+  'letter-spacing',
+  'text-align',
+  'text-decoration-line',
+  'text-transform',
+  'white-space',
+  'padding-top',
+  'padding-right',
+  'padding-bottom',
+  'padding-left',
+  'margin-top',
+  'margin-right',
+  'margin-bottom',
+  'margin-left',
+  'border-top-width',
+  'border-right-width',
+  'border-bottom-width',
+  'border-left-width',
+  'border-top-style',
+  'border-top-color',
+  'border-top-left-radius',
+  'border-top-right-radius',
+  'border-bottom-left-radius',
+  'border-bottom-right-radius',
+  'flex-direction',
+  'flex-wrap',
+  'justify-content',
+  'align-items',
+  'gap',
+  'grid-template-columns',
+  'opacity',
+  'box-shadow',
+  'overflow',
+  'visibility',
+] as const;
+
+/**
+ * Elements that never render visible boxes
+ */
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'LINK', 'META']);
+
+export interface MeasuredRect {
+  /** Offset from the measured root's left edge */
+  x: number;
+  /** Offset from the measured root's top edge */
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ElementMeasurement {
+  tag: string;
+  rect: MeasuredRect;
+  styles: Record<string, string>;
+  /** The element's own (direct) text, whitespace-collapsed */
+  text: string;
+  children: ElementMeasurement[];
+}
+
+export interface MeasureOptions {
+  /** Maximum depth to measure (default: 20) */
+  maxDepth?: number;
+  /** Maximum number of elements to measure (default: 500) */
+  maxNodes?: number;
+}
+
+const DEFAULT_OPTIONS: Required<MeasureOptions> = {
+  maxDepth: 20,
+  maxNodes: 500,
+};
+
+/**
+ * Measure an element and its descendants
+ * @param root - Root element
+ * @param options - Measure options
+ * @returns Measurement tree
+ */
+export function measureElement(
+  root: Element,
+  options: MeasureOptions = {}
+): ElementMeasurement {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const rootRect = root.getBoundingClientRect();
+  let remaining = opts.maxNodes;
+
+  const measure = (element: Element, depth: number): ElementMeasurement => {
+    remaining--;
+
+    const rect = element.getBoundingClientRect();
+    const computed = window.getComputedStyle(element);
+    const styles: Record<string, string> = {};
+    for (const property of COMPARED_PROPERTIES) {
+      styles[property] = computed.getPropertyValue(property);
+    }
+
+    const children: ElementMeasurement[] = [];
+    if (depth < opts.maxDepth) {
+      for (const child of getMeasurableChildren(element)) {
+        if (remaining <= 0) break;
+        children.push(measure(child, depth + 1));
+      }
+    }
+
+    return {
+      tag: element.tagName.toLowerCase(),
+      rect: {
+        x: round(rect.left - rootRect.left),
+        y: round(rect.top - rootRect.top),
+        width: round(rect.width),
+        height: round(rect.height),
+      },
+      styles,
+      text: getOwnText(element),
+      children,
+    };
+  };
+
+  return measure(root, 0);
+}
+
+/**
+ * Find the element at a path produced by the diff (child indices joined by "/")
+ * @param root - Root element of the measured tree
+ * @param path - Path such as "0/2/1" (empty for the root)
+ * @returns The element or null
+ */
+export function getElementByPath(root: Element, path: string): Element | null {
+  let current: Element | null = root;
+  const indices = path ? path.split('/').map(Number) : [];
+
+  for (const index of indices) {
+    if (!current) return null;
+    current = getMeasurableChildren(current)[index] || null;
+  }
+
+  return current;
+}
+
+/**
+ * Get the children that take part in measuring
+ */
+function getMeasurableChildren(element: Element): Element[] {
+  return Array.from(element.children).filter((child) => !SKIPPED_TAGS.has(child.tagName));
+}
+
+/**
+ * Get the text of an element's direct text nodes
+ */
+function getOwnText(element: Element): string {
+  let text = '';
+  element.childNodes.forEach((node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent || '';
+    }
+  });
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Round to a tenth of a pixel
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
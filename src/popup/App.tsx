@@ -7,21 +7,44 @@ function App() {
 
   useEffect(() => {
     // Check if React is detected on the current tab
-    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-      if (tabs[0]?.id) {
-        chrome.tabs.sendMessage(
-          tabs[0].id,
-          { type: 'CHECK_REACT' },
-          (response) => {
-            if (chrome.runtime.lastError) {
-              setReactDetected(false);
-              return;
+    const checkReact = () => {
+      chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+        if (tabs[0]?.id) {
+          chrome.tabs.sendMessage(
+            tabs[0].id,
+            { type: 'CHECK_REACT' },
+            (response) => {
+              if (chrome.runtime.lastError) {
+                setReactDetected(false);
+                return;
+              }
+              setReactDetected(response?.reactDetected || false);
             }
-            setReactDetected(response?.reactDetected || false);
-          }
-        );
-      }
-    });
+          );
+        }
+      });
+    };
+    checkReact();
+
+    // React may load after the page did; the content script reports it
+    const handleMessage = (
+      message: { type?: string; reactDetected?: boolean } | undefined,
+      sender: chrome.runtime.MessageSender
+    ) => {
+      if (message?.type !== 'REACT_STATUS') return;
+      chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+        if (sender.tab?.id !== tabs[0]?.id) return;
+        // One frame losing React says nothing about the others: check them all
+        if (message.reactDetected) {
+          setReactDetected(true);
+        } else {
+          checkReact();
+        }
+      });
+    };
+
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
   }, []);
 
   const toggleInspector = () => {
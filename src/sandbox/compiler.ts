@@ -0,0 +1,54 @@
+/**
+ * Compiler - Turns generated TSX/JSX modules into runnable components
+ *
+ * Only used inside the sandbox page, whose CSP allows `new Function`.
+ */
+
+import type { ComponentType } from 'react';
+import { transform } from 'sucrase';
+
+/**
+ * Resolves a module specifier imported by the compiled code
+ */
+export type ModuleResolver = (specifier: string) => unknown;
+
+/**
+ * Compile a TSX/JSX module to CommonJS
+ * @param code - Module source
+ * @param filePath - File name used in error messages
+ * @returns Compiled JavaScript
+ */
+export function compileModule(code: string, filePath: string = 'Component.tsx'): string {
+  return transform(code, {
+    transforms: ['typescript', 'jsx', 'imports'],
+    jsxRuntime: 'classic',
+    production: true,
+    filePath,
+  }).code;
+}
+
+/**
+ * Evaluate a compiled CommonJS module
+ * @param compiled - Output of compileModule
+ * @param resolveModule - Provides the module's imports
+ * @returns The module's exports
+ */
+export function evaluateModule(
+  compiled: string,
+  resolveModule: ModuleResolver
+): Record<string, unknown> {
+  const module = { exports: {} as Record<string, unknown> };
+  const factory = new Function('require', 'module', 'exports', compiled);
+  factory(resolveModule, module, module.exports);
+  return module.exports;
+}
+
+/**
+ * Pick the component exported by a module
+ * @param exports - Module exports
+ * @returns The default export, or the first exported function
+ */
+export function getExportedComponent(exports: Record<string, unknown>): ComponentType | null {
+  if (exports.default) return exports.default as ComponentType;
+  return (Object.values(exports).find((value) => typeof value === 'function') as ComponentType | undefined) || null;
+}
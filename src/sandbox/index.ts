@@ -0,0 +1,204 @@
+// Preview sandbox - renders generated components with a bundled React
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import {
+  PREVIEW_SOURCE,
+  isPreviewMessage,
+  type PreviewMessage,
+  type PreviewRenderMessage,
+} from '@lib/preview/protocol';
+import { measureElement, getElementByPath } from '@lib/visual-diff/measure';
+import { compileModule, evaluateModule, getExportedComponent } from './compiler';
+
+const HIGHLIGHT_ATTRIBUTE = 'data-rcc-diff';
+
+interface ErrorBoundaryProps {
+  onError: (error: Error) => void;
+  children?: React.ReactNode;
+}
+
+/**
+ * Catches render errors of the previewed component
+ */
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+const container = document.getElementById('root')!;
+const root = ReactDOMClient.createRoot(container);
+const styleElement = document.createElement('style');
+document.head.appendChild(styleElement);
+
+const highlightStyle = document.createElement('style');
+highlightStyle.textContent = `[${HIGHLIGHT_ATTRIBUTE}] { outline: 2px solid #dc3545 !important; outline-offset: -1px; }`;
+document.head.appendChild(highlightStyle);
+
+function post(message: PreviewMessage) {
+  window.parent.postMessage(message, '*');
+}
+
+/**
+ * Element the visual diff measures: the rendered root, or - for components
+ * that only render a portal - the first element portalled into the body
+ */
+function getMeasuredRoot(): Element | null {
+  return container.firstElementChild || Array.from(document.body.children).find(
+    (element) => element !== container && element.tagName !== 'SCRIPT'
+  ) || null;
+}
+
+function getContentHeight(): number {
+  return document.documentElement.scrollHeight;
+}
+
+/**
+ * Component used for imports the sandbox cannot provide
+ */
+function PassthroughComponent(props: { children?: React.ReactNode }) {
+  return React.createElement(React.Fragment, null, props.children);
+}
+
+/**
+ * Provide the modules a generated component may import
+ */
+function resolveModule(specifier: string): unknown {
+  switch (specifier) {
+    case 'react':
+      // <Activity> is React 19.2+; older Reacts render its children
+      return 'Activity' in React ? React : { ...React, Activity: PassthroughComponent };
+    case 'react-dom':
+      return ReactDOM;
+    case 'react-dom/client':
+      return ReactDOMClient;
+  }
+
+  // CSS modules: class names map to themselves, matching the generated CSS
+  if (specifier.endsWith('.module.css')) {
+    return new Proxy({}, {
+      get: (_target, key) => (key === '__esModule' ? false : String(key)),
+    });
+  }
+
+  // Plain stylesheets are applied through the RENDER message's CSS
+  if (specifier.endsWith('.css')) {
+    return {};
+  }
+
+  console.warn(`React Component Cloner: "${specifier}" is not available in the preview`);
+  return new Proxy({}, {
+    get: (_target, key) => (key === '__esModule' ? true : PassthroughComponent),
+  });
+}
+
+/**
+ * Compile and render a component module
+ */
+function renderPreview(message: PreviewRenderMessage) {
+  let settled = false;
+  const fail = (error: unknown) => {
+    if (settled) return;
+    settled = true;
+    post({
+      source: PREVIEW_SOURCE,
+      type: 'ERROR',
+      id: message.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  };
+
+  let Component: React.ComponentType | null;
+  try {
+    const exports = evaluateModule(compileModule(message.code), resolveModule);
+    Component = getExportedComponent(exports);
+    if (!Component) {
+      throw new Error('Generated code does not export a component');
+    }
+  } catch (error) {
+    fail(error);
+    return;
+  }
+
+  styleElement.textContent = message.css;
+
+  ReactDOM.flushSync(() => {
+    root.render(
+      React.createElement(
+        ErrorBoundary,
+        { key: message.id, onError: fail },
+        React.createElement(Component)
+      )
+    );
+  });
+
+  if (!settled) {
+    settled = true;
+    post({
+      source: PREVIEW_SOURCE,
+      type: 'RENDERED',
+      id: message.id,
+      height: getContentHeight(),
+    });
+  }
+}
+
+/**
+ * Mark rendered nodes found by the visual diff
+ */
+function highlightNodes(paths: string[]) {
+  document.body.querySelectorAll(`[${HIGHLIGHT_ATTRIBUTE}]`).forEach((element) => {
+    element.removeAttribute(HIGHLIGHT_ATTRIBUTE);
+  });
+
+  const rootElement = getMeasuredRoot();
+  if (!rootElement) return;
+
+  for (const path of paths) {
+    getElementByPath(rootElement, path)?.setAttribute(HIGHLIGHT_ATTRIBUTE, '');
+  }
+}
+
+window.addEventListener('message', (event) => {
+  if (event.source !== window.parent || !isPreviewMessage(event.data)) return;
+
+  const message = event.data;
+  switch (message.type) {
+    case 'RENDER':
+      renderPreview(message);
+      break;
+
+    case 'MEASURE': {
+      const rootElement = getMeasuredRoot();
+      post({
+        source: PREVIEW_SOURCE,
+        type: 'MEASURED',
+        id: message.id,
+        measurement: rootElement ? measureElement(rootElement) : null,
+      });
+      break;
+    }
+
+    case 'HIGHLIGHT':
+      highlightNodes(message.paths);
+      break;
+  }
+});
+
+// Keep the host iframe sized to the content (e.g. after images load)
+new ResizeObserver(() => {
+  post({ source: PREVIEW_SOURCE, type: 'RESIZE', height: getContentHeight() });
+}).observe(document.body);
+
+post({ source: PREVIEW_SOURCE, type: 'READY' });
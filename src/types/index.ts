@@ -26,34 +26,278 @@ export interface ReactFiberNode {
   _debugOwner?: ReactFiberNode;
 }
 
+export interface SourceLocation {
+  fileName: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/**
+ * Plain-JSON capture of a Fiber node and its subtree
+ * Snapshots outlive the page they were taken from, so they can be posted
+ * between worlds, stored in history and used to regenerate code.
+ */
+export interface FiberSnapshot {
+  /** Page-side fiber id (only meaningful while the page is open) */
+  id: string;
+  /** Canonical work tag, whichever React version it came from (see WorkTag) */
+  tag: number;
+  /** Component name, or the tag name for host components */
+  name: string;
+  key: string | null;
+  /** Sanitized props (without children) */
+  props: Record<string, unknown>;
+  /** Text content for text nodes */
+  text: string | null;
+  hooks: HookState[];
+  /** Class component state */
+  state: Record<string, unknown> | null;
+  /** Id of the host DOM element (see NODE_ID_ATTRIBUTE) */
+  nodeId: string | null;
+  source: SourceLocation | null;
+  /** Definition of a styled-components / Emotion component, read off its type */
+  styled?: StyledSource;
+  /** Source of the component's render logic (root of a capture only) */
+  renderSource?: RenderSource;
+  /** What placeholders in the props stand for, by prop path (elements only, below the root of a capture) */
+  propDetails?: Record<string, PropValueDetail>;
+  /** Loaded through `React.lazy` */
+  lazy?: boolean;
+  /** Suspense boundaries: the `fallback` element */
+  fallback?: FiberSnapshot;
+  /** Portals: selector of the DOM node their children are rendered into (`body`, `#modal-root`) */
+  portalContainer?: string;
+  children: FiberSnapshot[];
+}
+
+/**
+ * Render logic of a component as it ships in the page's bundle
+ */
+export interface RenderSource {
+  /** Function component (including memo / forwardRef) or class component */
+  kind: 'function' | 'class';
+  /** `type.toString()` for function components, the `render` method for classes */
+  code: string;
+}
+
+/**
+ * A prop value that is captured as a placeholder (`[Function: onChange]`,
+ * `[Map]`, `[Set]`, `[React Element]`), described for type inference and
+ * code generation. Keyed by prop path: `onChange`, `user.format`,
+ * `items[].onSelect`; elements by the path of each one (`items[2].icon`).
+ */
+export type PropValueDetail =
+  | {
+      kind: 'function';
+      name: string;
+      /** `fn.length`: parameters before the first default or rest parameter */
+      length: number;
+      /** `fn.toString()`, or null for native, bound or very long functions */
+      source: string | null;
+    }
+  | { kind: 'map'; entries: Array<[unknown, unknown]> }
+  | { kind: 'set'; values: unknown[] }
+  | { kind: 'element'; snapshot: FiberSnapshot };
+
+/**
+ * A component's original source, recovered through the page's source maps
+ */
+export interface OriginalSource {
+  /** Source path as listed in the map, e.g. `webpack://app/./src/Button.tsx` */
+  fileName: string;
+  /** 1-based line of the component's definition */
+  lineNumber: number;
+  /** 0-based column of the component's definition */
+  columnNumber: number;
+  /** Original component name, when the map or the source has it */
+  name: string | null;
+  /** Original file contents (`sourcesContent`), null when the map leaves them out */
+  code: string | null;
+  /** URL of the source map */
+  mapUrl: string;
+}
+
+/**
+ * Source of a styled component (`styled.button\`...\``)
+ */
+export interface StyledSource {
+  library: 'styled-components' | 'emotion';
+  /** HTML tag the component renders */
+  tag: string;
+  /** Name given by the library or its Babel plugin (`Button`, `styled.div`) */
+  displayName: string | null;
+  /** styled-components id (`sc-bdVaJa`), null for Emotion */
+  componentId: string | null;
+  /** Template parts in order, base styles of extended components first */
+  template: StyledTemplatePart[];
+  /** `.attrs()` arguments */
+  attrs: StyledAttrs[];
+}
+
+/**
+ * An `.attrs()` argument: a function's source (when self-contained) and the
+ * props object it produced, or an object
+ */
+export interface StyledAttrs {
+  source: string | null;
+  value: Record<string, string | number | boolean | null>;
+}
+
+/**
+ * Part of a styled template: static CSS, or an interpolation with its source
+ * when the function only depends on its arguments, and the value it had for
+ * the captured props otherwise
+ */
+export type StyledTemplatePart =
+  | { type: 'css'; text: string }
+  | { type: 'function'; source: string | null; value: string };
+
 export interface ComponentInfo {
   name: string;
   type: ComponentType;
   props: Record<string, any>;
   children: ComponentInfo[];
+  /** Live DOM node (null once stored or after the page has gone) */
   domNode: HTMLElement | null;
-  fiberNode: ReactFiberNode;
+  /** Live DOM nodes rendered through portals, outside of domNode (root of a capture only) */
+  portalNodes?: HTMLElement[];
+  snapshot: FiberSnapshot;
   styles: ExtractedStyles;
+  /** Styles of every host element in the subtree, keyed by node id */
+  nodeStyles?: Record<string, NodeStyle>;
+  /** The page's own Tailwind classes, when the site uses Tailwind */
+  tailwind?: TailwindClassReport;
+  /** The page's CSS Modules classes and rules, when the site uses CSS Modules */
+  cssModules?: CSSModuleReport;
+  /** Original source file, when the page ships source maps */
+  originalSource?: OriginalSource;
   hooks?: HookState[];
+  /** Distinct snapshots recorded while the user interacted with the component */
+  variants?: FiberSnapshot[];
+  /** Props of every mounted instance of the component, when there are several */
+  instances?: Array<Record<string, unknown>>;
 }
 
 export type ComponentType =
   | 'function'
   | 'class'
   | 'html'
+  | 'html.hoistable'
+  | 'html.singleton'
+  | 'text'
+  | 'root'
+  | 'portal'
   | 'memo'
   | 'forwardRef'
+  | 'lazy'
   | 'fragment'
+  | 'mode'
+  | 'profiler'
+  | 'suspense'
+  | 'suspense.list'
+  | 'activity'
+  | 'throw'
   | 'context.provider'
-  | 'context.consumer';
+  | 'context.consumer'
+  | 'other';
 
 export interface ExtractedStyles {
   inline: Record<string, string>;
   computed: Record<string, string>;
   classes: string[];
   strategy: StyleStrategy;
+  /** Pseudo-element and interaction-state styles, keyed by selector suffix (`::before`, `:hover`) */
+  pseudo?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Extracted styles of a single host element
+ */
+export interface NodeStyle {
+  /** Generated class name, stable for the same subtree */
+  className: string;
+  /** HTML tag of the element */
+  tag: string;
+  /** Computed styles (inherited values equal to the parent's are left out) */
+  styles: Record<string, string>;
+  /** Pseudo-element and interaction-state styles, keyed by selector suffix (`::before`, `:hover`) */
+  pseudo?: Record<string, Record<string, string>>;
+  /** Authored stylesheet rules matching the element (see StyleSource) */
+  rules?: NodeStyleRule[];
+  /** Styles changing at wider viewports; `styles` then holds the narrowest layout */
+  responsive?: ResponsiveStyle[];
+}
+
+/**
+ * Tailwind classes found in a subtree, checked against the page's stylesheets
+ */
+export interface TailwindClassReport {
+  /** Classes with a rule in the page's stylesheets */
+  resolved: string[];
+  /** Classes without a rule (purged, script hooks or cross-origin sheets) */
+  unresolved: string[];
+  /** Classes with arbitrary values or variants (`bg-[#ff5a1f]`) */
+  safelist: string[];
+  /** Theme values beyond the default theme, per scale (`colors.brand`) */
+  themeExtend: Record<string, Record<string, string>>;
+}
+
+/**
+ * CSS Modules classes found in a subtree, mapped back to their local names
+ */
+export interface CSSModuleReport {
+  /** Local name per hashed class (`Button_primary__2x3y4` → `primary`) */
+  classes: Record<string, string>;
+  /** Local classes each class composes (`primary` → `['base']`) */
+  composes: Record<string, string[]>;
+  /** The modules' rules in source order, with local names */
+  rules: CSSModuleRule[];
+  /** Hashed classes without a rule in the page's stylesheets */
+  unresolved: string[];
 }
 
+/**
+ * A rule of a regenerated CSS module
+ */
+export interface CSSModuleRule {
+  /** Selector with local class names (`.primary:hover`, `0%` in keyframes) */
+  selector: string;
+  /** Enclosing at-rules, outermost first, e.g. `@media (min-width: 768px)` */
+  conditions: string[];
+  /** Declarations as authored; `composes` comes first */
+  styles: Record<string, string>;
+}
+
+/**
+ * Styles of an element that change from a breakpoint on (mobile first)
+ */
+export interface ResponsiveStyle {
+  /** Breakpoint name, e.g. `md` */
+  name: string;
+  /** Viewport width in pixels the styles apply from */
+  minWidth: number;
+  /** Properties whose values differ from the previous breakpoint */
+  styles: Record<string, string>;
+}
+
+/**
+ * Authored declarations for one pseudo/condition block of an element
+ */
+export interface NodeStyleRule {
+  /** States and pseudo-element, e.g. `:hover` or `::before` ('' for the element itself) */
+  pseudo: string;
+  /** Enclosing at-rules, outermost first, e.g. `@media (min-width: 768px)` */
+  conditions: string[];
+  /** Declarations as authored (`var()` references and relative units kept) */
+  styles: Record<string, string>;
+}
+
+/**
+ * Where generated styles come from: resolved computed values or the
+ * authored stylesheet rules matching each element
+ */
+export type StyleSource = 'computed' | 'rules';
+
 export type StyleStrategy =
   | 'inline'
   | 'css-module'
@@ -95,7 +339,7 @@ export interface ComponentHistory {
   id: number;
   timestamp: string;
   component: ComponentInfo;
-  generatedCode: GeneratedCode;
+  generatedCode?: GeneratedCode;
   url: string;
 }
 
@@ -36,8 +36,11 @@ export default defineConfig({
     rollupOptions: {
       input: {
         popup: resolve(__dirname, 'popup.html'),
+        sandbox: resolve(__dirname, 'sandbox.html'),
         content: resolve(__dirname, 'src/content/index.ts'),
-        background: resolve(__dirname, 'src/background/index.ts')
+        background: resolve(__dirname, 'src/background/index.ts'),
+        injected: resolve(__dirname, 'src/injected/index.ts')
+        // hook.js is built separately (see vite.hook.config.ts)
       },
       output: {
         entryFileNames: (chunkInfo) => {
@@ -48,6 +51,9 @@ export default defineConfig({
           if (chunkInfo.name === 'background') {
             return 'background.js';
           }
+          if (chunkInfo.name === 'injected') {
+            return 'injected.js';
+          }
           return 'assets/[name]-[hash].js';
         },
         chunkFileNames: 'assets/[name]-[hash].js',
@@ -0,0 +1,26 @@
+import { defineConfig } from 'vite';
+import { resolve } from 'path';
+
+// The DevTools hook runs as a classic content script at document_start, where
+// `import` is a syntax error: it is built on its own, as one self-contained
+// script, after the main build (which empties dist/)
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, './src'),
+      '@lib': resolve(__dirname, './src/lib')
+    }
+  },
+  build: {
+    outDir: 'dist',
+    emptyOutDir: false,
+    copyPublicDir: false,
+    sourcemap: process.env.NODE_ENV === 'development',
+    lib: {
+      entry: resolve(__dirname, 'src/injected/hook.ts'),
+      formats: ['iife'],
+      name: 'ReactComponentClonerHook',
+      fileName: () => 'hook.js'
+    }
+  }
+});